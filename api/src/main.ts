@@ -1,14 +1,71 @@
 import express from 'express';
+import type { Request } from 'express';
+import type { Subject } from '@dashforge/rbac/core';
+import { createRbacGuard } from './rbac/rbac-guard.js';
+import { policy } from './rbac/policy.js';
 
 const host = process.env.HOST ?? 'localhost';
 const port = process.env.PORT ? Number(process.env.PORT) : 3000;
 
 const app = express();
 
+/**
+ * Development subject resolver: trusts the x-user-id / x-user-roles headers,
+ * so anyone can claim any role. The server refuses to start with it in
+ * production; replace it with a resolver reading the session or a verified
+ * token.
+ */
+function subjectFromHeaders(req: Request): Subject | null {
+  const id = req.header('x-user-id');
+
+  if (!id) {
+    return null;
+  }
+
+  const roles = (req.header('x-user-roles') ?? '')
+    .split(',')
+    .map((role) => role.trim())
+    .filter(Boolean);
+
+  return { id, roles };
+}
+
+if (process.env.NODE_ENV === 'production') {
+  throw new Error(
+    '[api] The header-based development subject resolver must not run in production: configure a session or token resolver'
+  );
+}
+
+const rbac = createRbacGuard({
+  policy,
+  resolveSubject: subjectFromHeaders,
+  resolveScope: (req) => req.header('x-scope'),
+});
+
 app.get('/', (req, res) => {
   res.send({ message: 'Hello API' });
 });
 
+app.get(
+  '/bookings',
+  rbac.requireAccess({ action: 'read', resource: 'booking' }),
+  (req, res) => {
+    res.send({ bookings: [] });
+  }
+);
+
+app.delete(
+  '/bookings/:id',
+  rbac.requireAccess((req) => ({
+    action: 'delete',
+    resource: 'booking',
+    resourceData: { id: req.params['id'] },
+  })),
+  (req, res) => {
+    res.status(204).end();
+  }
+);
+
 app.listen(port, host, () => {
   console.log(`[ ready ] http://${host}:${port}`);
 });
@@ -0,0 +1,30 @@
+/**
+ * API access policy
+ *
+ * Same RbacPolicy shape the UI passes to <RbacProvider>, so both sides can
+ * share one definition (e.g. a policy document loaded with loadPolicy()).
+ */
+
+import type { RbacPolicy } from '@dashforge/rbac/core';
+
+export const policy: RbacPolicy = {
+  roles: [
+    {
+      name: 'viewer',
+      permissions: [{ action: 'read', resource: 'booking' }],
+    },
+    {
+      name: 'editor',
+      inherits: ['viewer'],
+      permissions: [
+        { action: 'create', resource: 'booking' },
+        { action: 'update', resource: 'booking' },
+      ],
+    },
+    {
+      name: 'admin',
+      inherits: ['editor'],
+      permissions: [{ action: '*', resource: '*' }],
+    },
+  ],
+};
@@ -0,0 +1,209 @@
+import type { NextFunction, Request, Response } from 'express';
+import type { RbacPolicy, Subject } from '@dashforge/rbac/core';
+import { createRbacGuard, getSubject } from './rbac-guard';
+
+const policy: RbacPolicy = {
+  roles: [
+    {
+      name: 'viewer',
+      permissions: [{ action: 'read', resource: 'booking' }],
+    },
+    {
+      name: 'editor',
+      inherits: ['viewer'],
+      permissions: [
+        {
+          action: 'update',
+          resource: 'booking',
+          condition: {
+            op: 'eq',
+            left: { ref: 'resourceData.ownerId' },
+            right: { ref: 'subject.id' },
+          },
+        },
+      ],
+    },
+  ],
+};
+
+function mockRequest(headers: Record<string, string> = {}): Request {
+  return {
+    header: (name: string) => headers[name.toLowerCase()],
+  } as unknown as Request;
+}
+
+function mockResponse() {
+  const res = {
+    locals: {} as Record<string, unknown>,
+    statusCode: 200,
+    body: undefined as unknown,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+  };
+  return res;
+}
+
+/**
+ * Runs a middleware and resolves once it calls next or responds.
+ */
+function run(
+  handler: (req: Request, res: Response, next: NextFunction) => void,
+  req: Request
+) {
+  const res = mockResponse();
+  return new Promise<{ res: typeof res; nextArg: unknown; called: boolean }>(
+    (resolve) => {
+      const original = res.json;
+      res.json = (body: unknown) => {
+        original(body);
+        resolve({ res, nextArg: undefined, called: false });
+        return res;
+      };
+      handler(req, res as unknown as Response, (arg?: unknown) =>
+        resolve({ res, nextArg: arg, called: true })
+      );
+    }
+  );
+}
+
+describe('createRbacGuard', () => {
+  const viewer: Subject = { id: 'u1', roles: ['viewer'] };
+
+  it('should call next when every request is granted', async () => {
+    const guard = createRbacGuard({ policy, resolveSubject: () => viewer });
+
+    const result = await run(
+      guard.requireAccess({ action: 'read', resource: 'booking' }),
+      mockRequest()
+    );
+
+    expect(result.called).toBe(true);
+    expect(result.nextArg).toBeUndefined();
+    expect(getSubject(result.res as unknown as Response)).toBe(viewer);
+  });
+
+  it('should respond 403 with the denied requests', async () => {
+    const guard = createRbacGuard({ policy, resolveSubject: () => viewer });
+
+    const result = await run(
+      guard.requireAccess([
+        { action: 'read', resource: 'booking' },
+        { action: 'delete', resource: 'booking' },
+      ]),
+      mockRequest()
+    );
+
+    expect(result.called).toBe(false);
+    expect(result.res.statusCode).toBe(403);
+    expect(result.res.body).toEqual({
+      error: 'FORBIDDEN',
+      message: 'Access denied',
+      denied: [{ action: 'delete', resource: 'booking' }],
+    });
+  });
+
+  it('should respond 401 when no subject is resolved', async () => {
+    const guard = createRbacGuard({
+      policy,
+      resolveSubject: async () => null,
+    });
+
+    const result = await run(
+      guard.requireAccess({ action: 'read', resource: 'booking' }),
+      mockRequest()
+    );
+
+    expect(result.res.statusCode).toBe(401);
+    expect(result.res.body).toEqual({
+      error: 'UNAUTHENTICATED',
+      message: 'Authentication required',
+    });
+  });
+
+  it('should build requests from the Express request', async () => {
+    const guard = createRbacGuard({
+      policy,
+      resolveSubject: () => ({ id: 'u1', roles: ['editor'] }),
+    });
+    const access = guard.requireAccess((req) => ({
+      action: 'update',
+      resource: 'booking',
+      resourceData: { ownerId: req.header('x-owner') },
+    }));
+
+    const own = await run(access, mockRequest({ 'x-owner': 'u1' }));
+    const other = await run(access, mockRequest({ 'x-owner': 'u2' }));
+
+    expect(own.called).toBe(true);
+    expect(other.res.statusCode).toBe(403);
+  });
+
+  it('should apply the resolved scope', async () => {
+    const guard = createRbacGuard({
+      policy,
+      resolveSubject: () => ({
+        id: 'u1',
+        roles: [],
+        scopedRoles: [{ scope: 'workspace:a', roles: ['viewer'] }],
+      }),
+      resolveScope: (req) => req.header('x-scope'),
+    });
+    const access = guard.requireAccess({ action: 'read', resource: 'booking' });
+
+    const inScope = await run(
+      access,
+      mockRequest({ 'x-scope': 'workspace:a' })
+    );
+    const outOfScope = await run(
+      access,
+      mockRequest({ 'x-scope': 'workspace:b' })
+    );
+
+    expect(inScope.called).toBe(true);
+    expect(outOfScope.res.body).toEqual({
+      error: 'FORBIDDEN',
+      message: 'Access denied',
+      denied: [{ action: 'read', resource: 'booking', scope: 'workspace:b' }],
+    });
+  });
+
+  it('should pass resolver errors to next', async () => {
+    const failure = new Error('session store down');
+    const guard = createRbacGuard({
+      policy,
+      resolveSubject: () => {
+        throw failure;
+      },
+    });
+
+    const result = await run(guard.authenticate, mockRequest());
+
+    expect(result.nextArg).toBe(failure);
+  });
+
+  it('should reuse the subject resolved by authenticate', async () => {
+    const resolveSubject = jest.fn(() => viewer);
+    const guard = createRbacGuard({ policy, resolveSubject });
+    const req = mockRequest();
+    const res = mockResponse();
+    const next = jest.fn();
+
+    guard.authenticate(req, res as unknown as Response, next);
+    await new Promise((resolve) => setImmediate(resolve));
+    guard.requireAccess({ action: 'read', resource: 'booking' })(
+      req,
+      res as unknown as Response,
+      next
+    );
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(resolveSubject).toHaveBeenCalledTimes(1);
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+});
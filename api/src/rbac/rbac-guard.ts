@@ -0,0 +1,183 @@
+/**
+ * RBAC route guard
+ *
+ * Enforces the @dashforge/rbac policy used by the UI on API routes.
+ * The subject is resolved per request by a pluggable resolver and
+ * every route declares the access requests it needs.
+ */
+
+import { createRbacEngine, withScope } from '@dashforge/rbac/core';
+import type {
+  AccessRequest,
+  RbacEngine,
+  RbacEngineOptions,
+  RbacPolicy,
+  Subject,
+} from '@dashforge/rbac/core';
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+
+/**
+ * Builds the subject of a request (session, token, API key...).
+ * null/undefined means the request is unauthenticated.
+ */
+export type SubjectResolver = (
+  req: Request
+) => Subject | null | undefined | Promise<Subject | null | undefined>;
+
+/**
+ * Access requests of a route. A function receives the request, so
+ * resourceData can be taken from params or body. Every request must be
+ * granted.
+ */
+export type RouteAccess =
+  | AccessRequest
+  | AccessRequest[]
+  | ((req: Request) => AccessRequest | AccessRequest[]);
+
+export interface RbacGuardOptions {
+  policy: RbacPolicy;
+  resolveSubject: SubjectResolver;
+  /**
+   * Active scope of a request (tenant, organization, project), applied to
+   * every access request that does not name its own.
+   */
+  resolveScope?: (req: Request) => string | undefined;
+  engineOptions?: RbacEngineOptions;
+}
+
+/**
+ * Body of 401 / 403 responses.
+ */
+export interface RbacErrorBody {
+  error: 'UNAUTHENTICATED' | 'FORBIDDEN';
+  message: string;
+  denied?: Array<Pick<AccessRequest, 'action' | 'resource' | 'scope'>>;
+}
+
+export interface RbacGuard {
+  engine: RbacEngine;
+  /**
+   * Resolves the subject into res.locals.subject; responds 401 when there is none.
+   */
+  authenticate: RequestHandler;
+  /**
+   * Responds 403 unless every access request is granted.
+   * Resolves the subject first when authenticate did not run.
+   */
+  requireAccess(access: RouteAccess): RequestHandler;
+}
+
+/**
+ * Returns the subject resolved by the guard.
+ *
+ * @throws Error if no guard ran for this request
+ */
+export function getSubject(res: Response): Subject {
+  const subject = res.locals['subject'] as Subject | undefined;
+
+  if (!subject) {
+    throw new Error(
+      'getSubject() requires an RBAC guard (authenticate or requireAccess) on the route.'
+    );
+  }
+
+  return subject;
+}
+
+/**
+ * Creates Express middleware enforcing the policy.
+ * The engine is created once and shared by every route.
+ *
+ * @example
+ * ```ts
+ * const rbac = createRbacGuard({ policy, resolveSubject: fromSession });
+ *
+ * app.delete(
+ *   '/bookings/:id',
+ *   rbac.requireAccess((req) => ({
+ *     action: 'delete',
+ *     resource: 'booking',
+ *     resourceData: { id: req.params.id },
+ *   })),
+ *   deleteBooking
+ * );
+ * ```
+ */
+export function createRbacGuard(options: RbacGuardOptions): RbacGuard {
+  const { policy, resolveSubject, resolveScope, engineOptions } = options;
+  const engine = createRbacEngine(policy, engineOptions);
+
+  /**
+   * Resolves and stores the subject. Returns false after responding 401.
+   */
+  async function ensureSubject(req: Request, res: Response): Promise<boolean> {
+    if (res.locals['subject']) {
+      return true;
+    }
+
+    const subject = await resolveSubject(req);
+
+    if (!subject) {
+      sendError(res, 401, {
+        error: 'UNAUTHENTICATED',
+        message: 'Authentication required',
+      });
+      return false;
+    }
+
+    res.locals['subject'] = subject;
+    return true;
+  }
+
+  const authenticate: RequestHandler = (req, res, next) => {
+    ensureSubject(req, res).then((ok) => {
+      if (ok) {
+        next();
+      }
+    }, next);
+  };
+
+  function requireAccess(access: RouteAccess): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const check = async () => {
+        if (!(await ensureSubject(req, res))) {
+          return;
+        }
+
+        const subject = getSubject(res);
+        const scope = resolveScope?.(req);
+        const declared = typeof access === 'function' ? access(req) : access;
+        const requests = (Array.isArray(declared) ? declared : [declared]).map(
+          (request) => withScope(request, scope)
+        );
+
+        const denied = requests.filter(
+          (request) => !engine.can(subject, request)
+        );
+
+        if (denied.length > 0) {
+          sendError(res, 403, {
+            error: 'FORBIDDEN',
+            message: 'Access denied',
+            denied: denied.map(({ action, resource, scope }) => ({
+              action,
+              resource,
+              ...(scope !== undefined && { scope }),
+            })),
+          });
+          return;
+        }
+
+        next();
+      };
+
+      check().catch(next);
+    };
+  }
+
+  return { engine, authenticate, requireAccess };
+}
+
+function sendError(res: Response, status: 401 | 403, body: RbacErrorBody) {
+  res.status(status).json(body);
+}
@@ -24,7 +24,13 @@ module.exports = withNx(
     outputPath: './dist',
     tsConfig: './tsconfig.lib.json',
     compiler: 'babel',
-    external: ['react', 'react-dom', 'react/jsx-runtime', '@dashforge/ui-core'],
+    external: [
+      'react',
+      'react-dom',
+      'react/jsx-runtime',
+      '@dashforge/ui-core',
+      '@dashforge/rbac',
+    ],
     format: ['esm'],
     sourcemap: true,
     assets: [
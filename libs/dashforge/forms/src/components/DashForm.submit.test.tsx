@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from 'vitest';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { useContext } from 'react';
+import { DashFormContext } from '@dashforge/ui-core';
+import { DashForm } from './DashForm';
+import { FormErrorSummary } from './FormErrorSummary';
+import { useDashFieldMeta } from '../hooks/useDashFieldMeta';
+import { useDashFormSubmit } from '../hooks/useDashFormSubmit';
+import { SubmitError } from '../core/submitErrors';
+import type { DashFormSubmitHandler } from '../core/submitErrors';
+
+/**
+ * SUBMIT LIFECYCLE — submission errors and status
+ *
+ * These tests verify:
+ *   - a SubmitErrorPayload returned or thrown by onSubmit is mapped onto the
+ *     fields (bridge errors) and the form-level `root.server` error,
+ *   - the status goes idle → submitting → succeeded / failed,
+ *   - FormErrorSummary lists the errors and focuses a field on click,
+ *   - a server error is cleared once its field changes.
+ */
+
+interface SignupForm {
+  email: string;
+  password: string;
+}
+
+const DEFAULTS: SignupForm = { email: 'ada@example.com', password: 'secret' };
+
+function Field({ name, required }: { name: keyof SignupForm; required?: boolean }) {
+  const bridge = useContext(DashFormContext);
+  const register = bridge?.register?.(
+    name,
+    required ? { required: `${name} is required` } : undefined
+  );
+  const { error } = useDashFieldMeta(name);
+  return (
+    <>
+      <input aria-label={name} {...register} />
+      {error && <span data-testid={`${name}-error`}>{error.message}</span>}
+    </>
+  );
+}
+
+function Status() {
+  const { status, formError } = useDashFormSubmit();
+  return (
+    <>
+      <span data-testid="status">{status}</span>
+      <span data-testid="form-error">{formError ?? ''}</span>
+    </>
+  );
+}
+
+function renderForm(
+  onSubmit: DashFormSubmitHandler<SignupForm>,
+  defaultValues: SignupForm = DEFAULTS
+) {
+  const { container } = render(
+    <DashForm<SignupForm> defaultValues={defaultValues} onSubmit={onSubmit}>
+      <FormErrorSummary labels={{ email: 'Email' }} />
+      <Field name="email" required />
+      <Field name="password" />
+      <Status />
+    </DashForm>
+  );
+  const form = container.querySelector('form') as HTMLFormElement;
+  return { submit: () => fireEvent.submit(form) };
+}
+
+const status = () => screen.getByTestId('status').textContent;
+const input = (name: string) => screen.getByLabelText(name) as HTMLInputElement;
+
+describe('DashForm submit lifecycle', () => {
+  it('maps a returned payload onto the fields and the form error', async () => {
+    const { submit } = renderForm(() => ({
+      fieldErrors: { email: 'Already taken' },
+      formError: 'Signup failed',
+    }));
+
+    expect(status()).toBe('idle');
+    submit();
+
+    expect((await screen.findByTestId('email-error')).textContent).toBe(
+      'Already taken'
+    );
+    expect(status()).toBe('failed');
+    expect(screen.getByTestId('form-error').textContent).toBe('Signup failed');
+    expect(document.activeElement).toBe(input('email'));
+
+    const summary = screen.getByRole('alert');
+    expect(summary.textContent).toContain('Signup failed');
+    expect(summary.textContent).toContain('Email: Already taken');
+  });
+
+  it('maps a thrown SubmitError', async () => {
+    const { submit } = renderForm(async () => {
+      throw new SubmitError({ fieldErrors: { password: 'Too weak' } });
+    });
+
+    submit();
+
+    expect((await screen.findByTestId('password-error')).textContent).toBe(
+      'Too weak'
+    );
+    expect(status()).toBe('failed');
+  });
+
+  it('goes through submitting to succeeded', async () => {
+    let finish: () => void = () => undefined;
+    const onSubmit = vi.fn(
+      () => new Promise<void>((resolve) => (finish = resolve))
+    );
+    const { submit } = renderForm(onSubmit);
+
+    submit();
+    expect(status()).toBe('submitting');
+    await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+
+    await act(async () => finish());
+    expect(status()).toBe('succeeded');
+    expect(screen.queryByRole('alert')).toBeNull();
+  });
+
+  it('fails on client validation without calling onSubmit', async () => {
+    const onSubmit = vi.fn();
+    const { submit } = renderForm(onSubmit, { email: '', password: '' });
+
+    submit();
+
+    await waitFor(() => expect(status()).toBe('failed'));
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    const item = screen.getByRole('button', { name: 'Email: email is required' });
+    input('password').focus();
+    fireEvent.click(item);
+    await waitFor(() => expect(document.activeElement).toBe(input('email')));
+  });
+
+  it('clears a server error when its field changes', async () => {
+    const { submit } = renderForm(() => ({
+      fieldErrors: { password: 'Too weak' },
+    }));
+
+    submit();
+    await screen.findByTestId('password-error');
+
+    fireEvent.change(input('password'), { target: { value: 'longer secret' } });
+
+    await waitFor(() =>
+      expect(screen.queryByTestId('password-error')).toBeNull()
+    );
+  });
+});
@@ -10,21 +10,37 @@ import { useDashFormContext } from '../core/useDashFormContext';
 function DashFormInner<TFieldValues extends FieldValues = FieldValues>({
   children,
   onSubmit,
+  onKeyDown,
   ...formProps
 }: Omit<
   DashFormProps<TFieldValues>,
-  'engine' | 'defaultValues' | 'debug' | 'mode'
+  | 'engine'
+  | 'defaultValues'
+  | 'debug'
+  | 'mode'
+  | 'fieldAccess'
+  | 'resolveAccess'
+  | 'draft'
+  | 'crossFieldRules'
+  | 'history'
 >) {
-  const { rhf } = useDashFormContext<TFieldValues>();
+  const { createSubmitHandler, history } = useDashFormContext<TFieldValues>();
 
-  // Wrap onSubmit with RHF's handleSubmit for validation
-  // If no onSubmit provided, use noop function (named so the lint rule
-  // against empty arrows doesn't trip on the intentional no-op).
-  const noopSubmit = () => undefined;
-  const handleSubmit = rhf.handleSubmit(onSubmit || noopSubmit);
+  // Wrap onSubmit with RHF's handleSubmit for validation (createSubmitHandler).
+  // Hidden and readonly fields (fieldAccess) never reach onSubmit;
+  // RHF's submit event is still forwarded as the second argument.
+  // A SubmitErrorPayload returned or thrown by onSubmit is mapped onto the
+  // fields; the draft is deleted once onSubmit succeeds.
+  const handleSubmit = createSubmitHandler(onSubmit);
+
+  // Undo / redo shortcuts (history option), after the consumer's handler
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLFormElement>) => {
+    onKeyDown?.(event);
+    history?.handleKeyDown(event);
+  };
 
   return (
-    <form {...formProps} onSubmit={handleSubmit}>
+    <form {...formProps} onSubmit={handleSubmit} onKeyDown={handleKeyDown}>
       {children}
     </form>
   );
@@ -119,6 +135,11 @@ export function DashForm<TFieldValues extends FieldValues = FieldValues>({
   mode,
   reactions,
   resolver,
+  fieldAccess,
+  resolveAccess,
+  draft,
+  crossFieldRules,
+  history,
   ...formProps
 }: DashFormProps<TFieldValues>) {
   return (
@@ -129,6 +150,11 @@ export function DashForm<TFieldValues extends FieldValues = FieldValues>({
       mode={mode}
       reactions={reactions}
       resolver={resolver}
+      fieldAccess={fieldAccess}
+      resolveAccess={resolveAccess}
+      draft={draft}
+      crossFieldRules={crossFieldRules}
+      history={history}
     >
       <DashFormInner<TFieldValues> onSubmit={onSubmit} {...formProps}>
         {children}
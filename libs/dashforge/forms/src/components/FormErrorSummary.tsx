@@ -0,0 +1,121 @@
+import type React from 'react';
+import { useFormState } from 'react-hook-form';
+import type { FieldPath, FieldValues } from 'react-hook-form';
+import { useDashFormContext } from '../core/useDashFormContext';
+import { flattenFormState } from '../core/flattenFormState';
+
+/**
+ * Props for FormErrorSummary.
+ */
+export interface FormErrorSummaryProps
+  extends Omit<React.HTMLAttributes<HTMLDivElement>, 'title' | 'children'> {
+  /**
+   * Heading rendered above the messages.
+   * @default 'Please correct the following errors:'
+   */
+  title?: React.ReactNode;
+
+  /**
+   * Field labels by path, prefixed to the field messages
+   * (`Email: Already taken`). Unlisted fields show the message only.
+   */
+  labels?: Record<string, string>;
+
+  /**
+   * List field errors below the form-level messages.
+   * @default true
+   */
+  showFieldErrors?: boolean;
+}
+
+interface SummaryItem {
+  path: string;
+  message: string;
+}
+
+/**
+ * Collects the string messages of the RHF errors tree, split between
+ * form-level (`root`, `root.*`) and field errors.
+ */
+function collectErrors(errors: unknown): {
+  formErrors: SummaryItem[];
+  fieldErrors: SummaryItem[];
+} {
+  const formErrors: SummaryItem[] = [];
+  const fieldErrors: SummaryItem[] = [];
+
+  for (const [path, error] of flattenFormState(
+    errors as Record<string, unknown> | undefined
+  )) {
+    const message = (error as { message?: unknown } | undefined)?.message;
+    if (typeof message !== 'string' || message === '') continue;
+
+    const isFormLevel = path === 'root' || path.startsWith('root.');
+    (isFormLevel ? formErrors : fieldErrors).push({ path, message });
+  }
+
+  return { formErrors, fieldErrors };
+}
+
+/**
+ * Lists the errors of the enclosing form after a submit attempt: the
+ * form-level messages (a SubmitErrorPayload `formError`, resolver `root`
+ * issues) then each field error, as a button focusing the field.
+ *
+ * Renders nothing before the first submit or when the form is valid.
+ * Unstyled: target it with `className` / `style`.
+ *
+ * @example
+ * ```tsx
+ * <DashForm onSubmit={save}>
+ *   <FormErrorSummary labels={{ email: 'Email', password: 'Password' }} />
+ *   <EmailField />
+ *   <PasswordField />
+ * </DashForm>
+ * ```
+ */
+export function FormErrorSummary({
+  title = 'Please correct the following errors:',
+  labels,
+  showFieldErrors = true,
+  ...divProps
+}: FormErrorSummaryProps) {
+  const { rhf } = useDashFormContext();
+  const { errors, submitCount } = useFormState({ control: rhf.control });
+
+  const { formErrors, fieldErrors } = collectErrors(errors);
+  const listedFieldErrors = showFieldErrors ? fieldErrors : [];
+
+  if (
+    submitCount === 0 ||
+    (formErrors.length === 0 && listedFieldErrors.length === 0)
+  ) {
+    return null;
+  }
+
+  return (
+    <div role="alert" {...divProps}>
+      {title && <p>{title}</p>}
+      {formErrors.map(({ path, message }) => (
+        <p key={path}>{message}</p>
+      ))}
+      {listedFieldErrors.length > 0 && (
+        <ul>
+          {listedFieldErrors.map(({ path, message }) => {
+            const label = labels?.[path];
+            return (
+              <li key={path}>
+                <button
+                  type="button"
+                  onClick={() => rhf.setFocus(path as FieldPath<FieldValues>)}
+                >
+                  {label ? `${label}: ${message}` : message}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
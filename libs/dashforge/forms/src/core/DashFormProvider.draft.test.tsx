@@ -0,0 +1,347 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { useContext } from 'react';
+import type { AccessResolver } from '@dashforge/rbac';
+import { DashFormContext } from '@dashforge/ui-core';
+import { DashForm } from '../components/DashForm';
+import { useDashFieldMeta } from '../hooks/useDashFieldMeta';
+import { useDashFormDraft } from '../hooks/useDashFormDraft';
+import { useDashFormContext } from './useDashFormContext';
+import type { DraftStorage, StoredFormDraft } from './formDraft';
+
+/**
+ * DRAFT AUTOSAVE (`draft`)
+ *
+ * These tests verify:
+ *   - edits are saved (debounced) with the touched paths and version,
+ *   - a found draft waits for restore() / discard() ('prompt'), or is
+ *     applied on load ('auto'), with dirty / touched state restored,
+ *   - drafts of another version go through migrate or are dropped,
+ *   - dates round-trip, files and hidden / readonly fields are left out
+ *     and keep their current value on restore,
+ *   - the draft is deleted once a DashForm submit succeeds.
+ */
+
+interface ProfileForm {
+  name: string;
+  city: string;
+}
+
+const DEFAULTS: ProfileForm = { name: '', city: '' };
+
+function memoryStorage(initial: Record<string, string> = {}) {
+  const items = new Map(Object.entries(initial));
+  const storage: DraftStorage = {
+    getItem: vi.fn((key: string) => items.get(key) ?? null),
+    setItem: vi.fn((key: string, value: string) => {
+      items.set(key, value);
+    }),
+    removeItem: vi.fn((key: string) => {
+      items.delete(key);
+    }),
+  };
+  return { storage, items };
+}
+
+function stored(draft: Partial<StoredFormDraft>): string {
+  return JSON.stringify({
+    version: 1,
+    savedAt: Date.UTC(2026, 0, 2),
+    values: { name: 'Ada', city: 'Paris' },
+    touched: ['name'],
+    ...draft,
+  });
+}
+
+function Field({ name }: { name: keyof ProfileForm }) {
+  const bridge = useContext(DashFormContext);
+  const register = bridge?.register?.(name);
+  const { touched, dirty } = useDashFieldMeta(name);
+  return (
+    <input
+      aria-label={name}
+      data-touched={touched}
+      data-dirty={dirty}
+      {...register}
+    />
+  );
+}
+
+function DraftControls() {
+  const draft = useDashFormDraft();
+  return (
+    <div>
+      <span data-testid="status">{draft?.status ?? 'disabled'}</span>
+      <button type="button" onClick={() => draft?.restore()}>
+        Restore
+      </button>
+      <button type="button" onClick={() => void draft?.discard()}>
+        Discard
+      </button>
+    </div>
+  );
+}
+
+interface AccountForm {
+  name: string;
+  birthday: Date;
+  avatar: File | null;
+  salary: number;
+}
+
+const BIRTHDAY = new Date(Date.UTC(1990, 4, 17));
+
+const ACCOUNT_DEFAULTS: AccountForm = {
+  name: '',
+  birthday: BIRTHDAY,
+  avatar: new File(['png'], 'avatar.png'),
+  salary: 1000,
+};
+
+/** Denies every requirement (fields are hidden). */
+const denyAll: AccessResolver = () => ({
+  visible: false,
+  disabled: false,
+  readonly: false,
+  granted: false,
+});
+
+function AccountDraft({
+  storage,
+  onValues,
+}: {
+  storage: DraftStorage;
+  onValues?: (values: AccountForm) => void;
+}) {
+  return (
+    <DashForm<AccountForm>
+      defaultValues={ACCOUNT_DEFAULTS}
+      fieldAccess={{ salary: { action: 'read', resource: 'salary' } }}
+      resolveAccess={denyAll}
+      draft={{ key: 'account', storage, debounceMs: 0, restore: 'auto' }}
+    >
+      <Field name="name" />
+      <DraftControls />
+      {onValues && <Values onValues={onValues} />}
+    </DashForm>
+  );
+}
+
+function Values({ onValues }: { onValues: (values: AccountForm) => void }) {
+  const { rhf } = useDashFormContext<AccountForm>();
+  onValues(rhf.getValues());
+  return null;
+}
+
+const input = (name: string) => screen.getByLabelText(name) as HTMLInputElement;
+const status = () => screen.getByTestId('status').textContent;
+
+describe('DashFormProvider draft', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('saves edits after the debounce delay', async () => {
+    const { storage, items } = memoryStorage();
+    render(
+      <DashForm<ProfileForm>
+        defaultValues={DEFAULTS}
+        draft={{ key: 'profile', storage, debounceMs: 200, version: 3 }}
+      >
+        <Field name="name" />
+        <DraftControls />
+      </DashForm>
+    );
+    await waitFor(() => expect(status()).toBe('none'));
+
+    vi.useFakeTimers();
+    fireEvent.change(input('name'), { target: { value: 'Lin' } });
+    fireEvent.blur(input('name'));
+    act(() => vi.advanceTimersByTime(199));
+    expect(storage.setItem).not.toHaveBeenCalled();
+
+    act(() => vi.advanceTimersByTime(1));
+    const draft = JSON.parse(items.get('profile') ?? '{}') as StoredFormDraft;
+    expect(draft).toMatchObject({
+      version: 3,
+      values: { name: 'Lin', city: '' },
+      touched: ['name'],
+    });
+  });
+
+  it('offers a found draft and restores values, dirty and touched state', async () => {
+    const { storage } = memoryStorage({ profile: stored({}) });
+    render(
+      <DashForm<ProfileForm>
+        defaultValues={DEFAULTS}
+        draft={{ key: 'profile', storage }}
+      >
+        <Field name="name" />
+        <Field name="city" />
+        <DraftControls />
+      </DashForm>
+    );
+
+    await waitFor(() => expect(status()).toBe('available'));
+    expect(input('name').value).toBe('');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Restore' }));
+
+    expect(status()).toBe('restored');
+    expect(input('name').value).toBe('Ada');
+    expect(input('city').value).toBe('Paris');
+    await waitFor(() => {
+      expect(input('name').dataset['touched']).toBe('true');
+      expect(input('name').dataset['dirty']).toBe('true');
+    });
+    expect(input('city').dataset['touched']).toBe('false');
+  });
+
+  it('does not overwrite a pending draft, and deletes it on discard', async () => {
+    const { storage, items } = memoryStorage({ profile: stored({}) });
+    render(
+      <DashForm<ProfileForm>
+        defaultValues={DEFAULTS}
+        draft={{ key: 'profile', storage, debounceMs: 0 }}
+      >
+        <Field name="name" />
+        <DraftControls />
+      </DashForm>
+    );
+    await waitFor(() => expect(status()).toBe('available'));
+
+    fireEvent.change(input('name'), { target: { value: 'Lin' } });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(storage.setItem).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Discard' }));
+
+    await waitFor(() => expect(status()).toBe('discarded'));
+    expect(items.has('profile')).toBe(false);
+  });
+
+  it("restores on load with restore: 'auto'", async () => {
+    const { storage } = memoryStorage({ profile: stored({}) });
+    render(
+      <DashForm<ProfileForm>
+        defaultValues={DEFAULTS}
+        draft={{ key: 'profile', storage, restore: 'auto' }}
+      >
+        <Field name="name" />
+        <DraftControls />
+      </DashForm>
+    );
+
+    await waitFor(() => expect(status()).toBe('restored'));
+    expect(input('name').value).toBe('Ada');
+  });
+
+  it('migrates drafts of another version, and drops them without migrate', async () => {
+    const migrate = vi.fn((values: unknown) => ({
+      name: (values as { fullName: string }).fullName,
+    }));
+    const { storage } = memoryStorage({
+      profile: stored({ version: 1, values: { fullName: 'Grace' } }),
+    });
+    const { unmount } = render(
+      <DashForm<ProfileForm>
+        defaultValues={DEFAULTS}
+        draft={{ key: 'profile', storage, version: 2, migrate, restore: 'auto' }}
+      >
+        <Field name="name" />
+        <DraftControls />
+      </DashForm>
+    );
+
+    await waitFor(() => expect(input('name').value).toBe('Grace'));
+    expect(migrate).toHaveBeenCalledWith({ fullName: 'Grace' }, 1);
+    unmount();
+
+    const old = memoryStorage({ profile: stored({ version: 1 }) });
+    render(
+      <DashForm<ProfileForm>
+        defaultValues={DEFAULTS}
+        draft={{ key: 'profile', storage: old.storage, version: 2 }}
+      >
+        <DraftControls />
+      </DashForm>
+    );
+
+    await waitFor(() => expect(status()).toBe('none'));
+    expect(old.items.has('profile')).toBe(false);
+  });
+
+  it('deletes the draft once onSubmit resolves', async () => {
+    const { storage, items } = memoryStorage();
+    let finish: () => void = () => undefined;
+    const onSubmit = vi.fn(
+      () => new Promise<void>((resolve) => (finish = resolve))
+    );
+    const { container } = render(
+      <DashForm<ProfileForm>
+        defaultValues={DEFAULTS}
+        draft={{ key: 'profile', storage, debounceMs: 0 }}
+        onSubmit={onSubmit}
+      >
+        <Field name="name" />
+        <DraftControls />
+      </DashForm>
+    );
+    await waitFor(() => expect(status()).toBe('none'));
+
+    fireEvent.change(input('name'), { target: { value: 'Lin' } });
+    await waitFor(() => expect(items.has('profile')).toBe(true));
+
+    fireEvent.submit(container.querySelector('form') as HTMLFormElement);
+    await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+    expect(items.has('profile')).toBe(true);
+
+    await act(async () => finish());
+    await waitFor(() => expect(items.has('profile')).toBe(false));
+  });
+
+  it('keeps dates and leaves out files and hidden fields', async () => {
+    const { storage, items } = memoryStorage();
+    render(<AccountDraft storage={storage} />);
+    await waitFor(() => expect(status()).toBe('none'));
+
+    fireEvent.change(input('name'), { target: { value: 'Lin' } });
+    await waitFor(() => expect(items.has('account')).toBe(true));
+
+    const draft = JSON.parse(items.get('account') ?? '{}') as StoredFormDraft;
+    expect(draft.values).toEqual({
+      name: 'Lin',
+      birthday: { $date: BIRTHDAY.toISOString() },
+    });
+  });
+
+  it('restores dates, and fields left out keep their current value', async () => {
+    const { storage } = memoryStorage({
+      account: stored({
+        values: {
+          name: 'Ada',
+          birthday: { $date: '2001-02-03T00:00:00.000Z' },
+        },
+      }),
+    });
+    let values: AccountForm | null = null;
+    render(<AccountDraft storage={storage} onValues={(v) => (values = v)} />);
+
+    await waitFor(() => expect(status()).toBe('restored'));
+    const restored = values as AccountForm | null;
+    expect(restored?.name).toBe('Ada');
+    expect(restored?.birthday).toEqual(new Date('2001-02-03T00:00:00.000Z'));
+    expect(restored?.avatar).toBe(ACCOUNT_DEFAULTS.avatar);
+    expect(restored?.salary).toBe(1000);
+  });
+
+  it('exposes null without the draft option', () => {
+    render(
+      <DashForm<ProfileForm> defaultValues={DEFAULTS}>
+        <DraftControls />
+      </DashForm>
+    );
+
+    expect(status()).toBe('disabled');
+  });
+});
@@ -0,0 +1,266 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { useContext } from 'react';
+import type { ReactNode } from 'react';
+import { RbacProvider, useAccessResolver } from '@dashforge/rbac';
+import type { RbacPolicy, Subject } from '@dashforge/rbac';
+import { DashFormContext } from '@dashforge/ui-core';
+import type { BridgeFieldAccess } from '@dashforge/ui-core';
+import { DashForm } from '../components/DashForm';
+import { DashFormProvider } from './DashFormProvider';
+import { omitRestrictedFields } from './fieldAccess';
+import type { FieldAccessMap, FieldAccessStates } from './fieldAccess';
+
+/**
+ * FIELD-LEVEL ACCESS RULES (`fieldAccess`)
+ *
+ * Rules are declared once on DashForm / DashFormProvider and resolved by
+ * the provider with `resolveAccess` (useAccessResolver() of the nearest
+ * RbacProvider). These tests verify:
+ *   - the resolved state is exposed per field on the bridge
+ *     (`getFieldAccess`), including parent-path rules and rule lists,
+ *   - hidden and readonly fields never reach onSubmit, disabled ones do,
+ *   - array paths keep the indices of the remaining elements,
+ *   - without `resolveAccess` every field is granted.
+ */
+
+interface EmployeeForm {
+  name: string;
+  salary: number;
+  address: { street: string; city: string };
+}
+
+const POLICY: RbacPolicy = {
+  roles: [
+    {
+      name: 'staff',
+      permissions: [{ action: 'read', resource: 'employee' }],
+    },
+    {
+      name: 'manager',
+      permissions: [
+        { action: 'read', resource: 'employee.*' },
+        { action: 'edit', resource: 'employee.address' },
+      ],
+      inherits: ['staff'],
+    },
+  ],
+};
+
+const FIELD_ACCESS: FieldAccessMap = {
+  salary: [
+    { action: 'read', resource: 'employee.salary' },
+    {
+      action: 'edit',
+      resource: 'employee.salary',
+      onUnauthorized: 'readonly',
+    },
+  ],
+  address: {
+    action: 'edit',
+    resource: 'employee.address',
+    onUnauthorized: 'disable',
+  },
+};
+
+const DEFAULT_VALUES: EmployeeForm = {
+  name: 'Ada',
+  salary: 1000,
+  address: { street: 'Main St', city: 'Turin' },
+};
+
+function AccessProbe({
+  name,
+  onAccess,
+}: {
+  name: string;
+  onAccess: (access: BridgeFieldAccess | null) => void;
+}) {
+  const bridge = useContext(DashFormContext);
+  onAccess(bridge?.getFieldAccess?.(name) ?? null);
+  return null;
+}
+
+function EmployeeProvider({ children }: { children: ReactNode }) {
+  return (
+    <DashFormProvider<EmployeeForm>
+      defaultValues={DEFAULT_VALUES}
+      fieldAccess={FIELD_ACCESS}
+      resolveAccess={useAccessResolver()}
+    >
+      {children}
+    </DashFormProvider>
+  );
+}
+
+function renderProbe(subject: Subject, name: string) {
+  let access: BridgeFieldAccess | null = null;
+
+  render(
+    <RbacProvider policy={POLICY} subject={subject}>
+      <EmployeeProvider>
+        <AccessProbe name={name} onAccess={(a) => (access = a)} />
+      </EmployeeProvider>
+    </RbacProvider>
+  );
+
+  return access as BridgeFieldAccess | null;
+}
+
+const staff: Subject = { id: 'staff-1', roles: ['staff'] };
+const manager: Subject = { id: 'manager-1', roles: ['manager'] };
+
+describe('DashFormProvider — fieldAccess', () => {
+  it('hides a field when the first requirement of a rule list is denied', () => {
+    expect(renderProbe(staff, 'salary')).toEqual({
+      visible: false,
+      disabled: false,
+      readonly: false,
+      granted: false,
+    });
+  });
+
+  it('uses the first denied requirement of a rule list', () => {
+    expect(renderProbe(manager, 'salary')).toEqual({
+      visible: true,
+      disabled: false,
+      readonly: true,
+      granted: false,
+    });
+  });
+
+  it('applies a parent-path rule to nested fields', () => {
+    expect(renderProbe(manager, 'address.street')?.granted).toBe(true);
+    expect(renderProbe(staff, 'address.city')?.disabled).toBe(true);
+  });
+
+  it('returns null for fields without a rule', () => {
+    expect(renderProbe(staff, 'name')).toBeNull();
+  });
+
+  it('grants every field without resolveAccess', () => {
+    const warnSpy = vi
+      .spyOn(console, 'warn')
+      .mockImplementation(() => undefined);
+    let access: BridgeFieldAccess | null = null;
+
+    render(
+      <DashFormProvider<EmployeeForm>
+        defaultValues={DEFAULT_VALUES}
+        fieldAccess={FIELD_ACCESS}
+      >
+        <AccessProbe name="salary" onAccess={(a) => (access = a)} />
+      </DashFormProvider>
+    );
+
+    expect(access).toBeNull();
+    expect(warnSpy).toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+});
+
+describe('DashForm — fieldAccess submit payload', () => {
+  function EmployeeDashForm({ onSubmit }: { onSubmit: () => void }) {
+    return (
+      <DashForm<EmployeeForm>
+        defaultValues={DEFAULT_VALUES}
+        fieldAccess={FIELD_ACCESS}
+        resolveAccess={useAccessResolver()}
+        onSubmit={onSubmit}
+      >
+        <button type="submit">Save</button>
+      </DashForm>
+    );
+  }
+
+  async function submitAs(subject: Subject) {
+    const onSubmit = vi.fn();
+
+    const { container } = render(
+      <RbacProvider policy={POLICY} subject={subject}>
+        <EmployeeDashForm onSubmit={onSubmit} />
+      </RbacProvider>
+    );
+
+    const form = container.querySelector('form');
+    if (!form) throw new Error('form not rendered');
+    fireEvent.submit(form);
+
+    await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+    return onSubmit.mock.calls[0]?.[0] as Partial<EmployeeForm>;
+  }
+
+  it('excludes hidden fields and keeps disabled ones', async () => {
+    expect(await submitAs(staff)).toEqual({
+      name: 'Ada',
+      address: { street: 'Main St', city: 'Turin' },
+    });
+  });
+
+  it('excludes readonly fields and keeps granted ones', async () => {
+    expect(await submitAs(manager)).toEqual({
+      name: 'Ada',
+      address: { street: 'Main St', city: 'Turin' },
+    });
+  });
+
+  it('submits every field without fieldAccess', async () => {
+    const onSubmit = vi.fn();
+
+    render(
+      <DashForm<EmployeeForm>
+        defaultValues={DEFAULT_VALUES}
+        onSubmit={onSubmit}
+      >
+        <button type="submit">Save</button>
+      </DashForm>
+    );
+
+    fireEvent.click(screen.getByText('Save'));
+
+    await waitFor(() =>
+      expect(onSubmit).toHaveBeenCalledWith(DEFAULT_VALUES, expect.anything())
+    );
+  });
+});
+
+describe('omitRestrictedFields', () => {
+  const state = (overrides: Partial<FieldAccessStates[string]>) => ({
+    visible: true,
+    disabled: false,
+    readonly: false,
+    granted: false,
+    ...overrides,
+  });
+
+  it('replaces array elements without leaving holes', () => {
+    const values = { tags: ['a', 'b', 'c'] };
+    const result = omitRestrictedFields(values, {
+      'tags.0': state({ visible: false }),
+      'tags.2': state({ readonly: true }),
+    });
+
+    expect(result.tags).toEqual([undefined, 'b', undefined]);
+    expect(Object.keys(result.tags)).toEqual(['0', '1', '2']);
+    expect(values.tags).toEqual(['a', 'b', 'c']);
+  });
+
+  it('removes fields nested in array elements', () => {
+    const values = {
+      lines: [
+        { item: 'a', price: 1 },
+        { item: 'b', price: 2 },
+      ],
+    };
+
+    expect(
+      omitRestrictedFields(values, {
+        'lines.1.price': state({ visible: false }),
+        'lines.0.item': state({ disabled: true }),
+      })
+    ).toEqual({
+      lines: [{ item: 'a', price: 1 }, { item: 'b' }],
+    });
+    expect(values.lines[1]).toEqual({ item: 'b', price: 2 });
+  });
+});
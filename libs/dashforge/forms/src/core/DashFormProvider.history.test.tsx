@@ -0,0 +1,205 @@
+import { describe, it, expect } from 'vitest';
+import {
+  act,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from '@testing-library/react';
+import { useContext } from 'react';
+import { DashFormContext } from '@dashforge/ui-core';
+import { DashForm } from '../components/DashForm';
+import { useDashFieldArray } from '../hooks/useDashFieldArray';
+import { useDashFormHistory } from '../hooks/useDashFormHistory';
+import type { DashFormHistoryOptions } from './formHistory';
+
+/**
+ * UNDO / REDO HISTORY (`history`)
+ *
+ * These tests verify:
+ *   - keystrokes in a field are coalesced into one step, a change of
+ *     field (or a pause longer than coalesceMs) starts a new one,
+ *   - undo / redo restore the values, a new edit drops the redo steps,
+ *   - each useDashFieldArray operation is a single step,
+ *   - Ctrl+Z / Ctrl+Shift+Z / Ctrl+Y are bound to the form element.
+ */
+
+interface ProfileForm {
+  name: string;
+  city: string;
+  tags: { label: string }[];
+}
+
+const DEFAULTS: ProfileForm = { name: '', city: '', tags: [] };
+
+function Field({ name }: { name: string }) {
+  const bridge = useContext(DashFormContext);
+  const register = bridge?.register?.(name);
+  return <input aria-label={name} {...register} />;
+}
+
+function Tags() {
+  const { fields, append, remove } = useDashFieldArray<{ label: string }>(
+    'tags'
+  );
+  return (
+    <>
+      {fields.map((field) => (
+        <Field key={field.id} name={`${field.name}.label`} />
+      ))}
+      <button type="button" onClick={() => append({ label: 'new' })}>
+        Add tag
+      </button>
+      <button type="button" onClick={() => remove(0)}>
+        Remove first tag
+      </button>
+    </>
+  );
+}
+
+function HistoryControls() {
+  const history = useDashFormHistory();
+  return (
+    <div>
+      <span data-testid="can-undo">{String(history?.canUndo ?? null)}</span>
+      <span data-testid="can-redo">{String(history?.canRedo ?? null)}</span>
+      <button type="button" onClick={() => history?.undo()}>
+        Undo
+      </button>
+      <button type="button" onClick={() => history?.redo()}>
+        Redo
+      </button>
+    </div>
+  );
+}
+
+function renderForm(history: boolean | DashFormHistoryOptions | undefined) {
+  return render(
+    <DashForm<ProfileForm> defaultValues={DEFAULTS} history={history}>
+      <Field name="name" />
+      <Field name="city" />
+      <Tags />
+      <HistoryControls />
+    </DashForm>
+  );
+}
+
+const input = (name: string) => screen.getByLabelText(name) as HTMLInputElement;
+const type = (name: string, value: string) =>
+  fireEvent.change(input(name), { target: { value } });
+const click = (label: string) => fireEvent.click(screen.getByText(label));
+const canUndo = () => screen.getByTestId('can-undo').textContent;
+const canRedo = () => screen.getByTestId('can-redo').textContent;
+
+describe('DashFormProvider history', () => {
+  it('is disabled without the history option', () => {
+    renderForm(undefined);
+
+    expect(canUndo()).toBe('null');
+    expect(canRedo()).toBe('null');
+  });
+
+  it('coalesces keystrokes and undoes / redoes one step at a time', async () => {
+    renderForm(true);
+    expect(canUndo()).toBe('false');
+
+    type('name', 'A');
+    type('name', 'Ad');
+    type('name', 'Ada');
+    type('city', 'Paris');
+    await waitFor(() => expect(canUndo()).toBe('true'));
+
+    click('Undo');
+    await waitFor(() => expect(input('city').value).toBe(''));
+    expect(input('name').value).toBe('Ada');
+
+    click('Undo');
+    await waitFor(() => expect(input('name').value).toBe(''));
+    expect(canUndo()).toBe('false');
+    expect(canRedo()).toBe('true');
+
+    click('Redo');
+    await waitFor(() => expect(input('name').value).toBe('Ada'));
+
+    // A new edit drops the undone step (city)
+    type('name', 'Grace');
+    await waitFor(() => expect(canRedo()).toBe('false'));
+  });
+
+  it('starts a new step after a pause longer than coalesceMs', async () => {
+    renderForm({ coalesceMs: 0 });
+
+    type('name', 'A');
+    type('name', 'Ad');
+
+    click('Undo');
+    await waitFor(() => expect(input('name').value).toBe('A'));
+  });
+
+  it('records each field array operation as a single step', async () => {
+    renderForm(true);
+
+    click('Add tag');
+    click('Add tag');
+    await waitFor(() =>
+      expect(screen.getAllByLabelText(/^tags\./)).toHaveLength(2)
+    );
+
+    click('Undo');
+    await waitFor(() =>
+      expect(screen.getAllByLabelText(/^tags\./)).toHaveLength(1)
+    );
+
+    click('Remove first tag');
+    await waitFor(() =>
+      expect(screen.queryAllByLabelText(/^tags\./)).toHaveLength(0)
+    );
+
+    click('Undo');
+    await waitFor(() =>
+      expect(screen.getAllByLabelText(/^tags\./)).toHaveLength(1)
+    );
+    expect(input('tags.0.label').value).toBe('new');
+  });
+
+  it('binds undo / redo shortcuts to the form element', async () => {
+    renderForm(true);
+
+    // Nothing to undo: left to the browser
+    expect(fireEvent.keyDown(input('name'), { key: 'z', ctrlKey: true })).toBe(
+      true
+    );
+
+    type('name', 'Ada');
+    await waitFor(() => expect(canUndo()).toBe('true'));
+
+    act(() => {
+      expect(
+        fireEvent.keyDown(input('name'), { key: 'z', ctrlKey: true })
+      ).toBe(false);
+    });
+    await waitFor(() => expect(input('name').value).toBe(''));
+
+    fireEvent.keyDown(input('name'), {
+      key: 'Z',
+      metaKey: true,
+      shiftKey: true,
+    });
+    await waitFor(() => expect(input('name').value).toBe('Ada'));
+
+    fireEvent.keyDown(input('name'), { key: 'z', ctrlKey: true });
+    await waitFor(() => expect(input('name').value).toBe(''));
+    fireEvent.keyDown(input('name'), { key: 'y', ctrlKey: true });
+    await waitFor(() => expect(input('name').value).toBe('Ada'));
+  });
+
+  it('ignores shortcuts when shortcuts is false', async () => {
+    renderForm({ shortcuts: false });
+
+    type('name', 'Ada');
+    await waitFor(() => expect(canUndo()).toBe('true'));
+
+    fireEvent.keyDown(input('name'), { key: 'z', ctrlKey: true });
+    expect(input('name').value).toBe('Ada');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import { useContext } from 'react';
+import type { UseFormReturn } from 'react-hook-form';
+import { DashFormContext } from '@dashforge/ui-core';
+import type { DashFormBridge } from '@dashforge/ui-core';
+import { DashFormProvider } from './DashFormProvider';
+import { useDashFormContext } from './useDashFormContext';
+import { useDashFieldMeta } from '../hooks/useDashFieldMeta';
+
+/**
+ * PER-FIELD CHANGE NOTIFICATIONS
+ *
+ * The provider diffs RHF's errors / touchedFields / dirtyFields trees per
+ * leaf path. These tests verify that:
+ *   - object-valued fields (a { start, end } range) are notified at their
+ *     own path when one of their leaves changes,
+ *   - nested errors notify the leaf and every ancestor,
+ *   - untouched sibling fields are not notified.
+ */
+
+interface BookingForm {
+  title: string;
+  range: { start: string; end: string };
+}
+
+const DEFAULTS: BookingForm = { title: '', range: { start: '', end: '' } };
+
+function Meta({ name }: { name: string }) {
+  const meta = useDashFieldMeta(name);
+  return (
+    <span data-testid={name}>
+      {[
+        meta.touched ? 'touched' : 'untouched',
+        meta.dirty ? 'dirty' : 'pristine',
+        meta.error?.message ?? 'valid',
+      ].join(' ')}
+    </span>
+  );
+}
+
+interface Captured {
+  rhf: UseFormReturn<BookingForm>;
+  bridge: DashFormBridge;
+}
+
+function Capture({ onCapture }: { onCapture: (captured: Captured) => void }) {
+  const { rhf } = useDashFormContext<BookingForm>();
+  const bridge = useContext(DashFormContext);
+  if (bridge) onCapture({ rhf, bridge });
+  return null;
+}
+
+function renderForm() {
+  let captured: Captured | null = null;
+
+  render(
+    <DashFormProvider<BookingForm> defaultValues={DEFAULTS}>
+      <Capture onCapture={(value) => (captured = value)} />
+      <Meta name="range" />
+      <Meta name="range.end" />
+    </DashFormProvider>
+  );
+
+  const get = (): Captured => {
+    if (!captured) throw new Error('form not rendered');
+    return captured;
+  };
+  return {
+    form: () => get().rhf,
+    /** Counts the notifications of each field. */
+    listen: (names: string[]) => {
+      const counts: Record<string, number> = {};
+      for (const name of names) {
+        counts[name] = 0;
+        get().bridge.subscribeField?.(name, () => {
+          counts[name] = (counts[name] ?? 0) + 1;
+        });
+      }
+      return counts;
+    },
+  };
+}
+
+describe('DashFormProvider — change notifications', () => {
+  it('notifies an object-valued field when one of its leaves changes', () => {
+    const { form } = renderForm();
+    expect(screen.getByTestId('range').textContent).toBe(
+      'untouched pristine valid'
+    );
+
+    act(() => {
+      form().setValue('range.start', '2026-10-19', {
+        shouldDirty: true,
+        shouldTouch: true,
+      });
+    });
+
+    expect(screen.getByTestId('range').textContent).toBe('touched dirty valid');
+  });
+
+  it('notifies a nested error at the leaf and its ancestors only', () => {
+    const { form, listen } = renderForm();
+    const counts = listen(['title', 'range', 'range.end']);
+
+    act(() => {
+      form().setError('range.end', { message: 'Ends before it starts' });
+    });
+
+    expect(screen.getByTestId('range.end').textContent).toBe(
+      'untouched pristine Ends before it starts'
+    );
+    expect(counts['range.end']).toBeGreaterThan(0);
+    expect(counts['range']).toBeGreaterThan(0);
+    expect(counts['title']).toBe(0);
+
+    act(() => {
+      form().clearErrors('range.end');
+    });
+
+    expect(screen.getByTestId('range.end').textContent).toBe(
+      'untouched pristine valid'
+    );
+  });
+});
@@ -1,16 +1,23 @@
-import { createContext, useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  createContext,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 import { useForm } from 'react-hook-form';
 import type {
   FieldValues,
   DefaultValues,
   FieldPath,
   PathValue,
-  RegisterOptions,
 } from 'react-hook-form';
 import { createEngine, DashFormContext } from '@dashforge/ui-core';
 import type {
   DashFormBridge,
   BridgeFieldError,
+  BridgeFieldAccess,
   FieldRegistration,
   Engine,
   Path,
@@ -20,6 +27,26 @@ import { FormEngineAdapter } from './FormEngineAdapter';
 import { createRuntimeStore } from '../runtime/createRuntimeStore';
 import type { FieldRuntimeState } from '../runtime/runtime.types';
 import { createReactionRegistry } from '../reactions/createReactionRegistry';
+import {
+  findFieldAccess,
+  omitRestrictedFields,
+  resolveFieldAccess,
+} from './fieldAccess';
+import type { FieldAccessStates } from './fieldAccess';
+import { flattenFormState } from './flattenFormState';
+import { useFormDraft } from './useFormDraft';
+import { useFormHistory } from './useFormHistory';
+import { useFormSubmit } from './useFormSubmit';
+import {
+  ASYNC_ERROR_TYPE,
+  createAsyncValidationRegistry,
+  splitAsyncRules,
+} from '../validation/createAsyncValidationRegistry';
+import type { DashFieldRules } from '../validation/asyncValidation.types';
+import {
+  CROSS_FIELD_ERROR_TYPE,
+  createCrossFieldValidation,
+} from '../validation/createCrossFieldValidation';
 
 /**
  * Helper to safely traverse an object by dot path.
@@ -99,6 +126,11 @@ export function DashFormProvider<
   mode = 'onChange',
   reactions,
   resolver,
+  fieldAccess,
+  resolveAccess,
+  draft,
+  crossFieldRules,
+  history,
 }: DashFormProviderProps<TFieldValues>) {
   // Create or use provided Engine instance
   // Memoized to prevent re-creation on every render
@@ -214,27 +246,116 @@ export function DashFormProvider<
     });
   }, [adapter, notifyField]);
 
+  // Async validators (`asyncValidate` rule): checks are scheduled on value
+  // sync (bridge and useDashRegister inputs alike), the validating flag is
+  // surfaced through the per-field notifier.
+  const asyncValidation = useMemo(
+    () =>
+      createAsyncValidationRegistry({
+        debug,
+        getValue: (name) => rhf.getValues(name as FieldPath<TFieldValues>),
+        getErrorType: (name) =>
+          rhf.getFieldState(name as FieldPath<TFieldValues>).error?.type,
+        setError: (name, message) =>
+          rhf.setError(name as FieldPath<TFieldValues>, {
+            type: ASYNC_ERROR_TYPE,
+            message,
+          }),
+        clearError: (name) =>
+          rhf.clearErrors(name as FieldPath<TFieldValues>),
+        onValidatingChange: notifyField,
+      }),
+    [rhf, debug, notifyField]
+  );
+
+  // Cross-field rules (`crossFieldRules`): re-evaluated when a watched
+  // field syncs, like reactions. Created once per unique rules array.
+  // A rule error replaces an async error of its target: once it is
+  // cleared, the async result is re-applied (or the check scheduled).
+  const crossFieldValidation = useMemo(() => {
+    if (!crossFieldRules || crossFieldRules.length === 0) {
+      return null;
+    }
+
+    return createCrossFieldValidation<TFieldValues>({
+      debug,
+      rules: crossFieldRules,
+      getValue: (name) => rhf.getValues(name as FieldPath<TFieldValues>),
+      getErrorType: (name) =>
+        rhf.getFieldState(name as FieldPath<TFieldValues>).error?.type,
+      setError: (name, message) =>
+        rhf.setError(name as FieldPath<TFieldValues>, {
+          type: CROSS_FIELD_ERROR_TYPE,
+          message,
+        }),
+      clearError: (name) => {
+        rhf.clearErrors(name as FieldPath<TFieldValues>);
+        asyncValidation.schedule(name);
+      },
+    });
+  }, [crossFieldRules, debug, rhf, asyncValidation]);
+
+  useEffect(() => {
+    if (!crossFieldValidation) return;
+    return adapter.addOnValueSyncListener((fieldName) => {
+      crossFieldValidation.evaluateForField(fieldName);
+    });
+  }, [adapter, crossFieldValidation]);
+
+  // Validation beyond RHF rules / resolver, run by submit and trigger:
+  // cross-field rules, then async validators (skipped on fields those
+  // already reject).
+  const validateFields = useCallback(
+    async (names?: string[]) => {
+      const crossFieldOk = crossFieldValidation?.validate(names) ?? true;
+      const asyncOk = await asyncValidation.validate(names);
+      return crossFieldOk && asyncOk;
+    },
+    [crossFieldValidation, asyncValidation]
+  );
+
+  useEffect(() => {
+    const unsubscribe = adapter.addOnValueSyncListener((fieldName) => {
+      asyncValidation.schedule(fieldName);
+    });
+    return () => {
+      unsubscribe();
+      asyncValidation.dispose();
+    };
+  }, [adapter, asyncValidation]);
+
   // Diff RHF formState changes (errors/touched/dirty) to identify which
   // fields actually changed and notify only those listeners. This avoids
   // a global broadcast on every keystroke.
-  const prevErrorsRef = useRef<Record<string, unknown>>({});
-  const prevTouchedRef = useRef<Record<string, unknown>>({});
-  const prevDirtyRef = useRef<Record<string, unknown>>({});
+  // Snapshots are flattened copies: RHF mutates nested state in place, so
+  // keeping its live objects would hide the changes from the next diff.
+  const prevErrorsRef = useRef<Map<string, unknown>>(new Map());
+  const prevTouchedRef = useRef<Map<string, unknown>>(new Map());
+  const prevDirtyRef = useRef<Map<string, unknown>>(new Map());
 
   const diffAndNotify = useCallback(
     (
-      ref: React.MutableRefObject<Record<string, unknown>>,
+      ref: React.MutableRefObject<Map<string, unknown>>,
       current: Record<string, unknown> | undefined
     ) => {
-      const prev = ref.current ?? {};
-      const next = current ?? {};
-      const allKeys = new Set([...Object.keys(prev), ...Object.keys(next)]);
-      for (const key of allKeys) {
-        // Cheap shallow compare (object identity changes when RHF mutates)
-        if (prev[key] !== next[key]) {
-          notifyField(key);
+      const prev = ref.current;
+      const next = flattenFormState(current);
+      const allPaths = new Set([...prev.keys(), ...next.keys()]);
+      const changed = new Set<string>();
+      for (const path of allPaths) {
+        // Cheap identity compare (RHF creates a new error object per validation)
+        if (prev.get(path) === next.get(path)) continue;
+
+        // Ancestors too: object-valued fields (e.g. a { start, end } date
+        // range) listen on their own path, above the flattened leaves
+        for (let ancestor = path; ; ) {
+          changed.add(ancestor);
+          const lastDot = ancestor.lastIndexOf('.');
+          if (lastDot === -1) break;
+          ancestor = ancestor.slice(0, lastDot);
         }
       }
+      changed.forEach(notifyField);
       ref.current = next;
     },
     [notifyField]
@@ -298,32 +419,36 @@ export function DashFormProvider<
     return registry;
   }, [reactions, debug, engine, rhf, runtimeStore]);
 
-  // Run diff-and-notify after every render (when RHF formState changes).
-  // RHF re-creates the errors/touchedFields/dirtyFields object references on
-  // every relevant state change, so depending directly on those objects is
-  // sufficient (pre-0.2.0-beta we depended on stringified version snapshots
-  // for the same effect — the version strings were removed when the
-  // deprecated `*Version` bridge properties were dropped).
+  // RHF does not always re-create the errors / touchedFields / dirtyFields
+  // references (field arrays and submit validation mutate them in place),
+  // so they cannot drive the diff on their own: this version is bumped on
+  // every RHF update of one of them (batched with RHF's own re-render).
+  const [formStateVersion, setFormStateVersion] = useState(0);
+  useEffect(
+    () =>
+      rhf.subscribe({
+        formState: { errors: true, touchedFields: true, dirtyFields: true },
+        callback: () => setFormStateVersion((version) => version + 1),
+      }),
+    [rhf]
+  );
+
+  // Run diff-and-notify when RHF formState changes. The flattened snapshots
+  // taken by diffAndNotify spot in-place changes; the diff is O(fields).
   useEffect(() => {
     diffAndNotify(
       prevErrorsRef,
       errors as Record<string, unknown> | undefined
     );
-  }, [errors, diffAndNotify]);
-
-  useEffect(() => {
     diffAndNotify(
       prevTouchedRef,
       touchedFields as Record<string, unknown> | undefined
     );
-  }, [touchedFields, diffAndNotify]);
-
-  useEffect(() => {
     diffAndNotify(
       prevDirtyRef,
       dirtyFields as Record<string, unknown> | undefined
     );
-  }, [dirtyFields, diffAndNotify]);
+  }, [formStateVersion, errors, touchedFields, dirtyFields, diffAndNotify]);
 
   // Stable refs that always point at the latest formState values. The bridge
   // closures read from these refs so they can return current data even though
@@ -337,6 +462,41 @@ export function DashFormProvider<
   const submitCountRef = useRef(submitCount);
   submitCountRef.current = submitCount;
 
+  // Resolve field-level access rules with the injected resolver (e.g.
+  // useAccessResolver() of @dashforge/rbac). Recomputed when the rules or
+  // the resolver (engine, subject, scope) change.
+  const fieldAccessStates = useMemo<FieldAccessStates>(() => {
+    if (!fieldAccess) {
+      return {};
+    }
+
+    if (!resolveAccess) {
+      if (process.env.NODE_ENV !== 'production') {
+        console.warn(
+          '[DashFormProvider] fieldAccess was provided without resolveAccess. ' +
+            'Defaulting to full access. Pass useAccessResolver() from @dashforge/rbac to enable RBAC.'
+        );
+      }
+      return {};
+    }
+
+    return resolveFieldAccess(fieldAccess, resolveAccess);
+  }, [fieldAccess, resolveAccess]);
+
+  const fieldAccessStatesRef = useRef(fieldAccessStates);
+  fieldAccessStatesRef.current = fieldAccessStates;
+
+  const getFieldAccess = useCallback(
+    (name: string) => findFieldAccess(name, fieldAccessStatesRef.current),
+    []
+  );
+
+  const omitRestricted = useCallback(
+    (values: TFieldValues) =>
+      omitRestrictedFields(values, fieldAccessStatesRef.current),
+    []
+  );
+
   // Build bridge value for public DashFormContext (minimal API)
   // Used by ui components to detect and integrate with form
   const bridgeValue = useMemo<DashFormBridge>(
@@ -366,10 +526,12 @@ export function DashFormProvider<
 
         // Type rules as RegisterOptions for RHF compatibility
         // Bridge accepts unknown (library-agnostic), we narrow here at RHF boundary
-        const typedRules = rules as
-          | RegisterOptions<TFieldValues, FieldPath<TFieldValues>>
-          | undefined;
+        // The `asyncValidate` rule goes to the async validation registry
+        const { rules: typedRules, asyncValidate } = splitAsyncRules(
+          rules as DashFieldRules<TFieldValues> | undefined
+        );
         const rhfRegister = rhf.register(fieldName, typedRules);
+        asyncValidation.setValidator(fieldName, asyncValidate);
 
         // Register field with adapter (creates Engine node)
         adapter.registerField(fieldName);
@@ -422,6 +584,7 @@ export function DashFormProvider<
         // Release RHF state and engine node so reactions stop firing for this field
         rhf.unregister(fieldName);
         adapter.unregisterField(fieldName);
+        asyncValidation.removeField(fieldName);
       },
       // Per-field subscription (granular re-render path)
       subscribeField,
@@ -464,6 +627,8 @@ export function DashFormProvider<
             ? undefined
             : ((Array.isArray(name) ? name : [name]) as FieldPath<TFieldValues>[]);
         const ok = paths === undefined ? await rhf.trigger() : await rhf.trigger(paths);
+        // Cross-field rules and async validators run after the field rules
+        const fieldsOk = await validateFields(paths);
         // Read errors via `rhf.getFieldState(name)` — this bypasses the
         // React subscription cycle and reads directly from RHF's
         // internal state, so it's fresh immediately after `trigger`
@@ -484,8 +649,11 @@ export function DashFormProvider<
           errorsRef.current = rhf.formState.errors;
         }
         touchedFieldsRef.current = rhf.formState.touchedFields;
-        return ok;
+        return ok && fieldsOk;
       },
+      getFieldAccess: (name: string): BridgeFieldAccess | null =>
+        getFieldAccess(name),
+      isValidating: (name: string) => asyncValidation.isValidating(name),
       debug,
     }),
     // Identity-stable bridge: deps include only the long-lived references.
@@ -493,7 +661,26 @@ export function DashFormProvider<
     // re-render optimization — the bridge no longer changes on every
     // keystroke, and consumers must use subscribeField/useDashFieldMeta to
     // observe per-field state changes.
-    [engine, runtimeStore, rhf, adapter, debug, subscribeField]
+    [
+      engine,
+      runtimeStore,
+      rhf,
+      adapter,
+      debug,
+      subscribeField,
+      getFieldAccess,
+      asyncValidation,
+      validateFields,
+    ]
+  );
+
+  const draftState = useFormDraft(rhf, adapter, omitRestricted, draft);
+  const historyState = useFormHistory(rhf, adapter, history);
+  const { submitState, createSubmitHandler } = useFormSubmit(
+    rhf,
+    omitRestricted,
+    draftState,
+    validateFields
   );
 
   // Build internal context value for @dashforge/forms hooks
@@ -505,8 +692,27 @@ export function DashFormProvider<
       rhf,
       adapter,
       debug,
+      getFieldAccess,
+      omitRestrictedFields: omitRestricted,
+      draft: draftState,
+      history: historyState,
+      submitState,
+      createSubmitHandler,
+      asyncValidation,
     }),
-    [engine, rhf, adapter, debug]
+    [
+      engine,
+      rhf,
+      adapter,
+      debug,
+      getFieldAccess,
+      omitRestricted,
+      draftState,
+      historyState,
+      submitState,
+      createSubmitHandler,
+      asyncValidation,
+    ]
   );
 
   // NEW: Initial evaluation cycle (Strict Mode safe - v3)
@@ -0,0 +1,140 @@
+// Types only: @dashforge/rbac is an optional peer, checks are injected
+// through `resolveAccess`
+import type {
+  AccessRequirement,
+  AccessResolver,
+  AccessState,
+} from '@dashforge/rbac';
+
+/**
+ * Field-level access rules: field name (dot path) → access requirement(s).
+ * A rule on a parent path (e.g. `address`) also covers its children
+ * (`address.street`) unless a child has its own rule.
+ *
+ * With a list, requirements are checked in order and the first denied one
+ * decides the field state, e.g. hide without `read`, readonly without `edit`.
+ */
+export type FieldAccessMap = Record<
+  string,
+  AccessRequirement | AccessRequirement[]
+>;
+
+/**
+ * Resolved access state per rule key.
+ */
+export type FieldAccessStates = Record<string, AccessState>;
+
+/**
+ * Resolves every rule of a field access map.
+ *
+ * @param rules - Field access rules
+ * @param resolve - Requirement resolver (bound to the current subject)
+ * @returns Resolved state per rule key
+ */
+export function resolveFieldAccess(
+  rules: FieldAccessMap,
+  resolve: AccessResolver
+): FieldAccessStates {
+  const states: FieldAccessStates = {};
+
+  for (const [path, rule] of Object.entries(rules)) {
+    const requirements = Array.isArray(rule) ? rule : [rule];
+    let state: AccessState | undefined;
+
+    for (const requirement of requirements) {
+      state = resolve(requirement);
+      if (!state.granted) {
+        break;
+      }
+    }
+
+    if (state) {
+      states[path] = state;
+    }
+  }
+
+  return states;
+}
+
+/**
+ * Looks up the access state covering a field: its own rule first,
+ * then the nearest ancestor path.
+ *
+ * @param name - Field name (dot path)
+ * @param states - Resolved states keyed by rule path
+ * @returns Covering state, or null when no rule applies
+ */
+export function findFieldAccess(
+  name: string,
+  states: FieldAccessStates
+): AccessState | null {
+  let path = name;
+
+  for (;;) {
+    if (Object.prototype.hasOwnProperty.call(states, path)) {
+      return states[path] ?? null;
+    }
+
+    const lastDot = path.lastIndexOf('.');
+    if (lastDot === -1) {
+      return null;
+    }
+    path = path.slice(0, lastDot);
+  }
+}
+
+/**
+ * Removes hidden and readonly fields from a submit payload; disabled
+ * fields are kept. Objects along each removed path are copied; the input
+ * is not mutated. An array element is replaced with `undefined` rather
+ * than removed, so the indices of its siblings (and of other rules) stay
+ * the same.
+ *
+ * @param values - Submitted form values
+ * @param states - Resolved states keyed by rule path
+ * @returns Values without restricted fields
+ */
+export function omitRestrictedFields<TValues>(
+  values: TValues,
+  states: FieldAccessStates
+): TValues {
+  let result = values;
+
+  for (const [path, state] of Object.entries(states)) {
+    if (!state.visible || state.readonly) {
+      result = omitPath(result, path.split('.'));
+    }
+  }
+
+  return result;
+}
+
+function omitPath<TValue>(value: TValue, keys: string[]): TValue {
+  const [key, ...rest] = keys;
+
+  if (
+    key === undefined ||
+    typeof value !== 'object' ||
+    value === null ||
+    !Object.prototype.hasOwnProperty.call(value, key)
+  ) {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    const index = Number(key);
+    return value.map((item, i) =>
+      i !== index ? item : rest.length === 0 ? undefined : omitPath(item, rest)
+    ) as TValue;
+  }
+
+  const copy = { ...value } as Record<string, unknown>;
+
+  if (rest.length === 0) {
+    delete copy[key];
+  } else {
+    copy[key] = omitPath(copy[key], rest);
+  }
+
+  return copy as TValue;
+}
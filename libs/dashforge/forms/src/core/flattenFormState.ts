@@ -0,0 +1,31 @@
+/**
+ * Flattens an RHF formState tree (errors / touchedFields / dirtyFields) into
+ * a map of full field path → leaf value, so nested and field-array paths
+ * (e.g. "emails.0.email") can be diffed and notified individually.
+ * Error objects (they carry a string `type`) are leaves.
+ *
+ * @param value - formState subtree
+ * @param prefix - Path of `value`
+ * @param out - Map receiving the leaves
+ * @returns The `out` map
+ */
+export function flattenFormState(
+  value: unknown,
+  prefix = '',
+  out = new Map<string, unknown>()
+): Map<string, unknown> {
+  if (
+    !value ||
+    typeof value !== 'object' ||
+    typeof (value as { type?: unknown }).type === 'string'
+  ) {
+    if (prefix) out.set(prefix, value);
+    return out;
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    flattenFormState(child, prefix ? `${prefix}.${key}` : key, out);
+  }
+
+  return out;
+}
@@ -1,6 +1,16 @@
 import type { Engine } from '@dashforge/ui-core';
 import type { FieldValues, UseFormReturn, FieldPath, Resolver } from 'react-hook-form';
+import type { AccessResolver, AccessState } from '@dashforge/rbac';
 import type { ReactionDefinition } from '../reactions/reaction.types';
+import type { FieldAccessMap } from './fieldAccess';
+import type { DashFormDraftOptions, DashFormDraftState } from './formDraft';
+import type { DashFormHistoryOptions, DashFormHistoryState } from './formHistory';
+import type {
+  DashFormSubmitHandler,
+  DashFormSubmitState,
+} from './submitErrors';
+import type { AsyncValidationRegistry } from '../validation/createAsyncValidationRegistry';
+import type { CrossFieldRule } from '../validation/crossFieldValidation.types';
 
 /**
  * Interface for the adapter that bridges React Hook Form with the Dashforge Engine.
@@ -98,6 +108,57 @@ export interface DashFormContextValue<
    * When true, adapter logs sync operations to console.
    */
   debug: boolean;
+
+  /**
+   * Resolves the access state covering a field from the `fieldAccess` rules.
+   * Returns null when no rule covers the field.
+   */
+  getFieldAccess: (name: string) => AccessState | null;
+
+  /**
+   * Removes hidden and readonly fields from submitted values.
+   * DashForm applies this before calling onSubmit; call it yourself when
+   * submitting through `rhf.handleSubmit` with a bare DashFormProvider.
+   */
+  omitRestrictedFields: (values: TFieldValues) => TFieldValues;
+
+  /**
+   * Draft state and controls; null without the `draft` option.
+   */
+  draft: DashFormDraftState | null;
+
+  /**
+   * Undo / redo state and controls; null without the `history` option.
+   */
+  history: DashFormHistoryState | null;
+
+  /**
+   * Status of the last submission made through `createSubmitHandler`.
+   */
+  submitState: DashFormSubmitState;
+
+  /**
+   * Builds a form submit handler around `rhf.handleSubmit`, as DashForm
+   * does: restricted fields are removed, a SubmitErrorPayload returned or
+   * thrown by onSubmit is mapped onto the fields, the draft is deleted on
+   * success and `submitState` is updated.
+   *
+   * @example
+   * ```tsx
+   * const { createSubmitHandler } = useDashFormContext<Invoice>();
+   * <form onSubmit={createSubmitHandler(saveInvoice)}>...</form>
+   * ```
+   */
+  createSubmitHandler: (
+    onSubmit?: DashFormSubmitHandler<TFieldValues>
+  ) => (event?: React.BaseSyntheticEvent) => Promise<void>;
+
+  /**
+   * Async validators of the form (`asyncValidate` rules).
+   * Orchestration API: fields declare validators through their rules;
+   * `validate()` runs / awaits the pending checks.
+   */
+  asyncValidation: AsyncValidationRegistry;
 }
 
 /**
@@ -161,17 +222,20 @@ export interface DashFormConfig<
    * When NOT provided:
    * - Field-level rules work as before (backward compatible)
    *
-   * Compatible resolvers (user must install separately):
-   * - @hookform/resolvers/yup (requires yup)
-   * - @hookform/resolvers/zod (requires zod)
-   * - @hookform/resolvers/joi (requires joi)
+   * Built-in adapters (the schema library itself is installed by the app):
+   * - zodResolver / yupResolver / valibotResolver / standardSchemaResolver
+   *   from `@dashforge/forms`. They infer TFieldValues from the schema and
+   *   give every error a string `message` (the BridgeFieldError shape).
+   *
+   * Other compatible resolvers:
+   * - @hookform/resolvers/* (joi, superstruct, ...)
    * - Custom resolvers (implement Resolver<TFieldValues> interface)
    *
    * @see https://react-hook-form.com/docs/useform#resolver
    * @example
    * ```tsx
-   * // User must install: npm install yup @hookform/resolvers
-   * import { yupResolver } from '@hookform/resolvers/yup';
+   * // User must install: npm install yup
+   * import { yupResolver } from '@dashforge/forms';
    * import * as yup from 'yup';
    *
    * const schema = yup.object({
@@ -187,6 +251,116 @@ export interface DashFormConfig<
    * ```
    */
   resolver?: Resolver<TFieldValues>;
+
+  /**
+   * Field-level access rules, declared once for the whole form.
+   * Maps field names to RBAC access requirements, resolved with
+   * `resolveAccess`. A rule on a parent path covers its children.
+   * With a list of requirements, the first denied one decides the state.
+   *
+   * Fields without an explicit `access` prop render with the resolved
+   * state (hidden, disabled or readonly). Hidden and readonly fields are
+   * removed from the values passed to DashForm's onSubmit; disabled fields
+   * are kept.
+   *
+   * Without `resolveAccess` every field is granted (same as the `access`
+   * prop without an RbacProvider).
+   *
+   * @default undefined
+   * @example
+   * ```tsx
+   * <DashForm
+   *   resolveAccess={useAccessResolver()}
+   *   fieldAccess={{
+   *     // Hidden without read access, readonly without edit access
+   *     salary: [
+   *       { action: 'read', resource: 'employee.salary' },
+   *       { action: 'edit', resource: 'employee.salary', onUnauthorized: 'readonly' },
+   *     ],
+   *   }}
+   * >
+   *   <TextField name="salary" label="Salary" />
+   * </DashForm>
+   * ```
+   */
+  fieldAccess?: FieldAccessMap;
+
+  /**
+   * Resolves the `fieldAccess` requirements against the current subject:
+   * pass `useAccessResolver()` from @dashforge/rbac (null outside an
+   * RbacProvider). Injected so that forms without `fieldAccess` do not
+   * need @dashforge/rbac installed.
+   * Should be stable: a new function re-resolves every rule.
+   *
+   * @default undefined
+   */
+  resolveAccess?: AccessResolver | null;
+
+  /**
+   * Draft autosave: persists the values and touched fields under
+   * `draft.key` (localStorage by default, or any DraftStorage), debounced.
+   * A draft found on load is offered through useDashFormDraft()
+   * (`restore()` / `discard()`), or restored directly with
+   * `restore: 'auto'`. DashForm deletes the draft after a successful
+   * submit.
+   *
+   * Values are stored as JSON: dates are restored as Date objects; files,
+   * blobs and hidden / readonly fields are not stored and keep their
+   * current value.
+   *
+   * @default undefined (no drafts)
+   * @example
+   * ```tsx
+   * <DashForm draft={{ key: `invoice:${id}`, version: 2 }} onSubmit={save}>
+   *   <RestoreDraftBanner />
+   *   ...
+   * </DashForm>
+   * ```
+   */
+  draft?: DashFormDraftOptions<TFieldValues>;
+
+  /**
+   * Cross-field validation rules ("end date after start date", "passwords
+   * match"). Each rule is re-evaluated when one of its `watch` fields
+   * changes, and all of them on submit; a failing rule sets its `message`
+   * as the error of its `target` field(s).
+   *
+   * @default undefined (no cross-field rules)
+   *
+   * @example
+   * ```tsx
+   * <DashForm
+   *   crossFieldRules={[
+   *     {
+   *       id: 'passwords-match',
+   *       watch: ['password', 'confirmPassword'],
+   *       validate: (ctx) =>
+   *         ctx.getValue('password') === ctx.getValue('confirmPassword'),
+   *       target: 'confirmPassword',
+   *       message: 'Passwords do not match',
+   *     },
+   *   ]}
+   * >
+   * ```
+   */
+  crossFieldRules?: CrossFieldRule<TFieldValues>[];
+
+  /**
+   * Undo / redo history of the values, exposed through
+   * useDashFormHistory(). Keystrokes in a field are coalesced into one
+   * step, each useDashFieldArray operation is a step, and DashForm binds
+   * Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) to its form element.
+   *
+   * @default undefined (no history)
+   * @example
+   * ```tsx
+   * <DashForm history={{ limit: 50 }} onSubmit={save}>
+   *   <UndoRedoToolbar />
+   *   ...
+   * </DashForm>
+   * ```
+   */
+  history?: boolean | DashFormHistoryOptions;
 }
 
 /**
@@ -217,8 +391,22 @@ export interface DashFormProps<TFieldValues extends FieldValues = FieldValues>
    * Form submission handler.
    * Receives validated form data when form is submitted.
    * Wrapped with RHF's handleSubmit for validation.
+   *
+   * Return (or throw) a SubmitErrorPayload to report server-side errors:
+   * messages are set on their fields and the form-level message becomes
+   * the `root.server` error (see FormErrorSummary).
+   *
+   * @example
+   * ```tsx
+   * onSubmit={async (data) => {
+   *   const response = await api.save(data);
+   *   if (response.status === 422) {
+   *     return { fieldErrors: response.errors, formError: response.message };
+   *   }
+   * }}
+   * ```
    */
-  onSubmit?: (data: TFieldValues) => void | Promise<void>;
+  onSubmit?: DashFormSubmitHandler<TFieldValues>;
 
   /**
    * Child components to render within the form.
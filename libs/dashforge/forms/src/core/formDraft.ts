@@ -0,0 +1,263 @@
+import type { DeepPartial, FieldValues } from 'react-hook-form';
+
+/**
+ * Storage used to persist form drafts.
+ *
+ * `window.localStorage` and `window.sessionStorage` match this shape
+ * as-is. Methods may return promises, for IndexedDB or remote storage.
+ */
+export interface DraftStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+/**
+ * Draft autosave options (`DashFormConfig.draft`).
+ *
+ * @template TFieldValues - Form field values type
+ */
+export interface DashFormDraftOptions<
+  TFieldValues extends FieldValues = FieldValues
+> {
+  /**
+   * Storage key of the draft. Must be unique per form (and per record
+   * for edit forms, e.g. `invoice:42`).
+   *
+   * Stored values are JSON: dates are kept (restored as `Date`), files and
+   * blobs are left out, as are hidden and readonly fields (`fieldAccess`).
+   * Fields left out keep their current value on restore.
+   */
+  key: string;
+
+  /**
+   * Where drafts are stored.
+   * @default window.localStorage (drafts are disabled when unavailable)
+   */
+  storage?: DraftStorage;
+
+  /**
+   * Delay after the last change before the draft is written, in ms.
+   * @default 500
+   */
+  debounceMs?: number;
+
+  /**
+   * Version of the values shape. Bump it when the form changes so old
+   * drafts go through `migrate` (or are dropped without it).
+   * @default 1
+   */
+  version?: number;
+
+  /**
+   * Upgrades the values of a draft stored with another version.
+   * Return null to drop the draft.
+   */
+  migrate?: (
+    values: unknown,
+    storedVersion: number
+  ) => DeepPartial<TFieldValues> | null;
+
+  /**
+   * `'prompt'`: a found draft waits for `restore()` / `discard()` from
+   * useDashFormDraft() (autosave is paused meanwhile, so the draft is
+   * not overwritten). `'auto'`: the draft is restored on load.
+   * @default 'prompt'
+   */
+  restore?: 'prompt' | 'auto';
+}
+
+/**
+ * Shape written to storage (JSON).
+ */
+export interface StoredFormDraft {
+  version: number;
+  /** Epoch milliseconds. */
+  savedAt: number;
+  /**
+   * Values without restricted fields, files and blobs. Dates are stored
+   * as `{ $date: ISO string }`, array elements left out as
+   * `{ $omitted: true }`.
+   */
+  values: unknown;
+  /** Touched field paths. Dirty state is recomputed against defaultValues. */
+  touched: string[];
+}
+
+/**
+ * Lifecycle of the stored draft:
+ * - `loading`: reading storage
+ * - `none`: no draft (or drafts disabled)
+ * - `available`: a draft was found and awaits restore() / discard()
+ * - `restored`: the draft was applied to the form
+ * - `discarded`: the found draft was discarded
+ */
+export type DashFormDraftStatus =
+  | 'loading'
+  | 'none'
+  | 'available'
+  | 'restored'
+  | 'discarded';
+
+/**
+ * Draft state and controls, returned by useDashFormDraft().
+ */
+export interface DashFormDraftState {
+  status: DashFormDraftStatus;
+  /** When the found / restored draft was saved. */
+  savedAt: Date | null;
+  /** Applies the found draft to the form. No-op unless `available`. */
+  restore: () => void;
+  /** Deletes the found draft and resumes autosave. */
+  discard: () => Promise<void>;
+  /**
+   * Deletes the stored draft and cancels a pending save. DashForm calls
+   * it after a successful submit; call it yourself with a bare provider.
+   */
+  clear: () => Promise<void>;
+}
+
+export const DEFAULT_DRAFT_DEBOUNCE_MS = 500;
+
+/**
+ * Default draft storage: localStorage, when available (not during SSR,
+ * nor when blocked by browser privacy settings).
+ */
+export function getDefaultDraftStorage(): DraftStorage | null {
+  try {
+    return typeof window !== 'undefined' && window.localStorage
+      ? window.localStorage
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Writes a draft as JSON (see StoredFormDraft.values).
+ *
+ * @param draft - Draft to store
+ * @returns JSON string
+ */
+export function serializeFormDraft(draft: StoredFormDraft): string {
+  return JSON.stringify(
+    draft,
+    // `this[key]` is the raw value: `value` has already been through toJSON
+    function (this: unknown, key: string, value: unknown) {
+      const raw = (this as Record<string, unknown>)[key];
+      if (raw instanceof Date) {
+        return { $date: raw.toISOString() };
+      }
+
+      const omitted =
+        raw === undefined ||
+        (typeof Blob !== 'undefined' && raw instanceof Blob);
+      if (omitted) {
+        // Array elements keep their index; object keys are dropped
+        return Array.isArray(this) ? { $omitted: true } : undefined;
+      }
+
+      return value;
+    }
+  );
+}
+
+/**
+ * Merges restored draft values over the current values: plain objects and
+ * arrays key by key, so fields left out of the draft keep their value.
+ *
+ * @param current - Current form values
+ * @param stored - Draft values (parseFormDraft)
+ * @returns Merged values
+ */
+export function mergeDraftValues(current: unknown, stored: unknown): unknown {
+  if (stored === undefined || isOmitted(stored)) {
+    return current;
+  }
+
+  if (Array.isArray(stored)) {
+    return stored.map((item, index) =>
+      mergeDraftValues(
+        Array.isArray(current) ? current[index] : undefined,
+        item
+      )
+    );
+  }
+
+  if (isPlainObject(stored)) {
+    const merged: Record<string, unknown> = isPlainObject(current)
+      ? { ...current }
+      : {};
+    for (const [key, item] of Object.entries(stored)) {
+      merged[key] = mergeDraftValues(merged[key], item);
+    }
+    return merged;
+  }
+
+  return stored;
+}
+
+/**
+ * Reads a stored draft, migrating it to the current version.
+ *
+ * @param raw - Stored JSON
+ * @param options - Draft options (version, migrate)
+ * @returns The draft, or null when missing, unreadable or dropped by migrate
+ */
+export function parseFormDraft<TFieldValues extends FieldValues>(
+  raw: string | null,
+  options: DashFormDraftOptions<TFieldValues>
+): StoredFormDraft | null {
+  if (!raw) {
+    return null;
+  }
+
+  let draft: StoredFormDraft;
+  try {
+    draft = JSON.parse(raw, reviveDraftValue) as StoredFormDraft;
+  } catch {
+    return null;
+  }
+
+  if (
+    !draft ||
+    typeof draft !== 'object' ||
+    typeof draft.version !== 'number' ||
+    typeof draft.values !== 'object' ||
+    draft.values === null
+  ) {
+    return null;
+  }
+
+  const version = options.version ?? 1;
+  if (draft.version === version) {
+    return draft;
+  }
+
+  const values = options.migrate?.(draft.values, draft.version);
+  return values ? { ...draft, version, values } : null;
+}
+
+function reviveDraftValue(_key: string, value: unknown): unknown {
+  if (
+    isPlainObject(value) &&
+    Object.keys(value).length === 1 &&
+    typeof value['$date'] === 'string'
+  ) {
+    const date = new Date(value['$date']);
+    return Number.isNaN(date.getTime()) ? value : date;
+  }
+  return value;
+}
+
+function isOmitted(value: unknown): boolean {
+  return isPlainObject(value) && value['$omitted'] === true;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
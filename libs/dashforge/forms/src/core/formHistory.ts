@@ -0,0 +1,182 @@
+/**
+ * Undo / redo history options (`DashFormConfig.history`).
+ */
+export interface DashFormHistoryOptions {
+  /**
+   * Maximum number of undo steps kept; the oldest are dropped.
+   * @default 100
+   */
+  limit?: number;
+
+  /**
+   * Changes of the same field less than `coalesceMs` apart form a single
+   * step (typing a word is undone at once, not per keystroke).
+   * @default 1000
+   */
+  coalesceMs?: number;
+
+  /**
+   * Keyboard shortcuts: Ctrl+Z / Cmd+Z (undo) and Ctrl+Shift+Z /
+   * Cmd+Shift+Z / Ctrl+Y (redo). DashForm binds them to its form element;
+   * with a bare DashFormProvider, pass `handleKeyDown` to the element
+   * wrapping the fields. False turns `handleKeyDown` into a no-op.
+   * @default true
+   */
+  shortcuts?: boolean;
+}
+
+/**
+ * Undo / redo state and controls, returned by useDashFormHistory().
+ */
+export interface DashFormHistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Restores the values before the last step. No-op unless `canUndo`. */
+  undo: () => void;
+  /** Re-applies the last undone step. No-op unless `canRedo`. */
+  redo: () => void;
+  /**
+   * Runs `operation` as a single step, whatever the number of values it
+   * changes. useDashFieldArray operations go through it.
+   */
+  batch: (operation: () => void) => void;
+  /**
+   * Keyboard shortcut handler (undo / redo), bound by DashForm to its
+   * form element. Key presses with nothing to undo / redo are left to the
+   * browser.
+   */
+  handleKeyDown: (event: HistoryKeyboardEvent) => void;
+}
+
+/**
+ * The fields of DOM and React keyboard events read by the shortcuts.
+ */
+export interface HistoryKeyboardEvent {
+  key: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  shiftKey: boolean;
+  altKey: boolean;
+  defaultPrevented: boolean;
+  preventDefault: () => void;
+}
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+export const DEFAULT_HISTORY_COALESCE_MS = 1000;
+
+/**
+ * Resolves the history shortcut of a key press.
+ *
+ * @param event - Keyboard event
+ * @returns The action, or null when the key press is not a shortcut
+ */
+export function getHistoryShortcut(
+  event: HistoryKeyboardEvent
+): 'undo' | 'redo' | null {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) {
+    return null;
+  }
+
+  const key = event.key.toLowerCase();
+  if (key === 'z') {
+    return event.shiftKey ? 'redo' : 'undo';
+  }
+  if (key === 'y' && !event.shiftKey) {
+    return 'redo';
+  }
+  return null;
+}
+
+/**
+ * Structural equality of form values (primitives, dates, arrays and plain
+ * objects).
+ */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (
+    typeof a !== 'object' ||
+    typeof b !== 'object' ||
+    a === null ||
+    b === null ||
+    Array.isArray(a) !== Array.isArray(b)
+  ) {
+    return false;
+  }
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = Object.keys(aRecord);
+  if (keys.length !== Object.keys(bRecord).length) {
+    return false;
+  }
+  return keys.every(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(bRecord, key) &&
+      valuesEqual(aRecord[key], bRecord[key])
+  );
+}
+
+/**
+ * Copy of form values for the history: arrays, plain objects and dates
+ * are copied, other values (File, class instances) are shared.
+ */
+export function cloneValues<T>(value: T): T {
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(cloneValues) as T;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, cloneValues(item)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Paths to set to turn `from` into `to`: plain objects are compared key
+ * by key, other values (arrays included, so field arrays are replaced
+ * through their name) are set whole.
+ *
+ * @returns [path, value] pairs
+ */
+export function diffValues(
+  from: unknown,
+  to: unknown,
+  prefix = ''
+): [string, unknown][] {
+  if (valuesEqual(from, to)) {
+    return [];
+  }
+  if (!prefix || (isPlainObject(from) && isPlainObject(to))) {
+    const fromRecord = isPlainObject(from) ? from : {};
+    const toRecord = isPlainObject(to) ? to : {};
+    const keys = new Set([
+      ...Object.keys(fromRecord),
+      ...Object.keys(toRecord),
+    ]);
+    return [...keys].flatMap((key) =>
+      diffValues(
+        fromRecord[key],
+        toRecord[key],
+        prefix ? `${prefix}.${key}` : key
+      )
+    );
+  }
+  return [[prefix, to]];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
@@ -0,0 +1,135 @@
+import type { BaseSyntheticEvent } from 'react';
+import type { FieldPath, FieldValues, UseFormSetError } from 'react-hook-form';
+
+/**
+ * Structured submission errors, typically a server validation response.
+ *
+ * `onSubmit` may return it or throw it (as-is or wrapped in a
+ * SubmitError): DashForm then sets each message as the error of its field
+ * and the form-level message as the `root.server` error.
+ *
+ * @example
+ * ```ts
+ * { fieldErrors: { email: 'Already taken', 'emails.0.address': 'Invalid' } }
+ * { formError: 'The invoice was changed by someone else' }
+ * ```
+ */
+export interface SubmitErrorPayload {
+  /** Messages by field path (dot paths, as passed to register). */
+  fieldErrors?: Record<string, string>;
+  /** Message about the submission as a whole. */
+  formError?: string;
+}
+
+/**
+ * Error carrying a SubmitErrorPayload, for `onSubmit` handlers (or API
+ * clients) that report failures by throwing.
+ */
+export class SubmitError extends Error {
+  readonly payload: SubmitErrorPayload;
+
+  constructor(payload: SubmitErrorPayload, message?: string) {
+    super(message ?? payload.formError ?? 'Submission failed');
+    this.name = 'SubmitError';
+    this.payload = payload;
+  }
+}
+
+/**
+ * Submit handler accepted by DashForm: may return (or throw) a
+ * SubmitErrorPayload to report submission errors.
+ *
+ * @template TFieldValues - Form field values type
+ */
+export type DashFormSubmitHandler<TFieldValues extends FieldValues> = (
+  data: TFieldValues,
+  event?: BaseSyntheticEvent
+) =>
+  | void
+  | SubmitErrorPayload
+  | Promise<void | SubmitErrorPayload>;
+
+/**
+ * Lifecycle of the last submission:
+ * - `idle`: not submitted yet
+ * - `submitting`: validating or waiting for onSubmit
+ * - `succeeded`: onSubmit resolved without errors
+ * - `failed`: validation failed, or onSubmit returned / threw errors
+ */
+export type DashFormSubmitStatus =
+  | 'idle'
+  | 'submitting'
+  | 'succeeded'
+  | 'failed';
+
+/**
+ * Submit state, returned by useDashFormSubmit().
+ */
+export interface DashFormSubmitState {
+  status: DashFormSubmitStatus;
+  /** Form-level message of the last failed submission. */
+  formError: string | null;
+}
+
+/**
+ * RHF error key of the form-level submission message. RHF clears `root`
+ * errors at the start of each submit.
+ */
+export const FORM_ERROR_PATH = 'root.server';
+
+/**
+ * Reads the SubmitErrorPayload returned or thrown by onSubmit.
+ *
+ * @param value - onSubmit result or thrown value
+ * @returns The payload, or null when the value carries no submission errors
+ */
+export function getSubmitErrorPayload(
+  value: unknown
+): SubmitErrorPayload | null {
+  if (value instanceof SubmitError) {
+    return value.payload;
+  }
+
+  if (!value || typeof value !== 'object' || value instanceof Error) {
+    return null;
+  }
+
+  const { fieldErrors, formError } = value as SubmitErrorPayload;
+  const hasFieldErrors =
+    !!fieldErrors &&
+    typeof fieldErrors === 'object' &&
+    Object.keys(fieldErrors).length > 0;
+  const hasFormError = typeof formError === 'string' && formError !== '';
+
+  return hasFieldErrors || hasFormError ? (value as SubmitErrorPayload) : null;
+}
+
+/**
+ * Sets the payload messages as RHF errors (type `server`), focusing the
+ * first field. Fields see them through `bridge.getError()` /
+ * useDashFieldMeta like any validation error, until the field changes.
+ *
+ * @param setError - RHF setError
+ * @param payload - Submission errors
+ */
+export function applySubmitErrors<TFieldValues extends FieldValues>(
+  setError: UseFormSetError<TFieldValues>,
+  payload: SubmitErrorPayload
+): void {
+  Object.entries(payload.fieldErrors ?? {}).forEach(
+    ([path, message], index) => {
+      setError(
+        path as FieldPath<TFieldValues>,
+        { type: 'server', message },
+        { shouldFocus: index === 0 }
+      );
+    }
+  );
+
+  if (payload.formError) {
+    setError(FORM_ERROR_PATH as `root.${string}`, {
+      type: 'server',
+      message: payload.formError,
+    });
+  }
+}
@@ -0,0 +1,241 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type {
+  FieldPath,
+  FieldValues,
+  PathValue,
+  UseFormReturn,
+} from 'react-hook-form';
+import type { IFormEngineAdapter } from './form.types';
+import { flattenFormState } from './flattenFormState';
+import {
+  DEFAULT_DRAFT_DEBOUNCE_MS,
+  getDefaultDraftStorage,
+  mergeDraftValues,
+  parseFormDraft,
+  serializeFormDraft,
+} from './formDraft';
+import type {
+  DashFormDraftOptions,
+  DashFormDraftState,
+  DashFormDraftStatus,
+  DraftStorage,
+  StoredFormDraft,
+} from './formDraft';
+
+/**
+ * Runs a storage operation; failures (quota, blocked storage, rejected
+ * promises) are ignored: drafts are best effort and never break the form.
+ */
+async function safely(operation: () => unknown): Promise<void> {
+  try {
+    await operation();
+  } catch {
+    // Best effort
+  }
+}
+
+/**
+ * Draft autosave / restore for DashFormProvider (`draft` option).
+ *
+ * - Loads the draft stored under `key` on mount (and when `key` changes)
+ * - Saves values + touched paths, debounced, after each field change
+ *   (resets are not saved: they are not user edits). Hidden and readonly
+ *   fields are left out, as are files and blobs (serializeFormDraft)
+ * - Restores over the current values: fields left out keep their value
+ * - Flushes a pending save on unmount
+ *
+ * @param rhf - Form methods
+ * @param adapter - Engine adapter (restored values are synced to the Engine)
+ * @param omitRestrictedFields - Removes hidden and readonly fields
+ * @param options - Draft options; undefined disables drafts
+ * @returns Draft state and controls, or null when disabled
+ */
+export function useFormDraft<TFieldValues extends FieldValues>(
+  rhf: UseFormReturn<TFieldValues>,
+  adapter: IFormEngineAdapter<TFieldValues>,
+  omitRestrictedFields: (values: TFieldValues) => TFieldValues,
+  options: DashFormDraftOptions<TFieldValues> | undefined
+): DashFormDraftState | null {
+  const key = options?.key;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const [status, setStatusState] = useState<DashFormDraftStatus>(
+    key ? 'loading' : 'none'
+  );
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+
+  // Read synchronously by the watch callback, hence refs next to the state
+  const statusRef = useRef(status);
+  const foundRef = useRef<StoredFormDraft | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | undefined>(
+    undefined
+  );
+
+  const setStatus = useCallback((next: DashFormDraftStatus) => {
+    statusRef.current = next;
+    setStatusState(next);
+  }, []);
+
+  const getStorage = useCallback((): DraftStorage | null => {
+    const current = optionsRef.current;
+    if (!current) return null;
+    return current.storage ?? getDefaultDraftStorage();
+  }, []);
+
+  const save = useCallback(
+    (draftKey: string) => {
+      timerRef.current = undefined;
+      const storage = getStorage();
+      if (!storage) return;
+
+      const touched = [...flattenFormState(rhf.formState.touchedFields)]
+        .filter(([, value]) => value === true)
+        .map(([path]) => path);
+
+      const draft: StoredFormDraft = {
+        version: optionsRef.current?.version ?? 1,
+        savedAt: Date.now(),
+        values: omitRestrictedFields(rhf.getValues()),
+        touched,
+      };
+
+      void safely(() => storage.setItem(draftKey, serializeFormDraft(draft)));
+    },
+    [rhf, omitRestrictedFields, getStorage]
+  );
+
+  const apply = useCallback(
+    (draft: StoredFormDraft) => {
+      // keepDefaultValues: dirty state is recomputed against the defaults
+      rhf.reset(
+        mergeDraftValues(rhf.getValues(), draft.values) as TFieldValues,
+        { keepDefaultValues: true }
+      );
+
+      for (const path of draft.touched) {
+        const name = path as FieldPath<TFieldValues>;
+        rhf.setValue(
+          name,
+          rhf.getValues(name) as PathValue<TFieldValues, typeof name>,
+          { shouldTouch: true }
+        );
+      }
+
+      for (const name of adapter.getRegisteredFields()) {
+        adapter.syncValueToEngine(
+          name as FieldPath<TFieldValues>,
+          rhf.getValues(name as FieldPath<TFieldValues>)
+        );
+      }
+    },
+    [rhf, adapter]
+  );
+
+  // Load the stored draft
+  useEffect(() => {
+    const current = optionsRef.current;
+    const storage = getStorage();
+    if (!key || !current || !storage) {
+      setStatus('none');
+      return;
+    }
+
+    let cancelled = false;
+    setStatus('loading');
+
+    void (async () => {
+      let raw: string | null;
+      try {
+        raw = await storage.getItem(key);
+      } catch {
+        raw = null;
+      }
+      if (cancelled) return;
+
+      const draft = parseFormDraft(raw, current);
+      if (!draft) {
+        // Unreadable or outdated: drop it
+        if (raw) void safely(() => storage.removeItem(key));
+        setStatus('none');
+        return;
+      }
+
+      foundRef.current = draft;
+      setSavedAt(new Date(draft.savedAt));
+
+      if (current.restore === 'auto') {
+        apply(draft);
+        setStatus('restored');
+      } else {
+        setStatus('available');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key, getStorage, setStatus, apply]);
+
+  // Autosave
+  useEffect(() => {
+    if (!key) return;
+
+    const subscription = rhf.watch((_values, { name }) => {
+      // No name: reset() (restore included), not a user edit. While a
+      // found draft awaits a decision, saving would overwrite it.
+      if (
+        !name ||
+        statusRef.current === 'loading' ||
+        statusRef.current === 'available'
+      ) {
+        return;
+      }
+
+      clearTimeout(timerRef.current);
+      timerRef.current = setTimeout(
+        () => save(key),
+        optionsRef.current?.debounceMs ?? DEFAULT_DRAFT_DEBOUNCE_MS
+      );
+    });
+
+    return () => {
+      subscription.unsubscribe();
+      if (timerRef.current !== undefined) {
+        clearTimeout(timerRef.current);
+        save(key);
+      }
+    };
+  }, [key, rhf, save]);
+
+  const restore = useCallback(() => {
+    const draft = foundRef.current;
+    if (statusRef.current !== 'available' || !draft) return;
+    apply(draft);
+    setStatus('restored');
+  }, [apply, setStatus]);
+
+  const discard = useCallback(async () => {
+    const storage = getStorage();
+    if (statusRef.current !== 'available' || !key || !storage) return;
+    foundRef.current = null;
+    setStatus('discarded');
+    await safely(() => storage.removeItem(key));
+  }, [key, getStorage, setStatus]);
+
+  const clear = useCallback(async () => {
+    clearTimeout(timerRef.current);
+    timerRef.current = undefined;
+    const storage = getStorage();
+    if (!key || !storage) return;
+    foundRef.current = null;
+    setSavedAt(null);
+    setStatus('none');
+    await safely(() => storage.removeItem(key));
+  }, [key, getStorage, setStatus]);
+
+  return useMemo(
+    () => (key ? { status, savedAt, restore, discard, clear } : null),
+    [key, status, savedAt, restore, discard, clear]
+  );
+}
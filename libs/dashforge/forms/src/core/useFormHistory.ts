@@ -0,0 +1,254 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { get } from 'react-hook-form';
+import type {
+  FieldPath,
+  FieldValues,
+  PathValue,
+  UseFormReturn,
+} from 'react-hook-form';
+import type { IFormEngineAdapter } from './form.types';
+import {
+  DEFAULT_HISTORY_COALESCE_MS,
+  DEFAULT_HISTORY_LIMIT,
+  cloneValues,
+  diffValues,
+  getHistoryShortcut,
+  valuesEqual,
+} from './formHistory';
+import type {
+  DashFormHistoryOptions,
+  DashFormHistoryState,
+  HistoryKeyboardEvent,
+} from './formHistory';
+
+/**
+ * Undo / redo stacks of value snapshots.
+ */
+interface HistoryStack<TFieldValues extends FieldValues> {
+  past: TFieldValues[];
+  future: TFieldValues[];
+  /** Values after the last recorded change; null until mounted. */
+  present: TFieldValues | null;
+  /** Field of the open coalescing step; null once the step is closed. */
+  lastField: string | null;
+  lastChangeAt: number;
+}
+
+/**
+ * Undo / redo history for DashFormProvider (`history` option).
+ *
+ * - Records a snapshot of the values after each field change; changes of
+ *   the same field within `coalesceMs` extend the current step
+ * - `batch()` records its changes as one step (field array operations)
+ * - A reset to other values (draft restore, `rhf.reset`) starts a new
+ *   history: it is not a user edit
+ * - undo / redo set the values that differ from a snapshot (dirty state
+ *   follows, errors are revalidated once submitted) and sync the changed
+ *   fields to the Engine
+ *
+ * @param rhf - Form methods
+ * @param adapter - Engine adapter (restored values are synced to the Engine)
+ * @param options - History options; undefined / false disables the history
+ * @returns History state and controls, or null when disabled
+ */
+export function useFormHistory<TFieldValues extends FieldValues>(
+  rhf: UseFormReturn<TFieldValues>,
+  adapter: IFormEngineAdapter<TFieldValues>,
+  options: boolean | DashFormHistoryOptions | undefined
+): DashFormHistoryState | null {
+  const enabled = options !== undefined && options !== false;
+  const optionsRef = useRef<DashFormHistoryOptions>({});
+  optionsRef.current = typeof options === 'object' ? options : {};
+
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+
+  // Read synchronously by the watch callback, hence refs
+  const stackRef = useRef<HistoryStack<TFieldValues>>({
+    past: [],
+    future: [],
+    present: null,
+    lastField: null,
+    lastChangeAt: 0,
+  });
+  // Set while undo / redo / batch change the values: not recorded as edits
+  const pausedRef = useRef(false);
+
+  const syncFlags = useCallback(() => {
+    const stack = stackRef.current;
+    setCanUndo(stack.past.length > 0);
+    setCanRedo(stack.future.length > 0);
+  }, []);
+
+  /** Pushes a new step ending with `values`. */
+  const pushStep = useCallback(
+    (values: TFieldValues, field: string | null) => {
+      const stack = stackRef.current;
+      if (stack.present) {
+        stack.past.push(stack.present);
+        const limit = optionsRef.current.limit ?? DEFAULT_HISTORY_LIMIT;
+        if (stack.past.length > limit) {
+          stack.past.splice(0, stack.past.length - limit);
+        }
+      }
+      stack.future = [];
+      stack.present = values;
+      stack.lastField = field;
+      stack.lastChangeAt = Date.now();
+      syncFlags();
+    },
+    [syncFlags]
+  );
+
+  const apply = useCallback(
+    (values: TFieldValues) => {
+      const before = cloneValues(rhf.getValues());
+      const shouldValidate = rhf.formState.isSubmitted;
+
+      pausedRef.current = true;
+      try {
+        for (const [name, value] of diffValues(before, values)) {
+          rhf.setValue(
+            name as FieldPath<TFieldValues>,
+            cloneValues(value) as PathValue<
+              TFieldValues,
+              FieldPath<TFieldValues>
+            >,
+            { shouldDirty: true, shouldValidate }
+          );
+        }
+      } finally {
+        pausedRef.current = false;
+      }
+
+      for (const name of adapter.getRegisteredFields()) {
+        if (!valuesEqual(get(before, name), get(values, name))) {
+          adapter.syncValueToEngine(
+            name as FieldPath<TFieldValues>,
+            rhf.getValues(name as FieldPath<TFieldValues>)
+          );
+        }
+      }
+    },
+    [rhf, adapter]
+  );
+
+  // Record value changes
+  useEffect(() => {
+    const stack = stackRef.current;
+    if (!enabled) return;
+
+    stack.present = cloneValues(rhf.getValues());
+
+    const subscription = rhf.watch((_values, { name }) => {
+      if (pausedRef.current) return;
+
+      const values = rhf.getValues();
+      if (stack.present && valuesEqual(values, stack.present)) return;
+
+      // No name: reset() to other values, a new baseline
+      if (!name) {
+        stack.past = [];
+        stack.future = [];
+        stack.present = cloneValues(values);
+        stack.lastField = null;
+        syncFlags();
+        return;
+      }
+
+      const coalesceMs =
+        optionsRef.current.coalesceMs ?? DEFAULT_HISTORY_COALESCE_MS;
+      if (
+        name === stack.lastField &&
+        Date.now() - stack.lastChangeAt < coalesceMs
+      ) {
+        stack.present = cloneValues(values);
+        stack.lastChangeAt = Date.now();
+        return;
+      }
+
+      pushStep(cloneValues(values), name);
+    });
+
+    return () => {
+      subscription.unsubscribe();
+      stack.past = [];
+      stack.future = [];
+      stack.present = null;
+      stack.lastField = null;
+      syncFlags();
+    };
+  }, [enabled, rhf, pushStep, syncFlags]);
+
+  const undo = useCallback(() => {
+    const stack = stackRef.current;
+    const previous = stack.past.pop();
+    if (!previous || !stack.present) return;
+
+    stack.future.push(stack.present);
+    stack.present = previous;
+    stack.lastField = null;
+    apply(previous);
+    syncFlags();
+  }, [apply, syncFlags]);
+
+  const redo = useCallback(() => {
+    const stack = stackRef.current;
+    const next = stack.future.pop();
+    if (!next || !stack.present) return;
+
+    stack.past.push(stack.present);
+    stack.present = next;
+    stack.lastField = null;
+    apply(next);
+    syncFlags();
+  }, [apply, syncFlags]);
+
+  const batch = useCallback(
+    (operation: () => void) => {
+      // Nested batch: the outer one records the step
+      if (pausedRef.current) {
+        operation();
+        return;
+      }
+
+      pausedRef.current = true;
+      try {
+        operation();
+      } finally {
+        pausedRef.current = false;
+      }
+
+      const stack = stackRef.current;
+      const values = rhf.getValues();
+      if (!stack.present || valuesEqual(values, stack.present)) return;
+      pushStep(cloneValues(values), null);
+    },
+    [rhf, pushStep]
+  );
+
+  const handleKeyDown = useCallback(
+    (event: HistoryKeyboardEvent) => {
+      if (optionsRef.current.shortcuts === false || event.defaultPrevented) {
+        return;
+      }
+
+      const stack = stackRef.current;
+      const action = getHistoryShortcut(event);
+      if (action === 'undo' && stack.past.length > 0) {
+        event.preventDefault();
+        undo();
+      } else if (action === 'redo' && stack.future.length > 0) {
+        event.preventDefault();
+        redo();
+      }
+    },
+    [undo, redo]
+  );
+
+  return useMemo(
+    () =>
+      enabled ? { canUndo, canRedo, undo, redo, batch, handleKeyDown } : null,
+    [enabled, canUndo, canRedo, undo, redo, batch, handleKeyDown]
+  );
+}
@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { BaseSyntheticEvent } from 'react';
+import type { FieldValues, UseFormReturn } from 'react-hook-form';
+import type { DashFormDraftState } from './formDraft';
+import { applySubmitErrors, getSubmitErrorPayload } from './submitErrors';
+import type {
+  DashFormSubmitHandler,
+  DashFormSubmitState,
+  SubmitErrorPayload,
+} from './submitErrors';
+
+const IDLE: DashFormSubmitState = { status: 'idle', formError: null };
+
+/**
+ * Submit lifecycle for DashFormProvider.
+ *
+ * `createSubmitHandler(onSubmit)` wraps `rhf.handleSubmit`:
+ * - runs cross-field rules and waits for pending async validators
+ *   (onSubmit is skipped when one fails)
+ * - removes restricted fields (fieldAccess) from the submitted values
+ * - maps a returned / thrown SubmitErrorPayload onto the fields
+ * - deletes the draft once onSubmit succeeds
+ * - tracks the status (other thrown errors mark the submission failed
+ *   and are rethrown)
+ *
+ * A server error is cleared as soon as its field changes: it describes
+ * the submitted value, and fields without rules are never revalidated.
+ *
+ * @param rhf - Form methods
+ * @param omitRestrictedFields - Removes hidden and readonly fields
+ * @param draft - Draft controls, null without drafts
+ * @param validateFields - Cross-field and async validation of the form
+ * @returns Submit state and the handler factory
+ */
+export function useFormSubmit<TFieldValues extends FieldValues>(
+  rhf: UseFormReturn<TFieldValues>,
+  omitRestrictedFields: (values: TFieldValues) => TFieldValues,
+  draft: DashFormDraftState | null,
+  validateFields: () => Promise<boolean>
+) {
+  const [submitState, setSubmitState] = useState<DashFormSubmitState>(IDLE);
+
+  useEffect(() => {
+    const subscription = rhf.watch((_values, { name }) => {
+      if (!name) return;
+      if (rhf.getFieldState(name).error?.type === 'server') {
+        rhf.clearErrors(name);
+      }
+    });
+    return () => subscription.unsubscribe();
+  }, [rhf]);
+
+  const createSubmitHandler = useCallback(
+    (onSubmit?: DashFormSubmitHandler<TFieldValues>) =>
+      async (event?: BaseSyntheticEvent) => {
+        setSubmitState({ status: 'submitting', formError: null });
+
+        const onValid = async (data: TFieldValues, ev?: BaseSyntheticEvent) => {
+          if (!(await validateFields())) {
+            setSubmitState({ status: 'failed', formError: null });
+            return;
+          }
+
+          let payload: SubmitErrorPayload | null;
+          try {
+            payload = getSubmitErrorPayload(
+              await onSubmit?.(omitRestrictedFields(data), ev)
+            );
+          } catch (error) {
+            payload = getSubmitErrorPayload(error);
+            if (!payload) {
+              setSubmitState({ status: 'failed', formError: null });
+              throw error;
+            }
+          }
+
+          if (payload) {
+            applySubmitErrors(rhf.setError, payload);
+            setSubmitState({
+              status: 'failed',
+              formError: payload.formError ?? null,
+            });
+            return;
+          }
+
+          await draft?.clear();
+          setSubmitState({ status: 'succeeded', formError: null });
+        };
+
+        await rhf.handleSubmit(onValid, () =>
+          setSubmitState({ status: 'failed', formError: null })
+        )(event);
+      },
+    [rhf, omitRestrictedFields, draft, validateFields]
+  );
+
+  return { submitState, createSubmitHandler };
+}
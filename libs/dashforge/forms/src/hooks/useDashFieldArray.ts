@@ -144,8 +144,8 @@ export interface UseDashFieldArrayReturn<TItem> {
 export function useDashFieldArray<TItem>(
   name: string
 ): UseDashFieldArrayReturn<TItem> {
-  // Get RHF instance from DashFormContext
-  const { rhf } = useDashFormContext();
+  // Get RHF instance (and the undo / redo history) from DashFormContext
+  const { rhf, history } = useDashFormContext();
 
   // Delegate to RHF useFieldArray
   // LOCALIZED CAST: RHF requires FieldPath<FieldValues>, we accept string for DX
@@ -173,15 +173,28 @@ export function useDashFieldArray<TItem>(
     }));
   }, [rhfFields, name]);
 
+  // Each operation is a single undo step (history option)
+  const batch = history?.batch;
+  const operations = useMemo(() => {
+    const step =
+      <TArgs extends unknown[]>(operation: (...args: TArgs) => void) =>
+      (...args: TArgs) =>
+        batch ? batch(() => operation(...args)) : operation(...args);
+
+    // LOCALIZED CASTS: RHF generic methods cast to match public signature
+    // These casts do NOT leak to public API
+    return {
+      append: step(append as (item: TItem) => void),
+      remove: step(remove),
+      move: step(move),
+      insert: step(insert as (index: number, item: TItem) => void),
+      replace: step(replace as (items: TItem[]) => void),
+    };
+  }, [batch, append, remove, move, insert, replace]);
+
   // Return Dashforge-style API
-  // LOCALIZED CASTS: RHF generic methods cast to match public signature
-  // These casts do NOT leak to public API
   return {
     fields, // Dashforge type
-    append: append as (item: TItem) => void, // Cast for public signature
-    remove, // No cast needed
-    move, // No cast needed
-    insert: insert as (index: number, item: TItem) => void, // Cast for public signature
-    replace: replace as (items: TItem[]) => void, // Cast for public signature
+    ...operations,
   };
 }
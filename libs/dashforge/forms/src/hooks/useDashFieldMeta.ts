@@ -30,6 +30,8 @@ export interface DashFieldMeta {
   dirty: boolean;
   /** Number of submit attempts (form-level, kept here for ergonomics). */
   submitCount: number;
+  /** An async validator check is scheduled or in flight. */
+  validating: boolean;
   /**
    * Convenience flag: an error should be displayed because the field is
    * touched OR the form has been submitted at least once. Implements the
@@ -45,6 +47,7 @@ const EMPTY_META: DashFieldMeta = {
   touched: false,
   dirty: false,
   submitCount: 0,
+  validating: false,
   allowAutoError: false,
 };
 
@@ -83,7 +86,8 @@ const EMPTY_META: DashFieldMeta = {
  * **Register** = wire a new input.
  *
  * @param name - Field name to subscribe to
- * @returns DashFieldMeta with value / error / touched / dirty / submitCount
+ * @returns DashFieldMeta with value / error / touched / dirty / submitCount /
+ *   validating
  *
  * @example
  * ```tsx
@@ -115,12 +119,12 @@ export function useDashFieldMeta(name: string): DashFieldMeta {
   // bridge.getError is allowed to allocate a fresh `{ message }` object on
   // every call, so we cannot rely on object identity. Instead we cache the
   // last snapshot AND its primitive identity (errorMessage string,
-  // value/touched/dirty/submitCount) and only mint a new snapshot when one
-  // of those primitives actually differs.
+  // value/touched/dirty/submitCount/validating) and only mint a new
+  // snapshot when one of those primitives actually differs.
   const cacheRef = useMemo(
     () => ({
       primitives: null as
-        | [unknown, string | null, boolean, boolean, number]
+        | [unknown, string | null, boolean, boolean, number, boolean]
         | null,
       snapshot: null as DashFieldMeta | null,
     }),
@@ -138,6 +142,7 @@ export function useDashFieldMeta(name: string): DashFieldMeta {
     const touched = bridge.isTouched(name) ?? false;
     const dirty = bridge.isDirty(name) ?? false;
     const submitCount = bridge.submitCount ?? 0;
+    const validating = bridge.isValidating?.(name) ?? false;
 
     const prev = cacheRef.primitives;
     const prevSnapshot = cacheRef.snapshot;
@@ -148,7 +153,8 @@ export function useDashFieldMeta(name: string): DashFieldMeta {
       prev[1] === errorMessage &&
       prev[2] === touched &&
       prev[3] === dirty &&
-      prev[4] === submitCount
+      prev[4] === submitCount &&
+      prev[5] === validating
     ) {
       return prevSnapshot;
     }
@@ -160,9 +166,17 @@ export function useDashFieldMeta(name: string): DashFieldMeta {
       touched,
       dirty,
       submitCount,
+      validating,
       allowAutoError,
     };
-    cacheRef.primitives = [value, errorMessage, touched, dirty, submitCount];
+    cacheRef.primitives = [
+      value,
+      errorMessage,
+      touched,
+      dirty,
+      submitCount,
+      validating,
+    ];
     cacheRef.snapshot = snapshot;
     return snapshot;
   }, [bridge, name, cacheRef]);
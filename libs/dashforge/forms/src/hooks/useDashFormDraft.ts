@@ -0,0 +1,32 @@
+import { useDashFormContext } from '../core/useDashFormContext';
+import type { DashFormDraftState } from '../core/formDraft';
+
+/**
+ * Draft state and controls of the enclosing form (`draft` option).
+ *
+ * Use it to build the "restore draft?" prompt: while `status` is
+ * `'available'`, a draft saved at `savedAt` waits for `restore()` or
+ * `discard()`.
+ *
+ * @returns Draft state, or null when the form has no `draft` option
+ * @throws {Error} If used outside DashFormProvider
+ *
+ * @example
+ * ```tsx
+ * function RestoreDraftBanner() {
+ *   const draft = useDashFormDraft();
+ *   if (draft?.status !== 'available') return null;
+ *
+ *   return (
+ *     <div role="status">
+ *       Unsaved changes from {draft.savedAt?.toLocaleString()}.
+ *       <button type="button" onClick={draft.restore}>Restore</button>
+ *       <button type="button" onClick={() => void draft.discard()}>Discard</button>
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useDashFormDraft(): DashFormDraftState | null {
+  return useDashFormContext().draft;
+}
@@ -0,0 +1,31 @@
+import { useDashFormContext } from '../core/useDashFormContext';
+import type { DashFormHistoryState } from '../core/formHistory';
+
+/**
+ * Undo / redo state and controls of the enclosing form (`history` option).
+ *
+ * @returns History state, or null when the form has no `history` option
+ * @throws {Error} If used outside DashFormProvider
+ *
+ * @example
+ * ```tsx
+ * function UndoRedoToolbar() {
+ *   const history = useDashFormHistory();
+ *   if (!history) return null;
+ *
+ *   return (
+ *     <div role="toolbar">
+ *       <button type="button" onClick={history.undo} disabled={!history.canUndo}>
+ *         Undo
+ *       </button>
+ *       <button type="button" onClick={history.redo} disabled={!history.canRedo}>
+ *         Redo
+ *       </button>
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useDashFormHistory(): DashFormHistoryState | null {
+  return useDashFormContext().history;
+}
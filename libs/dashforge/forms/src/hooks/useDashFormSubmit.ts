@@ -0,0 +1,28 @@
+import { useDashFormContext } from '../core/useDashFormContext';
+import type { DashFormSubmitState } from '../core/submitErrors';
+
+/**
+ * Submit status of the enclosing form.
+ *
+ * `status` follows the last submission (`idle` → `submitting` →
+ * `succeeded` / `failed`); `formError` holds the form-level message of a
+ * SubmitErrorPayload returned or thrown by onSubmit.
+ *
+ * @returns Submit state
+ * @throws {Error} If used outside DashFormProvider
+ *
+ * @example
+ * ```tsx
+ * function SubmitButton() {
+ *   const { status } = useDashFormSubmit();
+ *   return (
+ *     <button type="submit" disabled={status === 'submitting'}>
+ *       {status === 'succeeded' ? 'Saved' : 'Save'}
+ *     </button>
+ *   );
+ * }
+ * ```
+ */
+export function useDashFormSubmit(): DashFormSubmitState {
+  return useDashFormContext().submitState;
+}
@@ -1,11 +1,12 @@
 import { useEffect } from 'react';
 import type {
-  RegisterOptions,
   FieldPath,
   FieldValues,
   UseFormRegisterReturn,
 } from 'react-hook-form';
 import { useDashFormContext } from '../core/useDashFormContext';
+import { splitAsyncRules } from '../validation/createAsyncValidationRegistry';
+import type { DashFieldRules } from '../validation/asyncValidation.types';
 
 /**
  * Result returned by useDashRegister hook.
@@ -40,7 +41,6 @@ export interface UseDashRegisterResult<
  * **Future Phases:**
  * - Phase 2: Set up subscription to Engine node changes (Engine → RHF)
  * - Phase 3: Integrate with reaction system
- * - Phase 4: Add async validation support
  *
  * ## Hook decision tree
  *
@@ -66,7 +66,8 @@ export interface UseDashRegisterResult<
  *
  * @template TFieldValues - Form field values type
  * @param name - Field name to register
- * @param options - React Hook Form validation options
+ * @param options - React Hook Form validation options, plus an optional
+ *   `asyncValidate` validator (debounced, latest wins)
  * @returns Object with register props and field name
  *
  * @see {@link useDashFieldMeta} for subscribing to per-field RHF state (value/error/touched).
@@ -110,13 +111,26 @@ export interface UseDashRegisterResult<
  */
 export function useDashRegister<TFieldValues extends FieldValues = FieldValues>(
   name: FieldPath<TFieldValues>,
-  options?: RegisterOptions<TFieldValues>
+  options?: DashFieldRules<TFieldValues>
 ): UseDashRegisterResult<TFieldValues> {
-  const { rhf, adapter, debug } = useDashFormContext<TFieldValues>();
+  const { rhf, adapter, debug, asyncValidation } =
+    useDashFormContext<TFieldValues>();
 
   // Register with React Hook Form
   // This returns the props to spread on the input element
-  const rhfRegister = rhf.register(name, options);
+  // (the `asyncValidate` rule goes to the async validation registry)
+  const { rules, asyncValidate } = splitAsyncRules(options);
+  const rhfRegister = rhf.register(name, rules);
+
+  // Keep the latest validator (inline validators change every render)
+  useEffect(() => {
+    asyncValidation.setValidator(name, asyncValidate);
+  });
+
+  useEffect(
+    () => () => asyncValidation.removeField(name),
+    [name, asyncValidation]
+  );
 
   // Register/unregister with adapter on mount/unmount
   useEffect(() => {
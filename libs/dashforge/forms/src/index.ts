@@ -69,6 +69,11 @@ export type {
   FormEngineAdapterOptions,
 } from './core/form.types';
 
+/**
+ * Field-level access rules (`fieldAccess` on DashForm / DashFormProvider).
+ */
+export type { FieldAccessMap } from './core/fieldAccess';
+
 // ============================================================================
 // HOOKS
 // ============================================================================
@@ -112,6 +117,57 @@ export type { DashFieldMeta } from './hooks/useDashFieldMeta';
  */
 export { useDashFieldArray } from './hooks/useDashFieldArray';
 
+/**
+ * Hook exposing the draft autosave state (`draft` option): status,
+ * restore / discard of a found draft, clear.
+ */
+export { useDashFormDraft } from './hooks/useDashFormDraft';
+
+/**
+ * Draft autosave types and the default storage.
+ */
+export { getDefaultDraftStorage } from './core/formDraft';
+export type {
+  DraftStorage,
+  DashFormDraftOptions,
+  DashFormDraftState,
+  DashFormDraftStatus,
+  StoredFormDraft,
+} from './core/formDraft';
+
+/**
+ * Hook exposing the undo / redo history (`history` option): undo, redo,
+ * canUndo, canRedo.
+ */
+export { useDashFormHistory } from './hooks/useDashFormHistory';
+
+/**
+ * Undo / redo history types.
+ */
+export type {
+  DashFormHistoryOptions,
+  DashFormHistoryState,
+  HistoryKeyboardEvent,
+} from './core/formHistory';
+
+/**
+ * Hook exposing the submit status of the form (idle / submitting /
+ * succeeded / failed) and the form-level submission error.
+ */
+export { useDashFormSubmit } from './hooks/useDashFormSubmit';
+
+/**
+ * Submission error payload (returned or thrown by onSubmit) and submit
+ * state types.
+ */
+export { SubmitError, FORM_ERROR_PATH } from './core/submitErrors';
+export type {
+  DashFormSubmitHandler,
+  DashFormSubmitState,
+  DashFormSubmitStatus,
+  SubmitErrorPayload,
+} from './core/submitErrors';
+
 /**
  * Type definitions for field array hook.
  */
@@ -178,6 +234,62 @@ export type { ReactionRegistry } from './reactions/createReactionRegistry';
 /** @internal */
 export { createReactionRegistry } from './reactions/createReactionRegistry';
 
+// ============================================================================
+// ASYNC VALIDATION
+// ============================================================================
+
+/**
+ * Async field validators (`asyncValidate` rule of register /
+ * useDashRegister): debounced, latest-wins checks awaited by submit.
+ */
+export type {
+  AsyncFieldValidator,
+  AsyncValidateContext,
+  AsyncValidateResult,
+  DashFieldRules,
+} from './validation/asyncValidation.types';
+
+/**
+ * Async validation registry.
+ *
+ * @internal
+ * `DashFormProvider` owns one registry per form and feeds it from field
+ * rules. Exported for testing / custom-provider authoring only.
+ */
+export type { AsyncValidationRegistry } from './validation/createAsyncValidationRegistry';
+/** @internal */
+export {
+  ASYNC_ERROR_TYPE,
+  createAsyncValidationRegistry,
+} from './validation/createAsyncValidationRegistry';
+
+// ============================================================================
+// CROSS-FIELD VALIDATION
+// ============================================================================
+
+/**
+ * Cross-field validation rules (`crossFieldRules` on DashForm /
+ * DashFormProvider): watched fields, predicate, target field(s), message.
+ */
+export type {
+  CrossFieldRule,
+  CrossFieldRuleContext,
+} from './validation/crossFieldValidation.types';
+
+/**
+ * Cross-field validation factory.
+ *
+ * @internal
+ * `DashFormProvider` creates it from the `crossFieldRules` prop. Exported
+ * for testing / custom-provider authoring only.
+ */
+export type { CrossFieldValidation } from './validation/createCrossFieldValidation';
+/** @internal */
+export {
+  CROSS_FIELD_ERROR_TYPE,
+  createCrossFieldValidation,
+} from './validation/createCrossFieldValidation';
+
 // ============================================================================
 // COMPONENTS
 // ============================================================================
@@ -188,6 +300,74 @@ export { createReactionRegistry } from './reactions/createReactionRegistry';
  */
 export { DashForm } from './components/DashForm';
 
+/**
+ * Lists the form-level and field errors after a submit attempt.
+ */
+export { FormErrorSummary } from './components/FormErrorSummary';
+export type { FormErrorSummaryProps } from './components/FormErrorSummary';
+
+// ============================================================================
+// JSON SCHEMA FORMS
+// ============================================================================
+
+/**
+ * Generates a DashForm from a JSON Schema + UI schema.
+ * UI-agnostic: `@dashforge/tw` and `@dashforge/ui` export versions wired
+ * to their field components.
+ */
+export { JsonSchemaForm } from './schema/JsonSchemaForm';
+
+/**
+ * Schema compiler, for custom renderers.
+ */
+export { compileJsonSchema, getJsonSchemaDefaults } from './schema/compileJsonSchema';
+
+export type {
+  JsonSchema,
+  JsonSchemaType,
+  JsonSchemaEnumValue,
+  JsonSchemaUiSchema,
+  JsonSchemaOption,
+  JsonSchemaWidgetName,
+  JsonSchemaNode,
+  JsonSchemaFieldNode,
+  JsonSchemaObjectNode,
+  JsonSchemaArrayNode,
+  JsonSchemaWidgetProps,
+  JsonSchemaObjectTemplateProps,
+  JsonSchemaArrayTemplateItem,
+  JsonSchemaArrayTemplateProps,
+  JsonSchemaComponents,
+  JsonSchemaFormProps,
+} from './schema/jsonSchema.types';
+
+// ============================================================================
+// VALIDATION RESOLVERS
+// ============================================================================
+
+/**
+ * Resolvers for `DashFormConfig.resolver` built from Zod, Yup, Valibot or
+ * any Standard Schema. Structural: the libraries are NOT dependencies.
+ */
+export { zodResolver } from './resolvers/zodResolver';
+export { yupResolver } from './resolvers/yupResolver';
+export { valibotResolver } from './resolvers/valibotResolver';
+export { standardSchemaResolver } from './resolvers/standardSchemaResolver';
+
+export type {
+  InferSchemaValues,
+  SchemaIssue,
+  SchemaIssuePathSegment,
+  ZodLikeSchema,
+  ZodLikeIssue,
+  ZodLikeSafeParseResult,
+  YupLikeSchema,
+  YupLikeValidationError,
+  StandardSchemaLike,
+  StandardSchemaLikeIssue,
+  StandardSchemaLikeResult,
+} from './resolvers/resolver.types';
+
 // ============================================================================
 // VERSION
 // ============================================================================
@@ -0,0 +1,234 @@
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { useContext } from 'react';
+import type { ResolverOptions } from 'react-hook-form';
+import { DashFormContext } from '@dashforge/ui-core';
+import { DashForm } from '../../components/DashForm';
+import { useDashFieldMeta } from '../../hooks/useDashFieldMeta';
+import { zodResolver } from '../zodResolver';
+import { yupResolver } from '../yupResolver';
+import { valibotResolver } from '../valibotResolver';
+import { standardSchemaResolver } from '../standardSchemaResolver';
+import type {
+  InferSchemaValues,
+  StandardSchemaLike,
+  StandardSchemaLikeIssue,
+  YupLikeSchema,
+  ZodLikeIssue,
+  ZodLikeSchema,
+} from '../resolver.types';
+
+// Zod / Yup / Valibot are not dependencies: the fakes below reproduce the
+// public shape of their schemas.
+
+interface Values {
+  email: string;
+  emails: { address: string }[];
+}
+
+const values: Values = { email: '', emails: [{ address: 'x' }] };
+
+function fakeZod(issues: ZodLikeIssue[]): ZodLikeSchema<Values> {
+  return {
+    _output: undefined as unknown as Values,
+    safeParseAsync: async (data) =>
+      issues.length === 0
+        ? { success: true, data: data as Values }
+        : { success: false, error: { issues } },
+  };
+}
+
+function fakeYup(
+  inner: { path?: string; type?: string; message: string }[]
+): YupLikeSchema<Values> {
+  return {
+    __outputType: undefined as unknown as Values,
+    validate: async (value, options) => {
+      if (inner.length === 0) return value as Values;
+      const error = Object.assign(new Error(inner[0]?.message), {
+        name: 'ValidationError',
+        context: options?.context,
+        inner: inner.map((item) => ({ ...item, name: 'ValidationError', inner: [] })),
+      });
+      throw error;
+    },
+  };
+}
+
+function fakeStandard(issues: StandardSchemaLikeIssue[]): StandardSchemaLike<Values> {
+  return {
+    '~standard': {
+      version: 1,
+      vendor: 'valibot',
+      validate: (value) => (issues.length === 0 ? { value: value as Values } : { issues }),
+    },
+  };
+}
+
+const options = (
+  criteriaMode?: 'firstError' | 'all'
+): ResolverOptions<Values> => ({
+  fields: {},
+  shouldUseNativeValidation: undefined,
+  ...(criteriaMode && { criteriaMode }),
+});
+
+describe('zodResolver', () => {
+  it('returns the parsed values when valid', async () => {
+    const result = await zodResolver(fakeZod([]))(values, undefined, options());
+
+    expect(result).toEqual({ values, errors: {} });
+  });
+
+  it('maps issues to nested field errors with the code as type', async () => {
+    const result = await zodResolver(
+      fakeZod([
+        { path: ['email'], code: 'invalid_string', message: 'Invalid email' },
+        { path: ['emails', 0, 'address'], code: 'too_small', message: 'Required' },
+        { path: [], code: 'custom', message: 'Form is invalid' },
+      ])
+    )(values, undefined, options());
+
+    expect(result.values).toEqual({});
+    expect(result.errors).toEqual({
+      email: { type: 'invalid_string', message: 'Invalid email' },
+      emails: [{ address: { type: 'too_small', message: 'Required' } }],
+      root: { type: 'custom', message: 'Form is invalid' },
+    });
+  });
+
+  it('keeps the first issue per path, and all of them in types with criteriaMode all', async () => {
+    const schema = fakeZod([
+      { path: ['email'], code: 'too_small', message: 'Too short' },
+      { path: ['email'], code: 'invalid_string', message: 'Invalid email' },
+    ]);
+
+    const first = await zodResolver(schema)(values, undefined, options());
+    expect(first.errors).toEqual({ email: { type: 'too_small', message: 'Too short' } });
+
+    const all = await zodResolver(schema)(values, undefined, options('all'));
+    expect(all.errors).toEqual({
+      email: {
+        type: 'too_small',
+        message: 'Too short',
+        types: { too_small: 'Too short', invalid_string: 'Invalid email' },
+      },
+    });
+  });
+
+  it('moves an issue on a parent path to <path>.root', async () => {
+    const result = await zodResolver(
+      fakeZod([
+        { path: ['emails'], code: 'too_big', message: 'At most 1' },
+        { path: ['emails', 0, 'address'], code: 'too_small', message: 'Required' },
+      ])
+    )(values, undefined, options());
+
+    expect(result.errors.emails?.root).toEqual({ type: 'too_big', message: 'At most 1' });
+    expect(result.errors.emails?.[0]?.address?.message).toBe('Required');
+  });
+
+  it('infers the form values from the schema output', () => {
+    const schema = fakeZod([]);
+    expectTypeOf<InferSchemaValues<typeof schema>>().toEqualTypeOf<Values>();
+    expectTypeOf(zodResolver(schema)).parameter(0).toEqualTypeOf<Values>();
+  });
+});
+
+describe('yupResolver', () => {
+  it('converts bracketed paths and passes the resolver context', async () => {
+    const schema = fakeYup([
+      { path: 'emails[0].address', type: 'required', message: 'Required' },
+      { path: '["first name"]', type: 'max', message: 'Too long' },
+    ]);
+    const validate = vi.spyOn(schema, 'validate');
+
+    const result = await yupResolver(schema)(values, { locale: 'fr' }, options());
+
+    expect(validate).toHaveBeenCalledWith(values, {
+      abortEarly: false,
+      context: { locale: 'fr' },
+    });
+    expect(result.errors).toEqual({
+      emails: [{ address: { type: 'required', message: 'Required' } }],
+      'first name': { type: 'max', message: 'Too long' },
+    });
+  });
+
+  it('rethrows errors that are not validation errors', async () => {
+    const schema: YupLikeSchema<Values> = {
+      __outputType: undefined as unknown as Values,
+      validate: async () => {
+        throw new TypeError('boom');
+      },
+    };
+
+    await expect(yupResolver(schema)(values, undefined, options())).rejects.toThrow('boom');
+  });
+});
+
+describe('standardSchemaResolver / valibotResolver', () => {
+  it('maps { key } path segments', async () => {
+    const result = await valibotResolver(
+      fakeStandard([
+        { message: 'Invalid email', path: [{ key: 'email' }] },
+        { message: 'Required', path: [{ key: 'emails' }, { key: 0 }, { key: 'address' }] },
+      ])
+    )(values, undefined, options());
+
+    expect(result.errors).toEqual({
+      email: { type: 'validation', message: 'Invalid email' },
+      emails: [{ address: { type: 'validation', message: 'Required' } }],
+    });
+  });
+
+  it('supports async validate functions', async () => {
+    const schema: StandardSchemaLike<Values> = {
+      '~standard': { version: 1, vendor: 'arktype', validate: async (value) => ({ value: value as Values }) },
+    };
+
+    const result = await standardSchemaResolver(schema)(values, undefined, options());
+
+    expect(result).toEqual({ values, errors: {} });
+  });
+
+  it('rejects pre-1.0 Valibot schemas', () => {
+    expect(() => valibotResolver({} as StandardSchemaLike<Values>)).toThrow(
+      '[valibotResolver] The schema does not implement Standard Schema'
+    );
+  });
+});
+
+describe('resolver errors in DashForm', () => {
+  function EmailField() {
+    const bridge = useContext(DashFormContext);
+    const register = bridge?.register?.('email');
+    const { error } = useDashFieldMeta('email');
+    return (
+      <>
+        <input aria-label="email" {...register} />
+        {error && <span role="alert">{error.message}</span>}
+      </>
+    );
+  }
+
+  it('surfaces the mapped message as the BridgeFieldError', async () => {
+    const onSubmit = vi.fn();
+    const { container } = render(
+      <DashForm
+        resolver={zodResolver(
+          fakeZod([{ path: ['email'], code: 'invalid_string', message: 'Invalid email' }])
+        )}
+        defaultValues={values}
+        onSubmit={onSubmit}
+      >
+        <EmailField />
+      </DashForm>
+    );
+
+    fireEvent.submit(container.querySelector('form') as HTMLFormElement);
+
+    expect((await screen.findByRole('alert')).textContent).toBe('Invalid email');
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+});
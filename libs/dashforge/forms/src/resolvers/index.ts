@@ -0,0 +1,5 @@
+export * from './resolver.types';
+export * from './zodResolver';
+export * from './yupResolver';
+export * from './valibotResolver';
+export * from './standardSchemaResolver';
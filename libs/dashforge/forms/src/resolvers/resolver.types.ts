@@ -0,0 +1,140 @@
+/**
+ * Structural types of the validation libraries supported by the built-in
+ * resolvers.
+ *
+ * Dashforge does NOT depend on Zod, Yup or Valibot: the adapters only rely
+ * on the public shape of their schemas, so any compatible version works
+ * and nothing is bundled.
+ */
+
+/**
+ * Path segment of a validation issue: a key, or a Standard Schema
+ * `{ key }` segment.
+ */
+export type SchemaIssuePathSegment = PropertyKey | { readonly key: PropertyKey };
+
+/**
+ * One validation failure, normalized across libraries.
+ */
+export interface SchemaIssue {
+  /** Field path segments; empty for form-level issues. */
+  path: readonly SchemaIssuePathSegment[];
+  /** Error type (Zod `code`, Yup `type`, else `'validation'`). */
+  type: string;
+  message: string;
+}
+
+// ============================================================================
+// ZOD (3.x and 4.x)
+// ============================================================================
+
+/**
+ * Issue reported by Zod.
+ */
+export interface ZodLikeIssue {
+  path: readonly PropertyKey[];
+  message: string;
+  code: string;
+}
+
+/**
+ * Result of `schema.safeParseAsync()`.
+ */
+export type ZodLikeSafeParseResult<TOutput> =
+  | { success: true; data: TOutput }
+  | { success: false; error: { issues: readonly ZodLikeIssue[] } };
+
+/**
+ * Shape of a Zod schema used by zodResolver().
+ */
+export interface ZodLikeSchema<TOutput = unknown> {
+  /** Output type marker (`z.infer`). */
+  readonly _output: TOutput;
+  safeParseAsync(data: unknown): Promise<ZodLikeSafeParseResult<TOutput>>;
+}
+
+// ============================================================================
+// YUP (1.x)
+// ============================================================================
+
+/**
+ * Error thrown by Yup's `validate()` with `abortEarly: false`.
+ */
+export interface YupLikeValidationError {
+  name: 'ValidationError';
+  /** Dotted / bracketed path, e.g. `emails[0].email`. */
+  path?: string;
+  type?: string;
+  message: string;
+  /** One entry per failed test. */
+  inner: YupLikeValidationError[];
+}
+
+/**
+ * Shape of a Yup schema used by yupResolver().
+ */
+export interface YupLikeSchema<TOutput = unknown> {
+  /** Output type marker (`yup.InferType`). */
+  readonly __outputType: TOutput;
+  validate(
+    value: unknown,
+    options?: { abortEarly?: boolean; context?: unknown }
+  ): Promise<TOutput>;
+}
+
+// ============================================================================
+// STANDARD SCHEMA (Valibot 1.x, Zod 3.24+, ArkType, ...)
+// ============================================================================
+
+/**
+ * Issue of a Standard Schema result.
+ */
+export interface StandardSchemaLikeIssue {
+  readonly message: string;
+  readonly path?: readonly SchemaIssuePathSegment[] | undefined;
+}
+
+/**
+ * Result of `schema['~standard'].validate()`.
+ */
+export type StandardSchemaLikeResult<TOutput> =
+  | { readonly value: TOutput; readonly issues?: undefined }
+  | { readonly issues: readonly StandardSchemaLikeIssue[] };
+
+/**
+ * Shape of a Standard Schema (https://standardschema.dev) used by
+ * standardSchemaResolver() and valibotResolver().
+ */
+export interface StandardSchemaLike<TOutput = unknown> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) =>
+      | StandardSchemaLikeResult<TOutput>
+      | Promise<StandardSchemaLikeResult<TOutput>>;
+  };
+}
+
+// ============================================================================
+// INFERENCE
+// ============================================================================
+
+/**
+ * Form values produced by a schema (its output type).
+ *
+ * @example
+ * ```ts
+ * const schema = z.object({ email: z.string().email() });
+ * type Values = InferSchemaValues<typeof schema>; // { email: string }
+ * ```
+ */
+export type InferSchemaValues<TSchema> =
+  TSchema extends ZodLikeSchema<infer TOutput>
+    ? TOutput
+    : TSchema extends YupLikeSchema<infer TOutput>
+      ? TOutput
+      : TSchema extends StandardSchemaLike<infer TOutput>
+        ? TOutput
+        : never;
@@ -0,0 +1,44 @@
+import type { FieldValues, Resolver } from 'react-hook-form';
+import type { StandardSchemaLike } from './resolver.types';
+import { toResolverResult } from './toFieldErrors';
+
+/**
+ * Creates an RHF resolver from any Standard Schema
+ * (https://standardschema.dev): Valibot 1.x, Zod 3.24+, ArkType, ...
+ *
+ * Issues become field errors keyed by their path, with type
+ * `'validation'` (the spec has no error codes). The form values type is
+ * inferred from the schema output.
+ *
+ * @param schema - Standard Schema of the form values
+ * @returns Resolver for DashForm / DashFormProvider
+ *
+ * @example
+ * ```tsx
+ * const schema = type({ email: 'string.email' }); // ArkType
+ *
+ * <DashForm resolver={standardSchemaResolver(schema)} defaultValues={{ email: '' }}>
+ *   <TextField name="email" label="Email" />
+ * </DashForm>
+ * ```
+ */
+export function standardSchemaResolver<TFieldValues extends FieldValues>(
+  schema: StandardSchemaLike<TFieldValues>
+): Resolver<TFieldValues> {
+  return async (values, _context, options) => {
+    const result = await schema['~standard'].validate(values);
+
+    return toResolverResult<TFieldValues>(
+      result.issues
+        ? {
+            issues: result.issues.map((issue) => ({
+              path: issue.path ?? [],
+              type: 'validation',
+              message: issue.message,
+            })),
+          }
+        : { values: result.value },
+      options.criteriaMode
+    );
+  };
+}
@@ -0,0 +1,98 @@
+import { set } from 'react-hook-form';
+import type {
+  CriteriaMode,
+  FieldError,
+  FieldErrors,
+  FieldValues,
+  ResolverResult,
+} from 'react-hook-form';
+import type { SchemaIssue, SchemaIssuePathSegment } from './resolver.types';
+
+/**
+ * Joins issue path segments into an RHF field path (`emails.0.email`).
+ * Form-level issues (empty path) go to RHF's `root` error.
+ */
+export function toFieldPath(path: readonly SchemaIssuePathSegment[]): string {
+  if (path.length === 0) {
+    return 'root';
+  }
+
+  return path
+    .map((segment) =>
+      String(typeof segment === 'object' ? segment.key : segment)
+    )
+    .join('.');
+}
+
+/**
+ * Maps normalized schema issues to RHF field errors.
+ *
+ * Every error carries a string `message`, which is what
+ * `bridge.getError()` returns as `BridgeFieldError` (and what
+ * `resolveValidationState` displays). The first issue of a path wins;
+ * with `criteriaMode: 'all'` the others are kept in `types`. An issue on
+ * a path that also has nested issues (e.g. an array length rule plus an
+ * item rule) goes to `<path>.root`, like RHF field array rules.
+ *
+ * @param issues - Normalized issues, in schema order
+ * @param criteriaMode - RHF criteria mode from the resolver options
+ * @returns Nested RHF field errors
+ */
+export function toFieldErrors<TFieldValues extends FieldValues>(
+  issues: readonly SchemaIssue[],
+  criteriaMode: CriteriaMode | undefined
+): FieldErrors<TFieldValues> {
+  const byPath = new Map<string, FieldError>();
+
+  for (const issue of issues) {
+    const path = toFieldPath(issue.path);
+    const existing = byPath.get(path);
+
+    if (!existing) {
+      byPath.set(path, {
+        type: issue.type,
+        message: issue.message,
+        ...(criteriaMode === 'all' && {
+          types: { [issue.type]: issue.message },
+        }),
+      });
+    } else if (criteriaMode === 'all' && existing.types) {
+      const current = existing.types[issue.type];
+      existing.types[issue.type] =
+        current === undefined || typeof current === 'boolean'
+          ? issue.message
+          : [...(Array.isArray(current) ? current : [current]), issue.message];
+    }
+  }
+
+  const paths = [...byPath.keys()];
+  const errors: Record<string, unknown> = {};
+
+  for (const [path, error] of byPath) {
+    const hasNested = paths.some((other) => other.startsWith(`${path}.`));
+    set(errors, hasNested ? `${path}.root` : path, error);
+  }
+
+  return errors as FieldErrors<TFieldValues>;
+}
+
+/**
+ * Builds the resolver result for a validation outcome.
+ *
+ * @param outcome - Parsed values on success, issues on failure
+ * @param criteriaMode - RHF criteria mode from the resolver options
+ * @returns RHF resolver result
+ */
+export function toResolverResult<TFieldValues extends FieldValues>(
+  outcome: { values: TFieldValues } | { issues: readonly SchemaIssue[] },
+  criteriaMode: CriteriaMode | undefined
+): ResolverResult<TFieldValues> {
+  if ('values' in outcome) {
+    return { values: outcome.values, errors: {} };
+  }
+
+  return {
+    values: {},
+    errors: toFieldErrors<TFieldValues>(outcome.issues, criteriaMode),
+  };
+}
@@ -0,0 +1,39 @@
+import type { FieldValues, Resolver } from 'react-hook-form';
+import type { StandardSchemaLike } from './resolver.types';
+import { standardSchemaResolver } from './standardSchemaResolver';
+
+/**
+ * Creates an RHF resolver from a Valibot schema (Valibot 1.x).
+ *
+ * Valibot 1 schemas implement Standard Schema, so this validates through
+ * `schema['~standard']` (see standardSchemaResolver) without importing
+ * Valibot. The form values type is inferred from the schema output.
+ *
+ * Valibot is not a dependency of Dashforge: install it in the app.
+ *
+ * @param schema - Valibot schema of the form values
+ * @returns Resolver for DashForm / DashFormProvider
+ * @throws {Error} If the schema does not implement Standard Schema
+ *   (Valibot before 1.0)
+ *
+ * @example
+ * ```tsx
+ * const schema = v.object({ email: v.pipe(v.string(), v.email()) });
+ *
+ * <DashForm resolver={valibotResolver(schema)} defaultValues={{ email: '' }}>
+ *   <TextField name="email" label="Email" />
+ * </DashForm>
+ * ```
+ */
+export function valibotResolver<TFieldValues extends FieldValues>(
+  schema: StandardSchemaLike<TFieldValues>
+): Resolver<TFieldValues> {
+  if (typeof schema?.['~standard']?.validate !== 'function') {
+    throw new Error(
+      '[valibotResolver] The schema does not implement Standard Schema. ' +
+        'Valibot 1.0 or later is required.'
+    );
+  }
+
+  return standardSchemaResolver(schema);
+}
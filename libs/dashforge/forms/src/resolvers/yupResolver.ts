@@ -0,0 +1,92 @@
+import type { FieldValues, Resolver } from 'react-hook-form';
+import type {
+  SchemaIssue,
+  YupLikeSchema,
+  YupLikeValidationError,
+} from './resolver.types';
+import { toResolverResult } from './toFieldErrors';
+
+/**
+ * Creates an RHF resolver from a Yup schema (Yup 1.x).
+ *
+ * Values are validated with `abortEarly: false` (every failed test is
+ * reported) and the resolver `context` is passed as Yup's `context`.
+ * Errors are keyed by their path (`emails[0].email` → `emails.0.email`),
+ * with the Yup test `type` as error type. The form values type is
+ * inferred from the schema output.
+ *
+ * Yup is not a dependency of Dashforge: install it in the app.
+ *
+ * @param schema - Yup schema of the form values
+ * @returns Resolver for DashForm / DashFormProvider
+ * @throws Errors other than Yup ValidationErrors are rethrown
+ *
+ * @example
+ * ```tsx
+ * const schema = yup.object({ email: yup.string().email().required() });
+ *
+ * <DashForm resolver={yupResolver(schema)} defaultValues={{ email: '' }}>
+ *   <TextField name="email" label="Email" />
+ * </DashForm>
+ * ```
+ */
+export function yupResolver<TFieldValues extends FieldValues>(
+  schema: YupLikeSchema<TFieldValues>
+): Resolver<TFieldValues> {
+  return async (values, context, options) => {
+    try {
+      const parsed = await schema.validate(values, {
+        abortEarly: false,
+        context,
+      });
+      return toResolverResult<TFieldValues>(
+        { values: parsed },
+        options.criteriaMode
+      );
+    } catch (error) {
+      if (!isValidationError(error)) {
+        throw error;
+      }
+
+      return toResolverResult<TFieldValues>(
+        { issues: toIssues(error) },
+        options.criteriaMode
+      );
+    }
+  };
+}
+
+function isValidationError(error: unknown): error is YupLikeValidationError {
+  return (
+    error instanceof Error &&
+    error.name === 'ValidationError' &&
+    Array.isArray((error as Partial<YupLikeValidationError>).inner)
+  );
+}
+
+/**
+ * With abortEarly: false, `inner` holds one error per failed test; a
+ * single failure may come without `inner` entries.
+ */
+function toIssues(error: YupLikeValidationError): SchemaIssue[] {
+  const errors = error.inner.length > 0 ? error.inner : [error];
+
+  return errors.map((item) => ({
+    path: parseYupPath(item.path),
+    type: item.type ?? 'validation',
+    message: item.message,
+  }));
+}
+
+/**
+ * `emails[0].email` / `["first name"]` → path segments.
+ */
+function parseYupPath(path: string | undefined): string[] {
+  if (!path) {
+    return [];
+  }
+
+  return [...path.matchAll(/\["([^"]*)"\]|\[(\d+)\]|([^.[\]]+)/g)].map(
+    (match) => match[1] ?? match[2] ?? match[3] ?? ''
+  );
+}
@@ -0,0 +1,46 @@
+import type { FieldValues, Resolver } from 'react-hook-form';
+import type { ZodLikeSchema } from './resolver.types';
+import { toResolverResult } from './toFieldErrors';
+
+/**
+ * Creates an RHF resolver from a Zod schema (Zod 3 or 4).
+ *
+ * Values are parsed with `safeParseAsync`, so transforms and coercions
+ * reach `onSubmit`. Issues become field errors keyed by their path, with
+ * the Zod issue `code` as error type. The form values type is inferred
+ * from the schema output.
+ *
+ * Zod is not a dependency of Dashforge: install it in the app.
+ *
+ * @param schema - Zod schema of the form values
+ * @returns Resolver for DashForm / DashFormProvider
+ *
+ * @example
+ * ```tsx
+ * const schema = z.object({ email: z.string().email() });
+ *
+ * <DashForm resolver={zodResolver(schema)} defaultValues={{ email: '' }}>
+ *   <TextField name="email" label="Email" />
+ * </DashForm>
+ * ```
+ */
+export function zodResolver<TFieldValues extends FieldValues>(
+  schema: ZodLikeSchema<TFieldValues>
+): Resolver<TFieldValues> {
+  return async (values, _context, options) => {
+    const result = await schema.safeParseAsync(values);
+
+    return toResolverResult<TFieldValues>(
+      result.success
+        ? { values: result.data }
+        : {
+            issues: result.error.issues.map((issue) => ({
+              path: issue.path,
+              type: issue.code,
+              message: issue.message,
+            })),
+          },
+      options.criteriaMode
+    );
+  };
+}
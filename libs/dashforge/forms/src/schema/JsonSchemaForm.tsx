@@ -0,0 +1,146 @@
+import { useMemo } from 'react';
+import type { FieldValues } from 'react-hook-form';
+import { DashForm } from '../components/DashForm';
+import { useDashFieldArray } from '../hooks/useDashFieldArray';
+import { compileJsonSchema, getJsonSchemaDefaults } from './compileJsonSchema';
+import type {
+  JsonSchemaArrayNode,
+  JsonSchemaComponents,
+  JsonSchemaFormProps,
+  JsonSchemaNode,
+} from './jsonSchema.types';
+
+interface SchemaNodeProps {
+  node: JsonSchemaNode;
+  name: string;
+  components: JsonSchemaComponents;
+}
+
+function joinName(parent: string, key: string): string {
+  if (!parent) return key;
+  return key ? `${parent}.${key}` : parent;
+}
+
+/**
+ * Renders one compiled node: a widget for fields, the object template
+ * for nested objects, a field array for arrays.
+ */
+function SchemaNode({ node, name, components }: SchemaNodeProps) {
+  if (node.kind === 'array') {
+    return <SchemaArray node={node} name={name} components={components} />;
+  }
+
+  if (node.kind === 'object') {
+    const { ObjectTemplate } = components;
+    return (
+      <ObjectTemplate name={name} field={node}>
+        {node.children.map((child) => (
+          <SchemaNode
+            key={child.key}
+            node={child}
+            name={joinName(name, child.key)}
+            components={components}
+          />
+        ))}
+      </ObjectTemplate>
+    );
+  }
+
+  const Widget = components.widgets[node.widget];
+  if (!Widget) {
+    throw new Error(
+      `[JsonSchemaForm] No widget registered for "${node.widget}" (field "${name}").`
+    );
+  }
+
+  return <Widget name={name} field={node} />;
+}
+
+function SchemaArray({
+  node,
+  name,
+  components,
+}: SchemaNodeProps & { node: JsonSchemaArrayNode }) {
+  const { fields, append, remove } = useDashFieldArray<unknown>(name);
+  const { ArrayTemplate } = components;
+
+  const items = fields.map((item) => ({
+    key: item.id,
+    index: item.index,
+    content: (
+      <SchemaNode node={node.item} name={item.name} components={components} />
+    ),
+    remove: () => remove(item.index),
+  }));
+
+  return (
+    <ArrayTemplate
+      name={name}
+      field={node}
+      items={items}
+      add={() => append(node.newItem())}
+      canAdd={node.maxItems === undefined || fields.length < node.maxItems}
+      canRemove={fields.length > node.minItems}
+    />
+  );
+}
+
+/**
+ * Generates a complete DashForm from a JSON Schema.
+ *
+ * UI-agnostic: the field widgets and the object / array templates come
+ * from `components`. Use the pre-wired `JsonSchemaForm` of
+ * `@dashforge/tw` or `@dashforge/ui` rather than this one directly.
+ *
+ * - `required`, string lengths, `pattern`, numeric bounds, `enum` and
+ *   `format` become RHF rules on each field
+ * - nested objects render through `ObjectTemplate`
+ * - arrays render through `ArrayTemplate` with `useDashFieldArray`
+ * - schema `default`s are merged under `defaultValues`
+ *
+ * The schema is compiled once per `schema` / `uiSchema` identity: keep
+ * them stable (module constants or useMemo).
+ *
+ * @template TFieldValues - Form field values type
+ *
+ * @example
+ * ```tsx
+ * <JsonSchemaForm
+ *   schema={userSchema}
+ *   uiSchema={{ columns: 2, fields: { bio: { widget: 'textarea' } } }}
+ *   components={myComponents}
+ *   onSubmit={saveUser}
+ * >
+ *   <button type="submit">Save</button>
+ * </JsonSchemaForm>
+ * ```
+ */
+export function JsonSchemaForm<TFieldValues extends FieldValues = FieldValues>({
+  schema,
+  uiSchema,
+  components,
+  defaultValues,
+  children,
+  ...formProps
+}: JsonSchemaFormProps<TFieldValues>) {
+  const root = useMemo(
+    () => compileJsonSchema(schema, uiSchema),
+    [schema, uiSchema]
+  );
+
+  const mergedDefaults = useMemo(
+    () =>
+      ({
+        ...(getJsonSchemaDefaults(schema) as Partial<TFieldValues>),
+        ...defaultValues,
+      }) as Partial<TFieldValues>,
+    [schema, defaultValues]
+  );
+
+  return (
+    <DashForm<TFieldValues> {...formProps} defaultValues={mergedDefaults}>
+      <SchemaNode node={root} name="" components={components} />
+      {children}
+    </DashForm>
+  );
+}
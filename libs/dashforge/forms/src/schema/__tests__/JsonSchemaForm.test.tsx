@@ -0,0 +1,183 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { useContext } from 'react';
+import { DashFormContext } from '@dashforge/ui-core';
+import { useDashFieldMeta } from '../../hooks/useDashFieldMeta';
+import { JsonSchemaForm } from '../JsonSchemaForm';
+import type {
+  JsonSchema,
+  JsonSchemaComponents,
+  JsonSchemaWidgetProps,
+} from '../jsonSchema.types';
+
+// Registers through the bridge, like the tw / MUI field components
+function TextWidget({ name, field }: JsonSchemaWidgetProps) {
+  const bridge = useContext(DashFormContext);
+  const register = bridge?.register?.(name, field.rules);
+  const { error } = useDashFieldMeta(name);
+  return (
+    <label>
+      {field.label}
+      <input aria-label={name} {...register} />
+      {error && <span role="alert">{error.message}</span>}
+    </label>
+  );
+}
+
+const components: JsonSchemaComponents = {
+  widgets: { text: TextWidget },
+  ObjectTemplate: ({ field, children }) => (
+    <fieldset>
+      {field.label && <legend>{field.label}</legend>}
+      {children}
+    </fieldset>
+  ),
+  ArrayTemplate: ({ field, items, add, canAdd, canRemove }) => (
+    <div>
+      {items.map((item) => (
+        <div key={item.key}>
+          {item.content}
+          <button type="button" disabled={!canRemove} onClick={item.remove}>
+            Remove {item.index}
+          </button>
+        </div>
+      ))}
+      <button type="button" disabled={!canAdd} onClick={add}>
+        {field.addLabel}
+      </button>
+    </div>
+  ),
+};
+
+const schema: JsonSchema = {
+  type: 'object',
+  required: ['name'],
+  properties: {
+    name: { type: 'string', default: 'Ada' },
+    address: {
+      type: 'object',
+      title: 'Address',
+      properties: { city: { type: 'string' } },
+    },
+    emails: {
+      type: 'array',
+      items: { type: 'object', properties: { email: { type: 'string' } } },
+      minItems: 1,
+      maxItems: 2,
+    },
+  },
+};
+
+describe('JsonSchemaForm', () => {
+  it('should render widgets at their full paths with schema defaults', () => {
+    render(<JsonSchemaForm schema={schema} components={components} />);
+
+    expect((screen.getByLabelText('name') as HTMLInputElement).value).toBe('Ada');
+    expect(screen.getByLabelText('address.city')).toBeTruthy();
+    expect(screen.getByLabelText('emails.0.email')).toBeTruthy();
+    expect(screen.getByText('Address')).toBeTruthy();
+  });
+
+  it('should let defaultValues win over schema defaults', () => {
+    render(
+      <JsonSchemaForm
+        schema={schema}
+        components={components}
+        defaultValues={{ name: 'Grace' }}
+      />
+    );
+
+    expect((screen.getByLabelText('name') as HTMLInputElement).value).toBe(
+      'Grace'
+    );
+  });
+
+  it('should add and remove array items within minItems and maxItems', () => {
+    render(<JsonSchemaForm schema={schema} components={components} />);
+
+    const add = screen.getByRole('button', { name: 'Add' });
+    expect((screen.getByRole('button', { name: 'Remove 0' }) as HTMLButtonElement).disabled).toBe(true);
+
+    fireEvent.click(add);
+    expect(screen.getByLabelText('emails.1.email')).toBeTruthy();
+    expect((add as HTMLButtonElement).disabled).toBe(true);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove 1' }));
+    expect(screen.queryByLabelText('emails.1.email')).toBeNull();
+  });
+
+  it('should validate with the schema rules before submitting', async () => {
+    const onSubmit = vi.fn();
+    render(
+      <JsonSchemaForm
+        schema={schema}
+        components={components}
+        defaultValues={{ name: '' }}
+        onSubmit={onSubmit}
+      >
+        <button type="submit">Save</button>
+      </JsonSchemaForm>
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+    expect(await screen.findByRole('alert')).toHaveProperty(
+      'textContent',
+      'Name is required'
+    );
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText('name'), { target: { value: 'Lin' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+    expect(onSubmit.mock.calls[0]?.[0]).toEqual({
+      name: 'Lin',
+      address: { city: '' },
+      emails: [{ email: '' }],
+    });
+  });
+
+  it('should submit arrays of primitive items unchanged', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const onSubmit = vi.fn();
+    render(
+      <JsonSchemaForm
+        schema={{
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            tags: { type: 'array', items: { type: 'string' } },
+          },
+        }}
+        components={components}
+        defaultValues={{ tags: ['vip'] }}
+        onSubmit={onSubmit}
+      >
+        <button type="submit">Save</button>
+      </JsonSchemaForm>
+    );
+
+    expect(screen.getByLabelText('name')).toBeTruthy();
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+    expect(onSubmit.mock.calls[0]?.[0]).toEqual({ name: '', tags: ['vip'] });
+
+    vi.mocked(console.warn).mockRestore();
+  });
+
+  it('should throw for a widget that is not registered', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(() =>
+      render(
+        <JsonSchemaForm
+          schema={{ type: 'object', properties: { on: { type: 'boolean' } } }}
+          components={components}
+        />
+      )
+    ).toThrow('No widget registered for "checkbox" (field "on")');
+
+    vi.mocked(console.error).mockRestore();
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect, vi } from 'vitest';
+import { compileJsonSchema, getJsonSchemaDefaults } from '../compileJsonSchema';
+import type {
+  JsonSchema,
+  JsonSchemaArrayNode,
+  JsonSchemaFieldNode,
+  JsonSchemaObjectNode,
+} from '../jsonSchema.types';
+
+type Validate = Record<string, (value: unknown) => true | string>;
+
+const userSchema: JsonSchema = {
+  type: 'object',
+  required: ['email', 'role'],
+  properties: {
+    firstName: { type: 'string', maxLength: 40 },
+    email: { type: 'string', format: 'email', title: 'Email address' },
+    age: { type: 'integer', minimum: 18 },
+    role: { type: 'string', enum: ['admin', 'editor'] },
+    newsletter: { type: 'boolean', default: true },
+    birthday: { type: 'string', format: 'date' },
+    address: {
+      type: 'object',
+      title: 'Address',
+      properties: { city: { type: 'string' } },
+    },
+    tags: {
+      type: 'array',
+      items: { type: 'object', properties: { label: { type: 'string' } } },
+      maxItems: 3,
+    },
+  },
+};
+
+function field(root: JsonSchemaObjectNode, key: string): JsonSchemaFieldNode {
+  return root.children.find((c) => c.key === key) as JsonSchemaFieldNode;
+}
+
+describe('compileJsonSchema', () => {
+  it('should infer widgets from types, enums and formats', () => {
+    const root = compileJsonSchema(userSchema);
+
+    expect(root.children.map((c) => [c.key, c.kind === 'field' ? c.widget : c.kind])).toEqual([
+      ['firstName', 'text'],
+      ['email', 'text'],
+      ['age', 'number'],
+      ['role', 'select'],
+      ['newsletter', 'checkbox'],
+      ['birthday', 'date'],
+      ['address', 'object'],
+      ['tags', 'array'],
+    ]);
+    expect(field(root, 'email').inputType).toBe('email');
+    expect(field(root, 'role').options).toEqual([
+      { value: 'admin', label: 'admin' },
+      { value: 'editor', label: 'editor' },
+    ]);
+    expect(field(root, 'age')).toMatchObject({ min: 18, step: 1 });
+  });
+
+  it('should derive labels from title, then the humanized key', () => {
+    const root = compileJsonSchema(userSchema);
+
+    expect(field(root, 'firstName').label).toBe('First name');
+    expect(field(root, 'email').label).toBe('Email address');
+  });
+
+  it('should translate keywords into RHF rules', () => {
+    const root = compileJsonSchema(userSchema);
+    const email = field(root, 'email');
+    const age = field(root, 'age');
+    const role = field(root, 'role');
+
+    expect(email.required).toBe(true);
+    expect(email.rules.required).toBe('Email address is required');
+    expect(field(root, 'firstName').rules.maxLength).toEqual({
+      value: 40,
+      message: 'First name must be at most 40 characters',
+    });
+    expect(age.rules.min).toEqual({ value: 18, message: 'Age must be at least 18' });
+
+    const emailValidate = email.rules.validate as Validate;
+    expect(emailValidate['format']?.('nope')).toBe(
+      'Email address must be a valid email address'
+    );
+    expect(emailValidate['format']?.('a@b.io')).toBe(true);
+    expect(emailValidate['format']?.('')).toBe(true);
+
+    expect((age.rules.validate as Validate)['integer']?.(18.5)).toBe(
+      'Age must be a whole number'
+    );
+    expect((role.rules.validate as Validate)['enum']?.('owner')).toBe(
+      'Role must be one of the listed values'
+    );
+  });
+
+  it('should not require booleans to be checked', () => {
+    const root = compileJsonSchema({
+      type: 'object',
+      required: ['terms'],
+      properties: { terms: { type: 'boolean' } },
+    });
+
+    expect(field(root, 'terms').rules.required).toBeUndefined();
+  });
+
+  it('should read labeled options from oneOf const branches', () => {
+    const root = compileJsonSchema({
+      type: 'object',
+      properties: {
+        plan: {
+          oneOf: [
+            { const: 'free', title: 'Free' },
+            { const: 'pro', title: 'Professional' },
+          ],
+        },
+      },
+    });
+
+    expect(field(root, 'plan').options).toEqual([
+      { value: 'free', label: 'Free' },
+      { value: 'pro', label: 'Professional' },
+    ]);
+  });
+
+  it('should apply the UI schema', () => {
+    const root = compileJsonSchema(userSchema, {
+      columns: 2,
+      order: ['email', '*', 'firstName'],
+      fields: {
+        role: { widget: 'radio', label: 'Access level', help: 'Pick one' },
+        birthday: { hidden: true },
+        tags: { addLabel: 'Add tag' },
+      },
+    });
+
+    expect(root.columns).toBe(2);
+    expect(root.children.map((c) => c.key)).toEqual([
+      'email',
+      'age',
+      'role',
+      'newsletter',
+      'address',
+      'tags',
+      'firstName',
+    ]);
+    expect(field(root, 'role')).toMatchObject({
+      widget: 'radio',
+      label: 'Access level',
+      helperText: 'Pick one',
+    });
+    expect((root.children.at(-2) as JsonSchemaArrayNode).addLabel).toBe('Add tag');
+  });
+
+  it('should compile nested objects and array items', () => {
+    const root = compileJsonSchema(userSchema);
+    const address = root.children.find((c) => c.key === 'address') as JsonSchemaObjectNode;
+    const tags = root.children.find((c) => c.key === 'tags') as JsonSchemaArrayNode;
+
+    expect(address.label).toBe('Address');
+    expect(address.children.map((c) => c.key)).toEqual(['city']);
+    expect(tags).toMatchObject({ minItems: 0, maxItems: 3 });
+    expect(tags.item).toMatchObject({ kind: 'object', key: '' });
+    expect(tags.item.children.map((c) => c.key)).toEqual(['label']);
+    expect(tags.newItem()).toEqual({ label: '' });
+  });
+
+  it('should skip arrays of primitive items with a warning', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const root = compileJsonSchema({
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } },
+      },
+    });
+
+    expect(root.children.map((c) => c.key)).toEqual(['name']);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('Array "tags" is not rendered')
+    );
+
+    warn.mockRestore();
+  });
+
+  it('should reject a root schema that is not an object', () => {
+    expect(() => compileJsonSchema({ type: 'string' })).toThrow(
+      'The root schema must describe an object'
+    );
+  });
+});
+
+describe('getJsonSchemaDefaults', () => {
+  it('should build defaults for every property', () => {
+    expect(getJsonSchemaDefaults(userSchema)).toEqual({
+      firstName: '',
+      email: '',
+      age: null,
+      role: null,
+      newsletter: true,
+      birthday: null,
+      address: { city: '' },
+      tags: [],
+    });
+  });
+
+  it('should create minItems default items', () => {
+    expect(
+      getJsonSchemaDefaults({
+        type: 'array',
+        minItems: 2,
+        items: { type: 'object', properties: { name: { type: 'string' } } },
+      })
+    ).toEqual([{ name: '' }, { name: '' }]);
+  });
+});
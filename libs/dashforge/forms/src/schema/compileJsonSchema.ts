@@ -0,0 +1,440 @@
+import type { RegisterOptions } from 'react-hook-form';
+import type {
+  JsonSchema,
+  JsonSchemaArrayNode,
+  JsonSchemaFieldNode,
+  JsonSchemaNode,
+  JsonSchemaObjectNode,
+  JsonSchemaOption,
+  JsonSchemaType,
+  JsonSchemaUiSchema,
+  JsonSchemaWidgetName,
+} from './jsonSchema.types';
+
+type ValueType = Exclude<JsonSchemaType, 'null'>;
+
+type Validator = (value: unknown) => true | string;
+
+// Deliberately loose: the backend stays the source of truth for exact formats
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URI_PATTERN = /^[a-z][a-z\d+.-]*:\S+$/i;
+
+const FORMAT_WIDGETS: Record<string, JsonSchemaWidgetName> = {
+  date: 'date',
+  'date-time': 'datetime',
+  time: 'time',
+};
+
+/**
+ * Compiles a JSON Schema (plus UI schema) into the node tree rendered by
+ * JsonSchemaForm: widget, label, options and RHF rules for every field.
+ * Arrays of primitive items are skipped (RHF field arrays cannot hold
+ * primitives): they keep their value but render nothing.
+ *
+ * Exported for custom renderers and tests; JsonSchemaForm calls it for you.
+ *
+ * @param schema - Root schema; must describe an object
+ * @param uiSchema - Presentation hints (labels, widgets, order, columns)
+ * @returns Root object node
+ * @throws {Error} If the root schema does not describe an object
+ */
+export function compileJsonSchema(
+  schema: JsonSchema,
+  uiSchema: JsonSchemaUiSchema = {}
+): JsonSchemaObjectNode {
+  if (resolveType(schema) !== 'object') {
+    throw new Error(
+      '[JsonSchemaForm] The root schema must describe an object ' +
+        '(type: "object" with properties).'
+    );
+  }
+
+  return compileObject('', schema, uiSchema);
+}
+
+/**
+ * Builds default form values from the schema `default` keywords.
+ *
+ * Missing defaults become `''` for text, `false` for booleans, `null` for
+ * numbers, enums and dates, `[]` for arrays (or `minItems` default items).
+ *
+ * @param schema - Schema to read
+ * @returns Default value for the schema
+ */
+export function getJsonSchemaDefaults(schema: JsonSchema): unknown {
+  if (schema.default !== undefined) {
+    return schema.default;
+  }
+
+  const type = resolveType(schema);
+
+  switch (type) {
+    case 'object': {
+      const values: Record<string, unknown> = {};
+      for (const [key, property] of Object.entries(schema.properties ?? {})) {
+        values[key] = getJsonSchemaDefaults(property);
+      }
+      return values;
+    }
+
+    case 'array': {
+      const item = schema.items ?? {};
+      return Array.from({ length: schema.minItems ?? 0 }, () =>
+        getJsonSchemaDefaults(item)
+      );
+    }
+
+    case 'boolean':
+      return false;
+
+    case 'number':
+    case 'integer':
+      return null;
+
+    default:
+      return getOptions(schema) || (schema.format && FORMAT_WIDGETS[schema.format])
+        ? null
+        : '';
+  }
+}
+
+function compileNode(
+  key: string,
+  schema: JsonSchema,
+  uiSchema: JsonSchemaUiSchema,
+  required: boolean
+): JsonSchemaNode | null {
+  const type = resolveType(schema);
+
+  if (type === 'object') {
+    return compileObject(key, schema, uiSchema);
+  }
+
+  if (type === 'array') {
+    return compileArray(key, schema, uiSchema);
+  }
+
+  return compileField(key, schema, uiSchema, required, type);
+}
+
+function compileObject(
+  key: string,
+  schema: JsonSchema,
+  uiSchema: JsonSchemaUiSchema
+): JsonSchemaObjectNode {
+  const properties = schema.properties ?? {};
+  const required = new Set(schema.required ?? []);
+  const label = uiSchema.label ?? schema.title;
+  const helperText = uiSchema.help ?? schema.description;
+
+  const children = orderKeys(Object.keys(properties), uiSchema.order)
+    .filter((childKey) => !uiSchema.fields?.[childKey]?.hidden)
+    .map((childKey) =>
+      compileNode(
+        childKey,
+        properties[childKey] as JsonSchema,
+        uiSchema.fields?.[childKey] ?? {},
+        required.has(childKey)
+      )
+    )
+    .filter((child): child is JsonSchemaNode => child !== null);
+
+  return {
+    kind: 'object',
+    key,
+    ...(label !== undefined && { label }),
+    ...(helperText !== undefined && { helperText }),
+    columns: uiSchema.columns ?? 1,
+    children,
+    schema,
+  };
+}
+
+function compileArray(
+  key: string,
+  schema: JsonSchema,
+  uiSchema: JsonSchemaUiSchema
+): JsonSchemaArrayNode | null {
+  const itemSchema = schema.items ?? {};
+  const helperText = uiSchema.help ?? schema.description;
+
+  // RHF field arrays drop falsy primitive items ('', 0, null)
+  if (resolveType(itemSchema) !== 'object') {
+    if (process.env.NODE_ENV !== 'production') {
+      console.warn(
+        `[JsonSchemaForm] Array "${key}" is not rendered: field arrays ` +
+          'cannot hold primitive values. Wrap each item in an object, or ' +
+          'hide the field with uiSchema `hidden: true`.'
+      );
+    }
+    return null;
+  }
+
+  return {
+    kind: 'array',
+    key,
+    label: uiSchema.label ?? schema.title ?? humanize(key),
+    ...(helperText !== undefined && { helperText }),
+    item: compileObject('', itemSchema, uiSchema.items ?? {}),
+    newItem: () => getJsonSchemaDefaults(itemSchema),
+    minItems: schema.minItems ?? 0,
+    ...(schema.maxItems !== undefined && { maxItems: schema.maxItems }),
+    addLabel: uiSchema.addLabel ?? 'Add',
+    schema,
+  };
+}
+
+function compileField(
+  key: string,
+  schema: JsonSchema,
+  uiSchema: JsonSchemaUiSchema,
+  required: boolean,
+  type: ValueType
+): JsonSchemaFieldNode {
+  const label = uiSchema.label ?? schema.title ?? humanize(key);
+  const options = getOptions(schema);
+  const helperText = uiSchema.help ?? schema.description;
+  const isNumeric = type === 'number' || type === 'integer';
+  const inputType =
+    schema.format === 'email' ? 'email' : schema.format === 'uri' ? 'url' : undefined;
+
+  return {
+    kind: 'field',
+    key,
+    widget: uiSchema.widget ?? inferWidget(schema, type, options),
+    label,
+    required,
+    rules: buildRules(schema, type, label, required, options),
+    ...(inputType !== undefined && { inputType }),
+    ...(options !== undefined && { options }),
+    ...(helperText !== undefined && { helperText }),
+    ...(uiSchema.placeholder !== undefined && {
+      placeholder: uiSchema.placeholder,
+    }),
+    ...(isNumeric &&
+      schema.minimum !== undefined && { min: schema.minimum }),
+    ...(isNumeric &&
+      schema.maximum !== undefined && { max: schema.maximum }),
+    ...(type === 'integer' && { step: 1 }),
+    schema,
+  };
+}
+
+function inferWidget(
+  schema: JsonSchema,
+  type: ValueType,
+  options: JsonSchemaOption[] | undefined
+): JsonSchemaWidgetName {
+  if (options) {
+    return 'select';
+  }
+
+  if (type === 'boolean') {
+    return 'checkbox';
+  }
+
+  if (type === 'number' || type === 'integer') {
+    return 'number';
+  }
+
+  return (schema.format && FORMAT_WIDGETS[schema.format]) || 'text';
+}
+
+/**
+ * Translates schema keywords into RHF rules. Empty values only fail
+ * `required`; every other rule skips them.
+ */
+function buildRules(
+  schema: JsonSchema,
+  type: ValueType,
+  label: string,
+  required: boolean,
+  options: JsonSchemaOption[] | undefined
+): RegisterOptions {
+  const rules: RegisterOptions = {};
+  const validate: Record<string, Validator> = {};
+
+  // A boolean is always present: `required` does not mean "must be checked"
+  if (required && type !== 'boolean') {
+    rules.required = `${label} is required`;
+  }
+
+  if (schema.minLength !== undefined) {
+    rules.minLength = {
+      value: schema.minLength,
+      message: `${label} must be at least ${schema.minLength} characters`,
+    };
+  }
+
+  if (schema.maxLength !== undefined) {
+    rules.maxLength = {
+      value: schema.maxLength,
+      message: `${label} must be at most ${schema.maxLength} characters`,
+    };
+  }
+
+  if (schema.pattern !== undefined) {
+    rules.pattern = {
+      value: new RegExp(schema.pattern, 'u'),
+      message: `${label} has an invalid format`,
+    };
+  }
+
+  if (schema.minimum !== undefined) {
+    rules.min = {
+      value: schema.minimum,
+      message: `${label} must be at least ${schema.minimum}`,
+    };
+  }
+
+  if (schema.maximum !== undefined) {
+    rules.max = {
+      value: schema.maximum,
+      message: `${label} must be at most ${schema.maximum}`,
+    };
+  }
+
+  const { exclusiveMinimum, exclusiveMaximum } = schema;
+
+  if (exclusiveMinimum !== undefined) {
+    validate['exclusiveMinimum'] = skipEmpty(
+      (value) =>
+        Number(value) > exclusiveMinimum ||
+        `${label} must be greater than ${exclusiveMinimum}`
+    );
+  }
+
+  if (exclusiveMaximum !== undefined) {
+    validate['exclusiveMaximum'] = skipEmpty(
+      (value) =>
+        Number(value) < exclusiveMaximum ||
+        `${label} must be less than ${exclusiveMaximum}`
+    );
+  }
+
+  if (type === 'integer') {
+    validate['integer'] = skipEmpty(
+      (value) =>
+        Number.isInteger(Number(value)) || `${label} must be a whole number`
+    );
+  }
+
+  if (schema.format === 'email') {
+    validate['format'] = skipEmpty(
+      (value) =>
+        EMAIL_PATTERN.test(String(value)) ||
+        `${label} must be a valid email address`
+    );
+  } else if (schema.format === 'uri') {
+    validate['format'] = skipEmpty(
+      (value) => URI_PATTERN.test(String(value)) || `${label} must be a valid URL`
+    );
+  }
+
+  // Compared as strings: radio groups store numeric options as strings
+  if (options) {
+    validate['enum'] = skipEmpty(
+      (value) =>
+        options.some((option) => String(option.value) === String(value)) ||
+        `${label} must be one of the listed values`
+    );
+  }
+
+  if (Object.keys(validate).length > 0) {
+    rules.validate = validate;
+  }
+
+  return rules;
+}
+
+function skipEmpty(validator: Validator): Validator {
+  return (value) =>
+    value === undefined || value === null || value === ''
+      ? true
+      : validator(value);
+}
+
+/**
+ * Options from `enum`, or from a `oneOf` of `const` (+ `title`) branches.
+ * Values other than strings and numbers cannot be selected and are dropped.
+ */
+function getOptions(schema: JsonSchema): JsonSchemaOption[] | undefined {
+  if (schema.enum) {
+    return schema.enum
+      .filter(isOptionValue)
+      .map((value) => ({ value, label: String(value) }));
+  }
+
+  if (schema.oneOf && schema.oneOf.every((branch) => 'const' in branch)) {
+    return schema.oneOf
+      .filter((branch) => isOptionValue(branch.const))
+      .map((branch) => ({
+        value: branch.const as string | number,
+        label: branch.title ?? String(branch.const),
+      }));
+  }
+
+  return undefined;
+}
+
+function isOptionValue(value: unknown): value is string | number {
+  return typeof value === 'string' || typeof value === 'number';
+}
+
+/**
+ * Resolves the value type, ignoring 'null' in `[type, 'null']` unions.
+ * Without `type`, it is inferred from `properties`, `items` or the enum.
+ */
+function resolveType(schema: JsonSchema): ValueType {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const declared = types.find(
+    (t): t is ValueType => t !== undefined && t !== 'null'
+  );
+
+  if (declared) {
+    return declared;
+  }
+
+  if (schema.properties) {
+    return 'object';
+  }
+
+  if (schema.items) {
+    return 'array';
+  }
+
+  return typeof getOptions(schema)?.[0]?.value === 'number'
+    ? 'number'
+    : 'string';
+}
+
+/**
+ * Orders object keys: keys listed in `order` first, `'*'` marks where the
+ * remaining keys go (at the end by default). Unknown keys are ignored.
+ */
+function orderKeys(keys: string[], order: string[] | undefined): string[] {
+  if (!order) {
+    return keys;
+  }
+
+  const listed = order.filter((key) => key === '*' || keys.includes(key));
+  const rest = keys.filter((key) => !listed.includes(key));
+  const wildcard = listed.indexOf('*');
+
+  return wildcard === -1
+    ? [...listed, ...rest]
+    : [...listed.slice(0, wildcard), ...rest, ...listed.slice(wildcard + 1)];
+}
+
+/**
+ * 'firstName' / 'first_name' → 'First name'.
+ */
+function humanize(key: string): string {
+  const words = key
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
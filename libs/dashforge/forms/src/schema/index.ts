@@ -0,0 +1,3 @@
+export * from './jsonSchema.types';
+export * from './compileJsonSchema';
+export * from './JsonSchemaForm';
@@ -0,0 +1,257 @@
+import type { ComponentType, ReactNode } from 'react';
+import type { FieldValues, RegisterOptions } from 'react-hook-form';
+import type { DashFormProps } from '../core/form.types';
+
+/**
+ * JSON Schema primitive types understood by the form compiler.
+ */
+export type JsonSchemaType =
+  | 'object'
+  | 'array'
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'null';
+
+/**
+ * Enum value usable in a form (select / radio options).
+ */
+export type JsonSchemaEnumValue = string | number | boolean | null;
+
+/**
+ * Subset of JSON Schema (draft 2020-12) used to generate forms.
+ *
+ * Supported: `type` (including `[type, 'null']` unions),
+ * `properties` / `required`, `items`, `enum`, `const` + `title` options in
+ * `oneOf`, `format` (`email`, `uri`, `date`, `date-time`, `time`), string
+ * length and `pattern`, numeric bounds, `minItems` / `maxItems`, `title`,
+ * `description` and `default`.
+ *
+ * NOT supported: `$ref`, `allOf` / `anyOf`, `if` / `then`, tuple `items`,
+ * arrays of primitive items (skipped: field arrays need object items),
+ * `additionalProperties` editing. Unknown keywords are ignored.
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+
+  // object
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+
+  // array
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+
+  // enumerations
+  enum?: JsonSchemaEnumValue[];
+  const?: JsonSchemaEnumValue;
+  oneOf?: JsonSchema[];
+
+  // string
+  format?: string;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+
+  // number / integer
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+}
+
+/**
+ * Presentation hints for a schema node, mirroring its shape:
+ * `fields` holds the hints of an object's properties, `items` the hints
+ * of an array's items.
+ *
+ * @example
+ * ```ts
+ * const uiSchema: JsonSchemaUiSchema = {
+ *   columns: 2,
+ *   order: ['lastName', 'firstName', '*'],
+ *   fields: {
+ *     bio: { widget: 'textarea', help: 'Shown on your public profile' },
+ *     role: { widget: 'radio' },
+ *     internalId: { hidden: true },
+ *   },
+ * };
+ * ```
+ */
+export interface JsonSchemaUiSchema {
+  /** Widget name; overrides the one inferred from the schema. */
+  widget?: string;
+  /** Label; defaults to the schema `title`, then the humanized key. */
+  label?: string;
+  /** Helper text; defaults to the schema `description`. */
+  help?: string;
+  placeholder?: string;
+  /** Leave the field out of the form (its default value is still submitted). */
+  hidden?: boolean;
+  /** Objects: property order. `'*'` stands for the unlisted properties. */
+  order?: string[];
+  /** Objects: number of grid columns. */
+  columns?: 1 | 2 | 3 | 4;
+  /** Objects: hints of each property. */
+  fields?: Record<string, JsonSchemaUiSchema>;
+  /** Arrays: hints of the items. */
+  items?: JsonSchemaUiSchema;
+  /** Arrays: label of the add button. */
+  addLabel?: string;
+}
+
+/**
+ * Option of a select / radio field.
+ */
+export interface JsonSchemaOption {
+  value: string | number;
+  label: string;
+}
+
+/**
+ * Built-in widget names. Custom names can be registered in `widgets`
+ * and selected with `uiSchema.widget`.
+ */
+export type JsonSchemaWidgetName =
+  | 'text'
+  | 'textarea'
+  | 'number'
+  | 'select'
+  | 'radio'
+  | 'checkbox'
+  | 'switch'
+  | 'date'
+  | 'datetime'
+  | 'time';
+
+/**
+ * Compiled leaf field (string, number, boolean or enum).
+ */
+export interface JsonSchemaFieldNode {
+  kind: 'field';
+  /** Property key, relative to the parent node. */
+  key: string;
+  widget: JsonSchemaWidgetName | (string & {});
+  label: string;
+  required: boolean;
+  /** RHF rules derived from the schema keywords. */
+  rules: RegisterOptions;
+  /** Native input type for the `text` widget (`email`, `url`). */
+  inputType?: 'text' | 'email' | 'url';
+  options?: JsonSchemaOption[];
+  helperText?: string;
+  placeholder?: string;
+  min?: number;
+  max?: number;
+  step?: number;
+  schema: JsonSchema;
+}
+
+/**
+ * Compiled object (nested group of fields).
+ */
+export interface JsonSchemaObjectNode {
+  kind: 'object';
+  key: string;
+  label?: string;
+  helperText?: string;
+  columns: 1 | 2 | 3 | 4;
+  children: JsonSchemaNode[];
+  schema: JsonSchema;
+}
+
+/**
+ * Compiled array, rendered with `useDashFieldArray`.
+ */
+export interface JsonSchemaArrayNode {
+  kind: 'array';
+  key: string;
+  label: string;
+  helperText?: string;
+  /** Item object node; its key is empty, the item path is `<array>.<index>`. */
+  item: JsonSchemaObjectNode;
+  /** Value appended by the add button. */
+  newItem: () => unknown;
+  minItems: number;
+  maxItems?: number;
+  addLabel: string;
+  schema: JsonSchema;
+}
+
+export type JsonSchemaNode =
+  | JsonSchemaFieldNode
+  | JsonSchemaObjectNode
+  | JsonSchemaArrayNode;
+
+/**
+ * Props received by a field widget.
+ */
+export interface JsonSchemaWidgetProps {
+  /** Full field path (e.g. `addresses.0.city`). */
+  name: string;
+  field: JsonSchemaFieldNode;
+}
+
+/**
+ * Props received by the object template.
+ * `name` is `''` for the root object.
+ */
+export interface JsonSchemaObjectTemplateProps {
+  name: string;
+  field: JsonSchemaObjectNode;
+  children: ReactNode;
+}
+
+/**
+ * One rendered item of an array.
+ */
+export interface JsonSchemaArrayTemplateItem {
+  key: string;
+  index: number;
+  content: ReactNode;
+  remove: () => void;
+}
+
+/**
+ * Props received by the array template.
+ * canAdd / canRemove honor maxItems / minItems.
+ */
+export interface JsonSchemaArrayTemplateProps {
+  name: string;
+  field: JsonSchemaArrayNode;
+  items: JsonSchemaArrayTemplateItem[];
+  add: () => void;
+  canAdd: boolean;
+  canRemove: boolean;
+}
+
+/**
+ * Components a UI library plugs into the schema renderer.
+ */
+export interface JsonSchemaComponents {
+  widgets: Record<string, ComponentType<JsonSchemaWidgetProps>>;
+  ObjectTemplate: ComponentType<JsonSchemaObjectTemplateProps>;
+  ArrayTemplate: ComponentType<JsonSchemaArrayTemplateProps>;
+}
+
+/**
+ * Props for JsonSchemaForm.
+ * All DashForm props apply; schema defaults are merged under defaultValues.
+ *
+ * @template TFieldValues - Form field values type
+ */
+export interface JsonSchemaFormProps<
+  TFieldValues extends FieldValues = FieldValues
+> extends Omit<DashFormProps<TFieldValues>, 'children'> {
+  /** Root schema; must describe an object. */
+  schema: JsonSchema;
+  uiSchema?: JsonSchemaUiSchema;
+  components: JsonSchemaComponents;
+  /** Rendered after the generated fields (submit button, etc.). */
+  children?: ReactNode;
+}
@@ -0,0 +1,222 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { useContext } from 'react';
+import { DashFormContext } from '@dashforge/ui-core';
+import { DashForm } from '../../components/DashForm';
+import { useDashFieldMeta } from '../../hooks/useDashFieldMeta';
+import { useDashRegister } from '../../hooks/useDashRegister';
+import type {
+  AsyncFieldValidator,
+  AsyncValidateContext,
+} from '../asyncValidation.types';
+
+/**
+ * ASYNC VALIDATORS (`asyncValidate` rule)
+ *
+ * These tests verify:
+ *   - checks run once, `debounceMs` after the last change, with the
+ *     `validating` flag set meanwhile,
+ *   - the latest check wins (older ones are aborted and ignored),
+ *   - synchronous rules take precedence,
+ *   - submit runs pending checks and skips onSubmit when one fails,
+ *   - a rejected check becomes a field error and is retried on submit.
+ */
+
+interface SignupForm {
+  username: string;
+}
+
+interface Deferred {
+  value: string;
+  ctx: AsyncValidateContext;
+  resolve: (result: string | true) => void;
+}
+
+/** Validator whose checks are resolved by the test. */
+function deferredValidator(debounceMs = 20) {
+  const calls: Deferred[] = [];
+  const validator: AsyncFieldValidator<string> = {
+    debounceMs,
+    validate: vi.fn(
+      (value: string, ctx: AsyncValidateContext) =>
+        new Promise<string | true>((resolve) =>
+          calls.push({ value, ctx, resolve })
+        )
+    ),
+  };
+  return { validator, calls };
+}
+
+function UsernameField({
+  validator,
+}: {
+  validator: AsyncFieldValidator<string>;
+}) {
+  const bridge = useContext(DashFormContext);
+  const register = bridge?.register?.('username', {
+    required: 'Username is required',
+    asyncValidate: validator,
+  });
+  const { error, validating } = useDashFieldMeta('username');
+  return (
+    <>
+      <input aria-label="username" {...register} />
+      <span data-testid="validating">{String(validating)}</span>
+      {error && <span data-testid="error">{error.message}</span>}
+    </>
+  );
+}
+
+function renderForm(
+  validator: AsyncFieldValidator<string>,
+  onSubmit = vi.fn()
+) {
+  const { container } = render(
+    <DashForm<SignupForm> defaultValues={{ username: '' }} onSubmit={onSubmit}>
+      <UsernameField validator={validator} />
+    </DashForm>
+  );
+  const form = container.querySelector('form') as HTMLFormElement;
+  return { onSubmit, submit: () => fireEvent.submit(form) };
+}
+
+const type = (value: string) =>
+  fireEvent.change(screen.getByLabelText('username'), { target: { value } });
+const validating = () => screen.getByTestId('validating').textContent;
+const error = () => screen.queryByTestId('error')?.textContent ?? null;
+
+describe('async field validators', () => {
+  it('runs once after the debounce delay and flags the field meanwhile', async () => {
+    const { validator, calls } = deferredValidator();
+    renderForm(validator);
+
+    type('a');
+    type('ad');
+    type('ada');
+    await waitFor(() => expect(validating()).toBe('true'));
+    await waitFor(() => expect(calls).toHaveLength(1));
+    expect(calls[0]?.value).toBe('ada');
+
+    calls[0]?.resolve('Username already taken');
+
+    await waitFor(() => expect(error()).toBe('Username already taken'));
+    expect(validating()).toBe('false');
+  });
+
+  it('keeps the latest result and aborts the older check', async () => {
+    const { validator, calls } = deferredValidator(0);
+    renderForm(validator);
+
+    type('ada');
+    await waitFor(() => expect(calls).toHaveLength(1));
+    type('grace');
+    await waitFor(() => expect(calls).toHaveLength(2));
+
+    expect(calls[0]?.ctx.signal.aborted).toBe(true);
+    calls[1]?.resolve(true);
+    calls[0]?.resolve('Username already taken');
+
+    await waitFor(() => expect(validating()).toBe('false'));
+    expect(error()).toBeNull();
+  });
+
+  it('does not run while a synchronous rule fails', async () => {
+    const { validator } = deferredValidator(0);
+    const { submit } = renderForm(validator);
+
+    submit();
+
+    await waitFor(() => expect(error()).toBe('Username is required'));
+    expect(validator.validate).not.toHaveBeenCalled();
+  });
+
+  it('makes submit wait for pending checks', async () => {
+    const { validator, calls } = deferredValidator(10_000);
+    const { submit, onSubmit } = renderForm(validator);
+
+    type('ada');
+    submit();
+
+    // The debounced check runs right away on submit
+    await waitFor(() => expect(calls).toHaveLength(1));
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    calls[0]?.resolve('Username already taken');
+    await waitFor(() => expect(error()).toBe('Username already taken'));
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    type('grace');
+    submit();
+    await waitFor(() => expect(calls).toHaveLength(2));
+    calls[1]?.resolve(true);
+
+    await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+    expect(onSubmit.mock.calls[0]?.[0]).toEqual({ username: 'grace' });
+  });
+
+  it('turns a rejected check into a field error and retries it on submit', async () => {
+    const validate = vi
+      .fn<AsyncFieldValidator<string>['validate']>()
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValue(true);
+    const { submit, onSubmit } = renderForm({
+      debounceMs: 0,
+      validate,
+      failureMessage: 'Could not check the username',
+    });
+
+    type('ada');
+    await waitFor(() => expect(error()).toBe('Could not check the username'));
+    expect(validating()).toBe('false');
+
+    submit();
+
+    await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+    expect(validate).toHaveBeenCalledTimes(2);
+    expect(error()).toBeNull();
+  });
+
+  it('skips onSubmit when a check rejects during submit', async () => {
+    const validate = vi
+      .fn<AsyncFieldValidator<string>['validate']>()
+      .mockRejectedValue(new Error('Network error'));
+    const { submit, onSubmit } = renderForm({ debounceMs: 10_000, validate });
+
+    type('ada');
+    submit();
+
+    await waitFor(() =>
+      expect(error()).toBe('Could not be validated, please try again')
+    );
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it('supports asyncValidate through useDashRegister', async () => {
+    const { validator, calls } = deferredValidator(0);
+
+    function CustomField() {
+      const { register } = useDashRegister<SignupForm>('username', {
+        asyncValidate: validator,
+      });
+      const { error: fieldError } = useDashFieldMeta('username');
+      return (
+        <>
+          <input aria-label="username" {...register} />
+          {fieldError && <span data-testid="error">{fieldError.message}</span>}
+        </>
+      );
+    }
+
+    render(
+      <DashForm<SignupForm> defaultValues={{ username: '' }}>
+        <CustomField />
+      </DashForm>
+    );
+
+    type('ada');
+    await waitFor(() => expect(calls).toHaveLength(1));
+    calls[0]?.resolve('Username already taken');
+
+    await waitFor(() => expect(error()).toBe('Username already taken'));
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { useContext } from 'react';
+import { DashFormContext } from '@dashforge/ui-core';
+import { DashForm } from '../../components/DashForm';
+import { useDashFieldMeta } from '../../hooks/useDashFieldMeta';
+import { createCrossFieldValidation } from '../createCrossFieldValidation';
+import type { CrossFieldRule } from '../crossFieldValidation.types';
+import type { AsyncFieldValidator } from '../asyncValidation.types';
+
+/**
+ * CROSS-FIELD RULES (`crossFieldRules`)
+ *
+ * These tests verify:
+ *   - a rule re-runs only when one of its watched fields changes,
+ *   - a failing rule writes its message to its target(s), and clears it
+ *     once valid again,
+ *   - field rule errors take precedence, then the first declared rule,
+ *   - a rule error replaces an async error, restored once the rule passes,
+ *   - a rule that throws fails,
+ *   - submit evaluates every rule and skips onSubmit when one fails.
+ */
+
+interface PasswordForm {
+  password: string;
+  confirmPassword: string;
+  nickname: string;
+}
+
+const DEFAULTS: PasswordForm = {
+  password: '',
+  confirmPassword: '',
+  nickname: '',
+};
+
+function passwordsMatch(
+  validate = vi.fn(
+    (ctx: { getValue: <T = unknown>(name: string) => T }) =>
+      ctx.getValue('password') === ctx.getValue('confirmPassword')
+  )
+): CrossFieldRule<PasswordForm> {
+  return {
+    id: 'passwords-match',
+    watch: ['password', 'confirmPassword'],
+    validate,
+    target: 'confirmPassword',
+    message: 'Passwords do not match',
+  };
+}
+
+function Field({
+  name,
+  required,
+  asyncValidate,
+}: {
+  name: keyof PasswordForm;
+  required?: boolean;
+  asyncValidate?: AsyncFieldValidator<string>;
+}) {
+  const bridge = useContext(DashFormContext);
+  const register = bridge?.register?.(name, {
+    ...(required && { required: 'Required' }),
+    asyncValidate,
+  });
+  const { error } = useDashFieldMeta(name);
+  return (
+    <>
+      <input aria-label={name} {...register} />
+      {error && <span data-testid={`${name}-error`}>{error.message}</span>}
+    </>
+  );
+}
+
+function renderForm(
+  rules: CrossFieldRule<PasswordForm>[],
+  onSubmit = vi.fn(),
+  asyncValidate?: AsyncFieldValidator<string>
+) {
+  const { container } = render(
+    <DashForm<PasswordForm>
+      defaultValues={DEFAULTS}
+      crossFieldRules={rules}
+      onSubmit={onSubmit}
+    >
+      <Field name="password" />
+      <Field name="confirmPassword" required asyncValidate={asyncValidate} />
+      <Field name="nickname" />
+    </DashForm>
+  );
+  const form = container.querySelector('form') as HTMLFormElement;
+  return { onSubmit, submit: () => fireEvent.submit(form) };
+}
+
+const type = (name: keyof PasswordForm, value: string) =>
+  fireEvent.change(screen.getByLabelText(name), { target: { value } });
+const error = (name: keyof PasswordForm) =>
+  screen.queryByTestId(`${name}-error`)?.textContent ?? null;
+
+describe('cross-field rules', () => {
+  it('re-runs only when a watched field changes', async () => {
+    const rule = passwordsMatch();
+    renderForm([rule]);
+
+    type('nickname', 'ada');
+    type('password', 'secret');
+    await waitFor(() =>
+      expect(error('confirmPassword')).toBe('Passwords do not match')
+    );
+    // The nickname change did not re-run it
+    expect(rule.validate).toHaveBeenCalledTimes(1);
+
+    type('confirmPassword', 'secret');
+    await waitFor(() => expect(error('confirmPassword')).toBeNull());
+    expect(rule.validate).toHaveBeenCalledTimes(2);
+  });
+
+  it('evaluates every rule on submit', async () => {
+    // Watches nothing: only submit evaluates it
+    const { submit, onSubmit } = renderForm([
+      { ...passwordsMatch(), watch: [] },
+    ]);
+
+    type('confirmPassword', 'other');
+    expect(error('confirmPassword')).toBeNull();
+
+    submit();
+
+    await waitFor(() =>
+      expect(error('confirmPassword')).toBe('Passwords do not match')
+    );
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    type('password', 'other');
+    submit();
+    await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+  });
+
+  it('keeps field rule errors and the first failing rule', async () => {
+    const { submit } = renderForm([
+      passwordsMatch(),
+      {
+        id: 'not-nickname',
+        watch: ['nickname', 'confirmPassword'],
+        validate: (ctx) =>
+          ctx.getValue('nickname') !== ctx.getValue('confirmPassword'),
+        target: ['confirmPassword', 'nickname'],
+        message: 'Must differ from the nickname',
+      },
+    ]);
+
+    submit();
+    await waitFor(() => expect(error('confirmPassword')).toBe('Required'));
+
+    type('nickname', 'ada');
+    type('confirmPassword', 'ada');
+    await waitFor(() =>
+      expect(error('confirmPassword')).toBe('Passwords do not match')
+    );
+    expect(error('nickname')).toBe('Must differ from the nickname');
+
+    type('password', 'ada');
+    await waitFor(() =>
+      expect(error('confirmPassword')).toBe('Must differ from the nickname')
+    );
+  });
+
+  it('replaces an async error and restores it once the rule passes', async () => {
+    const asyncValidate: AsyncFieldValidator<string> = {
+      debounceMs: 0,
+      validate: vi.fn(async () => 'Password was leaked'),
+    };
+    renderForm([passwordsMatch()], vi.fn(), asyncValidate);
+
+    type('confirmPassword', 'secret');
+    await waitFor(() =>
+      expect(error('confirmPassword')).toBe('Passwords do not match')
+    );
+
+    type('password', 'secret');
+    await waitFor(() =>
+      expect(error('confirmPassword')).toBe('Password was leaked')
+    );
+
+    type('password', 'other');
+    await waitFor(() =>
+      expect(error('confirmPassword')).toBe('Passwords do not match')
+    );
+
+    type('password', 'secret');
+    await waitFor(() =>
+      expect(error('confirmPassword')).toBe('Password was leaked')
+    );
+    // The result for 'secret' was cached
+    expect(asyncValidate.validate).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails a rule that throws', async () => {
+    const consoleError = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => undefined);
+    const { submit, onSubmit } = renderForm([
+      passwordsMatch(
+        vi.fn(() => {
+          throw new Error('Broken rule');
+        })
+      ),
+    ]);
+
+    type('confirmPassword', 'secret');
+    submit();
+
+    await waitFor(() =>
+      expect(error('confirmPassword')).toBe('Passwords do not match')
+    );
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(consoleError).toHaveBeenCalledWith(
+      '[CrossFieldValidation] Rule failed',
+      expect.objectContaining({ id: 'passwords-match' })
+    );
+    consoleError.mockRestore();
+  });
+});
+
+describe('createCrossFieldValidation', () => {
+  it('throws on duplicate rule IDs', () => {
+    const create = () =>
+      createCrossFieldValidation<PasswordForm>({
+        rules: [passwordsMatch(), passwordsMatch()],
+        getValue: () => undefined,
+        getErrorType: () => undefined,
+        setError: vi.fn(),
+        clearError: vi.fn(),
+      });
+
+    expect(create).toThrow(
+      '[CrossFieldValidation] Duplicate rule ID detected: "passwords-match"'
+    );
+  });
+});
@@ -0,0 +1,86 @@
+import type { FieldPath, FieldValues, RegisterOptions } from 'react-hook-form';
+
+/**
+ * Context passed to an async validator.
+ */
+export interface AsyncValidateContext {
+  /**
+   * Aborted when the check is superseded (the value changed again, the
+   * field was unregistered or the form unmounted). Pass it to `fetch`.
+   */
+  signal: AbortSignal;
+
+  /**
+   * Get current value of another field.
+   *
+   * @param name - Field name
+   * @returns Current value (unknown type, consumer must cast)
+   */
+  getValue: <T = unknown>(name: string) => T;
+}
+
+/**
+ * Async validator result: an error message, or true / null / undefined
+ * when the value is valid.
+ */
+export type AsyncValidateResult = string | true | null | undefined;
+
+/**
+ * Per-field async validator (`asyncValidate` rule).
+ *
+ * ASYNC CORRECTNESS:
+ * - Runs `debounceMs` after the last change of the field
+ * - Latest wins: a check started for an older value is aborted and its
+ *   result discarded
+ * - Skipped while the field has a synchronous error (rules / resolver)
+ * - A result is cached for its value: unchanged values are not re-checked
+ *
+ * @template TValue - Field value type
+ *
+ * @example
+ * ```ts
+ * const usernameAvailable: AsyncFieldValidator<string> = {
+ *   debounceMs: 400,
+ *   validate: async (username, { signal }) => {
+ *     const res = await fetch(`/api/users/${username}`, { signal });
+ *     return res.status === 404 || 'Username already taken';
+ *   },
+ * };
+ * ```
+ */
+export interface AsyncFieldValidator<TValue = unknown> {
+  /**
+   * Checks the value.
+   * A rejection (other than an abort) sets `failureMessage` as the field
+   * error, which fails the submit; the value is checked again on the next
+   * change or submit.
+   */
+  validate: (
+    value: TValue,
+    ctx: AsyncValidateContext
+  ) => Promise<AsyncValidateResult>;
+
+  /**
+   * Delay after the last change before the check runs, in ms.
+   * @default 300
+   */
+  debounceMs?: number;
+
+  /**
+   * Field error set when `validate` rejects.
+   * @default 'Could not be validated, please try again'
+   */
+  failureMessage?: string;
+}
+
+/**
+ * Field rules accepted by `bridge.register()` and useDashRegister():
+ * React Hook Form rules plus an optional async validator.
+ *
+ * @template TFieldValues - Form field values type
+ */
+export type DashFieldRules<TFieldValues extends FieldValues = FieldValues> =
+  RegisterOptions<TFieldValues, FieldPath<TFieldValues>> & {
+    // `never` accepts validators of any value type (parameter position)
+    asyncValidate?: AsyncFieldValidator<never>;
+  };
@@ -0,0 +1,360 @@
+import type { AsyncFieldValidator } from './asyncValidation.types';
+import type { AsyncRequestTracker } from '../reactions/reaction.types';
+
+/**
+ * RHF error type of async validator messages. Errors of other types
+ * (rules, resolver, cross-field rules, server) are never overwritten nor
+ * cleared.
+ */
+export const ASYNC_ERROR_TYPE = 'async';
+
+export const DEFAULT_ASYNC_DEBOUNCE_MS = 300;
+
+export const DEFAULT_ASYNC_FAILURE_MESSAGE =
+  'Could not be validated, please try again';
+
+/**
+ * Async validation registry interface.
+ * Owns the async validators of a form and their in-flight checks.
+ */
+export interface AsyncValidationRegistry {
+  /**
+   * Set (or replace) the async validator of a field.
+   * Undefined removes it. Replacing keeps the cached result.
+   *
+   * @param name - Field name
+   * @param validator - Validator from the `asyncValidate` rule
+   */
+  setValidator(
+    name: string,
+    validator: AsyncFieldValidator<never> | undefined
+  ): void;
+
+  /**
+   * Remove a field: cancels its pending / in-flight check.
+   *
+   * @param name - Field name
+   */
+  removeField(name: string): void;
+
+  /**
+   * Schedule a debounced check after a value change (or re-apply the
+   * cached result when the value was already checked).
+   * No-op for fields without validator.
+   *
+   * @param name - Field name
+   */
+  schedule(name: string): void;
+
+  /**
+   * Check whether a check is scheduled or in flight for a field.
+   *
+   * @param name - Field name
+   */
+  isValidating(name: string): boolean;
+
+  /**
+   * Run scheduled and stale checks now and wait for every pending check
+   * (the submit path). Errors are (re)applied from the results, as RHF
+   * clears them while re-running synchronous validation.
+   *
+   * @param names - Fields to validate; all fields with validators if omitted
+   * @returns True when every checked value is valid (a rejected check
+   *   counts as invalid)
+   */
+  validate(names?: string[]): Promise<boolean>;
+
+  /**
+   * Cancel every pending / in-flight check (provider unmount).
+   */
+  dispose(): void;
+}
+
+interface FieldAsyncState {
+  validator: AsyncFieldValidator<never>;
+  timer: ReturnType<typeof setTimeout> | undefined;
+  controller: AbortController | undefined;
+  /** In-flight check and the value it checks. */
+  pending: Promise<void> | undefined;
+  pendingValue: unknown;
+  validating: boolean;
+  /** Result of the last completed check. */
+  checked: boolean;
+  checkedValue: unknown;
+  /** Error of the last check: its result, or the failure message. */
+  message: string | null;
+}
+
+/**
+ * Separates the `asyncValidate` rule from the RHF rules.
+ *
+ * @param rules - Field rules
+ * @returns RHF rules and the async validator
+ */
+export function splitAsyncRules<
+  TRules extends { asyncValidate?: AsyncFieldValidator<never> }
+>(
+  rules: TRules | undefined
+): {
+  rules: TRules | undefined;
+  asyncValidate: AsyncFieldValidator<never> | undefined;
+} {
+  if (!rules || !('asyncValidate' in rules)) {
+    return { rules, asyncValidate: undefined };
+  }
+  const { asyncValidate, ...rest } = rules;
+  // Without asyncValidate (optional), the rest is still a TRules
+  return { rules: rest as TRules, asyncValidate };
+}
+
+/**
+ * Create an async validation registry.
+ *
+ * Latest-wins coordination uses the same request IDs as the reaction
+ * system (`beginAsync` / `isLatest`, keyed by field name); superseded
+ * checks are also aborted through their AbortSignal.
+ *
+ * @param config - Injected form accessors
+ * @returns Async validation registry instance
+ */
+export function createAsyncValidationRegistry(config: {
+  debug?: boolean;
+  getValue: (name: string) => unknown;
+  /** Current RHF error type of a field, undefined when valid. */
+  getErrorType: (name: string) => string | undefined;
+  setError: (name: string, message: string) => void;
+  clearError: (name: string) => void;
+  /** Called when the validating flag of a field changes. */
+  onValidatingChange: (name: string) => void;
+}): AsyncValidationRegistry {
+  const {
+    debug = false,
+    getValue,
+    getErrorType,
+    setError,
+    clearError,
+    onValidatingChange,
+  } = config;
+
+  const fields = new Map<string, FieldAsyncState>();
+  const asyncTracker: AsyncRequestTracker = new Map();
+
+  function beginAsync(key: string): number {
+    const requestId = (asyncTracker.get(key) ?? 0) + 1;
+    asyncTracker.set(key, requestId);
+    return requestId;
+  }
+
+  function isLatest(key: string, requestId: number): boolean {
+    return requestId === (asyncTracker.get(key) ?? 0);
+  }
+
+  function setValidating(name: string, state: FieldAsyncState, value: boolean) {
+    if (state.validating === value) return;
+    state.validating = value;
+    onValidatingChange(name);
+  }
+
+  /**
+   * Cancels the scheduled / in-flight check. The request ID is bumped so a
+   * result arriving after the abort is discarded.
+   */
+  function cancel(name: string, state: FieldAsyncState) {
+    clearTimeout(state.timer);
+    state.timer = undefined;
+    state.controller?.abort();
+    state.controller = undefined;
+    state.pending = undefined;
+    beginAsync(name);
+  }
+
+  /**
+   * Writes the cached result as the field error. Any other error of the
+   * field (rules, resolver, cross-field rules, server) takes precedence.
+   */
+  function applyResult(name: string, state: FieldAsyncState) {
+    const errorType = getErrorType(name);
+    if (errorType !== undefined && errorType !== ASYNC_ERROR_TYPE) return;
+
+    if (state.message !== null) {
+      setError(name, state.message);
+    } else if (errorType === ASYNC_ERROR_TYPE) {
+      clearError(name);
+    }
+  }
+
+  function run(name: string, state: FieldAsyncState): Promise<void> {
+    cancel(name, state);
+
+    const errorType = getErrorType(name);
+    if (errorType !== undefined && errorType !== ASYNC_ERROR_TYPE) {
+      // The value is already invalid: no request
+      state.checked = false;
+      setValidating(name, state, false);
+      return Promise.resolve();
+    }
+
+    const value = getValue(name);
+    const requestId = beginAsync(name);
+    const controller = new AbortController();
+    state.controller = controller;
+    state.pendingValue = value;
+    setValidating(name, state, true);
+
+    if (debug) {
+      console.log('[AsyncValidation] Checking field', { name, requestId });
+    }
+
+    const settle = () => {
+      state.controller = undefined;
+      state.pending = undefined;
+      setValidating(name, state, false);
+    };
+
+    const pending = (async () => {
+      let result: Awaited<ReturnType<AsyncFieldValidator['validate']>>;
+      try {
+        result = await state.validator.validate(value as never, {
+          signal: controller.signal,
+          getValue: <T = unknown>(field: string) => getValue(field) as T,
+        });
+      } catch (error) {
+        if (!isLatest(name, requestId)) return;
+        if (debug) {
+          console.log('[AsyncValidation] Validator failed', { name, error });
+        }
+        // Not cached: the value is checked again on the next change / submit
+        state.checked = false;
+        state.message =
+          state.validator.failureMessage ?? DEFAULT_ASYNC_FAILURE_MESSAGE;
+        applyResult(name, state);
+        settle();
+        return;
+      }
+
+      if (!isLatest(name, requestId)) {
+        if (debug) {
+          console.log('[AsyncValidation] Discarding stale result', {
+            name,
+            requestId,
+          });
+        }
+        return;
+      }
+
+      state.checked = true;
+      state.checkedValue = value;
+      state.message = typeof result === 'string' ? result : null;
+      applyResult(name, state);
+      settle();
+    })();
+
+    state.pending = pending;
+    return pending;
+  }
+
+  function removeField(name: string) {
+    const state = fields.get(name);
+    if (!state) return;
+    cancel(name, state);
+    fields.delete(name);
+    setValidating(name, state, false);
+  }
+
+  return {
+    setValidator(name, validator) {
+      if (!validator) {
+        removeField(name);
+        return;
+      }
+
+      const state = fields.get(name);
+      if (state) {
+        state.validator = validator;
+        return;
+      }
+
+      fields.set(name, {
+        validator,
+        timer: undefined,
+        controller: undefined,
+        pending: undefined,
+        pendingValue: undefined,
+        validating: false,
+        checked: false,
+        checkedValue: undefined,
+        message: null,
+      });
+    },
+
+    removeField,
+
+    schedule(name) {
+      const state = fields.get(name);
+      if (!state) return;
+
+      const value = getValue(name);
+      if (
+        state.timer === undefined &&
+        state.pending === undefined &&
+        state.checked &&
+        Object.is(state.checkedValue, value)
+      ) {
+        // Back to the checked value: the cached result still holds
+        applyResult(name, state);
+        return;
+      }
+
+      cancel(name, state);
+      setValidating(name, state, true);
+      state.timer = setTimeout(
+        () => void run(name, state),
+        state.validator.debounceMs ?? DEFAULT_ASYNC_DEBOUNCE_MS
+      );
+    },
+
+    isValidating(name) {
+      return fields.get(name)?.validating ?? false;
+    },
+
+    async validate(names) {
+      const targets = (names ?? [...fields.keys()]).filter((name) =>
+        fields.has(name)
+      );
+
+      const results = await Promise.all(
+        targets.map(async (name) => {
+          const state = fields.get(name) as FieldAsyncState;
+          const value = getValue(name);
+
+          if (
+            state.pending &&
+            state.timer === undefined &&
+            Object.is(state.pendingValue, value)
+          ) {
+            await state.pending;
+          } else if (
+            state.timer !== undefined ||
+            !state.checked ||
+            !Object.is(state.checkedValue, value)
+          ) {
+            await run(name, state);
+          }
+
+          if (!state.checked) {
+            // Skipped (synchronous error) or failed (async failure message)
+            return getErrorType(name) === undefined;
+          }
+          applyResult(name, state);
+          return state.message === null;
+        })
+      );
+
+      return results.every(Boolean);
+    },
+
+    dispose() {
+      fields.forEach((state, name) => cancel(name, state));
+    },
+  };
+}
@@ -0,0 +1,190 @@
+import type { FieldValues } from 'react-hook-form';
+import type {
+  CrossFieldRule,
+  CrossFieldRuleContext,
+} from './crossFieldValidation.types';
+import type { WatchIndex } from '../reactions/reaction.types';
+import { ASYNC_ERROR_TYPE } from './createAsyncValidationRegistry';
+
+/**
+ * RHF error type of cross-field rule messages. Errors of other types are
+ * never overwritten nor cleared, except async validator errors.
+ */
+export const CROSS_FIELD_ERROR_TYPE = 'crossField';
+
+/**
+ * Cross-field validation interface.
+ * Evaluates the `crossFieldRules` of a form.
+ */
+export interface CrossFieldValidation {
+  /**
+   * Re-evaluate the rules watching a field, and re-apply the errors
+   * targeting it (RHF clears them when it revalidates the field).
+   *
+   * @param fieldName - Name of field that changed
+   */
+  evaluateForField(fieldName: string): void;
+
+  /**
+   * Evaluate every rule targeting the given fields (the submit path).
+   *
+   * @param names - Target fields; all rules if omitted
+   * @returns True when none of those rules fails
+   */
+  validate(names?: string[]): boolean;
+}
+
+/**
+ * Create the cross-field validation of a form.
+ *
+ * Rules are indexed by watched field (O(1) lookup per change, like the
+ * reaction registry). Duplicate rule IDs throw.
+ *
+ * @param config - Rules and injected form accessors
+ * @returns Cross-field validation instance
+ * @throws Error if duplicate rule IDs detected
+ */
+export function createCrossFieldValidation<
+  TFieldValues extends FieldValues = FieldValues
+>(config: {
+  debug?: boolean;
+  rules: CrossFieldRule<TFieldValues>[];
+  getValue: (name: string) => unknown;
+  /** Current RHF error type of a field, undefined when valid. */
+  getErrorType: (name: string) => string | undefined;
+  setError: (name: string, message: string) => void;
+  clearError: (name: string) => void;
+}): CrossFieldValidation {
+  const {
+    debug = false,
+    rules,
+    getValue,
+    getErrorType,
+    setError,
+    clearError,
+  } = config;
+
+  const ids = new Set<string>();
+  for (const rule of rules) {
+    if (ids.has(rule.id)) {
+      throw new Error(
+        `[CrossFieldValidation] Duplicate rule ID detected: "${rule.id}". ` +
+          `Each cross-field rule must have a unique ID.`
+      );
+    }
+    ids.add(rule.id);
+  }
+
+  const targetsOf = (rule: CrossFieldRule<TFieldValues>): string[] =>
+    Array.isArray(rule.target) ? rule.target : [rule.target];
+
+  // Build watch index (field → rule IDs) and target index (field → rules,
+  // in declaration order)
+  const ruleById = new Map(rules.map((rule) => [rule.id, rule]));
+  const watchIndex: WatchIndex = new Map();
+  const rulesByTarget = new Map<string, CrossFieldRule<TFieldValues>[]>();
+  for (const rule of rules) {
+    for (const fieldName of rule.watch) {
+      const watching = watchIndex.get(fieldName) ?? new Set<string>();
+      watching.add(rule.id);
+      watchIndex.set(fieldName, watching);
+    }
+    for (const target of targetsOf(rule)) {
+      rulesByTarget.set(target, [...(rulesByTarget.get(target) ?? []), rule]);
+    }
+  }
+
+  /** Last result per rule ID (true = failing). Unevaluated rules pass. */
+  const failing = new Map<string, boolean>();
+
+  const ctx: CrossFieldRuleContext = {
+    getValue: <T = unknown>(name: string): T => getValue(name) as T,
+  };
+
+  function evaluate(rule: CrossFieldRule<TFieldValues>) {
+    let valid: boolean;
+    try {
+      valid = rule.validate(ctx);
+    } catch (error) {
+      if (process.env.NODE_ENV !== 'production') {
+        console.error('[CrossFieldValidation] Rule failed', {
+          id: rule.id,
+          error,
+        });
+      }
+      // Don't rethrow - a broken rule should not crash the form, nor let
+      // the values it guards through
+      valid = false;
+    }
+    failing.set(rule.id, !valid);
+
+    if (debug) {
+      console.log('[CrossFieldValidation] Evaluated rule', {
+        id: rule.id,
+        valid,
+      });
+    }
+  }
+
+  /**
+   * Writes the message of the first failing rule targeting the field,
+   * over an async validator error.
+   * @returns True when no rule targeting the field fails
+   */
+  function applyTarget(target: string): boolean {
+    const rule = rulesByTarget
+      .get(target)
+      ?.find((candidate) => failing.get(candidate.id));
+    const errorType = getErrorType(target);
+
+    if (
+      errorType === undefined ||
+      errorType === CROSS_FIELD_ERROR_TYPE ||
+      (rule && errorType === ASYNC_ERROR_TYPE)
+    ) {
+      if (rule) {
+        setError(target, rule.message);
+      } else if (errorType === CROSS_FIELD_ERROR_TYPE) {
+        clearError(target);
+      }
+    }
+
+    return !rule;
+  }
+
+  return {
+    evaluateForField(fieldName: string): void {
+      const targets = new Set<string>();
+
+      for (const id of watchIndex.get(fieldName) ?? []) {
+        const rule = ruleById.get(id);
+        if (!rule) continue;
+        evaluate(rule);
+        targetsOf(rule).forEach((target) => targets.add(target));
+      }
+
+      if (rulesByTarget.has(fieldName)) {
+        targets.add(fieldName);
+      }
+
+      targets.forEach(applyTarget);
+    },
+
+    validate(names?: string[]): boolean {
+      const targets = (names ?? [...rulesByTarget.keys()]).filter((name) =>
+        rulesByTarget.has(name)
+      );
+
+      const evaluated = new Set<string>();
+      for (const target of targets) {
+        for (const rule of rulesByTarget.get(target) ?? []) {
+          if (evaluated.has(rule.id)) continue;
+          evaluated.add(rule.id);
+          evaluate(rule);
+        }
+      }
+
+      return targets.map(applyTarget).every(Boolean);
+    },
+  };
+}
@@ -0,0 +1,82 @@
+import type { FieldPath, FieldValues } from 'react-hook-form';
+
+/**
+ * Context passed to a cross-field rule predicate.
+ * Read-only access to form values.
+ */
+export interface CrossFieldRuleContext {
+  /**
+   * Get current value of a field.
+   *
+   * @param name - Field name
+   * @returns Current value (unknown type, consumer must cast)
+   */
+  getValue: <T = unknown>(name: string) => T;
+}
+
+/**
+ * Cross-field validation rule (`crossFieldRules` on DashForm /
+ * DashFormProvider).
+ *
+ * EVALUATION SEMANTICS:
+ * - Re-evaluated when one of its `watch` fields changes (like reactions),
+ *   and for every rule on submit / `bridge.trigger()`
+ * - A failing rule sets `message` as the error of each `target` field
+ *   (type `crossField`), read through `bridge.getError()` like any error.
+ *   A rule that throws counts as failing
+ * - On a target, errors from field rules, resolvers or the server take
+ *   precedence; a rule error replaces an async validator error (which is
+ *   restored once the rules pass); among rules, the first declared wins
+ *
+ * @template TFieldValues - Form field values type
+ *
+ * @example
+ * ```ts
+ * const rules: CrossFieldRule<Booking>[] = [
+ *   {
+ *     id: 'dates-order',
+ *     watch: ['startDate', 'endDate'],
+ *     validate: (ctx) =>
+ *       !ctx.getValue('startDate') ||
+ *       !ctx.getValue('endDate') ||
+ *       ctx.getValue<string>('endDate') > ctx.getValue<string>('startDate'),
+ *     target: 'endDate',
+ *     message: 'End date must be after start date',
+ *   },
+ * ];
+ * ```
+ */
+export interface CrossFieldRule<
+  TFieldValues extends FieldValues = FieldValues
+> {
+  /**
+   * Unique identifier for this rule.
+   * Must be unique within the form.
+   */
+  id: string;
+
+  /**
+   * Field names whose changes re-evaluate the rule.
+   *
+   * @example ['password', 'confirmPassword']
+   */
+  watch: FieldPath<TFieldValues>[];
+
+  /**
+   * Predicate over the form values.
+   *
+   * @param ctx - Context with getValue
+   * @returns True when the values are valid
+   */
+  validate: (ctx: CrossFieldRuleContext) => boolean;
+
+  /**
+   * Field(s) that receive the error message.
+   */
+  target: FieldPath<TFieldValues> | FieldPath<TFieldValues>[];
+
+  /**
+   * Error message set on the target fields.
+   */
+  message: string;
+}
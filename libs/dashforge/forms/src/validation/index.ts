@@ -0,0 +1,4 @@
+export * from './asyncValidation.types';
+export * from './createAsyncValidationRegistry';
+export * from './crossFieldValidation.types';
+export * from './createCrossFieldValidation';
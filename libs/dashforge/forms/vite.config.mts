@@ -11,6 +11,7 @@ export default defineConfig(() => ({
       // refactor (subscribeField in DashFormBridge, etc.) without needing
       // to rebuild dist + reinstall on every change.
       '@dashforge/ui-core': resolve(__dirname, '../ui-core/src/index.ts'),
+      '@dashforge/rbac': resolve(__dirname, '../rbac/src/index.ts'),
     },
   },
   // Uncomment this if you are using workers.
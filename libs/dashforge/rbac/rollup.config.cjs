@@ -12,6 +12,8 @@ const flatDtsPlugin = () => ({
 module.exports = withNx(
   {
     main: './src/index.ts',
+    // React-free entry point (`@dashforge/rbac/core`) for server code
+    additionalEntryPoints: ['./src/core.ts'],
     outputPath: './dist',
     tsConfig: './tsconfig.lib.json',
     compiler: 'babel',
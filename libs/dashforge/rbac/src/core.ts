@@ -0,0 +1,106 @@
+/**
+ * @dashforge/rbac/core - React-free entry point
+ *
+ * The engine, policy tools and types without the React and Dashforge
+ * layers, for servers and workers (`import ... from '@dashforge/rbac/core'`).
+ * Everything here is also exported by the root entry point.
+ *
+ * @packageDocumentation
+ */
+
+export { RbacEngine, createRbacEngine } from './core/rbac-engine';
+export type { RbacEngineOptions } from './core/rbac-engine';
+
+export {
+  matchPattern,
+  validatePattern,
+  compareSpecificity,
+  patternCovers,
+} from './core/pattern-matcher';
+
+export { analyzePolicy, diffPolicies } from './core/policy-analysis';
+
+export {
+  buildRoleGraph,
+  formatPermission,
+  roleGraphToJson,
+  roleGraphToDot,
+  roleGraphToMermaid,
+} from './core/role-graph';
+
+export { getAssignedRoles, withScope } from './core/scope-resolver';
+
+export { createAuditBatcher } from './core/audit';
+export type { AuditBatcher, AuditBatcherOptions } from './core/audit';
+
+export {
+  evaluateExpression,
+  validateConditionExpression,
+} from './core/condition-expression';
+
+export {
+  RbacError,
+  CircularRoleError,
+  InvalidPermissionError,
+  ConditionEvaluationError,
+  PolicyDocumentError,
+} from './core/errors';
+
+export {
+  parsePolicy,
+  loadPolicy,
+  POLICY_DOCUMENT_VERSION,
+} from './core/policy-document';
+export type {
+  PolicyDocument,
+  PolicyParseResult,
+  LoadPolicyOptions,
+} from './core/policy-document';
+
+export type {
+  Subject,
+  ScopedRoleAssignment,
+  Timestamp,
+  Validity,
+  ValidityStatus,
+  Permission,
+  PermissionEffect,
+  PrecedenceRule,
+  Role,
+  RbacPolicy,
+  AccessRequest,
+  AccessDecision,
+  ConditionContext,
+  ConditionFunction,
+  ConditionExpression,
+  ComparisonExpression,
+  ComparisonOperator,
+  LogicalExpression,
+  NotExpression,
+  OwnerExpression,
+  SameAttributeExpression,
+  RelationExpression,
+  ConditionOperand,
+  ConditionLiteral,
+  ConditionOutcome,
+  PolicyIssue,
+  ResolvedRole,
+  PermissionTrace,
+  AccessTrace,
+  IntrospectionOptions,
+  PermittedSet,
+  AuditEvent,
+  AuditSink,
+  AuditOptions,
+  PolicyFindingKind,
+  PermissionRef,
+  PolicyFinding,
+  PolicyAnalysisOptions,
+  AccessLevel,
+  PolicyChange,
+  PolicyDiff,
+  PolicyDiffOptions,
+  RoleGraph,
+  RoleGraphNode,
+  RoleGraphEdge,
+} from './core/types';
@@ -0,0 +1,107 @@
+/**
+ * Audit Tests
+ */
+
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest';
+import { createAuditBatcher, shouldAudit } from '../audit';
+import type { AuditEvent } from '../types';
+
+function auditEvent(resource: string, granted = false): AuditEvent {
+  return {
+    subjectId: 'user-1',
+    request: { action: 'read', resource },
+    granted,
+    timestamp: 0,
+  };
+}
+
+describe('shouldAudit', () => {
+  it('should audit every event by default', () => {
+    expect(shouldAudit({ sink: vi.fn() }, auditEvent('booking'))).toBe(true);
+  });
+
+  it('should match resources as glob patterns', () => {
+    const options = { sink: vi.fn(), resources: ['billing/**', 'payroll'] };
+
+    expect(shouldAudit(options, auditEvent('billing/invoices/1'))).toBe(true);
+    expect(shouldAudit(options, auditEvent('payroll'))).toBe(true);
+    expect(shouldAudit(options, auditEvent('booking'))).toBe(false);
+  });
+
+  it('should apply the filter', () => {
+    const options = { sink: vi.fn(), filter: (e: AuditEvent) => !e.granted };
+
+    expect(shouldAudit(options, auditEvent('booking', false))).toBe(true);
+    expect(shouldAudit(options, auditEvent('booking', true))).toBe(false);
+  });
+
+  it('should drop every event with a sample rate of 0', () => {
+    expect(
+      shouldAudit({ sink: vi.fn(), sampleRate: 0 }, auditEvent('booking'))
+    ).toBe(false);
+  });
+});
+
+describe('createAuditBatcher', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should send a batch when maxBatchSize events are queued', () => {
+    const send = vi.fn();
+    const { sink } = createAuditBatcher({ send, maxBatchSize: 2 });
+
+    sink(auditEvent('a'));
+    expect(send).not.toHaveBeenCalled();
+
+    sink(auditEvent('b'));
+    expect(send).toHaveBeenCalledWith([auditEvent('a'), auditEvent('b')]);
+  });
+
+  it('should send queued events after flushInterval', () => {
+    const send = vi.fn();
+    const { sink } = createAuditBatcher({ send, flushInterval: 1000 });
+
+    sink(auditEvent('a'));
+    vi.advanceTimersByTime(999);
+    expect(send).not.toHaveBeenCalled();
+
+    sink(auditEvent('b'));
+    vi.advanceTimersByTime(1);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith([auditEvent('a'), auditEvent('b')]);
+  });
+
+  it('should send on flush() and skip empty batches', async () => {
+    const send = vi.fn();
+    const { sink, flush } = createAuditBatcher({ send });
+
+    await flush();
+    expect(send).not.toHaveBeenCalled();
+
+    sink(auditEvent('a'));
+    await flush();
+    expect(send).toHaveBeenCalledWith([auditEvent('a')]);
+
+    vi.runAllTimers();
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report failed batches to onError', async () => {
+    const error = new Error('offline');
+    const onError = vi.fn();
+    const { sink, flush } = createAuditBatcher({
+      send: () => Promise.reject(error),
+      onError,
+    });
+
+    sink(auditEvent('a'));
+    await flush();
+
+    expect(onError).toHaveBeenCalledWith(error, [auditEvent('a')]);
+  });
+});
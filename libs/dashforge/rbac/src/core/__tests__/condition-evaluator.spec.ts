@@ -5,7 +5,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { evaluateConditions } from '../condition-evaluator';
+import { evaluateConditions, evaluateCondition } from '../condition-evaluator';
 import type { Permission, Subject, AccessRequest } from '../types';
 
 describe('evaluateConditions', () => {
@@ -285,6 +285,60 @@ describe('evaluateConditions', () => {
     });
   });
 
+  describe('condition expressions', () => {
+    it('should keep permission when expression holds', () => {
+      const permissions: Permission[] = [
+        {
+          action: 'read',
+          resource: 'booking',
+          condition: {
+            op: 'eq',
+            left: { ref: 'subject.id' },
+            right: { ref: 'resourceData.ownerId' },
+          },
+        },
+      ];
+
+      const result = evaluateConditions(permissions, subject, request);
+      expect(result).toHaveLength(1);
+    });
+
+    it('should discard permission when expression does not hold', () => {
+      const permissions: Permission[] = [
+        {
+          action: 'read',
+          resource: 'booking',
+          condition: {
+            op: 'eq',
+            left: { ref: 'subject.attributes.department' },
+            right: { value: 'sales' },
+          },
+        },
+      ];
+
+      const result = evaluateConditions(permissions, subject, request);
+      expect(result).toHaveLength(0);
+    });
+
+    it('should evaluate expressions next to function conditions', () => {
+      const permissions: Permission[] = [
+        { action: 'read', resource: 'booking', condition: () => true },
+        {
+          action: 'write',
+          resource: 'booking',
+          condition: {
+            op: 'in',
+            left: { ref: 'environment.time' },
+            right: { value: ['09:00', '10:00'] },
+          },
+        },
+      ];
+
+      const result = evaluateConditions(permissions, subject, request);
+      expect(result).toHaveLength(2);
+    });
+  });
+
   describe('context without optional fields', () => {
     it('should handle missing resourceData', () => {
       const permissions: Permission[] = [
@@ -323,3 +377,53 @@ describe('evaluateConditions', () => {
     });
   });
 });
+
+describe('evaluateCondition', () => {
+  const subject: Subject = { id: 'user-1', roles: ['user'] };
+  const request: AccessRequest = { action: 'read', resource: 'booking' };
+
+  it('should report none when permission has no condition', () => {
+    const permission: Permission = { action: 'read', resource: 'booking' };
+    expect(evaluateCondition(permission, subject, request)).toEqual({
+      outcome: 'none',
+    });
+  });
+
+  it('should report passed when condition returns true', () => {
+    const permission: Permission = {
+      action: 'read',
+      resource: 'booking',
+      condition: () => true,
+    };
+    expect(evaluateCondition(permission, subject, request).outcome).toBe(
+      'passed'
+    );
+  });
+
+  it('should report failed when condition returns non-true', () => {
+    const permission = {
+      action: 'read',
+      resource: 'booking',
+      condition: () => 'yes' as unknown as boolean,
+    };
+    expect(evaluateCondition(permission, subject, request).outcome).toBe(
+      'failed'
+    );
+  });
+
+  it('should report threw with the error when condition throws', () => {
+    const error = new Error('boom');
+    const permission: Permission = {
+      action: 'read',
+      resource: 'booking',
+      condition: () => {
+        throw error;
+      },
+    };
+
+    expect(evaluateCondition(permission, subject, request)).toEqual({
+      outcome: 'threw',
+      error,
+    });
+  });
+});
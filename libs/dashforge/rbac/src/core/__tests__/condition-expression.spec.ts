@@ -0,0 +1,491 @@
+/**
+ * Condition Expression Tests
+ *
+ * Tests for the JSON-serializable condition language.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateExpression,
+  validateConditionExpression,
+  isConditionExpression,
+} from '../condition-expression';
+import type { ConditionContext, ConditionExpression } from '../types';
+
+describe('evaluateExpression', () => {
+  const context: ConditionContext = {
+    subject: {
+      id: 'user-1',
+      roles: ['user'],
+      attributes: { department: 'finance', level: 3 },
+    },
+    resourceData: { ownerId: 'user-1', amount: 500, tags: ['draft'] },
+    environment: { region: 'eu' },
+  };
+
+  describe('eq / ne', () => {
+    it('should compare two refs', () => {
+      const expression: ConditionExpression = {
+        op: 'eq',
+        left: { ref: 'subject.id' },
+        right: { ref: 'resourceData.ownerId' },
+      };
+
+      expect(evaluateExpression(expression, context)).toBe(true);
+    });
+
+    it('should compare a ref with a literal', () => {
+      expect(
+        evaluateExpression(
+          {
+            op: 'eq',
+            left: { ref: 'subject.attributes.department' },
+            right: { value: 'sales' },
+          },
+          context
+        )
+      ).toBe(false);
+      expect(
+        evaluateExpression(
+          {
+            op: 'ne',
+            left: { ref: 'environment.region' },
+            right: { value: 'us' },
+          },
+          context
+        )
+      ).toBe(true);
+    });
+  });
+
+  describe('ordered comparisons', () => {
+    it('should compare numbers', () => {
+      const base = {
+        left: { ref: 'resourceData.amount' },
+        right: { value: 500 },
+      };
+
+      expect(evaluateExpression({ op: 'gt', ...base }, context)).toBe(false);
+      expect(evaluateExpression({ op: 'gte', ...base }, context)).toBe(true);
+      expect(evaluateExpression({ op: 'lt', ...base }, context)).toBe(false);
+      expect(evaluateExpression({ op: 'lte', ...base }, context)).toBe(true);
+    });
+
+    it('should be false for mismatched types', () => {
+      expect(
+        evaluateExpression(
+          {
+            op: 'gt',
+            left: { ref: 'resourceData.amount' },
+            right: { value: '100' },
+          },
+          context
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('in', () => {
+    it('should check membership in a literal array', () => {
+      expect(
+        evaluateExpression(
+          {
+            op: 'in',
+            left: { ref: 'environment.region' },
+            right: { value: ['eu', 'uk'] },
+          },
+          context
+        )
+      ).toBe(true);
+    });
+
+    it('should check membership in a ref array', () => {
+      expect(
+        evaluateExpression(
+          {
+            op: 'in',
+            left: { value: 'draft' },
+            right: { ref: 'resourceData.tags' },
+          },
+          context
+        )
+      ).toBe(true);
+    });
+
+    it('should be false when right is not an array', () => {
+      expect(
+        evaluateExpression(
+          {
+            op: 'in',
+            left: { value: 'eu' },
+            right: { ref: 'environment.region' },
+          },
+          context
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('logical operators', () => {
+    const isOwner: ConditionExpression = {
+      op: 'eq',
+      left: { ref: 'subject.id' },
+      right: { ref: 'resourceData.ownerId' },
+    };
+    const isSales: ConditionExpression = {
+      op: 'eq',
+      left: { ref: 'subject.attributes.department' },
+      right: { value: 'sales' },
+    };
+
+    it('should evaluate and', () => {
+      expect(
+        evaluateExpression(
+          { op: 'and', conditions: [isOwner, isSales] },
+          context
+        )
+      ).toBe(false);
+      expect(evaluateExpression({ op: 'and', conditions: [] }, context)).toBe(
+        true
+      );
+    });
+
+    it('should evaluate or', () => {
+      expect(
+        evaluateExpression(
+          { op: 'or', conditions: [isOwner, isSales] },
+          context
+        )
+      ).toBe(true);
+      expect(evaluateExpression({ op: 'or', conditions: [] }, context)).toBe(
+        false
+      );
+    });
+
+    it('should evaluate not', () => {
+      expect(
+        evaluateExpression({ op: 'not', condition: isSales }, context)
+      ).toBe(true);
+    });
+  });
+
+  describe('relations', () => {
+    it('should check ownership against resourceData.ownerId by default', () => {
+      expect(evaluateExpression({ op: 'owner' }, context)).toBe(true);
+      expect(
+        evaluateExpression(
+          { op: 'owner' },
+          { ...context, resourceData: { ownerId: 'user-2' } }
+        )
+      ).toBe(false);
+    });
+
+    it('should read the owner from a field path', () => {
+      expect(
+        evaluateExpression(
+          { op: 'owner', field: 'author.id' },
+          { ...context, resourceData: { author: { id: 'user-1' } } }
+        )
+      ).toBe(true);
+    });
+
+    it('should compare a subject attribute with the same resource field', () => {
+      const sameDepartment: ConditionExpression = {
+        op: 'same',
+        attribute: 'department',
+      };
+
+      expect(
+        evaluateExpression(sameDepartment, {
+          ...context,
+          resourceData: { department: 'finance' },
+        })
+      ).toBe(true);
+      expect(
+        evaluateExpression(sameDepartment, {
+          ...context,
+          resourceData: { department: 'sales' },
+        })
+      ).toBe(false);
+    });
+
+    it('should compare with another resource field', () => {
+      expect(
+        evaluateExpression(
+          { op: 'same', attribute: 'tenant.id', field: 'tenantId' },
+          {
+            subject: {
+              id: 'u',
+              roles: [],
+              attributes: { tenant: { id: 't1' } },
+            },
+            resourceData: { tenantId: 't1' },
+          }
+        )
+      ).toBe(true);
+    });
+
+    it('should match arrays sharing an element', () => {
+      const subject = {
+        id: 'user-1',
+        roles: [],
+        attributes: { teamIds: ['a', 'b'] },
+      };
+
+      expect(
+        evaluateExpression(
+          { op: 'same', attribute: 'teamIds', field: 'teamId' },
+          { subject, resourceData: { teamId: 'b' } }
+        )
+      ).toBe(true);
+      expect(
+        evaluateExpression(
+          { op: 'owner', field: 'ownerIds' },
+          { subject, resourceData: { ownerIds: ['user-2', 'user-1'] } }
+        )
+      ).toBe(true);
+      expect(
+        evaluateExpression(
+          { op: 'same', attribute: 'teamIds', field: 'teamId' },
+          { subject, resourceData: { teamId: 'c' } }
+        )
+      ).toBe(false);
+    });
+
+    it('should be false when either side is missing or null', () => {
+      expect(
+        evaluateExpression({ op: 'owner' }, { subject: context.subject })
+      ).toBe(false);
+      expect(
+        evaluateExpression(
+          { op: 'same', attribute: 'teamId' },
+          {
+            subject: { id: 'u', roles: [], attributes: { teamId: null } },
+            resourceData: { teamId: null },
+          }
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('fail-safe', () => {
+    it('should be false when a path is missing', () => {
+      expect(
+        evaluateExpression(
+          {
+            op: 'eq',
+            left: { ref: 'resourceData.teamId' },
+            right: { ref: 'subject.attributes.teamId' },
+          },
+          context
+        )
+      ).toBe(false);
+    });
+
+    it('should be false when resourceData is absent', () => {
+      expect(
+        evaluateExpression(
+          {
+            op: 'eq',
+            left: { ref: 'resourceData.ownerId' },
+            right: { value: 'user-1' },
+          },
+          { subject: context.subject }
+        )
+      ).toBe(false);
+    });
+
+    it('should not resolve inherited properties', () => {
+      expect(
+        evaluateExpression(
+          {
+            op: 'ne',
+            left: { ref: 'resourceData.constructor' },
+            right: { value: null },
+          },
+          context
+        )
+      ).toBe(false);
+    });
+
+    describe('unknown propagation', () => {
+      const isLocked: ConditionExpression = {
+        op: 'eq',
+        left: { ref: 'resourceData.locked' },
+        right: { value: true },
+      };
+      const isOwner: ConditionExpression = {
+        op: 'eq',
+        left: { ref: 'subject.id' },
+        right: { ref: 'resourceData.ownerId' },
+      };
+
+      it('should not hold for not over a missing path', () => {
+        expect(
+          evaluateExpression({ op: 'not', condition: isLocked }, context)
+        ).toBe(false);
+        expect(
+          evaluateExpression(
+            { op: 'not', condition: { op: 'owner', field: 'createdBy' } },
+            context
+          )
+        ).toBe(false);
+      });
+
+      it('should not hold for not over a type mismatch', () => {
+        expect(
+          evaluateExpression(
+            {
+              op: 'not',
+              condition: {
+                op: 'gt',
+                left: { ref: 'resourceData.amount' },
+                right: { value: 'high' },
+              },
+            },
+            context
+          )
+        ).toBe(false);
+      });
+
+      it('should keep unknown through and / or unless decided', () => {
+        const notAnd: ConditionExpression = {
+          op: 'not',
+          condition: { op: 'and', conditions: [isOwner, isLocked] },
+        };
+        const notOr: ConditionExpression = {
+          op: 'not',
+          condition: { op: 'or', conditions: [isOwner, isLocked] },
+        };
+
+        // true and unknown = unknown
+        expect(evaluateExpression(notAnd, context)).toBe(false);
+        // true or unknown = true
+        expect(evaluateExpression(notOr, context)).toBe(false);
+        expect(
+          evaluateExpression(
+            { op: 'or', conditions: [isOwner, isLocked] },
+            context
+          )
+        ).toBe(true);
+        // false and unknown = false, so its negation holds
+        expect(
+          evaluateExpression(
+            {
+              op: 'not',
+              condition: {
+                op: 'and',
+                conditions: [{ op: 'not', condition: isOwner }, isLocked],
+              },
+            },
+            context
+          )
+        ).toBe(true);
+      });
+
+      it('should hold for not when the path is present', () => {
+        expect(
+          evaluateExpression(
+            { op: 'not', condition: isLocked },
+            { ...context, resourceData: { locked: false } }
+          )
+        ).toBe(true);
+      });
+    });
+  });
+});
+
+describe('validateConditionExpression', () => {
+  it('should accept a valid nested expression', () => {
+    const expression: ConditionExpression = {
+      op: 'and',
+      conditions: [
+        {
+          op: 'eq',
+          left: { ref: 'subject.id' },
+          right: { ref: 'resourceData.ownerId' },
+        },
+        {
+          op: 'not',
+          condition: {
+            op: 'in',
+            left: { ref: 'environment.region' },
+            right: { value: ['cn', null] },
+          },
+        },
+      ],
+    };
+
+    expect(validateConditionExpression(expression)).toEqual([]);
+  });
+
+  it('should report unknown operators with a path', () => {
+    expect(
+      validateConditionExpression({
+        op: 'or',
+        conditions: [{ op: 'like', left: {}, right: {} }],
+      })
+    ).toEqual([
+      {
+        path: 'condition.conditions[0].op',
+        message: 'unknown operator "like"',
+      },
+    ]);
+  });
+
+  it('should report every invalid operand', () => {
+    const issues = validateConditionExpression({
+      op: 'eq',
+      left: { ref: 'user.id' },
+      right: { value: { nested: true } },
+    });
+
+    expect(issues.map((i) => i.path)).toEqual([
+      'condition.left.ref',
+      'condition.right.value',
+    ]);
+  });
+
+  it('should validate relation paths', () => {
+    expect(
+      validateConditionExpression({
+        op: 'and',
+        conditions: [
+          { op: 'owner' },
+          { op: 'owner', field: 'author..id' },
+          { op: 'same', attribute: 'teamId', field: 'team.id' },
+          { op: 'same' },
+        ],
+      })
+    ).toEqual([
+      {
+        path: 'condition.conditions[1].field',
+        message: 'must be a dotted path string',
+      },
+      {
+        path: 'condition.conditions[3].attribute',
+        message: 'must be a dotted path string',
+      },
+    ]);
+  });
+
+  it('should report non-array conditions', () => {
+    expect(validateConditionExpression({ op: 'and' })).toEqual([
+      { path: 'condition.conditions', message: 'must be an array' },
+    ]);
+  });
+
+  it('should report non-object expressions', () => {
+    expect(validateConditionExpression('eq', 'root')).toEqual([
+      { path: 'root', message: 'must be an object with an "op" string' },
+    ]);
+  });
+});
+
+describe('isConditionExpression', () => {
+  it('should distinguish expressions from functions', () => {
+    expect(isConditionExpression({ op: 'and', conditions: [] })).toBe(true);
+    expect(isConditionExpression(() => true)).toBe(false);
+    expect(isConditionExpression(null)).toBe(false);
+  });
+});
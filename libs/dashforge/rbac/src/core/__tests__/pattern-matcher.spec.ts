@@ -0,0 +1,166 @@
+/**
+ * Pattern Matcher Tests
+ *
+ * Tests for glob-style action/resource patterns and specificity ordering.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  matchPattern,
+  validatePattern,
+  compareSpecificity,
+  isPattern,
+  patternCovers,
+} from '../pattern-matcher';
+
+describe('matchPattern', () => {
+  describe('literal values', () => {
+    it('should match identical values', () => {
+      expect(matchPattern('booking', 'booking')).toBe(true);
+    });
+
+    it('should not match different values', () => {
+      expect(matchPattern('booking', 'bookings')).toBe(false);
+    });
+
+    it('should treat regex characters literally', () => {
+      expect(matchPattern('a+b', 'a+b')).toBe(true);
+      expect(matchPattern('a+b', 'aab')).toBe(false);
+    });
+  });
+
+  describe('bare wildcard', () => {
+    it('should match any value, including multi-segment values', () => {
+      expect(matchPattern('*', 'booking')).toBe(true);
+      expect(matchPattern('*', 'billing/plans/pro')).toBe(true);
+    });
+  });
+
+  describe('segment wildcard', () => {
+    it('should match exactly one segment', () => {
+      expect(matchPattern('invoices:*', 'invoices:42')).toBe(true);
+      expect(matchPattern('invoices:*', 'invoices:42:lines')).toBe(false);
+      expect(matchPattern('invoices:*', 'invoices')).toBe(false);
+    });
+
+    it('should match a segment in the middle', () => {
+      expect(matchPattern('reports.*.q1', 'reports.finance.q1')).toBe(true);
+      expect(matchPattern('reports.*.q1', 'reports.finance.q2')).toBe(false);
+    });
+
+    it('should require separators to match literally', () => {
+      expect(matchPattern('reports.*', 'reports.finance')).toBe(true);
+      expect(matchPattern('reports.*', 'reports/finance')).toBe(false);
+    });
+  });
+
+  describe('globstar', () => {
+    it('should match zero or more trailing segments', () => {
+      expect(matchPattern('billing/**', 'billing')).toBe(true);
+      expect(matchPattern('billing/**', 'billing/plans')).toBe(true);
+      expect(matchPattern('billing/**', 'billing/plans/pro')).toBe(true);
+      expect(matchPattern('billing/**', 'billingx')).toBe(false);
+    });
+
+    it('should match zero or more middle segments', () => {
+      expect(matchPattern('org/**/settings', 'org/settings')).toBe(true);
+      expect(matchPattern('org/**/settings', 'org/a/b/settings')).toBe(true);
+      expect(matchPattern('org/**/settings', 'org/a/b')).toBe(false);
+    });
+
+    it('should match zero or more leading segments', () => {
+      expect(matchPattern('**:audit', 'audit')).toBe(true);
+      expect(matchPattern('**:audit', 'tenant:1:audit')).toBe(true);
+    });
+  });
+
+  describe('request side', () => {
+    it('should NOT treat request wildcards as patterns', () => {
+      expect(matchPattern('invoices:42', 'invoices:*')).toBe(false);
+    });
+  });
+});
+
+describe('validatePattern', () => {
+  it('should accept literals and valid patterns', () => {
+    expect(validatePattern('booking')).toBeNull();
+    expect(validatePattern('*')).toBeNull();
+    expect(validatePattern('invoices:*')).toBeNull();
+    expect(validatePattern('billing/**')).toBeNull();
+    expect(validatePattern('org/**/settings')).toBeNull();
+  });
+
+  it('should reject partial-segment wildcards', () => {
+    expect(validatePattern('invoice*')).toMatch(/mixes "\*"/);
+    expect(validatePattern('reports.fin*')).toMatch(/mixes "\*"/);
+  });
+
+  it('should reject empty segments', () => {
+    expect(validatePattern('invoices::*')).toMatch(/empty segment/);
+    expect(validatePattern('billing/**/')).toMatch(/empty segment/);
+  });
+});
+
+describe('isPattern', () => {
+  it('should detect wildcard segments', () => {
+    expect(isPattern('invoices:*')).toBe(true);
+    expect(isPattern('invoices')).toBe(false);
+  });
+});
+
+describe('compareSpecificity', () => {
+  it('should rank literals above patterns', () => {
+    expect(compareSpecificity('invoices:42', 'invoices:*')).toBeLessThan(0);
+  });
+
+  it('should rank more literal segments higher', () => {
+    expect(compareSpecificity('reports.finance.*', 'reports.*.*')).toBeLessThan(
+      0
+    );
+  });
+
+  it('should rank single wildcards above globstars', () => {
+    expect(compareSpecificity('billing/*', 'billing/**')).toBeLessThan(0);
+  });
+
+  it('should rank the bare wildcard lowest', () => {
+    expect(compareSpecificity('**', '*')).toBeLessThan(0);
+    expect(compareSpecificity('*', 'billing/**')).toBeGreaterThan(0);
+  });
+
+  it('should return 0 for equally specific patterns', () => {
+    expect(compareSpecificity('invoices:*', 'reports:*')).toBe(0);
+    expect(compareSpecificity('*', '*')).toBe(0);
+  });
+});
+
+describe('patternCovers', () => {
+  it('should cover literals the pattern matches', () => {
+    expect(patternCovers('*', 'booking')).toBe(true);
+    expect(patternCovers('invoices:*', 'invoices:42')).toBe(true);
+    expect(patternCovers('invoices:*', 'invoices')).toBe(false);
+    expect(patternCovers('booking', 'booking')).toBe(true);
+  });
+
+  it('should cover narrower patterns segment by segment', () => {
+    expect(patternCovers('reports.*.*', 'reports.*.q1')).toBe(true);
+    expect(patternCovers('reports.*.q1', 'reports.*.*')).toBe(false);
+    expect(patternCovers('invoices:*', 'invoices:**')).toBe(false);
+  });
+
+  it('should let a trailing globstar absorb any remainder', () => {
+    expect(patternCovers('billing/**', 'billing/plans/*')).toBe(true);
+    expect(patternCovers('billing/**', 'billing/**')).toBe(true);
+    expect(patternCovers('billing/**', 'billing.*')).toBe(false);
+    expect(patternCovers('**', 'reports.*')).toBe(true);
+  });
+
+  it('should require separators to match', () => {
+    expect(patternCovers('reports.*', 'reports/*')).toBe(false);
+  });
+
+  it('should only be covered by the bare wildcard when bare', () => {
+    expect(patternCovers('*', '*')).toBe(true);
+    expect(patternCovers('reports.*', '*')).toBe(false);
+  });
+});
@@ -6,7 +6,11 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { matchPermissions, applyPrecedence } from '../permission-evaluator';
+import {
+  matchPermissions,
+  applyPrecedence,
+  resolvePrecedence,
+} from '../permission-evaluator';
 import type { Permission, AccessRequest } from '../types';
 
 describe('matchPermissions', () => {
@@ -174,6 +178,77 @@ describe('matchPermissions', () => {
     });
   });
 
+  describe('glob patterns on permission', () => {
+    it('should match namespace prefix patterns', () => {
+      const permissions: Permission[] = [
+        { action: 'read', resource: 'invoices:*' },
+      ];
+
+      expect(
+        matchPermissions(permissions, {
+          action: 'read',
+          resource: 'invoices:42',
+        })
+      ).toHaveLength(1);
+      expect(
+        matchPermissions(permissions, { action: 'read', resource: 'invoices' })
+      ).toHaveLength(0);
+    });
+
+    it('should match globstar patterns at any depth', () => {
+      const permissions: Permission[] = [
+        { action: 'read', resource: 'billing/**' },
+      ];
+
+      expect(
+        matchPermissions(permissions, {
+          action: 'read',
+          resource: 'billing/plans/pro',
+        })
+      ).toHaveLength(1);
+      expect(
+        matchPermissions(permissions, { action: 'read', resource: 'billing' })
+      ).toHaveLength(1);
+    });
+
+    it('should match action patterns', () => {
+      const permissions: Permission[] = [
+        { action: 'invoice:*', resource: 'booking' },
+      ];
+
+      expect(
+        matchPermissions(permissions, {
+          action: 'invoice:send',
+          resource: 'booking',
+        })
+      ).toHaveLength(1);
+      expect(
+        matchPermissions(permissions, { action: 'read', resource: 'booking' })
+      ).toHaveLength(0);
+    });
+
+    it('should order matches by specificity, resource before action', () => {
+      const permissions: Permission[] = [
+        { action: '*', resource: '*' },
+        { action: 'read', resource: 'reports.**' },
+        { action: '*', resource: 'reports.finance.q1' },
+        { action: 'read', resource: 'reports.finance.*' },
+      ];
+      const request: AccessRequest = {
+        action: 'read',
+        resource: 'reports.finance.q1',
+      };
+
+      const result = matchPermissions(permissions, request);
+      expect(result.map((p) => p.resource)).toEqual([
+        'reports.finance.q1',
+        'reports.finance.*',
+        'reports.**',
+        '*',
+      ]);
+    });
+  });
+
   describe('CRITICAL: request wildcards NOT supported', () => {
     it('should NOT treat request.action=* as wildcard', () => {
       const permissions: Permission[] = [
@@ -283,6 +358,59 @@ describe('applyPrecedence', () => {
     });
   });
 
+  describe('specificity does not affect precedence', () => {
+    it('should deny when a broad deny overlaps a specific allow', () => {
+      const permissions: Permission[] = [
+        { action: 'read', resource: 'invoices:42', effect: 'allow' },
+        { action: '*', resource: 'invoices:**', effect: 'deny' },
+      ];
+
+      const result = applyPrecedence(permissions);
+      expect(result).toBe(false);
+    });
+  });
+
+  describe("'most-specific' rule", () => {
+    it('should grant when a specific allow overlaps a broad deny', () => {
+      const permissions: Permission[] = [
+        { action: '*', resource: 'billing:*', effect: 'deny' },
+        { action: 'read', resource: 'billing:invoice', effect: 'allow' },
+      ];
+
+      expect(resolvePrecedence(permissions, 'most-specific')).toEqual({
+        granted: true,
+        decidedBy: permissions[1],
+      });
+    });
+
+    it('should deny when a specific deny overlaps a broad allow', () => {
+      const permissions: Permission[] = [
+        { action: 'read', resource: 'invoices:**', effect: 'allow' },
+        { action: 'read', resource: 'invoices:42', effect: 'deny' },
+      ];
+
+      expect(applyPrecedence(permissions, 'most-specific')).toBe(false);
+    });
+
+    it('should deny when an equally specific permission is deny', () => {
+      const permissions: Permission[] = [
+        { action: 'read', resource: 'booking', effect: 'allow' },
+        { action: 'read', resource: 'booking', effect: 'deny' },
+      ];
+
+      expect(applyPrecedence(permissions, 'most-specific')).toBe(false);
+    });
+
+    it('should compare resource specificity before action specificity', () => {
+      const permissions: Permission[] = [
+        { action: 'read', resource: 'invoices:*', effect: 'allow' },
+        { action: '*', resource: 'invoices:42', effect: 'deny' },
+      ];
+
+      expect(applyPrecedence(permissions, 'most-specific')).toBe(false);
+    });
+  });
+
   describe('mixed effects', () => {
     it('should deny when both allow and deny exist', () => {
       const permissions: Permission[] = [
@@ -305,3 +433,36 @@ describe('applyPrecedence', () => {
     });
   });
 });
+
+describe('resolvePrecedence', () => {
+  it('should report the first deny as deciding permission', () => {
+    const deny: Permission = {
+      action: 'read',
+      resource: 'booking',
+      effect: 'deny',
+    };
+    const permissions: Permission[] = [
+      { action: 'read', resource: 'booking' },
+      deny,
+      { action: '*', resource: '*', effect: 'deny' },
+    ];
+
+    expect(resolvePrecedence(permissions)).toEqual({
+      granted: false,
+      decidedBy: deny,
+    });
+  });
+
+  it('should report the first allow when no deny exists', () => {
+    const allow: Permission = { action: 'read', resource: 'booking' };
+
+    expect(resolvePrecedence([allow])).toEqual({
+      granted: true,
+      decidedBy: allow,
+    });
+  });
+
+  it('should report no deciding permission on default deny', () => {
+    expect(resolvePrecedence([])).toEqual({ granted: false });
+  });
+});
@@ -0,0 +1,449 @@
+/**
+ * Policy Analysis Tests
+ *
+ * Tests for static policy analysis (dead permissions, unused roles) and policy diffs.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzePolicy, diffPolicies } from '../policy-analysis';
+import { CircularRoleError } from '../errors';
+import type { RbacPolicy } from '../types';
+
+describe('analyzePolicy', () => {
+  it('should return no findings for a clean policy', () => {
+    const policy: RbacPolicy = {
+      roles: [
+        {
+          name: 'agent',
+          permissions: [
+            { action: 'read', resource: 'booking' },
+            { action: 'update', resource: 'booking' },
+          ],
+        },
+        {
+          name: 'admin',
+          inherits: ['agent'],
+          permissions: [{ action: 'delete', resource: 'booking' }],
+        },
+      ],
+    };
+
+    expect(analyzePolicy(policy, { assignedRoles: ['admin'] })).toEqual([]);
+  });
+
+  it('should report permissions shadowed by a wildcard', () => {
+    const policy: RbacPolicy = {
+      roles: [
+        {
+          name: 'admin',
+          permissions: [
+            { action: '*', resource: 'booking' },
+            { action: 'read', resource: 'booking' },
+          ],
+        },
+      ],
+    };
+
+    expect(analyzePolicy(policy)).toEqual([
+      {
+        kind: 'shadowed',
+        path: 'roles[0].permissions[1]',
+        role: 'admin',
+        message:
+          'allow "read booking" is shadowed by allow "* booking" in role "admin"',
+        permission: { action: 'read', resource: 'booking' },
+        cause: {
+          role: 'admin',
+          index: 0,
+          permission: { action: '*', resource: 'booking' },
+        },
+      },
+    ]);
+  });
+
+  it('should report permissions shadowed by an inherited role', () => {
+    const policy: RbacPolicy = {
+      roles: [
+        {
+          name: 'viewer',
+          permissions: [{ action: 'read', resource: 'billing/**' }],
+        },
+        {
+          name: 'accountant',
+          inherits: ['viewer'],
+          permissions: [{ action: 'read', resource: 'billing/invoices/*' }],
+        },
+      ],
+    };
+
+    const [finding] = analyzePolicy(policy);
+
+    expect(finding?.kind).toBe('shadowed');
+    expect(finding?.path).toBe('roles[1].permissions[0]');
+    expect(finding?.cause?.role).toBe('viewer');
+  });
+
+  it('should report only the later of two identical permissions', () => {
+    const policy: RbacPolicy = {
+      roles: [
+        {
+          name: 'agent',
+          permissions: [
+            { action: 'read', resource: 'booking' },
+            { action: 'read', resource: 'booking' },
+          ],
+        },
+      ],
+    };
+
+    expect(analyzePolicy(policy).map((f) => f.path)).toEqual([
+      'roles[0].permissions[1]',
+    ]);
+  });
+
+  it('should report a conditional permission shadowed by an unconditional one', () => {
+    const policy: RbacPolicy = {
+      roles: [
+        {
+          name: 'agent',
+          permissions: [
+            {
+              action: 'update',
+              resource: 'booking',
+              condition: {
+                op: 'eq',
+                left: { ref: 'resourceData.ownerId' },
+                right: { ref: 'subject.id' },
+              },
+            },
+            { action: 'update', resource: 'booking' },
+          ],
+        },
+      ],
+    };
+
+    expect(analyzePolicy(policy).map((f) => f.path)).toEqual([
+      'roles[0].permissions[0]',
+    ]);
+  });
+
+  it('should not treat conditional or time-bounded permissions as shadowing', () => {
+    const policy: RbacPolicy = {
+      roles: [
+        {
+          name: 'agent',
+          permissions: [
+            {
+              action: '*',
+              resource: 'booking',
+              condition: () => true,
+            },
+            {
+              action: 'read',
+              resource: '*',
+              validUntil: '2030-01-01T00:00:00Z',
+            },
+            { action: 'read', resource: 'booking' },
+          ],
+        },
+      ],
+    };
+
+    expect(analyzePolicy(policy)).toEqual([]);
+  });
+
+  it('should report allows always overridden by an inherited deny', () => {
+    const policy: RbacPolicy = {
+      roles: [
+        {
+          name: 'restricted',
+          permissions: [{ action: 'delete', resource: '*', effect: 'deny' }],
+        },
+        {
+          name: 'support',
+          inherits: ['restricted'],
+          permissions: [
+            { action: 'read', resource: 'booking' },
+            { action: 'delete', resource: 'booking' },
+          ],
+        },
+      ],
+    };
+
+    expect(analyzePolicy(policy)).toEqual([
+      {
+        kind: 'overridden',
+        path: 'roles[1].permissions[1]',
+        role: 'support',
+        message:
+          'allow "delete booking" is always overridden by deny "delete *" in role "restricted"',
+        permission: { action: 'delete', resource: 'booking' },
+        cause: {
+          role: 'restricted',
+          index: 0,
+          permission: { action: 'delete', resource: '*', effect: 'deny' },
+        },
+      },
+    ]);
+  });
+
+  it('should not report allows overridden by a conditional deny', () => {
+    const policy: RbacPolicy = {
+      roles: [
+        {
+          name: 'support',
+          permissions: [
+            {
+              action: 'delete',
+              resource: 'booking',
+              effect: 'deny',
+              condition: {
+                op: 'eq',
+                left: { ref: 'resourceData.status' },
+                right: { value: 'paid' },
+              },
+            },
+            { action: 'delete', resource: 'booking' },
+          ],
+        },
+      ],
+    };
+
+    expect(analyzePolicy(policy)).toEqual([]);
+  });
+
+  it('should report shadowed denies', () => {
+    const policy: RbacPolicy = {
+      roles: [
+        {
+          name: 'guest',
+          permissions: [
+            { action: '*', resource: 'settings', effect: 'deny' },
+            { action: 'update', resource: 'settings', effect: 'deny' },
+          ],
+        },
+      ],
+    };
+
+    const [finding] = analyzePolicy(policy);
+
+    expect(finding?.message).toBe(
+      'deny "update settings" is shadowed by deny "* settings" in role "guest"'
+    );
+  });
+
+  it('should report roles never assigned or inherited', () => {
+    const policy: RbacPolicy = {
+      roles: [
+        { name: 'base', permissions: [] },
+        { name: 'admin', inherits: ['base'], permissions: [] },
+        { name: 'legacy', permissions: [] },
+      ],
+    };
+
+    expect(analyzePolicy(policy, { assignedRoles: ['admin'] })).toEqual([
+      {
+        kind: 'unused-role',
+        path: 'roles[2]',
+        role: 'legacy',
+        message: 'role "legacy" is never assigned or inherited',
+      },
+    ]);
+  });
+
+  it('should not report unused roles without assigned roles', () => {
+    const policy: RbacPolicy = {
+      roles: [{ name: 'legacy', permissions: [] }],
+    };
+
+    expect(analyzePolicy(policy)).toEqual([]);
+  });
+
+  it('should throw on circular inheritance', () => {
+    const policy: RbacPolicy = {
+      roles: [
+        { name: 'a', inherits: ['b'], permissions: [] },
+        { name: 'b', inherits: ['a'], permissions: [] },
+      ],
+    };
+
+    expect(() => analyzePolicy(policy)).toThrow(CircularRoleError);
+  });
+});
+
+describe('diffPolicies', () => {
+  const before: RbacPolicy = {
+    roles: [
+      {
+        name: 'agent',
+        permissions: [
+          { action: 'read', resource: 'booking' },
+          { action: 'update', resource: 'booking' },
+        ],
+      },
+      {
+        name: 'admin',
+        inherits: ['agent'],
+        permissions: [{ action: 'delete', resource: 'booking' }],
+      },
+    ],
+  };
+
+  it('should report no changes between identical policies', () => {
+    expect(diffPolicies(before, before)).toEqual({
+      addedRoles: [],
+      removedRoles: [],
+      changes: [],
+    });
+  });
+
+  it('should report access gained and lost per role, through inheritance', () => {
+    const after: RbacPolicy = {
+      roles: [
+        {
+          name: 'agent',
+          permissions: [
+            { action: 'read', resource: 'booking' },
+            { action: 'cancel', resource: 'booking' },
+          ],
+        },
+        {
+          name: 'admin',
+          inherits: ['agent'],
+          permissions: [
+            { action: 'delete', resource: 'booking' },
+            { action: 'update', resource: 'booking' },
+          ],
+        },
+      ],
+    };
+
+    expect(diffPolicies(before, after).changes).toEqual([
+      {
+        role: 'agent',
+        action: 'update',
+        resource: 'booking',
+        before: 'granted',
+        after: 'denied',
+        change: 'lost',
+      },
+      {
+        role: 'agent',
+        action: 'cancel',
+        resource: 'booking',
+        before: 'denied',
+        after: 'granted',
+        change: 'gained',
+      },
+      {
+        role: 'admin',
+        action: 'cancel',
+        resource: 'booking',
+        before: 'denied',
+        after: 'granted',
+        change: 'gained',
+      },
+    ]);
+  });
+
+  it('should report added and removed roles with their access', () => {
+    const after: RbacPolicy = {
+      roles: [
+        {
+          name: 'agent',
+          permissions: [
+            { action: 'read', resource: 'booking' },
+            { action: 'update', resource: 'booking' },
+          ],
+        },
+        {
+          name: 'auditor',
+          permissions: [{ action: 'read', resource: 'booking' }],
+        },
+      ],
+    };
+
+    const diff = diffPolicies(before, after);
+
+    expect(diff.addedRoles).toEqual(['auditor']);
+    expect(diff.removedRoles).toEqual(['admin']);
+    expect(
+      diff.changes.map((c) => `${c.role} ${c.change} ${c.action}`)
+    ).toEqual([
+      'admin lost read',
+      'admin lost update',
+      'admin lost delete',
+      'auditor gained read',
+    ]);
+  });
+
+  it('should rank conditional access between granted and denied', () => {
+    const after: RbacPolicy = {
+      roles: [
+        {
+          name: 'agent',
+          permissions: [
+            { action: 'read', resource: 'booking' },
+            {
+              action: 'update',
+              resource: 'booking',
+              condition: {
+                op: 'eq',
+                left: { ref: 'resourceData.ownerId' },
+                right: { ref: 'subject.id' },
+              },
+            },
+            { action: 'delete', resource: 'booking', validUntil: 1 },
+          ],
+        },
+      ],
+    };
+
+    const changes = diffPolicies(before, after, {
+      actions: ['update', 'delete'],
+    }).changes.filter((c) => c.role === 'agent');
+
+    expect(changes).toEqual([
+      {
+        role: 'agent',
+        action: 'update',
+        resource: 'booking',
+        before: 'granted',
+        after: 'conditional',
+        change: 'lost',
+      },
+      {
+        role: 'agent',
+        action: 'delete',
+        resource: 'booking',
+        before: 'denied',
+        after: 'conditional',
+        change: 'gained',
+      },
+    ]);
+  });
+
+  it('should apply deny precedence and wildcards', () => {
+    const after: RbacPolicy = {
+      roles: [
+        {
+          name: 'agent',
+          permissions: [
+            { action: '*', resource: 'booking' },
+            { action: 'update', resource: 'booking', effect: 'deny' },
+          ],
+        },
+      ],
+    };
+
+    const changes = diffPolicies(before, after, {
+      actions: ['read', 'update', 'export'],
+      resources: ['booking'],
+    }).changes.filter((c) => c.role === 'agent');
+
+    expect(changes.map((c) => `${c.change} ${c.action}`)).toEqual([
+      'lost update',
+      'gained export',
+    ]);
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * Policy Document Tests
+ *
+ * Tests for loading versioned JSON/YAML policy documents.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parsePolicy,
+  loadPolicy,
+  POLICY_DOCUMENT_VERSION,
+} from '../policy-document';
+import type { PolicyDocument } from '../policy-document';
+import { PolicyDocumentError, RbacError } from '../errors';
+import { createRbacEngine } from '../rbac-engine';
+
+describe('parsePolicy', () => {
+  const document = {
+    version: 2,
+    roles: [
+      {
+        name: 'admin',
+        inherits: ['user'],
+        permissions: [{ action: '*', resource: 'invoices:*' }],
+      },
+      {
+        name: 'user',
+        permissions: [
+          {
+            action: 'edit',
+            resource: 'booking',
+            condition: {
+              op: 'eq',
+              left: { ref: 'subject.id' },
+              right: { ref: 'resourceData.ownerId' },
+            },
+          },
+          { action: 'delete', resource: 'booking', effect: 'deny' },
+        ],
+      },
+    ],
+  };
+
+  describe('valid documents', () => {
+    it('should return a policy usable by the engine', () => {
+      const result = parsePolicy(document);
+
+      expect(result.valid).toBe(true);
+      if (!result.valid) return;
+
+      const engine = createRbacEngine(result.policy);
+      const subject = { id: 'u1', roles: ['admin'] };
+      expect(
+        engine.can(subject, { action: 'read', resource: 'invoices:1' })
+      ).toBe(true);
+      expect(
+        engine.can(subject, {
+          action: 'edit',
+          resource: 'booking',
+          resourceData: { ownerId: 'u1' },
+        })
+      ).toBe(true);
+      expect(
+        engine.can(subject, { action: 'delete', resource: 'booking' })
+      ).toBe(false);
+    });
+
+    it('should keep validity windows', () => {
+      const result = parsePolicy({
+        version: 2,
+        roles: [
+          {
+            name: 'support',
+            permissions: [
+              {
+                action: 'impersonate',
+                resource: 'user',
+                validFrom: '2026-06-01T00:00:00Z',
+                validUntil: 1790000000000,
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(result.valid && result.policy.roles[0]?.permissions[0]).toEqual({
+        action: 'impersonate',
+        resource: 'user',
+        validFrom: '2026-06-01T00:00:00Z',
+        validUntil: 1790000000000,
+      });
+    });
+
+    it('should accept relation conditions', () => {
+      const result = parsePolicy({
+        version: 2,
+        roles: [
+          {
+            name: 'member',
+            permissions: [
+              {
+                action: 'edit',
+                resource: 'document',
+                condition: { op: 'same', attribute: 'tenantId' },
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(
+        result.valid && result.policy.roles[0]?.permissions[0]?.condition
+      ).toEqual({ op: 'same', attribute: 'tenantId' });
+    });
+
+    it('should keep denial messages', () => {
+      const guest: PolicyDocument = {
+        version: 2,
+        roles: [
+          {
+            name: 'guest',
+            permissions: [
+              {
+                action: 'delete',
+                resource: 'booking',
+                effect: 'deny',
+                message: 'Guests cannot delete bookings',
+              },
+            ],
+          },
+        ],
+      };
+      const result = parsePolicy(guest);
+
+      expect(
+        result.valid && result.policy.roles[0]?.permissions[0]?.message
+      ).toBe('Guests cannot delete bookings');
+    });
+
+    it('should not copy the version into the policy', () => {
+      const result = parsePolicy(document);
+      expect(result.valid && Object.keys(result.policy)).toEqual(['roles']);
+    });
+  });
+
+  describe('versioning', () => {
+    it('should migrate version 1 documents with roles keyed by name', () => {
+      const result = parsePolicy({
+        version: 1,
+        roles: {
+          admin: { inherits: ['user'], permissions: [] },
+          user: { permissions: [{ action: 'read', resource: 'booking' }] },
+        },
+      });
+
+      expect(result).toEqual({
+        valid: true,
+        issues: [],
+        policy: {
+          roles: [
+            { name: 'admin', inherits: ['user'], permissions: [] },
+            {
+              name: 'user',
+              permissions: [{ action: 'read', resource: 'booking' }],
+            },
+          ],
+        },
+      });
+    });
+
+    it('should reject versions newer than the current one', () => {
+      const result = parsePolicy({
+        version: POLICY_DOCUMENT_VERSION + 1,
+        roles: [],
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.issues[0]?.path).toBe('version');
+    });
+
+    it('should reject a missing version', () => {
+      const result = parsePolicy({ roles: [] });
+
+      expect(result.issues).toEqual([
+        { path: 'version', message: 'must be a positive integer' },
+      ]);
+    });
+  });
+
+  describe('issue reporting', () => {
+    it('should report every problem with its path', () => {
+      const result = parsePolicy({
+        version: 2,
+        roles: [
+          {
+            name: 'admin',
+            inherits: ['ghost'],
+            permissions: [
+              { action: '', resource: 'invoice*' },
+              { action: 'read', resource: 'booking', effct: 'deny' },
+            ],
+          },
+          { name: 'admin', permissions: 'all' },
+          {
+            name: 'user',
+            permissions: [
+              {
+                action: 'read',
+                resource: 'booking',
+                condition: { op: 'like', left: {}, right: {} },
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.issues.map((i) => i.path)).toEqual([
+        'roles[1].name',
+        'roles[0].inherits[0]',
+        'roles[0].permissions[0].action',
+        'roles[0].permissions[0].resource',
+        'roles[0].permissions[1].effct',
+        'roles[1].permissions',
+        'roles[2].permissions[0].condition.op',
+      ]);
+    });
+
+    it('should report invalid validity windows', () => {
+      const result = parsePolicy({
+        version: 2,
+        roles: [
+          {
+            name: 'support',
+            permissions: [
+              {
+                action: 'impersonate',
+                resource: 'user',
+                validFrom: '2026-06-01T00:00:00Z',
+                validUntil: '2026-05-01T00:00:00Z',
+              },
+              { action: 'read', resource: 'user', validUntil: 'friday' },
+            ],
+          },
+        ],
+      });
+
+      expect(result.issues).toEqual([
+        {
+          path: 'roles[0].permissions[0].validUntil',
+          message: 'must be after validFrom',
+        },
+        {
+          path: 'roles[0].permissions[1].validUntil',
+          message: 'must be a Date, epoch milliseconds or an ISO 8601 string',
+        },
+      ]);
+    });
+
+    it('should report circular inheritance', () => {
+      const result = parsePolicy({
+        version: 2,
+        roles: [
+          { name: 'a', inherits: ['b'], permissions: [] },
+          { name: 'b', inherits: ['a'], permissions: [] },
+        ],
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.issues[0]?.path).toBe('roles[0].inherits');
+      expect(result.issues[0]?.message).toContain('Circular');
+    });
+
+    it('should report non-object documents', () => {
+      expect(parsePolicy(null).issues).toEqual([
+        { path: '', message: 'must be an object' },
+      ]);
+      expect(parsePolicy({ version: 2, roles: {} }).issues).toEqual([
+        { path: 'roles', message: 'must be an array' },
+      ]);
+    });
+  });
+});
+
+describe('loadPolicy', () => {
+  const json = JSON.stringify({
+    version: 2,
+    roles: [
+      { name: 'user', permissions: [{ action: 'read', resource: 'booking' }] },
+    ],
+  });
+
+  it('should load JSON source', () => {
+    expect(loadPolicy(json).roles[0]?.name).toBe('user');
+  });
+
+  it('should load YAML source through the provided parser', () => {
+    const parseYaml = () => JSON.parse(json) as unknown;
+
+    expect(
+      loadPolicy('roles: ...', { format: 'yaml', parseYaml }).roles
+    ).toHaveLength(1);
+  });
+
+  it('should throw when YAML is requested without a parser', () => {
+    expect(() => loadPolicy('roles: []', { format: 'yaml' })).toThrow(
+      PolicyDocumentError
+    );
+  });
+
+  it('should throw for malformed JSON', () => {
+    expect(() => loadPolicy('{ version: ')).toThrow(/could not be parsed/);
+  });
+
+  it('should throw with every issue attached', () => {
+    try {
+      loadPolicy(
+        JSON.stringify({
+          version: 2,
+          roles: [{ name: '', permissions: [{ action: '', resource: '' }] }],
+        })
+      );
+      expect.fail('Should have thrown PolicyDocumentError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(PolicyDocumentError);
+      expect(error).toBeInstanceOf(RbacError);
+      if (error instanceof PolicyDocumentError) {
+        expect(error.code).toBe('INVALID_POLICY_DOCUMENT');
+        expect(error.issues).toHaveLength(3);
+      }
+    }
+  });
+});
@@ -4,7 +4,7 @@
  * Integration tests for the complete RBAC evaluation flow.
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { RbacEngine, createRbacEngine } from '../rbac-engine';
 import { RbacError, CircularRoleError } from '../errors';
 import type { RbacPolicy, Subject, AccessRequest } from '../types';
@@ -239,6 +239,63 @@ describe('RbacEngine', () => {
       });
     });
 
+    describe("precedence: 'most-specific'", () => {
+      const policy: RbacPolicy = {
+        roles: [
+          {
+            name: 'user',
+            permissions: [
+              { action: '*', resource: 'billing:*', effect: 'deny' },
+              { action: 'read', resource: 'billing:invoice' },
+              {
+                action: 'read',
+                resource: 'billing:refund',
+                condition: () => false,
+              },
+            ],
+          },
+        ],
+      };
+      const subject: Subject = { id: '1', roles: ['user'] };
+
+      it('should keep deny-overrides by default', () => {
+        const engine = createRbacEngine(policy);
+
+        expect(
+          engine.can(subject, { action: 'read', resource: 'billing:invoice' })
+        ).toBe(false);
+      });
+
+      it('should let a more specific allow override a broader deny', () => {
+        const engine = createRbacEngine(policy, {
+          precedence: 'most-specific',
+          trace: true,
+        });
+
+        const decision = engine.evaluate(subject, {
+          action: 'read',
+          resource: 'billing:invoice',
+        });
+        expect(decision.granted).toBe(true);
+        expect(decision.trace?.decidedBy?.permission).toBe(
+          policy.roles[0]?.permissions[1]
+        );
+        expect(
+          engine.can(subject, { action: 'delete', resource: 'billing:invoice' })
+        ).toBe(false);
+      });
+
+      it('should fall back to the broader deny when the allow fails its condition', () => {
+        const engine = createRbacEngine(policy, {
+          precedence: 'most-specific',
+        });
+
+        expect(
+          engine.can(subject, { action: 'read', resource: 'billing:refund' })
+        ).toBe(false);
+      });
+    });
+
     describe('subject with unknown roles', () => {
       it('should skip unknown roles and use known ones', () => {
         const policy: RbacPolicy = {
@@ -443,6 +500,46 @@ describe('RbacEngine', () => {
         };
         expect(engine.can(subject, otherRequest)).toBe(false);
       });
+
+      it('should evaluate relation conditions', () => {
+        const policy: RbacPolicy = {
+          roles: [
+            {
+              name: 'member',
+              permissions: [
+                {
+                  action: 'edit',
+                  resource: 'document',
+                  condition: {
+                    op: 'or',
+                    conditions: [
+                      { op: 'owner' },
+                      { op: 'same', attribute: 'teamId' },
+                    ],
+                  },
+                },
+              ],
+            },
+          ],
+        };
+
+        const engine = createRbacEngine(policy);
+        const subject: Subject = {
+          id: 'user-1',
+          roles: ['member'],
+          attributes: { teamId: 'team-a' },
+        };
+        const edit = (resourceData: unknown): boolean =>
+          engine.can(subject, {
+            action: 'edit',
+            resource: 'document',
+            resourceData,
+          });
+
+        expect(edit({ ownerId: 'user-1', teamId: 'team-b' })).toBe(true);
+        expect(edit({ ownerId: 'user-2', teamId: 'team-a' })).toBe(true);
+        expect(edit({ ownerId: 'user-2', teamId: 'team-b' })).toBe(false);
+      });
     });
 
     describe('input validation', () => {
@@ -524,6 +621,1021 @@ describe('RbacEngine', () => {
       const decision = engine.evaluate(subject, request);
       expect(decision.reason).toBeDefined();
     });
+
+    describe('denial messages', () => {
+      const policy: RbacPolicy = {
+        roles: [
+          {
+            name: 'agent',
+            permissions: [
+              { action: 'read', resource: 'booking' },
+              {
+                action: 'delete',
+                resource: 'booking',
+                effect: 'deny',
+                message: 'Agents cannot delete bookings',
+              },
+              {
+                action: 'approve',
+                resource: 'booking',
+                condition: (ctx) =>
+                  (ctx.resourceData as { total: number }).total < 1000,
+                message: 'Bookings over 1000 need a manager',
+              },
+            ],
+          },
+        ],
+      };
+      const subject: Subject = { id: '1', roles: ['agent'] };
+
+      it('should carry the message of the deciding deny', () => {
+        const engine = createRbacEngine(policy);
+        const decision = engine.evaluate(subject, {
+          action: 'delete',
+          resource: 'booking',
+        });
+
+        expect(decision.granted).toBe(false);
+        expect(decision.message).toBe('Agents cannot delete bookings');
+      });
+
+      it('should carry the message of an allow whose condition failed', () => {
+        const engine = createRbacEngine(policy);
+        const request: AccessRequest = {
+          action: 'approve',
+          resource: 'booking',
+          resourceData: { total: 5000 },
+        };
+
+        expect(engine.evaluate(subject, request).message).toBe(
+          'Bookings over 1000 need a manager'
+        );
+        expect(
+          createRbacEngine(policy, { trace: true }).evaluate(subject, request)
+            .message
+        ).toBe('Bookings over 1000 need a manager');
+      });
+
+      it('should not carry a message when granted or when none applies', () => {
+        const engine = createRbacEngine(policy);
+
+        expect(
+          engine.evaluate(subject, {
+            action: 'approve',
+            resource: 'booking',
+            resourceData: { total: 10 },
+          })
+        ).not.toHaveProperty('message');
+        expect(
+          engine.evaluate(subject, { action: 'write', resource: 'booking' })
+        ).not.toHaveProperty('message');
+      });
+    });
+  });
+
+  describe('audit', () => {
+    const policy: RbacPolicy = {
+      roles: [
+        {
+          name: 'agent',
+          permissions: [
+            { action: 'read', resource: '**' },
+            { action: 'export', resource: 'billing/**', effect: 'deny' },
+          ],
+        },
+      ],
+    };
+    const subject: Subject = { id: 'agent-1', roles: ['agent'] };
+
+    it('should send every can() and evaluate() decision to the sink', () => {
+      const sink = vi.fn();
+      const engine = createRbacEngine(policy, {
+        audit: { sink },
+        now: () => 42,
+      });
+
+      engine.can(subject, { action: 'read', resource: 'billing/invoices' });
+      engine.evaluate(subject, {
+        action: 'export',
+        resource: 'billing/invoices',
+      });
+      engine.canMany(subject, [{ action: 'delete', resource: 'booking' }]);
+
+      expect(sink.mock.calls.map(([event]) => event)).toEqual([
+        {
+          subjectId: 'agent-1',
+          request: { action: 'read', resource: 'billing/invoices' },
+          granted: true,
+          permission: { action: 'read', resource: '**' },
+          timestamp: 42,
+        },
+        {
+          subjectId: 'agent-1',
+          request: { action: 'export', resource: 'billing/invoices' },
+          granted: false,
+          permission: {
+            action: 'export',
+            resource: 'billing/**',
+            effect: 'deny',
+          },
+          timestamp: 42,
+        },
+        {
+          subjectId: 'agent-1',
+          request: { action: 'delete', resource: 'booking' },
+          granted: false,
+          timestamp: 42,
+        },
+      ]);
+    });
+
+    it('should report the deciding permission of cached and traced decisions', () => {
+      const sink = vi.fn();
+      const engine = createRbacEngine(policy, { audit: { sink }, trace: true });
+      const request: AccessRequest = { action: 'read', resource: 'booking' };
+
+      engine.can(subject, request);
+      engine.can(subject, request);
+      engine.evaluate(subject, request);
+
+      expect(sink).toHaveBeenCalledTimes(3);
+      for (const [event] of sink.mock.calls) {
+        expect(event.permission).toEqual({ action: 'read', resource: '**' });
+      }
+    });
+
+    it('should only audit matching resources and filtered events', () => {
+      const sink = vi.fn();
+      const engine = createRbacEngine(policy, {
+        audit: {
+          sink,
+          resources: ['billing/**'],
+          filter: (event) => !event.granted,
+        },
+      });
+
+      engine.can(subject, { action: 'read', resource: 'billing/invoices' });
+      engine.can(subject, { action: 'delete', resource: 'booking' });
+      engine.can(subject, { action: 'export', resource: 'billing/invoices' });
+
+      expect(sink).toHaveBeenCalledTimes(1);
+      expect(sink.mock.calls[0]?.[0].request.action).toBe('export');
+    });
+
+    it('should sample events', () => {
+      const sink = vi.fn();
+      const random = vi.spyOn(Math, 'random');
+      random.mockReturnValueOnce(0.1).mockReturnValueOnce(0.6);
+      const engine = createRbacEngine(policy, {
+        audit: { sink, sampleRate: 0.5 },
+      });
+
+      engine.can(subject, { action: 'read', resource: 'booking' });
+      engine.can(subject, { action: 'read', resource: 'booking' });
+
+      expect(sink).toHaveBeenCalledTimes(1);
+      random.mockRestore();
+    });
+
+    it('should not audit introspection or explain()', () => {
+      const sink = vi.fn();
+      const engine = createRbacEngine(policy, { audit: { sink } });
+
+      engine.getPermittedActions(subject, 'billing/invoices');
+      engine.getPermittedResources(subject, 'read');
+      engine.explain(subject, { action: 'read', resource: 'booking' });
+
+      expect(sink).not.toHaveBeenCalled();
+    });
+
+    it('should ignore errors thrown by the sink', () => {
+      const engine = createRbacEngine(policy, {
+        audit: {
+          sink: () => {
+            throw new Error('backend down');
+          },
+        },
+      });
+
+      expect(engine.can(subject, { action: 'read', resource: 'booking' })).toBe(
+        true
+      );
+    });
+
+    it('should reject an invalid sample rate', () => {
+      expect(() =>
+        createRbacEngine(policy, { audit: { sink: vi.fn(), sampleRate: 2 } })
+      ).toThrow('audit.sampleRate must be a number between 0 and 1');
+    });
+  });
+
+  describe('evaluate() with trace', () => {
+    const policy: RbacPolicy = {
+      roles: [
+        {
+          name: 'manager',
+          permissions: [
+            { action: 'delete', resource: 'invoice:*', effect: 'deny' },
+          ],
+          inherits: ['staff'],
+        },
+        {
+          name: 'staff',
+          permissions: [
+            { action: '*', resource: 'invoice:*' },
+            {
+              action: 'approve',
+              resource: 'invoice:*',
+              condition: () => false,
+            },
+            {
+              action: 'read',
+              resource: 'invoice:*',
+              condition: () => {
+                throw new Error('boom');
+              },
+            },
+            { action: 'read', resource: 'report' },
+          ],
+        },
+      ],
+    };
+    const subject: Subject = { id: '1', roles: ['manager'] };
+
+    it('should not attach trace by default', () => {
+      const engine = createRbacEngine(policy);
+      const decision = engine.evaluate(subject, {
+        action: 'read',
+        resource: 'invoice:1',
+      });
+
+      expect(decision.trace).toBeUndefined();
+    });
+
+    it('should report resolved role chain', () => {
+      const engine = createRbacEngine(policy, { trace: true });
+      const decision = engine.evaluate(subject, {
+        action: 'read',
+        resource: 'invoice:1',
+      });
+
+      expect(decision.trace?.roles).toEqual([
+        { name: 'manager', path: ['manager'] },
+        { name: 'staff', path: ['manager', 'staff'] },
+      ]);
+    });
+
+    it('should report every candidate with match and condition outcome', () => {
+      const engine = createRbacEngine(policy, { trace: true });
+      const decision = engine.evaluate(subject, {
+        action: 'read',
+        resource: 'invoice:1',
+      });
+      const candidates = decision.trace?.candidates ?? [];
+
+      expect(candidates).toHaveLength(5);
+      expect(candidates.map((c) => [c.role, c.matched, c.condition])).toEqual([
+        ['manager', false, undefined],
+        ['staff', true, 'none'],
+        ['staff', false, undefined],
+        ['staff', true, 'threw'],
+        ['staff', false, undefined],
+      ]);
+      expect(candidates[3]?.error).toBeInstanceOf(Error);
+    });
+
+    it('should report the winning deny', () => {
+      const engine = createRbacEngine(policy, { trace: true });
+      const decision = engine.evaluate(subject, {
+        action: 'delete',
+        resource: 'invoice:1',
+      });
+
+      expect(decision.granted).toBe(false);
+      expect(decision.trace?.applied).toHaveLength(2);
+      expect(decision.trace?.decidedBy?.role).toBe('manager');
+      expect(decision.trace?.decidedBy?.permission.effect).toBe('deny');
+      expect(decision.reason).toContain('from role "manager"');
+    });
+
+    it('should report the granting allow', () => {
+      const engine = createRbacEngine(policy, { trace: true });
+      const decision = engine.evaluate(subject, {
+        action: 'read',
+        resource: 'invoice:1',
+      });
+
+      expect(decision.granted).toBe(true);
+      expect(decision.trace?.decidedBy?.role).toBe('staff');
+    });
+
+    it('should report failed conditions and default deny', () => {
+      const engine = createRbacEngine(policy, { trace: true });
+      const decision = engine.evaluate(subject, {
+        action: 'approve',
+        resource: 'report',
+      });
+
+      expect(decision.granted).toBe(false);
+      expect(decision.trace?.decidedBy).toBeUndefined();
+      expect(decision.reason).toContain('no matching permission');
+    });
+
+    it('should agree with can() for every request', () => {
+      const engine = createRbacEngine(policy, { trace: true });
+      const requests: AccessRequest[] = [
+        { action: 'read', resource: 'invoice:1' },
+        { action: 'delete', resource: 'invoice:1' },
+        { action: 'approve', resource: 'invoice:1' },
+        { action: 'read', resource: 'report' },
+        { action: 'write', resource: 'report' },
+      ];
+
+      for (const request of requests) {
+        expect(engine.evaluate(subject, request).granted).toBe(
+          engine.can(subject, request)
+        );
+      }
+    });
+  });
+
+  describe('explain()', () => {
+    it('should return a trace without enabling the trace option', () => {
+      const engine = createRbacEngine({
+        roles: [
+          {
+            name: 'user',
+            permissions: [{ action: 'read', resource: 'booking' }],
+          },
+        ],
+      });
+
+      const trace = engine.explain(
+        { id: '1', roles: ['user'] },
+        { action: 'read', resource: 'booking' }
+      );
+
+      expect(trace.decidedBy?.role).toBe('user');
+    });
+
+    it('should throw for invalid inputs', () => {
+      const engine = createRbacEngine({ roles: [] });
+
+      expect(() =>
+        engine.explain(null as unknown as Subject, {
+          action: 'read',
+          resource: 'booking',
+        })
+      ).toThrow(RbacError);
+    });
+  });
+
+  describe('canMany()', () => {
+    it('should return decisions in request order', () => {
+      const engine = createRbacEngine({
+        roles: [
+          {
+            name: 'user',
+            permissions: [
+              { action: 'read', resource: 'booking' },
+              { action: 'delete', resource: 'booking', effect: 'deny' },
+            ],
+          },
+        ],
+      });
+      const subject: Subject = { id: '1', roles: ['user'] };
+
+      expect(
+        engine.canMany(subject, [
+          { action: 'read', resource: 'booking' },
+          { action: 'delete', resource: 'booking' },
+          { action: 'read', resource: 'user' },
+        ])
+      ).toEqual([true, false, false]);
+    });
+
+    it('should return empty array for no requests', () => {
+      const engine = createRbacEngine({ roles: [] });
+      expect(engine.canMany({ id: '1', roles: [] }, [])).toEqual([]);
+    });
+
+    it('should resolve the subject roles once per call', () => {
+      const inherits = vi.fn(() => ['user']);
+      const engine = createRbacEngine(
+        {
+          roles: [
+            {
+              name: 'admin',
+              permissions: [{ action: 'write', resource: 'booking' }],
+              get inherits() {
+                return inherits();
+              },
+            },
+            {
+              name: 'user',
+              permissions: [{ action: 'read', resource: 'booking' }],
+            },
+          ],
+        },
+        { cacheSize: 0 }
+      );
+      const subject: Subject = { id: '1', roles: ['admin'] };
+
+      inherits.mockClear();
+      engine.can(subject, { action: 'read', resource: 'booking' });
+      const resolutions = inherits.mock.calls.length;
+      inherits.mockClear();
+
+      expect(
+        engine.canMany(subject, [
+          { action: 'read', resource: 'booking' },
+          { action: 'write', resource: 'booking' },
+          { action: 'delete', resource: 'booking' },
+        ])
+      ).toEqual([true, true, false]);
+      expect(inherits).toHaveBeenCalledTimes(resolutions);
+    });
+
+    it('should throw for an invalid request in the batch', () => {
+      const engine = createRbacEngine({ roles: [] });
+
+      expect(() =>
+        engine.canMany({ id: '1', roles: [] }, [
+          { action: 'read', resource: 'booking' },
+          null as unknown as AccessRequest,
+        ])
+      ).toThrow(RbacError);
+    });
+  });
+
+  describe('decision cache', () => {
+    it('should resolve roles once per role set', () => {
+      const inherits = vi.fn(() => ['user']);
+      const policy: RbacPolicy = {
+        roles: [
+          {
+            name: 'admin',
+            permissions: [{ action: 'write', resource: 'booking' }],
+            get inherits() {
+              return inherits();
+            },
+          },
+          {
+            name: 'user',
+            permissions: [{ action: 'read', resource: 'booking' }],
+          },
+        ],
+      };
+
+      const engine = createRbacEngine(policy);
+      engine.can(
+        { id: '1', roles: ['admin'] },
+        { action: 'read', resource: 'booking' }
+      );
+      const resolutions = inherits.mock.calls.length;
+
+      engine.can(
+        { id: '1', roles: ['admin'] },
+        { action: 'read', resource: 'booking' }
+      );
+      engine.can(
+        { id: '2', roles: ['admin'] },
+        { action: 'write', resource: 'booking' }
+      );
+      engine.can(
+        { id: '3', roles: ['admin'] },
+        { action: 'delete', resource: 'booking' }
+      );
+
+      expect(inherits).toHaveBeenCalledTimes(resolutions);
+    });
+
+    it('should not cache decisions of conditional permissions', () => {
+      const condition = vi.fn(
+        (ctx: { resourceData?: unknown }) =>
+          (ctx.resourceData as { open: boolean }).open
+      );
+      const engine = createRbacEngine({
+        roles: [
+          {
+            name: 'user',
+            permissions: [{ action: 'edit', resource: 'booking', condition }],
+          },
+        ],
+      });
+      const subject: Subject = { id: '1', roles: ['user'] };
+
+      expect(
+        engine.can(subject, {
+          action: 'edit',
+          resource: 'booking',
+          resourceData: { open: true },
+        })
+      ).toBe(true);
+      expect(
+        engine.can(subject, {
+          action: 'edit',
+          resource: 'booking',
+          resourceData: { open: false },
+        })
+      ).toBe(false);
+      expect(condition).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share cached decisions between subjects with the same roles', () => {
+      const engine = createRbacEngine({
+        roles: [
+          { name: 'a', permissions: [{ action: 'read', resource: 'x' }] },
+          { name: 'b', permissions: [{ action: 'write', resource: 'x' }] },
+        ],
+      });
+
+      expect(
+        engine.can(
+          { id: '1', roles: ['a', 'b'] },
+          { action: 'write', resource: 'x' }
+        )
+      ).toBe(true);
+      expect(
+        engine.can(
+          { id: '2', roles: ['b', 'a'] },
+          { action: 'write', resource: 'x' }
+        )
+      ).toBe(true);
+      expect(
+        engine.can(
+          { id: '3', roles: ['a'] },
+          { action: 'write', resource: 'x' }
+        )
+      ).toBe(false);
+    });
+
+    it('should evaluate every time when cacheSize is 0', () => {
+      const inherits = vi.fn(() => [] as string[]);
+      const engine = createRbacEngine(
+        {
+          roles: [
+            {
+              name: 'user',
+              permissions: [{ action: 'read', resource: 'booking' }],
+              get inherits() {
+                return inherits();
+              },
+            },
+          ],
+        },
+        { cacheSize: 0 }
+      );
+      const subject: Subject = { id: '1', roles: ['user'] };
+      engine.can(subject, { action: 'read', resource: 'booking' });
+      const resolutions = inherits.mock.calls.length;
+      engine.can(subject, { action: 'read', resource: 'booking' });
+
+      expect(inherits.mock.calls.length).toBeGreaterThan(resolutions);
+    });
+
+    it('should evict the oldest entries beyond cacheSize', () => {
+      const engine = createRbacEngine(
+        {
+          roles: [
+            { name: 'user', permissions: [{ action: '*', resource: '*' }] },
+          ],
+        },
+        { cacheSize: 2 }
+      );
+      const subject: Subject = { id: '1', roles: ['user'] };
+
+      for (const resource of ['a', 'b', 'c', 'a']) {
+        expect(engine.can(subject, { action: 'read', resource })).toBe(true);
+      }
+    });
+
+    it('should recompute after clearCache()', () => {
+      const inherits = vi.fn(() => [] as string[]);
+      const engine = createRbacEngine({
+        roles: [
+          {
+            name: 'user',
+            permissions: [{ action: 'read', resource: 'booking' }],
+            get inherits() {
+              return inherits();
+            },
+          },
+        ],
+      });
+      const subject: Subject = { id: '1', roles: ['user'] };
+
+      engine.can(subject, { action: 'read', resource: 'booking' });
+      const resolutions = inherits.mock.calls.length;
+      engine.clearCache();
+      engine.can(subject, { action: 'read', resource: 'booking' });
+
+      expect(inherits.mock.calls.length).toBeGreaterThan(resolutions);
+    });
+  });
+
+  describe('scoped role assignments', () => {
+    const policy: RbacPolicy = {
+      roles: [
+        {
+          name: 'admin',
+          permissions: [{ action: '*', resource: 'project' }],
+        },
+        {
+          name: 'viewer',
+          permissions: [{ action: 'read', resource: 'project' }],
+        },
+        {
+          name: 'member',
+          permissions: [{ action: 'read', resource: 'profile' }],
+        },
+      ],
+    };
+    const subject: Subject = {
+      id: '1',
+      roles: ['member'],
+      scopedRoles: [
+        { scope: 'workspace:a', roles: ['admin'] },
+        { scope: 'workspace:b', roles: ['viewer'] },
+      ],
+    };
+
+    it('should resolve roles against the request scope', () => {
+      const engine = createRbacEngine(policy);
+      const request = { action: 'delete', resource: 'project' };
+
+      expect(engine.can(subject, { ...request, scope: 'workspace:a' })).toBe(
+        true
+      );
+      expect(engine.can(subject, { ...request, scope: 'workspace:b' })).toBe(
+        false
+      );
+      expect(
+        engine.can(subject, {
+          action: 'read',
+          resource: 'project',
+          scope: 'workspace:b',
+        })
+      ).toBe(true);
+    });
+
+    it('should only apply global roles without a scope', () => {
+      const engine = createRbacEngine(policy);
+
+      expect(engine.can(subject, { action: 'read', resource: 'project' })).toBe(
+        false
+      );
+      expect(
+        engine.can(subject, {
+          action: 'read',
+          resource: 'profile',
+          scope: 'workspace:a',
+        })
+      ).toBe(true);
+    });
+
+    it('should not share cached decisions across scopes', () => {
+      const engine = createRbacEngine(policy);
+      const request = { action: 'delete', resource: 'project' };
+
+      expect(engine.can(subject, { ...request, scope: 'workspace:a' })).toBe(
+        true
+      );
+      expect(engine.can(subject, { ...request, scope: 'workspace:b' })).toBe(
+        false
+      );
+      expect(engine.can(subject, { ...request, scope: 'workspace:a' })).toBe(
+        true
+      );
+    });
+
+    it('should trace scoped roles', () => {
+      const engine = createRbacEngine(policy);
+
+      const trace = engine.explain(subject, {
+        action: 'delete',
+        resource: 'project',
+        scope: 'workspace:a',
+      });
+
+      expect(trace.roles.map((r) => r.name)).toEqual(['member', 'admin']);
+      expect(trace.decidedBy?.role).toBe('admin');
+    });
+
+    it('should include scoped permissions in getEffectivePermissions()', () => {
+      const engine = createRbacEngine(policy);
+
+      expect(engine.getEffectivePermissions(subject)).toHaveLength(1);
+      expect(engine.getEffectivePermissions(subject, 'workspace:b')).toEqual([
+        { action: 'read', resource: 'profile' },
+        { action: 'read', resource: 'project' },
+      ]);
+    });
+
+    it('should apply the scope option in introspection', () => {
+      const engine = createRbacEngine(policy);
+
+      expect(
+        engine.getPermittedActions(subject, 'project', {
+          candidates: ['read', 'delete'],
+          scope: 'workspace:b',
+        })
+      ).toEqual({ granted: ['read'], denied: ['delete'] });
+    });
+
+    it('should reject malformed scoped role assignments', () => {
+      const engine = createRbacEngine(policy);
+      const invalid = {
+        id: '1',
+        roles: [],
+        scopedRoles: [{ scope: 'workspace:a' }],
+      } as unknown as Subject;
+
+      expect(() =>
+        engine.can(invalid, { action: 'read', resource: 'project' })
+      ).toThrow('Subject.scopedRoles must be an array of { scope, roles }');
+    });
+
+    it('should reject a non-string request scope', () => {
+      const engine = createRbacEngine(policy);
+
+      expect(() =>
+        engine.can(subject, {
+          action: 'read',
+          resource: 'project',
+          scope: 1 as unknown as string,
+        })
+      ).toThrow('Request.scope must be a string');
+    });
+  });
+
+  describe('time-bounded permissions', () => {
+    const policy: RbacPolicy = {
+      roles: [
+        {
+          name: 'support',
+          permissions: [
+            { action: 'read', resource: 'user' },
+            {
+              action: 'impersonate',
+              resource: 'user',
+              validFrom: 1000,
+              validUntil: 2000,
+            },
+          ],
+        },
+        {
+          name: 'auditor',
+          permissions: [{ action: 'read', resource: 'ledger' }],
+        },
+      ],
+    };
+    const subject: Subject = { id: 'u1', roles: ['support'] };
+    const impersonate = { action: 'impersonate', resource: 'user' };
+
+    function engineAt(time: { now: number }) {
+      return createRbacEngine(policy, { now: () => time.now });
+    }
+
+    it('should only grant a permission within its validity window', () => {
+      const time = { now: 500 };
+      const engine = engineAt(time);
+
+      expect(engine.can(subject, impersonate)).toBe(false);
+      time.now = 1000;
+      expect(engine.can(subject, impersonate)).toBe(true);
+      time.now = 2000;
+      expect(engine.can(subject, impersonate)).toBe(false);
+    });
+
+    it('should not memoize time-bounded decisions', () => {
+      const time = { now: 1500 };
+      const engine = engineAt(time);
+
+      expect(engine.can(subject, impersonate)).toBe(true);
+      time.now = 2500;
+      expect(engine.can(subject, impersonate)).toBe(false);
+    });
+
+    it('should apply role assignments within their validity window', () => {
+      const time = { now: 0 };
+      const engine = engineAt(time);
+      const temporary: Subject = {
+        id: 'u2',
+        roles: [],
+        scopedRoles: [{ roles: ['auditor'], validUntil: 100 }],
+      };
+      const request = { action: 'read', resource: 'ledger' };
+
+      expect(engine.can(temporary, request)).toBe(true);
+      time.now = 100;
+      expect(engine.can(temporary, request)).toBe(false);
+    });
+
+    it('should report when a decision expires', () => {
+      const time = { now: 1500 };
+      const engine = engineAt(time);
+
+      expect(engine.evaluate(subject, impersonate)).toMatchObject({
+        granted: true,
+        expiresAt: 2000,
+      });
+
+      time.now = 500;
+      expect(engine.evaluate(subject, impersonate)).toMatchObject({
+        granted: false,
+        expiresAt: 1000,
+      });
+
+      time.now = 2500;
+      expect(engine.evaluate(subject, impersonate)).not.toHaveProperty(
+        'expiresAt'
+      );
+      expect(
+        engine.evaluate(subject, { action: 'read', resource: 'user' })
+      ).not.toHaveProperty('expiresAt');
+    });
+
+    it('should report the expiry of a role assignment', () => {
+      const engine = engineAt({ now: 0 });
+      const temporary: Subject = {
+        id: 'u2',
+        roles: [],
+        scopedRoles: [
+          { roles: ['auditor'], validUntil: 300 },
+          { scope: 'workspace:b', roles: ['auditor'], validUntil: 100 },
+        ],
+      };
+
+      expect(
+        engine.evaluate(temporary, { action: 'read', resource: 'ledger' })
+          .expiresAt
+      ).toBe(300);
+    });
+
+    it('should trace permissions outside their window', () => {
+      const engine = createRbacEngine(policy, { trace: true, now: () => 2500 });
+
+      const decision = engine.evaluate(subject, impersonate);
+
+      expect(decision.granted).toBe(false);
+      expect(decision.trace?.candidates[1]).toEqual({
+        role: 'support',
+        permission: policy.roles[0]?.permissions[1],
+        matched: true,
+        validity: 'expired',
+      });
+      expect(decision.trace?.applied).toEqual([]);
+    });
+
+    it('should exclude inactive permissions from effective permissions', () => {
+      const engine = engineAt({ now: 0 });
+
+      expect(engine.getEffectivePermissions(subject)).toEqual([
+        { action: 'read', resource: 'user' },
+      ]);
+    });
+
+    it('should expose the engine clock', () => {
+      expect(engineAt({ now: 42 }).now()).toBe(42);
+    });
+
+    it('should reject invalid validity bounds', () => {
+      expect(() =>
+        createRbacEngine({
+          roles: [
+            {
+              name: 'r',
+              permissions: [
+                { action: 'read', resource: 'x', validUntil: 'friday' },
+              ],
+            },
+          ],
+        })
+      ).toThrow('validUntil must be a Date');
+
+      expect(() =>
+        engineAt({ now: 0 }).can(
+          {
+            id: 'u',
+            roles: [],
+            scopedRoles: [{ roles: ['auditor'], validUntil: 'friday' }],
+          },
+          { action: 'read', resource: 'ledger' }
+        )
+      ).toThrow('Subject.scopedRoles[0].validUntil must be a Date');
+    });
+  });
+
+  describe('introspection', () => {
+    const policy: RbacPolicy = {
+      roles: [
+        {
+          name: 'accountant',
+          permissions: [
+            { action: 'void', resource: 'invoice', effect: 'deny' },
+            { action: 'export', resource: 'report' },
+          ],
+          inherits: ['staff'],
+        },
+        {
+          name: 'staff',
+          permissions: [
+            { action: '*', resource: 'invoice' },
+            { action: 'read', resource: 'report' },
+            {
+              action: 'approve',
+              resource: 'invoice',
+              effect: 'deny',
+              condition: (ctx) =>
+                (ctx.resourceData as { amount: number }).amount > 1000,
+            },
+          ],
+        },
+      ],
+    };
+    const subject: Subject = { id: '1', roles: ['accountant'] };
+
+    describe('getPermittedActions()', () => {
+      it('should check literal actions named in the policy by default', () => {
+        const engine = createRbacEngine(policy);
+
+        expect(
+          engine.getPermittedActions(subject, 'invoice', {
+            resourceData: { amount: 10 },
+          })
+        ).toEqual({
+          granted: ['export', 'read', 'approve'],
+          denied: ['void'],
+        });
+      });
+
+      it('should apply conditions with resourceData', () => {
+        const engine = createRbacEngine(policy);
+
+        const result = engine.getPermittedActions(subject, 'invoice', {
+          candidates: ['approve'],
+          resourceData: { amount: 5000 },
+        });
+
+        expect(result).toEqual({ granted: [], denied: ['approve'] });
+      });
+
+      it('should check explicit candidates', () => {
+        const engine = createRbacEngine(policy);
+
+        expect(
+          engine.getPermittedActions(subject, 'report', {
+            candidates: ['read', 'export', 'delete'],
+          })
+        ).toEqual({ granted: ['read', 'export'], denied: ['delete'] });
+      });
+
+      it('should only grant inherited actions for a child role', () => {
+        const engine = createRbacEngine(policy);
+
+        expect(
+          engine.getPermittedActions({ id: '2', roles: ['staff'] }, 'report', {
+            candidates: ['read', 'export'],
+          })
+        ).toEqual({ granted: ['read'], denied: ['export'] });
+      });
+    });
+
+    describe('getPermittedResources()', () => {
+      it('should list resources on which an action is granted', () => {
+        const engine = createRbacEngine(policy);
+
+        expect(engine.getPermittedResources(subject, 'read')).toEqual({
+          granted: ['invoice', 'report'],
+          denied: [],
+        });
+        expect(engine.getPermittedResources(subject, 'void')).toEqual({
+          granted: [],
+          denied: ['invoice', 'report'],
+        });
+      });
+
+      it('should resolve wildcard resources against explicit candidates', () => {
+        const engine = createRbacEngine({
+          roles: [
+            {
+              name: 'user',
+              permissions: [{ action: 'read', resource: 'reports.*' }],
+            },
+          ],
+        });
+
+        expect(
+          engine.getPermittedResources({ id: '1', roles: ['user'] }, 'read', {
+            candidates: ['reports.q1', 'reports.q1.draft', 'invoice'],
+          })
+        ).toEqual({
+          granted: ['reports.q1'],
+          denied: ['reports.q1.draft', 'invoice'],
+        });
+      });
+    });
   });
 
   describe('getEffectivePermissions()', () => {
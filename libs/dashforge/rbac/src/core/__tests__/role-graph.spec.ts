@@ -0,0 +1,214 @@
+/**
+ * Role Graph Tests
+ *
+ * Tests for role inheritance graph export (data, JSON, DOT, Mermaid).
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildRoleGraph,
+  formatPermission,
+  roleGraphToDot,
+  roleGraphToJson,
+  roleGraphToMermaid,
+} from '../role-graph';
+import { CircularRoleError } from '../errors';
+import type { RbacPolicy } from '../types';
+
+describe('role graph', () => {
+  const policy: RbacPolicy = {
+    roles: [
+      {
+        name: 'admin',
+        inherits: ['agent'],
+        permissions: [{ action: 'delete', resource: 'booking' }],
+      },
+      {
+        name: 'agent',
+        inherits: ['viewer', 'auditor'],
+        permissions: [
+          {
+            action: 'update',
+            resource: 'booking',
+            condition: () => true,
+          },
+        ],
+      },
+      {
+        name: 'viewer',
+        permissions: [{ action: 'read', resource: 'booking' }],
+      },
+    ],
+  };
+
+  describe('buildRoleGraph', () => {
+    it('should list nodes in policy order with inheritance edges', () => {
+      const graph = buildRoleGraph(policy);
+
+      expect(graph.nodes.map((node) => node.name)).toEqual([
+        'admin',
+        'agent',
+        'viewer',
+        'auditor',
+      ]);
+      expect(graph.edges).toEqual([
+        { from: 'admin', to: 'agent' },
+        { from: 'agent', to: 'viewer' },
+        { from: 'agent', to: 'auditor' },
+      ]);
+    });
+
+    it('should collect effective permissions with their role', () => {
+      const [admin] = buildRoleGraph(policy).nodes;
+
+      expect(
+        admin?.effectivePermissions.map(
+          ({ role, permission }) => `${role}: ${permission.action}`
+        )
+      ).toEqual(['admin: delete', 'agent: update', 'viewer: read']);
+      expect(admin?.permissions).toEqual([
+        { action: 'delete', resource: 'booking' },
+      ]);
+    });
+
+    it('should mark inherited roles the policy does not define', () => {
+      const auditor = buildRoleGraph(policy).nodes[3];
+
+      expect(auditor).toEqual({
+        name: 'auditor',
+        permissions: [],
+        effectivePermissions: [],
+        missing: true,
+      });
+    });
+
+    it('should throw on circular inheritance', () => {
+      const circular: RbacPolicy = {
+        roles: [
+          { name: 'a', inherits: ['b'], permissions: [] },
+          { name: 'b', inherits: ['a'], permissions: [] },
+        ],
+      };
+
+      expect(() => buildRoleGraph(circular)).toThrow(CircularRoleError);
+    });
+  });
+
+  describe('formatPermission', () => {
+    it('should format effect, action and resource', () => {
+      expect(formatPermission({ action: 'read', resource: 'booking' })).toBe(
+        'allow read booking'
+      );
+      expect(
+        formatPermission({ action: '*', resource: 'settings', effect: 'deny' })
+      ).toBe('deny * settings');
+    });
+
+    it('should mark conditional and time-bounded permissions', () => {
+      expect(
+        formatPermission({
+          action: 'read',
+          resource: 'booking',
+          condition: () => true,
+          validUntil: 0,
+        })
+      ).toBe('allow read booking (conditional, time-bounded)');
+    });
+  });
+
+  describe('roleGraphToJson', () => {
+    it('should serialize the graph, writing condition functions as "function"', () => {
+      const json = JSON.parse(roleGraphToJson(buildRoleGraph(policy)));
+
+      expect(json.edges).toHaveLength(3);
+      expect(json.nodes[1].permissions[0]).toEqual({
+        action: 'update',
+        resource: 'booking',
+        condition: 'function',
+      });
+    });
+
+    it('should keep condition expressions', () => {
+      const condition = {
+        op: 'eq' as const,
+        left: { ref: 'resourceData.ownerId' },
+        right: { ref: 'subject.id' },
+      };
+      const json = JSON.parse(
+        roleGraphToJson(
+          buildRoleGraph({
+            roles: [
+              {
+                name: 'owner',
+                permissions: [{ action: 'read', resource: 'doc', condition }],
+              },
+            ],
+          })
+        )
+      );
+
+      expect(json.nodes[0].permissions[0].condition).toEqual(condition);
+    });
+
+    it('should indent when asked', () => {
+      expect(roleGraphToJson({ nodes: [], edges: [] }, 2)).toBe(
+        '{\n  "nodes": [],\n  "edges": []\n}'
+      );
+    });
+  });
+
+  describe('roleGraphToDot', () => {
+    it('should render nodes with their permissions and inheritance arrows', () => {
+      expect(roleGraphToDot(buildRoleGraph(policy))).toBe(
+        [
+          'digraph roles {',
+          '  rankdir=BT;',
+          '  node [shape=box];',
+          '  "admin" [label="admin\\nallow delete booking"];',
+          '  "agent" [label="agent\\nallow update booking (conditional)"];',
+          '  "viewer" [label="viewer\\nallow read booking"];',
+          '  "auditor" [label="auditor", style=dashed];',
+          '  "admin" -> "agent";',
+          '  "agent" -> "viewer";',
+          '  "agent" -> "auditor";',
+          '}',
+        ].join('\n')
+      );
+    });
+
+    it('should escape quotes', () => {
+      const dot = roleGraphToDot(
+        buildRoleGraph({ roles: [{ name: 'a"b', permissions: [] }] })
+      );
+
+      expect(dot).toContain('"a\\"b" [label="a\\"b"];');
+    });
+  });
+
+  describe('roleGraphToMermaid', () => {
+    it('should render a flowchart with generated node ids', () => {
+      expect(roleGraphToMermaid(buildRoleGraph(policy))).toBe(
+        [
+          'flowchart BT',
+          '  r0["admin<br/>allow delete booking"]',
+          '  r1["agent<br/>allow update booking (conditional)"]',
+          '  r2["viewer<br/>allow read booking"]',
+          '  r3["auditor"]',
+          '  r0 --> r1',
+          '  r1 --> r2',
+          '  r1 --> r3',
+          '  classDef missing stroke-dasharray: 5 5',
+          '  class r3 missing',
+        ].join('\n')
+      );
+    });
+
+    it('should escape quotes', () => {
+      const mermaid = roleGraphToMermaid(
+        buildRoleGraph({ roles: [{ name: 'a"b', permissions: [] }] })
+      );
+
+      expect(mermaid).toContain('r0["a#quot;b"]');
+    });
+  });
+});
@@ -5,7 +5,11 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { resolveRoles } from '../role-resolver';
+import {
+  resolveRoles,
+  resolveRoleChain,
+  resolveRolePermissions,
+} from '../role-resolver';
 import { CircularRoleError } from '../errors';
 import type { RbacPolicy } from '../types';
 
@@ -203,3 +207,100 @@ describe('resolveRoles', () => {
     });
   });
 });
+
+describe('resolveRoleChain', () => {
+  it('should return assigned roles with a single-entry path', () => {
+    const policy: RbacPolicy = {
+      roles: [{ name: 'admin', permissions: [] }],
+    };
+
+    expect(resolveRoleChain(['admin'], policy)).toEqual([
+      { name: 'admin', path: ['admin'] },
+    ]);
+  });
+
+  it('should record the inheritance chain of inherited roles', () => {
+    const policy: RbacPolicy = {
+      roles: [
+        { name: 'admin', permissions: [], inherits: ['moderator'] },
+        { name: 'moderator', permissions: [], inherits: ['user'] },
+        { name: 'user', permissions: [] },
+      ],
+    };
+
+    expect(resolveRoleChain(['admin'], policy)).toEqual([
+      { name: 'admin', path: ['admin'] },
+      { name: 'moderator', path: ['admin', 'moderator'] },
+      { name: 'user', path: ['admin', 'moderator', 'user'] },
+    ]);
+  });
+
+  it('should keep the path of the first visit for shared roles', () => {
+    const policy: RbacPolicy = {
+      roles: [
+        { name: 'admin', permissions: [], inherits: ['user'] },
+        { name: 'moderator', permissions: [], inherits: ['user'] },
+        { name: 'user', permissions: [] },
+      ],
+    };
+
+    const result = resolveRoleChain(['moderator', 'admin'], policy);
+    expect(result.find((r) => r.name === 'user')?.path).toEqual([
+      'moderator',
+      'user',
+    ]);
+  });
+
+  it('should throw for circular inheritance', () => {
+    const policy: RbacPolicy = {
+      roles: [{ name: 'admin', permissions: [], inherits: ['admin'] }],
+    };
+
+    expect(() => resolveRoleChain(['admin'], policy)).toThrow(
+      CircularRoleError
+    );
+  });
+});
+
+describe('resolveRolePermissions', () => {
+  it('should list own then inherited permissions with their role', () => {
+    const policy: RbacPolicy = {
+      roles: [
+        {
+          name: 'admin',
+          inherits: ['user'],
+          permissions: [{ action: 'delete', resource: 'booking' }],
+        },
+        {
+          name: 'user',
+          permissions: [
+            { action: 'read', resource: 'booking' },
+            { action: 'create', resource: 'booking' },
+          ],
+        },
+      ],
+    };
+
+    expect(resolveRolePermissions('admin', policy)).toEqual([
+      {
+        role: 'admin',
+        index: 0,
+        permission: { action: 'delete', resource: 'booking' },
+      },
+      {
+        role: 'user',
+        index: 0,
+        permission: { action: 'read', resource: 'booking' },
+      },
+      {
+        role: 'user',
+        index: 1,
+        permission: { action: 'create', resource: 'booking' },
+      },
+    ]);
+  });
+
+  it('should return no permissions for an undefined role', () => {
+    expect(resolveRolePermissions('ghost', { roles: [] })).toEqual([]);
+  });
+});
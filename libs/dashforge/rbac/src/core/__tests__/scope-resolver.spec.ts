@@ -0,0 +1,119 @@
+/**
+ * Scope Resolver Tests
+ *
+ * Tests for scoped role assignments.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getAssignedRoles, withScope } from '../scope-resolver';
+import type { Subject } from '../types';
+
+describe('getAssignedRoles', () => {
+  const subject: Subject = {
+    id: '1',
+    roles: ['member'],
+    scopedRoles: [
+      { scope: 'workspace:a', roles: ['admin'] },
+      { scope: 'workspace:b', roles: ['viewer'] },
+      { scope: 'org:acme/**', roles: ['auditor', 'member'] },
+    ],
+  };
+
+  it('should return only global roles without a scope', () => {
+    expect(getAssignedRoles(subject, undefined)).toEqual(['member']);
+  });
+
+  it('should add roles assigned in the matching scope', () => {
+    expect(getAssignedRoles(subject, 'workspace:a')).toEqual([
+      'member',
+      'admin',
+    ]);
+    expect(getAssignedRoles(subject, 'workspace:b')).toEqual([
+      'member',
+      'viewer',
+    ]);
+  });
+
+  it('should ignore assignments of other scopes', () => {
+    expect(getAssignedRoles(subject, 'workspace:c')).toEqual(['member']);
+  });
+
+  it('should match pattern scopes without duplicating roles', () => {
+    expect(getAssignedRoles(subject, 'org:acme/project:x')).toEqual([
+      'member',
+      'auditor',
+    ]);
+    expect(getAssignedRoles(subject, 'org:acme')).toEqual([
+      'member',
+      'auditor',
+    ]);
+  });
+
+  it('should return global roles for subjects without scoped roles', () => {
+    expect(getAssignedRoles({ id: '2', roles: ['x'] }, 'workspace:a')).toEqual([
+      'x',
+    ]);
+  });
+  it('should apply assignments without a scope everywhere', () => {
+    const temporary: Subject = {
+      id: '3',
+      roles: ['member'],
+      scopedRoles: [{ roles: ['support'] }],
+    };
+
+    expect(getAssignedRoles(temporary, undefined)).toEqual([
+      'member',
+      'support',
+    ]);
+    expect(getAssignedRoles(temporary, 'workspace:a')).toEqual([
+      'member',
+      'support',
+    ]);
+  });
+
+  it('should only apply assignments within their validity window', () => {
+    const temporary: Subject = {
+      id: '3',
+      roles: ['member'],
+      scopedRoles: [
+        { roles: ['support'], validFrom: 100, validUntil: 200 },
+        { scope: 'workspace:a', roles: ['admin'], validUntil: 150 },
+      ],
+    };
+
+    expect(getAssignedRoles(temporary, 'workspace:a', 50)).toEqual([
+      'member',
+      'admin',
+    ]);
+    expect(getAssignedRoles(temporary, 'workspace:a', 120)).toEqual([
+      'member',
+      'support',
+      'admin',
+    ]);
+    expect(getAssignedRoles(temporary, 'workspace:a', 180)).toEqual([
+      'member',
+      'support',
+    ]);
+    expect(getAssignedRoles(temporary, 'workspace:a', 200)).toEqual(['member']);
+  });
+});
+
+describe('withScope', () => {
+  const request = { action: 'read', resource: 'doc' };
+
+  it('should add the scope to a request without one', () => {
+    expect(withScope(request, 'workspace:a')).toEqual({
+      ...request,
+      scope: 'workspace:a',
+    });
+  });
+
+  it('should keep the scope named by the request', () => {
+    const scoped = { ...request, scope: 'workspace:b' };
+    expect(withScope(scoped, 'workspace:a')).toBe(scoped);
+  });
+
+  it('should return the request unchanged without a default scope', () => {
+    expect(withScope(request, undefined)).toBe(request);
+  });
+});
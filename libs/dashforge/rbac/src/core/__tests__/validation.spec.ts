@@ -287,4 +287,152 @@ describe('validatePolicy', () => {
       expect(() => validatePolicy(policy)).toThrow(InvalidPermissionError);
     });
   });
+
+  describe('denial messages', () => {
+    it('should accept a message', () => {
+      const policy: RbacPolicy = {
+        roles: [
+          {
+            name: 'guest',
+            permissions: [
+              {
+                action: 'delete',
+                resource: 'booking',
+                effect: 'deny',
+                message: 'Guests cannot delete bookings',
+              },
+            ],
+          },
+        ],
+      };
+
+      expect(() => validatePolicy(policy)).not.toThrow();
+    });
+
+    it('should throw for an empty message', () => {
+      const policy = {
+        roles: [
+          {
+            name: 'guest',
+            permissions: [
+              { action: 'delete', resource: 'booking', message: '  ' },
+            ],
+          },
+        ],
+      } as RbacPolicy;
+
+      expect(() => validatePolicy(policy)).toThrow(InvalidPermissionError);
+    });
+  });
+
+  describe('pattern syntax', () => {
+    it('should pass for segment, globstar and namespace patterns', () => {
+      const policy: RbacPolicy = {
+        roles: [
+          {
+            name: 'admin',
+            permissions: [
+              { action: '*', resource: 'invoices:*' },
+              { action: 'read', resource: 'reports.finance.*' },
+              { action: 'manage', resource: 'billing/**' },
+              { action: 'invoice:*', resource: 'booking' },
+            ],
+          },
+        ],
+      };
+
+      expect(() => validatePolicy(policy)).not.toThrow();
+    });
+
+    it('should throw for wildcard mixed with characters in a segment', () => {
+      const policy: RbacPolicy = {
+        roles: [
+          {
+            name: 'admin',
+            permissions: [{ action: 'read', resource: 'invoice*' }],
+          },
+        ],
+      };
+
+      expect(() => validatePolicy(policy)).toThrow(InvalidPermissionError);
+    });
+
+    it('should throw for empty segment in action pattern', () => {
+      const policy: RbacPolicy = {
+        roles: [
+          {
+            name: 'admin',
+            permissions: [{ action: 'invoice::*', resource: 'booking' }],
+          },
+        ],
+      };
+
+      expect(() => validatePolicy(policy)).toThrow(/action pattern/);
+    });
+  });
+
+  describe('condition expressions', () => {
+    it('should pass for valid condition expressions', () => {
+      const policy: RbacPolicy = {
+        roles: [
+          {
+            name: 'user',
+            permissions: [
+              {
+                action: 'edit',
+                resource: 'booking',
+                condition: {
+                  op: 'eq',
+                  left: { ref: 'subject.id' },
+                  right: { ref: 'resourceData.ownerId' },
+                },
+              },
+            ],
+          },
+        ],
+      };
+
+      expect(() => validatePolicy(policy)).not.toThrow();
+    });
+
+    it('should throw with the path of the invalid node', () => {
+      const policy = {
+        roles: [
+          {
+            name: 'user',
+            permissions: [
+              {
+                action: 'edit',
+                resource: 'booking',
+                condition: {
+                  op: 'and',
+                  conditions: [{ op: 'matches', left: {}, right: {} }],
+                },
+              },
+            ],
+          },
+        ],
+      } as unknown as RbacPolicy;
+
+      expect(() => validatePolicy(policy)).toThrow(InvalidPermissionError);
+      expect(() => validatePolicy(policy)).toThrow(
+        'condition.conditions[0].op unknown operator "matches"'
+      );
+    });
+
+    it('should throw for non-object, non-function conditions', () => {
+      const policy = {
+        roles: [
+          {
+            name: 'user',
+            permissions: [
+              { action: 'edit', resource: 'booking', condition: 'owner' },
+            ],
+          },
+        ],
+      } as unknown as RbacPolicy;
+
+      expect(() => validatePolicy(policy)).toThrow(InvalidPermissionError);
+    });
+  });
 });
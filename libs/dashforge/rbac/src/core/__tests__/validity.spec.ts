@@ -0,0 +1,94 @@
+/**
+ * Validity Tests
+ *
+ * Tests for validFrom / validUntil windows.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getNextBound,
+  getValidityStatus,
+  isValidAt,
+  toEpochMs,
+} from '../validity';
+import { collectValidityIssues } from '../policy-validation';
+
+describe('toEpochMs', () => {
+  it('should accept Dates, epoch milliseconds and ISO strings', () => {
+    const time = Date.UTC(2026, 0, 2);
+
+    expect(toEpochMs(new Date(time))).toBe(time);
+    expect(toEpochMs(time)).toBe(time);
+    expect(toEpochMs('2026-01-02T00:00:00Z')).toBe(time);
+  });
+
+  it('should return NaN for unparsable strings', () => {
+    expect(toEpochMs('next friday')).toBeNaN();
+  });
+});
+
+describe('getValidityStatus', () => {
+  const window = { validFrom: 100, validUntil: 200 };
+
+  it('should treat validFrom as inclusive and validUntil as exclusive', () => {
+    expect(getValidityStatus(window, 99)).toBe('pending');
+    expect(getValidityStatus(window, 100)).toBe('active');
+    expect(getValidityStatus(window, 199)).toBe('active');
+    expect(getValidityStatus(window, 200)).toBe('expired');
+  });
+
+  it('should treat a missing bound as open', () => {
+    expect(isValidAt({ validUntil: 200 }, 0)).toBe(true);
+    expect(isValidAt({ validFrom: 100 }, 1e12)).toBe(true);
+    expect(isValidAt({}, 0)).toBe(true);
+  });
+});
+
+describe('getNextBound', () => {
+  const window = { validFrom: 100, validUntil: 200 };
+
+  it('should return validFrom while pending', () => {
+    expect(getNextBound(window, 50)).toBe(100);
+  });
+
+  it('should return validUntil while active', () => {
+    expect(getNextBound(window, 150)).toBe(200);
+  });
+
+  it('should return nothing once expired or unbounded', () => {
+    expect(getNextBound(window, 200)).toBeUndefined();
+    expect(getNextBound({}, 0)).toBeUndefined();
+  });
+});
+
+describe('collectValidityIssues', () => {
+  it('should accept valid windows', () => {
+    expect(
+      collectValidityIssues(
+        { validFrom: '2026-01-01T00:00:00Z', validUntil: new Date() },
+        'p'
+      )
+    ).toEqual([]);
+  });
+
+  it('should report unparsable bounds', () => {
+    expect(
+      collectValidityIssues({ validFrom: 'soon', validUntil: true }, 'p')
+    ).toEqual([
+      {
+        path: 'p.validFrom',
+        message: 'must be a Date, epoch milliseconds or an ISO 8601 string',
+      },
+      {
+        path: 'p.validUntil',
+        message: 'must be a Date, epoch milliseconds or an ISO 8601 string',
+      },
+    ]);
+  });
+
+  it('should report windows ending before they start', () => {
+    expect(
+      collectValidityIssues({ validFrom: 200, validUntil: 100 }, 'p')
+    ).toEqual([{ path: 'p.validUntil', message: 'must be after validFrom' }]);
+  });
+});
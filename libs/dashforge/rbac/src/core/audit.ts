@@ -0,0 +1,167 @@
+/**
+ * Audit
+ *
+ * Selection of audited decisions (see RbacEngineOptions.audit) and a
+ * batching sink for shipping them to a backend.
+ */
+
+import { RbacError } from './errors';
+import { matchPattern } from './pattern-matcher';
+import type { AuditEvent, AuditOptions, AuditSink } from './types';
+
+const DEFAULT_MAX_BATCH_SIZE = 100;
+const DEFAULT_FLUSH_INTERVAL = 5000;
+
+/**
+ * Validates an audit configuration.
+ *
+ * @param options - Audit configuration
+ * @throws {RbacError} If the sink is not a function or sampleRate is out of range
+ */
+export function validateAuditOptions(options: AuditOptions): void {
+  if (typeof options.sink !== 'function') {
+    throw new RbacError('audit.sink must be a function', 'INVALID_OPTIONS');
+  }
+
+  const { sampleRate } = options;
+  if (
+    sampleRate !== undefined &&
+    !(typeof sampleRate === 'number' && sampleRate >= 0 && sampleRate <= 1)
+  ) {
+    throw new RbacError(
+      'audit.sampleRate must be a number between 0 and 1',
+      'INVALID_OPTIONS'
+    );
+  }
+}
+
+/**
+ * Decides whether an event goes to the sink: resources, then filter,
+ * then sampling.
+ *
+ * @param options - Audit configuration
+ * @param event - Decision to audit
+ * @returns True if the event should be recorded
+ */
+export function shouldAudit(options: AuditOptions, event: AuditEvent): boolean {
+  const { resources, filter, sampleRate = 1 } = options;
+
+  if (
+    resources !== undefined &&
+    !resources.some((pattern) => matchPattern(pattern, event.request.resource))
+  ) {
+    return false;
+  }
+
+  if (filter && !filter(event)) {
+    return false;
+  }
+
+  return sampleRate >= 1 || Math.random() < sampleRate;
+}
+
+/**
+ * Options for createAuditBatcher().
+ */
+export interface AuditBatcherOptions {
+  /**
+   * Posts one batch of events, e.g. with fetch().
+   */
+  send: (events: AuditEvent[]) => void | Promise<void>;
+
+  /**
+   * Number of queued events that triggers a flush.
+   * Default: 100
+   */
+  maxBatchSize?: number;
+
+  /**
+   * Maximum time an event stays queued, in milliseconds.
+   * Default: 5000
+   */
+  flushInterval?: number;
+
+  /**
+   * Called when send() fails, with the events of that batch.
+   * They are not retried: re-queue them through sink to try again.
+   */
+  onError?: (error: unknown, events: AuditEvent[]) => void;
+}
+
+/**
+ * A batching audit sink.
+ */
+export interface AuditBatcher {
+  /** Queues an event; pass as RbacEngineOptions.audit.sink */
+  sink: AuditSink;
+  /** Sends the queued events now and clears the pending timer (e.g. on page hide) */
+  flush: () => Promise<void>;
+}
+
+/**
+ * Creates an audit sink that queues events and sends them in batches:
+ * when maxBatchSize events are queued or flushInterval has passed since
+ * the first queued event, whichever comes first.
+ *
+ * @param options - Send function, batch size, interval and error handler
+ * @returns Batcher with the sink and a flush control
+ *
+ * @example
+ * ```typescript
+ * const batcher = createAuditBatcher({
+ *   send: (events) =>
+ *     fetch('/api/audit', { method: 'POST', body: JSON.stringify(events) }),
+ * });
+ *
+ * const engine = createRbacEngine(policy, {
+ *   audit: {
+ *     sink: batcher.sink,
+ *     resources: ['billing/**'],
+ *     filter: (event) => !event.granted,
+ *   },
+ * });
+ * ```
+ */
+export function createAuditBatcher(options: AuditBatcherOptions): AuditBatcher {
+  const {
+    send,
+    maxBatchSize = DEFAULT_MAX_BATCH_SIZE,
+    flushInterval = DEFAULT_FLUSH_INTERVAL,
+    onError,
+  } = options;
+
+  let queue: AuditEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const flush = async (): Promise<void> => {
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+
+    if (queue.length === 0) {
+      return;
+    }
+
+    const events = queue;
+    queue = [];
+
+    try {
+      await send(events);
+    } catch (error) {
+      onError?.(error, events);
+    }
+  };
+
+  const sink: AuditSink = (event) => {
+    queue.push(event);
+
+    if (queue.length >= maxBatchSize) {
+      void flush();
+    } else if (timer === undefined) {
+      timer = setTimeout(() => void flush(), flushInterval);
+    }
+  };
+
+  return { sink, flush };
+}
@@ -3,15 +3,27 @@
  *
  * Evaluates permission conditions with fail-safe error handling.
  * Condition errors are caught and treated as false (deny).
+ * Conditions are either functions or ConditionExpression objects.
  */
 
+import { evaluateExpression } from './condition-expression';
 import type {
   Permission,
   Subject,
   AccessRequest,
   ConditionContext,
+  ConditionOutcome,
 } from './types';
 
+/**
+ * Result of evaluating a single permission condition.
+ * error is set when the condition threw.
+ */
+export interface ConditionResult {
+  outcome: ConditionOutcome;
+  error?: unknown;
+}
+
 /**
  * Evaluates conditions for permissions.
  * Permissions without conditions are kept.
@@ -31,33 +43,54 @@ export function evaluateConditions(
   const passed: Permission[] = [];
 
   for (const permission of permissions) {
-    if (!permission.condition) {
-      passed.push(permission);
-      continue;
-    }
+    const { outcome } = evaluateCondition(permission, subject, request);
 
-    try {
-      const context: ConditionContext = {
-        subject,
-        ...(request.resourceData !== undefined && {
-          resourceData: request.resourceData,
-        }),
-        ...(request.environment !== undefined && {
-          environment: request.environment,
-        }),
-      };
-
-      const result = permission.condition(context);
-
-      if (result === true) {
-        passed.push(permission);
-      }
-    } catch {
-      // Fail-safe: condition error = deny
-      // Do not propagate error to caller
-      continue;
+    if (outcome === 'none' || outcome === 'passed') {
+      passed.push(permission);
     }
   }
 
   return passed;
 }
+
+/**
+ * Evaluates the condition of a single permission.
+ * Never throws: a throwing condition yields outcome 'threw' with the error attached.
+ *
+ * @param permission - Permission to evaluate
+ * @param subject - Subject requesting access
+ * @param request - Access request
+ * @returns Condition outcome
+ */
+export function evaluateCondition(
+  permission: Permission,
+  subject: Subject,
+  request: AccessRequest
+): ConditionResult {
+  if (!permission.condition) {
+    return { outcome: 'none' };
+  }
+
+  try {
+    const context: ConditionContext = {
+      subject,
+      ...(request.resourceData !== undefined && {
+        resourceData: request.resourceData,
+      }),
+      ...(request.environment !== undefined && {
+        environment: request.environment,
+      }),
+    };
+
+    const result =
+      typeof permission.condition === 'function'
+        ? permission.condition(context)
+        : evaluateExpression(permission.condition, context);
+
+    return { outcome: result === true ? 'passed' : 'failed' };
+  } catch (error) {
+    // Fail-safe: condition error = deny
+    // Do not propagate error to caller
+    return { outcome: 'threw', error };
+  }
+}
@@ -0,0 +1,339 @@
+/**
+ * Condition Expression
+ *
+ * Interpreter and validator for JSON-serializable condition expressions.
+ * Evaluation is fail-safe: a missing path or a type mismatch makes
+ * the comparison unknown rather than false. Unknown propagates through
+ * `and` / `or` / `not` (three-valued logic), and an expression only holds
+ * when it is true: `not` over a missing path is never true.
+ *
+ * Relation shortcuts cover the common ownership checks without a lambda:
+ * `{ op: 'owner' }` (subject.id equals resourceData.ownerId) and
+ * `{ op: 'same', attribute: 'teamId' }` (same team, tenant, ...).
+ */
+
+import type {
+  ConditionContext,
+  ConditionExpression,
+  ConditionOperand,
+  ComparisonOperator,
+  PolicyIssue,
+} from './types';
+
+const COMPARISON_OPERATORS: readonly ComparisonOperator[] = [
+  'eq',
+  'ne',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+];
+
+const REF_ROOTS = ['subject', 'resourceData', 'environment'] as const;
+
+/**
+ * Returns true when the condition is an expression rather than a function.
+ *
+ * @param condition - Permission condition
+ * @returns True if condition is a ConditionExpression
+ */
+export function isConditionExpression(
+  condition: unknown
+): condition is ConditionExpression {
+  return (
+    typeof condition === 'object' &&
+    condition !== null &&
+    typeof (condition as { op?: unknown }).op === 'string'
+  );
+}
+
+/**
+ * Three-valued result: undefined is unknown (missing path, type mismatch).
+ */
+type Truth = boolean | undefined;
+
+/**
+ * Evaluates a condition expression against a condition context.
+ *
+ * @param expression - Expression to evaluate
+ * @param context - Subject, resource data and environment
+ * @returns True if the expression holds (false when false or unknown)
+ */
+export function evaluateExpression(
+  expression: ConditionExpression,
+  context: ConditionContext
+): boolean {
+  return evaluateTruth(expression, context) === true;
+}
+
+function evaluateTruth(
+  expression: ConditionExpression,
+  context: ConditionContext
+): Truth {
+  switch (expression.op) {
+    case 'and': {
+      const results = expression.conditions.map((c) =>
+        evaluateTruth(c, context)
+      );
+      if (results.includes(false)) return false;
+      return results.includes(undefined) ? undefined : true;
+    }
+
+    case 'or': {
+      const results = expression.conditions.map((c) =>
+        evaluateTruth(c, context)
+      );
+      if (results.includes(true)) return true;
+      return results.includes(undefined) ? undefined : false;
+    }
+
+    case 'not': {
+      const result = evaluateTruth(expression.condition, context);
+      return result === undefined ? undefined : !result;
+    }
+
+    case 'owner':
+      return related(
+        context.subject.id,
+        resolvePath(context.resourceData, expression.field ?? 'ownerId')
+      );
+
+    case 'same':
+      return related(
+        resolvePath(context.subject.attributes, expression.attribute),
+        resolvePath(
+          context.resourceData,
+          expression.field ?? expression.attribute
+        )
+      );
+
+    default:
+      return compare(
+        expression.op,
+        resolveOperand(expression.left, context),
+        resolveOperand(expression.right, context)
+      );
+  }
+}
+
+/**
+ * Validates the structure of a condition expression.
+ * Reports every problem found, not only the first.
+ *
+ * @param expression - Value to validate
+ * @param path - Path of the expression, used as prefix for issue paths
+ * @returns Issues found (empty when valid)
+ */
+export function validateConditionExpression(
+  expression: unknown,
+  path = 'condition'
+): PolicyIssue[] {
+  if (!isConditionExpression(expression)) {
+    return [{ path, message: 'must be an object with an "op" string' }];
+  }
+
+  const node = expression as unknown as Record<string, unknown>;
+  const op = node['op'] as string;
+
+  if (op === 'and' || op === 'or') {
+    const conditions = node['conditions'];
+    if (!Array.isArray(conditions)) {
+      return [{ path: `${path}.conditions`, message: 'must be an array' }];
+    }
+
+    return conditions.flatMap((c, i) =>
+      validateConditionExpression(c, `${path}.conditions[${i}]`)
+    );
+  }
+
+  if (op === 'not') {
+    return validateConditionExpression(node['condition'], `${path}.condition`);
+  }
+
+  if (op === 'owner') {
+    return validatePath(node['field'], `${path}.field`, false);
+  }
+
+  if (op === 'same') {
+    return [
+      ...validatePath(node['attribute'], `${path}.attribute`, true),
+      ...validatePath(node['field'], `${path}.field`, false),
+    ];
+  }
+
+  if (!COMPARISON_OPERATORS.includes(op as ComparisonOperator)) {
+    return [{ path: `${path}.op`, message: `unknown operator "${op}"` }];
+  }
+
+  return [
+    ...validateOperand(node['left'], `${path}.left`),
+    ...validateOperand(node['right'], `${path}.right`),
+  ];
+}
+
+function validatePath(
+  value: unknown,
+  path: string,
+  required: boolean
+): PolicyIssue[] {
+  if (value === undefined && !required) {
+    return [];
+  }
+
+  return typeof value === 'string' && value.split('.').every(Boolean)
+    ? []
+    : [{ path, message: 'must be a dotted path string' }];
+}
+
+function validateOperand(operand: unknown, path: string): PolicyIssue[] {
+  if (typeof operand !== 'object' || operand === null) {
+    return [{ path, message: 'must be an object with "ref" or "value"' }];
+  }
+
+  if ('ref' in operand) {
+    const ref = (operand as { ref: unknown }).ref;
+    if (typeof ref !== 'string') {
+      return [{ path: `${path}.ref`, message: 'must be a string' }];
+    }
+
+    const root = ref.split('.')[0];
+    if (!REF_ROOTS.includes(root as (typeof REF_ROOTS)[number])) {
+      return [
+        {
+          path: `${path}.ref`,
+          message: `must start with one of ${REF_ROOTS.join(', ')}`,
+        },
+      ];
+    }
+
+    return [];
+  }
+
+  if ('value' in operand) {
+    const value = (operand as { value: unknown }).value;
+    const valid = Array.isArray(value)
+      ? value.every(isPrimitiveLiteral)
+      : isPrimitiveLiteral(value);
+
+    return valid
+      ? []
+      : [
+          {
+            path: `${path}.value`,
+            message:
+              'must be a string, number, boolean, null or an array of those',
+          },
+        ];
+  }
+
+  return [{ path, message: 'must have "ref" or "value"' }];
+}
+
+function isPrimitiveLiteral(value: unknown): boolean {
+  return (
+    value === null ||
+    typeof value === 'string' ||
+    typeof value === 'boolean' ||
+    (typeof value === 'number' && Number.isFinite(value))
+  );
+}
+
+function resolveOperand(
+  operand: ConditionOperand,
+  context: ConditionContext
+): unknown {
+  if ('value' in operand) {
+    return operand.value;
+  }
+
+  const [root, ...segments] = operand.ref.split('.');
+  if (root !== 'subject' && root !== 'resourceData' && root !== 'environment') {
+    return undefined;
+  }
+
+  return resolvePath(context[root], segments.join('.'));
+}
+
+/**
+ * Reads a dotted path (own properties only); '' is the value itself.
+ */
+function resolvePath(value: unknown, path: string): unknown {
+  let current = value;
+
+  for (const segment of path === '' ? [] : path.split('.')) {
+    if (
+      typeof current !== 'object' ||
+      current === null ||
+      !Object.prototype.hasOwnProperty.call(current, segment)
+    ) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return current;
+}
+
+function related(left: unknown, right: unknown): Truth {
+  // Fail-safe: an unset owner or attribute is unknown, never a relation
+  if (
+    left === undefined ||
+    left === null ||
+    right === undefined ||
+    right === null
+  ) {
+    return undefined;
+  }
+
+  const rightValues = Array.isArray(right) ? right : [right];
+  return (Array.isArray(left) ? left : [left]).some((v) =>
+    rightValues.includes(v)
+  );
+}
+
+function compare(op: ComparisonOperator, left: unknown, right: unknown): Truth {
+  // Fail-safe: a missing value makes the comparison unknown
+  if (left === undefined || right === undefined) {
+    return undefined;
+  }
+
+  switch (op) {
+    case 'eq':
+      return left === right;
+    case 'ne':
+      return left !== right;
+    case 'in':
+      return Array.isArray(right) ? right.includes(left) : undefined;
+    default:
+      return compareOrdered(op, left, right);
+  }
+}
+
+function compareOrdered(
+  op: 'gt' | 'gte' | 'lt' | 'lte',
+  left: unknown,
+  right: unknown
+): Truth {
+  const comparable =
+    (typeof left === 'number' && typeof right === 'number') ||
+    (typeof left === 'string' && typeof right === 'string');
+
+  if (!comparable) {
+    return undefined;
+  }
+
+  const a = left as number | string;
+  const b = right as number | string;
+
+  switch (op) {
+    case 'gt':
+      return a > b;
+    case 'gte':
+      return a >= b;
+    case 'lt':
+      return a < b;
+    case 'lte':
+      return a <= b;
+  }
+}
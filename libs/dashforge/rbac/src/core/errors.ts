@@ -2,7 +2,7 @@
  * RBAC Error Classes
  */
 
-import type { Permission } from './types';
+import type { Permission, PolicyIssue } from './types';
 
 /**
  * Base error class for all RBAC errors.
@@ -69,3 +69,27 @@ export class ConditionEvaluationError extends RbacError {
     Object.setPrototypeOf(this, ConditionEvaluationError.prototype);
   }
 }
+
+/**
+ * Thrown when a policy document cannot be loaded.
+ * Carries every issue found, not only the first.
+ */
+export class PolicyDocumentError extends RbacError {
+  public readonly issues: PolicyIssue[];
+
+  constructor(issues: PolicyIssue[]) {
+    const summary = issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path || '(root)'} ${issue.message}`)
+      .join('; ');
+    const more = issues.length > 3 ? ` (+${issues.length - 3} more)` : '';
+
+    super(
+      `Invalid policy document: ${summary}${more}`,
+      'INVALID_POLICY_DOCUMENT'
+    );
+    this.name = 'PolicyDocumentError';
+    this.issues = issues;
+    Object.setPrototypeOf(this, PolicyDocumentError.prototype);
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Pattern Matcher
+ *
+ * Glob-style matching for Permission.action and Permission.resource.
+ *
+ * Syntax:
+ * - Values are split into segments on `:`, `.` and `/`.
+ *   Separators must match literally (`reports.*` does not match `reports/q1`).
+ * - `*` as a whole segment matches exactly one segment (`invoices:*`).
+ * - `**` as a whole segment matches zero or more segments (`billing/**`).
+ * - A bare `*` matches any value (V1 behavior, kept as is).
+ *
+ * CRITICAL: Patterns are ONLY interpreted on the permission side.
+ * Request values are always treated as literal strings.
+ */
+
+const SEPARATOR_SPLIT = /([:./])/;
+const SEGMENT_CHARS = '[^:./]+';
+
+const compiledPatterns = new Map<string, RegExp>();
+
+/**
+ * Returns true when the value contains wildcard segments.
+ *
+ * @param pattern - Permission action or resource
+ * @returns True if pattern is not a plain literal
+ */
+export function isPattern(pattern: string): boolean {
+  return pattern.includes('*');
+}
+
+/**
+ * Validates pattern syntax.
+ *
+ * @param pattern - Permission action or resource
+ * @returns Reason the pattern is invalid, or null when valid
+ */
+export function validatePattern(pattern: string): string | null {
+  if (!isPattern(pattern) || pattern === '*') {
+    return null;
+  }
+
+  const parts = pattern.split(SEPARATOR_SPLIT);
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const segment = parts[i] ?? '';
+
+    if (segment === '') {
+      return `pattern "${pattern}" contains an empty segment`;
+    }
+
+    if (segment.includes('*') && segment !== '*' && segment !== '**') {
+      return `pattern "${pattern}" mixes "*" with other characters in segment "${segment}"`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Matches a literal value against a permission pattern.
+ *
+ * @param pattern - Permission action or resource (may contain wildcards)
+ * @param value - Request action or resource (always literal)
+ * @returns True if value matches pattern
+ */
+export function matchPattern(pattern: string, value: string): boolean {
+  if (pattern === '*') {
+    return true;
+  }
+
+  if (!isPattern(pattern)) {
+    return pattern === value;
+  }
+
+  return compilePattern(pattern).test(value);
+}
+
+/**
+ * Checks whether a pattern matches every value another pattern matches.
+ *
+ * Conservative: patterns are compared segment by segment, and a `**`
+ * only absorbs a remainder when it is the whole pattern or its last
+ * segment. Returns false when coverage cannot be established this way.
+ *
+ * @param pattern - Broader permission action or resource
+ * @param other - Permission action or resource to cover (may contain wildcards)
+ * @returns True if every value matching other also matches pattern
+ */
+export function patternCovers(pattern: string, other: string): boolean {
+  if (pattern === '*' || pattern === '**' || pattern === other) {
+    return true;
+  }
+
+  if (!isPattern(other)) {
+    return matchPattern(pattern, other);
+  }
+
+  const parts = pattern.split(SEPARATOR_SPLIT);
+  const otherParts = other.split(SEPARATOR_SPLIT);
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const segment = parts[i];
+
+    // Trailing globstar: absorbs whatever follows the same separator
+    if (segment === '**' && i === parts.length - 1) {
+      return i >= otherParts.length || parts[i - 1] === otherParts[i - 1];
+    }
+
+    const target = otherParts[i];
+    if (target === undefined || (i > 0 && parts[i - 1] !== otherParts[i - 1])) {
+      return false;
+    }
+
+    const covered =
+      segment === '**' ||
+      (segment === '*' && target !== '**') ||
+      segment === target;
+
+    if (!covered) {
+      return false;
+    }
+  }
+
+  return parts.length === otherParts.length;
+}
+
+/**
+ * Computes a sortable specificity score for a pattern.
+ * Higher scores are more specific. Compare with compareSpecificity().
+ *
+ * Ranking, in order:
+ * 1. Literal values (no wildcards) rank above any pattern
+ * 2. More literal segments rank higher
+ * 3. Fewer `**` segments rank higher
+ * 4. Fewer `*` segments rank higher
+ * The bare `*` always ranks lowest.
+ *
+ * @param pattern - Permission action or resource
+ * @returns Specificity tuple
+ */
+export function patternSpecificity(pattern: string): number[] {
+  if (pattern === '*') {
+    return [-1, 0, 0, 0];
+  }
+
+  if (!isPattern(pattern)) {
+    return [1, 0, 0, 0];
+  }
+
+  let literals = 0;
+  let globstars = 0;
+  let wildcards = 0;
+  const parts = pattern.split(SEPARATOR_SPLIT);
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const segment = parts[i];
+    if (segment === '**') {
+      globstars++;
+    } else if (segment === '*') {
+      wildcards++;
+    } else {
+      literals++;
+    }
+  }
+
+  return [0, literals, -globstars, -wildcards];
+}
+
+/**
+ * Compares two patterns by specificity.
+ *
+ * @returns Negative if a is more specific, positive if b is, 0 if equal
+ */
+export function compareSpecificity(a: string, b: string): number {
+  const scoreA = patternSpecificity(a);
+  const scoreB = patternSpecificity(b);
+
+  for (let i = 0; i < scoreA.length; i++) {
+    const diff = (scoreB[i] ?? 0) - (scoreA[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+
+  return 0;
+}
+
+function compilePattern(pattern: string): RegExp {
+  const cached = compiledPatterns.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  const parts = pattern.split(SEPARATOR_SPLIT);
+  let source = '';
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const segment = parts[i] ?? '';
+    const before = i > 0 ? escapeRegExp(parts[i - 1] ?? '') : '';
+    const after = i + 1 < parts.length ? escapeRegExp(parts[i + 1] ?? '') : '';
+
+    if (segment === '**') {
+      if (parts.length === 1) {
+        source = '.*';
+      } else if (after) {
+        // Leading or middle: the globstar absorbs its trailing separator
+        source += `${before}(?:.+${after})?`;
+      } else {
+        // Trailing: the globstar absorbs its leading separator
+        source += `(?:${before}.+)?`;
+      }
+      continue;
+    }
+
+    // The separator after a globstar has already been emitted
+    const previous = i > 0 ? parts[i - 2] : undefined;
+    const prefix = previous === '**' ? '' : before;
+
+    source +=
+      prefix + (segment === '*' ? SEGMENT_CHARS : escapeRegExp(segment));
+  }
+
+  const compiled = new RegExp(`^${source}$`);
+  compiledPatterns.set(pattern, compiled);
+  return compiled;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
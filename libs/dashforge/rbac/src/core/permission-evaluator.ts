@@ -5,13 +5,20 @@
  * CRITICAL: Wildcards are ONLY supported on permission side, NOT request side.
  */
 
-import type { Permission, AccessRequest } from './types';
+import { matchPattern, compareSpecificity } from './pattern-matcher';
+import type { Permission, AccessRequest, PrecedenceRule } from './types';
 
 /**
  * Matches permissions against a request.
  * Only permissions with wildcards are treated as wildcards.
  * Request wildcards are NOT supported.
  *
+ * Matched permissions are ordered by specificity (most specific first),
+ * resource before action, keeping policy order for ties.
+ * Specificity only orders matches; it never changes precedence
+ * (a deny still overrides a more specific allow) unless the
+ * 'most-specific' rule is chosen (see resolvePrecedence).
+ *
  * @param permissions - Permissions to check
  * @param request - Access request
  * @returns Permissions that match the request
@@ -23,38 +30,103 @@ export function matchPermissions(
   const matched: Permission[] = [];
 
   for (const permission of permissions) {
-    const actionMatch =
-      permission.action === request.action || permission.action === '*';
-
-    const resourceMatch =
-      permission.resource === request.resource || permission.resource === '*';
-
-    if (actionMatch && resourceMatch) {
+    if (matchesRequest(permission, request)) {
       matched.push(permission);
     }
   }
 
-  return matched;
+  return matched.sort(comparePermissionSpecificity);
+}
+
+/**
+ * Checks whether a single permission matches a request's action and resource.
+ *
+ * @param permission - Permission to check
+ * @param request - Access request
+ * @returns True if both action and resource match
+ */
+export function matchesRequest(
+  permission: Permission,
+  request: AccessRequest
+): boolean {
+  return (
+    matchPattern(permission.action, request.action) &&
+    matchPattern(permission.resource, request.resource)
+  );
+}
+
+/**
+ * Orders permissions by specificity, resource first, then action.
+ */
+export function comparePermissionSpecificity(
+  a: Permission,
+  b: Permission
+): number {
+  return (
+    compareSpecificity(a.resource, b.resource) ||
+    compareSpecificity(a.action, b.action)
+  );
 }
 
 /**
  * Applies precedence rules to permissions.
- * Deny always overrides allow.
+ * Deny always overrides allow (unless rule is 'most-specific').
  * Default is deny if no permissions.
  *
  * @param permissions - Permissions to evaluate
+ * @param rule - Precedence rule (default 'deny-overrides')
  * @returns True if access granted, false otherwise
  */
-export function applyPrecedence(permissions: Permission[]): boolean {
-  const hasDeny = permissions.some((p) => p.effect === 'deny');
-  if (hasDeny) {
-    return false;
+export function applyPrecedence(
+  permissions: Permission[],
+  rule?: PrecedenceRule
+): boolean {
+  return resolvePrecedence(permissions, rule).granted;
+}
+
+/**
+ * Applies precedence rules and reports the deciding permission.
+ * The first deny wins; otherwise the first allow grants.
+ * With specificity-ordered input (see matchPermissions) this is the most
+ * specific deny or allow.
+ *
+ * With the 'most-specific' rule, only the most specific permissions are
+ * considered: an allow on `billing:invoice` then overrides a deny on
+ * `billing:*`, while an equally specific deny still wins.
+ *
+ * @param permissions - Permissions to evaluate
+ * @param rule - Precedence rule (default 'deny-overrides')
+ * @returns Decision and the permission that decided it (absent on default deny)
+ */
+export function resolvePrecedence(
+  permissions: Permission[],
+  rule: PrecedenceRule = 'deny-overrides'
+): {
+  granted: boolean;
+  decidedBy?: Permission;
+} {
+  const considered =
+    rule === 'most-specific' ? mostSpecific(permissions) : permissions;
+
+  const deny = considered.find((p) => p.effect === 'deny');
+  if (deny) {
+    return { granted: false, decidedBy: deny };
   }
 
-  const hasAllow = permissions.some((p) => !p.effect || p.effect === 'allow');
-  if (hasAllow) {
-    return true;
+  const allow = considered.find((p) => !p.effect || p.effect === 'allow');
+  if (allow) {
+    return { granted: true, decidedBy: allow };
   }
 
-  return false;
+  return { granted: false };
+}
+
+/**
+ * Permissions as specific as the most specific one, in their input order.
+ */
+function mostSpecific(permissions: Permission[]): Permission[] {
+  const [first] = [...permissions].sort(comparePermissionSpecificity);
+  return first
+    ? permissions.filter((p) => comparePermissionSpecificity(p, first) === 0)
+    : [];
 }
@@ -0,0 +1,266 @@
+/**
+ * Policy Analysis
+ *
+ * Static checks over an RbacPolicy, without subjects or requests:
+ * dead permissions, unused roles and access differences between versions.
+ * Conditions and validity windows are never evaluated; a permission that
+ * has either is treated as one that may or may not apply.
+ */
+
+import { resolveRolePermissions, resolveRoles } from './role-resolver';
+import { isPattern, patternCovers } from './pattern-matcher';
+import { matchesRequest } from './permission-evaluator';
+import { hasValidity } from './validity';
+import type {
+  AccessLevel,
+  Permission,
+  PermissionRef,
+  PolicyAnalysisOptions,
+  PolicyChange,
+  PolicyDiff,
+  PolicyDiffOptions,
+  PolicyFinding,
+  RbacPolicy,
+} from './types';
+
+const LEVEL_RANK: Record<AccessLevel, number> = {
+  denied: 0,
+  conditional: 1,
+  granted: 2,
+};
+
+/**
+ * Finds permissions that can never change a decision and unused roles.
+ *
+ * A permission is checked against its role and every inherited role:
+ * - an allow is 'overridden' when an unconditional deny covers it
+ * - a permission is 'shadowed' when an unconditional permission with the
+ *   same effect covers it (of two identical permissions, the later one)
+ *
+ * @param policy - Policy to analyze
+ * @param options - Roles assigned to subjects, to report unused roles
+ * @returns Findings in policy order (empty for a clean policy)
+ * @throws {CircularRoleError} If circular role inheritance is detected
+ *
+ * @example
+ * ```typescript
+ * it('has no dead permissions', () => {
+ *   expect(analyzePolicy(policy, { assignedRoles: ['admin', 'agent'] })).toEqual([]);
+ * });
+ * ```
+ */
+export function analyzePolicy(
+  policy: RbacPolicy,
+  options: PolicyAnalysisOptions = {}
+): PolicyFinding[] {
+  const findings: PolicyFinding[] = [];
+  const reachable = options.assignedRoles
+    ? new Set(resolveRoles(options.assignedRoles, policy))
+    : undefined;
+
+  policy.roles.forEach((role, roleIndex) => {
+    const rolePath = `roles[${roleIndex}]`;
+
+    if (reachable && !reachable.has(role.name)) {
+      findings.push({
+        kind: 'unused-role',
+        path: rolePath,
+        role: role.name,
+        message: `role "${role.name}" is never assigned or inherited`,
+      });
+    }
+
+    const inherited = resolveRolePermissions(role.name, policy);
+
+    role.permissions.forEach((permission, index) => {
+      const path = `${rolePath}.permissions[${index}]`;
+      const others = inherited.filter((ref) => ref.permission !== permission);
+
+      const deny = isAllow(permission)
+        ? others.find(
+            (ref) =>
+              !isAllow(ref.permission) &&
+              isUnconditional(ref.permission) &&
+              permissionCovers(ref.permission, permission)
+          )
+        : undefined;
+
+      if (deny) {
+        findings.push({
+          kind: 'overridden',
+          path,
+          role: role.name,
+          message:
+            `${describePermission(permission)} is always overridden by ` +
+            `${describePermission(deny.permission)} in role "${deny.role}"`,
+          permission,
+          cause: deny,
+        });
+        return;
+      }
+
+      const shadow = others.find(
+        (ref) =>
+          isAllow(ref.permission) === isAllow(permission) &&
+          isUnconditional(ref.permission) &&
+          permissionCovers(ref.permission, permission) &&
+          // Identical permissions in one role: only the later one is dead
+          !(
+            ref.role === role.name &&
+            ref.index > index &&
+            isUnconditional(permission) &&
+            permissionCovers(permission, ref.permission)
+          )
+      );
+
+      if (shadow) {
+        findings.push({
+          kind: 'shadowed',
+          path,
+          role: role.name,
+          message:
+            `${describePermission(permission)} is shadowed by ` +
+            `${describePermission(shadow.permission)} in role "${shadow.role}"`,
+          permission,
+          cause: shadow,
+        });
+      }
+    });
+  });
+
+  return findings;
+}
+
+/**
+ * Compares the access every role has in two policy versions.
+ *
+ * Each role is evaluated on its own (with inheritance) for every action
+ * and resource compared. Removed roles lose everything they had, added
+ * roles gain everything they have.
+ *
+ * @param before - Earlier policy version
+ * @param after - Later policy version
+ * @param options - Actions and resources to compare
+ * @returns Added and removed roles, and every access change
+ * @throws {CircularRoleError} If either policy has circular role inheritance
+ *
+ * @example
+ * ```typescript
+ * const { changes } = diffPolicies(currentPolicy, nextPolicy);
+ * for (const { role, change, action, resource } of changes) {
+ *   console.log(`${role} ${change} ${action} ${resource}`);
+ * }
+ * ```
+ */
+export function diffPolicies(
+  before: RbacPolicy,
+  after: RbacPolicy,
+  options: PolicyDiffOptions = {}
+): PolicyDiff {
+  const beforeRoles = before.roles.map((role) => role.name);
+  const afterRoles = after.roles.map((role) => role.name);
+  const roles = [...new Set([...beforeRoles, ...afterRoles])];
+
+  const actions = options.actions ?? collectLiterals([before, after], 'action');
+  const resources =
+    options.resources ?? collectLiterals([before, after], 'resource');
+
+  const changes: PolicyChange[] = [];
+
+  for (const role of roles) {
+    const beforePermissions = resolveRolePermissions(role, before);
+    const afterPermissions = resolveRolePermissions(role, after);
+
+    for (const action of actions) {
+      for (const resource of resources) {
+        const levelBefore = getAccessLevel(beforePermissions, action, resource);
+        const levelAfter = getAccessLevel(afterPermissions, action, resource);
+
+        if (levelBefore !== levelAfter) {
+          changes.push({
+            role,
+            action,
+            resource,
+            before: levelBefore,
+            after: levelAfter,
+            change:
+              LEVEL_RANK[levelAfter] > LEVEL_RANK[levelBefore]
+                ? 'gained'
+                : 'lost',
+          });
+        }
+      }
+    }
+  }
+
+  return {
+    addedRoles: afterRoles.filter((name) => !beforeRoles.includes(name)),
+    removedRoles: beforeRoles.filter((name) => !afterRoles.includes(name)),
+    changes,
+  };
+}
+
+/**
+ * Static access level, with the engine's precedence: an unconditional deny
+ * always wins, an unconditional allow grants unless some deny may apply.
+ */
+function getAccessLevel(
+  refs: PermissionRef[],
+  action: string,
+  resource: string
+): AccessLevel {
+  const matched = refs
+    .map((ref) => ref.permission)
+    .filter((permission) => matchesRequest(permission, { action, resource }));
+
+  const denies = matched.filter((permission) => !isAllow(permission));
+  const allows = matched.filter(isAllow);
+
+  if (denies.some(isUnconditional) || allows.length === 0) {
+    return 'denied';
+  }
+
+  return denies.length === 0 && allows.some(isUnconditional)
+    ? 'granted'
+    : 'conditional';
+}
+
+function collectLiterals(
+  policies: RbacPolicy[],
+  key: 'action' | 'resource'
+): string[] {
+  const values = new Set<string>();
+
+  for (const policy of policies) {
+    for (const role of policy.roles) {
+      for (const permission of role.permissions) {
+        if (!isPattern(permission[key])) {
+          values.add(permission[key]);
+        }
+      }
+    }
+  }
+
+  return [...values];
+}
+
+function permissionCovers(permission: Permission, other: Permission): boolean {
+  return (
+    patternCovers(permission.action, other.action) &&
+    patternCovers(permission.resource, other.resource)
+  );
+}
+
+function isAllow(permission: Permission): boolean {
+  return permission.effect !== 'deny';
+}
+
+function isUnconditional(permission: Permission): boolean {
+  return permission.condition === undefined && !hasValidity(permission);
+}
+
+function describePermission(permission: Permission): string {
+  return `${isAllow(permission) ? 'allow' : 'deny'} "${permission.action} ${
+    permission.resource
+  }"`;
+}
@@ -0,0 +1,366 @@
+/**
+ * Policy Document
+ *
+ * Loads versioned, serializable policy documents (JSON or YAML) into an RbacPolicy.
+ * Unlike validatePolicy(), parsing collects every problem with its path
+ * instead of throwing on the first one.
+ *
+ * Document versions:
+ * - 1: roles keyed by name ({ "roles": { "admin": { "permissions": [...] } } })
+ * - 2: roles as an array of named roles, same shape as RbacPolicy (current)
+ *
+ * Older versions are migrated forward before validation.
+ */
+
+import { CircularRoleError, PolicyDocumentError } from './errors';
+import { resolveRoles } from './role-resolver';
+import { collectPermissionIssues, joinPath } from './policy-validation';
+import type {
+  ConditionExpression,
+  PermissionEffect,
+  PolicyIssue,
+  RbacPolicy,
+  Role,
+  Timestamp,
+} from './types';
+
+/**
+ * Current policy document version.
+ */
+export const POLICY_DOCUMENT_VERSION = 2;
+
+/**
+ * Serializable policy document (current version).
+ * Conditions must be ConditionExpressions; functions cannot be serialized.
+ */
+export interface PolicyDocument {
+  version: number;
+  roles: Array<{
+    name: string;
+    inherits?: string[];
+    permissions: Array<{
+      action: string;
+      resource: string;
+      effect?: PermissionEffect;
+      condition?: ConditionExpression;
+      validFrom?: string | number;
+      validUntil?: string | number;
+      message?: string;
+    }>;
+  }>;
+}
+
+/**
+ * Result of parsePolicy().
+ * policy is only present when no issues were found.
+ */
+export type PolicyParseResult =
+  | { valid: true; policy: RbacPolicy; issues: [] }
+  | { valid: false; issues: PolicyIssue[] };
+
+/**
+ * Options for loadPolicy().
+ */
+export interface LoadPolicyOptions {
+  /**
+   * Source format. Default: 'json'
+   */
+  format?: 'json' | 'yaml';
+
+  /**
+   * YAML parser, required when format is 'yaml'
+   * (e.g. `parse` from the `yaml` package). Keeps this package dependency-free.
+   */
+  parseYaml?: (source: string) => unknown;
+}
+
+type RawDocument = Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade from.
+ * Each migration returns a document of the next version.
+ */
+const MIGRATIONS: Record<number, (document: RawDocument) => RawDocument> = {
+  1: (document) => {
+    const roles = document['roles'];
+    if (typeof roles !== 'object' || roles === null || Array.isArray(roles)) {
+      return { ...document, version: 2 };
+    }
+
+    return {
+      ...document,
+      version: 2,
+      roles: Object.entries(roles).map(([name, role]) =>
+        typeof role === 'object' && role !== null ? { name, ...role } : role
+      ),
+    };
+  },
+};
+
+const ROLE_KEYS = ['name', 'inherits', 'permissions'];
+const PERMISSION_KEYS = [
+  'action',
+  'resource',
+  'effect',
+  'condition',
+  'validFrom',
+  'validUntil',
+  'message',
+];
+
+/**
+ * Parses an already-decoded policy document.
+ * Never throws: every problem is reported in the result.
+ *
+ * @param document - Decoded document (e.g. the result of JSON.parse)
+ * @returns Parsed policy, or every issue found
+ */
+export function parsePolicy(document: unknown): PolicyParseResult {
+  if (
+    typeof document !== 'object' ||
+    document === null ||
+    Array.isArray(document)
+  ) {
+    return {
+      valid: false,
+      issues: [{ path: '', message: 'must be an object' }],
+    };
+  }
+
+  let current = document as RawDocument;
+  const version = current['version'];
+
+  if (
+    typeof version !== 'number' ||
+    !Number.isInteger(version) ||
+    version < 1
+  ) {
+    return {
+      valid: false,
+      issues: [{ path: 'version', message: 'must be a positive integer' }],
+    };
+  }
+
+  if (version > POLICY_DOCUMENT_VERSION) {
+    return {
+      valid: false,
+      issues: [
+        {
+          path: 'version',
+          message: `unsupported version ${version} (latest is ${POLICY_DOCUMENT_VERSION})`,
+        },
+      ],
+    };
+  }
+
+  for (let v = version; v < POLICY_DOCUMENT_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (migrate) {
+      current = migrate(current);
+    }
+  }
+
+  const issues = collectRoleIssues(current['roles']);
+  if (issues.length > 0) {
+    return { valid: false, issues };
+  }
+
+  const policy: RbacPolicy = {
+    roles: (current['roles'] as RawDocument[]).map(toRole),
+  };
+
+  const cycleIssues = collectCycleIssues(policy);
+  if (cycleIssues.length > 0) {
+    return { valid: false, issues: cycleIssues };
+  }
+
+  return { valid: true, policy, issues: [] };
+}
+
+/**
+ * Loads a policy from JSON or YAML source text.
+ *
+ * @param source - Document text
+ * @param options - Format and YAML parser
+ * @returns Parsed policy
+ * @throws {PolicyDocumentError} With every issue found if the document is invalid
+ *
+ * @example
+ * ```typescript
+ * const policy = loadPolicy(await response.text());
+ * const yamlPolicy = loadPolicy(text, { format: 'yaml', parseYaml: parse });
+ * ```
+ */
+export function loadPolicy(
+  source: string,
+  options: LoadPolicyOptions = {}
+): RbacPolicy {
+  const { format = 'json', parseYaml } = options;
+  let document: unknown;
+
+  try {
+    if (format === 'yaml') {
+      if (!parseYaml) {
+        throw new Error('parseYaml option is required for YAML documents');
+      }
+      document = parseYaml(source);
+    } else {
+      document = JSON.parse(source);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new PolicyDocumentError([
+      { path: '', message: `could not be parsed as ${format}: ${message}` },
+    ]);
+  }
+
+  const result = parsePolicy(document);
+  if (!result.valid) {
+    throw new PolicyDocumentError(result.issues);
+  }
+
+  return result.policy;
+}
+
+function collectRoleIssues(roles: unknown): PolicyIssue[] {
+  if (!Array.isArray(roles)) {
+    return [{ path: 'roles', message: 'must be an array' }];
+  }
+
+  const issues: PolicyIssue[] = [];
+  const names = new Set<string>();
+
+  roles.forEach((role, i) => {
+    const rolePath = joinPath('roles', i);
+
+    if (typeof role !== 'object' || role === null) {
+      issues.push({ path: rolePath, message: 'must be an object' });
+      return;
+    }
+
+    const { name } = role as RawDocument;
+    if (typeof name !== 'string' || name.trim() === '') {
+      issues.push({
+        path: joinPath(rolePath, 'name'),
+        message: 'must be a non-empty string',
+      });
+    } else if (names.has(name)) {
+      issues.push({
+        path: joinPath(rolePath, 'name'),
+        message: `duplicate role "${name}"`,
+      });
+    } else {
+      names.add(name);
+    }
+  });
+
+  roles.forEach((role, i) => {
+    if (typeof role !== 'object' || role === null) {
+      return;
+    }
+
+    const rolePath = joinPath('roles', i);
+    const { inherits, permissions } = role as RawDocument;
+
+    issues.push(...collectUnknownKeys(role, ROLE_KEYS, rolePath));
+
+    if (inherits !== undefined) {
+      if (!Array.isArray(inherits)) {
+        issues.push({
+          path: joinPath(rolePath, 'inherits'),
+          message: 'must be an array',
+        });
+      } else {
+        inherits.forEach((parent, j) => {
+          if (typeof parent !== 'string' || !names.has(parent)) {
+            issues.push({
+              path: joinPath(joinPath(rolePath, 'inherits'), j),
+              message: `unknown role ${JSON.stringify(parent)}`,
+            });
+          }
+        });
+      }
+    }
+
+    if (!Array.isArray(permissions)) {
+      issues.push({
+        path: joinPath(rolePath, 'permissions'),
+        message: 'must be an array',
+      });
+      return;
+    }
+
+    permissions.forEach((permission, j) => {
+      const permissionPath = joinPath(joinPath(rolePath, 'permissions'), j);
+
+      issues.push(...collectPermissionIssues(permission, permissionPath));
+
+      if (typeof permission === 'object' && permission !== null) {
+        issues.push(
+          ...collectUnknownKeys(permission, PERMISSION_KEYS, permissionPath)
+        );
+      }
+    });
+  });
+
+  return issues;
+}
+
+function collectUnknownKeys(
+  node: object,
+  allowed: string[],
+  path: string
+): PolicyIssue[] {
+  return Object.keys(node)
+    .filter((key) => !allowed.includes(key))
+    .map((key) => ({ path: joinPath(path, key), message: 'unknown property' }));
+}
+
+function collectCycleIssues(policy: RbacPolicy): PolicyIssue[] {
+  const issues: PolicyIssue[] = [];
+
+  policy.roles.forEach((role, i) => {
+    try {
+      resolveRoles([role.name], policy);
+    } catch (error) {
+      if (error instanceof CircularRoleError) {
+        issues.push({
+          path: joinPath(joinPath('roles', i), 'inherits'),
+          message: error.message,
+        });
+        return;
+      }
+      throw error;
+    }
+  });
+
+  return issues;
+}
+
+function toRole(raw: RawDocument): Role {
+  const inherits = raw['inherits'] as string[] | undefined;
+
+  return {
+    name: raw['name'] as string,
+    permissions: (raw['permissions'] as RawDocument[]).map((permission) => ({
+      action: permission['action'] as string,
+      resource: permission['resource'] as string,
+      ...(permission['effect'] !== undefined && {
+        effect: permission['effect'] as PermissionEffect,
+      }),
+      ...(permission['condition'] !== undefined && {
+        condition: permission['condition'] as ConditionExpression,
+      }),
+      ...(permission['validFrom'] !== undefined && {
+        validFrom: permission['validFrom'] as Timestamp,
+      }),
+      ...(permission['validUntil'] !== undefined && {
+        validUntil: permission['validUntil'] as Timestamp,
+      }),
+      ...(permission['message'] !== undefined && {
+        message: permission['message'] as string,
+      }),
+    })),
+    ...(inherits !== undefined && { inherits: [...inherits] }),
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Policy Validation
+ *
+ * Issue collection shared by validatePolicy() and the policy document loader.
+ * Functions here never throw: they return every problem found with its path.
+ */
+
+import { validatePattern } from './pattern-matcher';
+import { validateConditionExpression } from './condition-expression';
+import { toEpochMs } from './validity';
+import type { PolicyIssue } from './types';
+
+/**
+ * Joins a path prefix and a key into an issue path.
+ *
+ * @param base - Path prefix ('' for the root)
+ * @param key - Property name or array index
+ * @returns Joined path (e.g. 'roles[0].name')
+ */
+export function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${base}[${key}]`;
+  }
+
+  return base ? `${base}.${key}` : key;
+}
+
+/**
+ * Collects every problem of a single permission.
+ *
+ * @param permission - Permission to check (may be any value)
+ * @param path - Path of the permission ('' when checked on its own)
+ * @returns Issues found (empty when valid)
+ */
+export function collectPermissionIssues(
+  permission: unknown,
+  path: string
+): PolicyIssue[] {
+  if (typeof permission !== 'object' || permission === null) {
+    return [{ path, message: 'must be an object' }];
+  }
+
+  const { action, resource, effect, condition, message } = permission as Record<
+    string,
+    unknown
+  >;
+  const issues: PolicyIssue[] = [];
+
+  for (const [key, value] of [
+    ['action', action],
+    ['resource', resource],
+  ] as const) {
+    if (typeof value !== 'string' || value.trim() === '') {
+      issues.push({
+        path: joinPath(path, key),
+        message: 'must be a non-empty string',
+      });
+      continue;
+    }
+
+    const patternError = validatePattern(value);
+    if (patternError) {
+      issues.push({ path: joinPath(path, key), message: patternError });
+    }
+  }
+
+  if (effect !== undefined && effect !== 'allow' && effect !== 'deny') {
+    issues.push({
+      path: joinPath(path, 'effect'),
+      message: 'must be "allow" or "deny"',
+    });
+  }
+
+  if (condition !== undefined && typeof condition !== 'function') {
+    issues.push(
+      ...validateConditionExpression(condition, joinPath(path, 'condition'))
+    );
+  }
+
+  if (
+    message !== undefined &&
+    (typeof message !== 'string' || message.trim() === '')
+  ) {
+    issues.push({
+      path: joinPath(path, 'message'),
+      message: 'must be a non-empty string',
+    });
+  }
+
+  issues.push(
+    ...collectValidityIssues(permission as Record<string, unknown>, path)
+  );
+
+  return issues;
+}
+
+/**
+ * Collects problems of a validity window: unparsable bounds and
+ * windows ending before they start.
+ *
+ * @param validity - Window to check (may hold any values)
+ * @param path - Path of the owning node
+ * @returns Issues found (empty when valid)
+ */
+export function collectValidityIssues(
+  validity: Record<string, unknown>,
+  path: string
+): PolicyIssue[] {
+  const issues: PolicyIssue[] = [];
+  const bounds: number[] = [];
+
+  for (const key of ['validFrom', 'validUntil'] as const) {
+    const value = validity[key];
+    if (value === undefined) {
+      continue;
+    }
+
+    const time =
+      value instanceof Date ||
+      typeof value === 'number' ||
+      typeof value === 'string'
+        ? toEpochMs(value)
+        : NaN;
+
+    if (Number.isNaN(time)) {
+      issues.push({
+        path: joinPath(path, key),
+        message: 'must be a Date, epoch milliseconds or an ISO 8601 string',
+      });
+      continue;
+    }
+
+    bounds.push(time);
+  }
+
+  const [from, until] = bounds;
+  if (
+    bounds.length === 2 &&
+    from !== undefined &&
+    until !== undefined &&
+    from >= until
+  ) {
+    issues.push({
+      path: joinPath(path, 'validUntil'),
+      message: 'must be after validFrom',
+    });
+  }
+
+  return issues;
+}
@@ -5,20 +5,111 @@
  */
 
 import { RbacError, InvalidPermissionError } from './errors';
-import { resolveRoles } from './role-resolver';
-import { matchPermissions, applyPrecedence } from './permission-evaluator';
-import { evaluateConditions } from './condition-evaluator';
+import { resolveRoles, resolveRoleChain } from './role-resolver';
+import {
+  matchPermissions,
+  matchesRequest,
+  comparePermissionSpecificity,
+  resolvePrecedence,
+} from './permission-evaluator';
+import { evaluateConditions, evaluateCondition } from './condition-evaluator';
+import {
+  collectPermissionIssues,
+  collectValidityIssues,
+} from './policy-validation';
+import { isPattern } from './pattern-matcher';
+import { shouldAudit, validateAuditOptions } from './audit';
+import { assignmentMatchesScope, getAssignedRoles } from './scope-resolver';
+import {
+  getNextBound,
+  getValidityStatus,
+  hasValidity,
+  isValidAt,
+} from './validity';
 import type {
   RbacPolicy,
   Subject,
   AccessRequest,
   AccessDecision,
+  AccessTrace,
   Permission,
+  PermissionTrace,
+  Role,
+  IntrospectionOptions,
+  PermittedSet,
+  AuditEvent,
+  AuditOptions,
+  PrecedenceRule,
 } from './types';
 
+/**
+ * Options for RbacEngine.
+ */
+export interface RbacEngineOptions {
+  /**
+   * Attach an AccessTrace to every evaluate() decision.
+   * Intended for development builds. can() is never traced.
+   * Default: false
+   */
+  trace?: boolean;
+
+  /**
+   * Maximum number of memoized decisions (and compiled role sets).
+   * Decisions are cached per role set, action and resource, and only when
+   * no matched permission has a condition. 0 disables caching.
+   * Default: 1000
+   */
+  cacheSize?: number;
+
+  /**
+   * Clock used for validFrom / validUntil, in epoch milliseconds.
+   * Inject a fixed clock in tests.
+   * Default: Date.now
+   */
+  now?: () => number;
+
+  /**
+   * Sends decisions of can(), canMany() and evaluate() to an audit sink,
+   * optionally restricted by resource, filter and sample rate.
+   * Introspection and explain() are not audited. Errors thrown by the
+   * sink are ignored so that auditing never changes a decision.
+   * Default: no auditing
+   */
+  audit?: AuditOptions;
+
+  /**
+   * How overlapping allow and deny permissions are decided.
+   * 'most-specific' lets a more specific allow override a broader deny
+   * (including a catch-all `*` deny): opt in only when no role relies on
+   * a broad deny to lock access. analyzePolicy() and diffPolicies()
+   * assume 'deny-overrides'.
+   * Default: 'deny-overrides'
+   */
+  precedence?: PrecedenceRule;
+}
+
+/**
+ * Decision with the permission that made it (absent on default deny).
+ */
+interface Decided {
+  granted: boolean;
+  decidedBy?: Permission;
+}
+
+/**
+ * A subject's role set in one scope and the permissions it grants.
+ */
+interface ResolvedRoles {
+  rolesKey: string;
+  permissions: Permission[];
+}
+
+const DEFAULT_CACHE_SIZE = 1000;
+
 /**
  * Validates an RBAC policy.
- * Throws if policy is invalid (circular roles, malformed permissions).
+ * Throws if policy is invalid (circular roles, malformed permissions,
+ * invalid action/resource patterns, malformed condition expressions).
  *
  * @param policy - Policy to validate
  * @throws {CircularRoleError} If circular role inheritance detected
@@ -29,34 +120,11 @@ export function validatePolicy(policy: RbacPolicy): void {
     resolveRoles([role.name], policy);
 
     for (const permission of role.permissions) {
-      if (
-        typeof permission.action !== 'string' ||
-        permission.action.trim() === ''
-      ) {
-        throw new InvalidPermissionError(
-          permission,
-          'action must be a non-empty string'
-        );
-      }
-
-      if (
-        typeof permission.resource !== 'string' ||
-        permission.resource.trim() === ''
-      ) {
-        throw new InvalidPermissionError(
-          permission,
-          'resource must be a non-empty string'
-        );
-      }
-
-      if (
-        permission.effect !== undefined &&
-        permission.effect !== 'allow' &&
-        permission.effect !== 'deny'
-      ) {
+      const [issue] = collectPermissionIssues(permission, '');
+      if (issue) {
         throw new InvalidPermissionError(
           permission,
-          'effect must be "allow" or "deny"'
+          `${issue.path} ${issue.message}`
         );
       }
     }
@@ -68,38 +136,259 @@ export function validatePolicy(policy: RbacPolicy): void {
  */
 export class RbacEngine {
   private readonly policy: RbacPolicy;
+  private readonly options: RbacEngineOptions;
+  private readonly cacheSize: number;
+  private readonly roleIndex: Map<string, Role>;
+  private readonly knownActions: string[];
+  private readonly knownResources: string[];
+  private readonly hasMessages: boolean;
+  private readonly permissionIndex = new Map<string, Permission[]>();
+  private readonly decisionCache = new Map<string, Decided>();
 
-  constructor(policy: RbacPolicy) {
+  constructor(policy: RbacPolicy, options: RbacEngineOptions = {}) {
     this.policy = policy;
+    this.options = options;
+    this.cacheSize = options.cacheSize ?? DEFAULT_CACHE_SIZE;
     validatePolicy(policy);
+    if (options.audit) {
+      validateAuditOptions(options.audit);
+    }
+    // First definition wins, matching the previous Array.find() lookup
+    this.roleIndex = new Map();
+    for (const role of policy.roles) {
+      if (!this.roleIndex.has(role.name)) {
+        this.roleIndex.set(role.name, role);
+      }
+    }
+
+    const actions = new Set<string>();
+    const resources = new Set<string>();
+    for (const role of policy.roles) {
+      for (const permission of role.permissions) {
+        if (!isPattern(permission.action)) {
+          actions.add(permission.action);
+        }
+        if (!isPattern(permission.resource)) {
+          resources.add(permission.resource);
+        }
+      }
+    }
+    this.knownActions = [...actions];
+    this.knownResources = [...resources];
+    this.hasMessages = policy.roles.some((role) =>
+      role.permissions.some((permission) => permission.message !== undefined)
+    );
   }
 
   /**
    * Evaluates whether a subject can perform an action on a resource.
    *
+   * Roles are Subject.roles plus the scoped assignments matching request.scope.
+   * Permissions and assignments outside their validity window are ignored.
+   * Unconditional, untimed decisions are memoized per role set, action and resource.
+   * The policy is treated as immutable: create a new engine when it changes.
+   * The decision is audited when the audit option is set.
+   *
    * @param subject - Subject requesting access
    * @param request - Access request
    * @returns True if access granted, false otherwise
    * @throws {RbacError} If subject or request is invalid
    */
   can(subject: Subject, request: AccessRequest): boolean {
+    const now = this.now();
+    const decided = this.decideAt(subject, request, now);
+    this.audit(subject, request, decided, now);
+    return decided.granted;
+  }
+
+  /**
+   * Current time of the engine clock (see RbacEngineOptions.now).
+   *
+   * @returns Epoch milliseconds
+   */
+  now(): number {
+    return this.options.now ? this.options.now() : Date.now();
+  }
+
+  private canAt(
+    subject: Subject,
+    request: AccessRequest,
+    now: number
+  ): boolean {
+    return this.decideAt(subject, request, now).granted;
+  }
+
+  /**
+   * @param resolved - Role sets already resolved for this subject, keyed by
+   * scope (canMany); filled in when the request's scope is missing
+   */
+  private decideAt(
+    subject: Subject,
+    request: AccessRequest,
+    now: number,
+    resolved?: Map<string | undefined, ResolvedRoles>
+  ): Decided {
     this.validateInputs(subject, request);
 
-    const resolvedRoles = resolveRoles(subject.roles, this.policy);
-    const allPermissions = this.collectPermissions(resolvedRoles);
+    let roles = resolved?.get(request.scope);
+    if (!roles) {
+      roles = this.resolveSubjectRoles(subject, request.scope, now);
+      resolved?.set(request.scope, roles);
+    }
+    const { rolesKey, permissions: allPermissions } = roles;
+    const cacheKey = JSON.stringify([
+      rolesKey,
+      request.action,
+      request.resource,
+    ]);
+    const cached = this.decisionCache.get(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
     const matchedPermissions = matchPermissions(allPermissions, request);
     const validPermissions = evaluateConditions(
-      matchedPermissions,
+      matchedPermissions.filter((p) => isValidAt(p, now)),
       subject,
       request
     );
-    const granted = applyPrecedence(validPermissions);
+    const decided = resolvePrecedence(
+      validPermissions,
+      this.options.precedence
+    );
+
+    // Conditions may read subject attributes, resourceData or environment;
+    // time-bounded permissions depend on the clock
+    if (
+      !matchedPermissions.some(
+        (p) => p.condition !== undefined || hasValidity(p)
+      )
+    ) {
+      this.remember(this.decisionCache, cacheKey, decided);
+    }
 
-    return granted;
+    return decided;
+  }
+
+  /**
+   * Sends a decision to the audit sink when it passes the audit options.
+   */
+  private audit(
+    subject: Subject,
+    request: AccessRequest,
+    { granted, decidedBy }: Decided,
+    now: number
+  ): void {
+    const { audit } = this.options;
+    if (!audit) {
+      return;
+    }
+
+    const event: AuditEvent = {
+      subjectId: subject.id,
+      request,
+      granted,
+      ...(decidedBy !== undefined && { permission: decidedBy }),
+      timestamp: now,
+    };
+
+    try {
+      if (shouldAudit(audit, event)) {
+        audit.sink(event);
+      }
+    } catch {
+      // Auditing must never change a decision
+    }
+  }
+
+  /**
+   * Evaluates several requests for one subject.
+   * The subject's roles are resolved once per scope and shared across the
+   * batch, which is evaluated at a single clock reading. Each decision is
+   * audited as in can().
+   *
+   * @param subject - Subject requesting access
+   * @param requests - Access requests
+   * @returns Decisions in request order
+   * @throws {RbacError} If subject or any request is invalid
+   */
+  canMany(subject: Subject, requests: AccessRequest[]): boolean[] {
+    const now = this.now();
+    const resolved = new Map<string | undefined, ResolvedRoles>();
+
+    return requests.map((request) => {
+      const decided = this.decideAt(subject, request, now, resolved);
+      this.audit(subject, request, decided, now);
+      return decided.granted;
+    });
+  }
+
+  /**
+   * Lists which actions a subject may perform on a resource.
+   * Wildcards, inheritance, conditions and deny precedence apply as in can().
+   *
+   * Wildcard grants cannot be enumerated: by default the literal actions
+   * named anywhere in the policy are checked. Pass options.candidates to
+   * check an explicit list (e.g. every action your UI offers).
+   *
+   * @param subject - Subject requesting access
+   * @param resource - Resource to inspect
+   * @param options - Candidate actions, resourceData, environment and scope
+   * @returns Granted and denied actions
+   * @throws {RbacError} If subject is invalid
+   */
+  getPermittedActions(
+    subject: Subject,
+    resource: string,
+    options: IntrospectionOptions = {}
+  ): PermittedSet {
+    const candidates = options.candidates ?? this.knownActions;
+    const now = this.now();
+    return this.partition(candidates, (action) =>
+      this.canAt(subject, this.buildRequest(action, resource, options), now)
+    );
+  }
+
+  /**
+   * Lists on which resources a subject may perform an action.
+   * Wildcards, inheritance, conditions and deny precedence apply as in can().
+   *
+   * By default the literal resources named anywhere in the policy are
+   * checked. Pass options.candidates to check an explicit list.
+   *
+   * @param subject - Subject requesting access
+   * @param action - Action to inspect
+   * @param options - Candidate resources, resourceData, environment and scope
+   * @returns Granted and denied resources
+   * @throws {RbacError} If subject is invalid
+   */
+  getPermittedResources(
+    subject: Subject,
+    action: string,
+    options: IntrospectionOptions = {}
+  ): PermittedSet {
+    const candidates = options.candidates ?? this.knownResources;
+    const now = this.now();
+    return this.partition(candidates, (resource) =>
+      this.canAt(subject, this.buildRequest(action, resource, options), now)
+    );
+  }
+
+  /**
+   * Clears memoized decisions and compiled role sets.
+   */
+  clearCache(): void {
+    this.decisionCache.clear();
+    this.permissionIndex.clear();
   }
 
   /**
    * Evaluates access and returns detailed decision.
+   * When the engine was created with `trace: true`, the decision carries
+   * an AccessTrace and the reason names the deciding permission.
+   * expiresAt reports the next validity bound that may change the decision.
+   * Denied decisions carry the policy's denial message, if any
+   * (see Permission.message).
    *
    * @param subject - Subject requesting access
    * @param request - Access request
@@ -107,24 +396,161 @@ export class RbacEngine {
    * @throws {RbacError} If subject or request is invalid
    */
   evaluate(subject: Subject, request: AccessRequest): AccessDecision {
-    const granted = this.can(subject, request);
+    const now = this.now();
+
+    if (this.options.trace) {
+      const trace = this.explainAt(subject, request, now);
+      const granted =
+        trace.decidedBy !== undefined &&
+        trace.decidedBy.permission.effect !== 'deny';
+      const expiresAt = this.getExpiresAt(subject, request, now);
+      const message = granted ? undefined : findDenialMessage(trace);
+      this.audit(
+        subject,
+        request,
+        {
+          granted,
+          ...(trace.decidedBy && { decidedBy: trace.decidedBy.permission }),
+        },
+        now
+      );
+
+      return {
+        granted,
+        reason: describeDecision(granted, request, trace.decidedBy),
+        trace,
+        ...(expiresAt !== undefined && { expiresAt }),
+        ...(message !== undefined && { message }),
+      };
+    }
+
+    const decided = this.decideAt(subject, request, now);
+    const { granted } = decided;
+    this.audit(subject, request, decided, now);
+    const expiresAt = this.getExpiresAt(subject, request, now);
 
     const reason = granted
       ? `Access granted for ${request.action} on ${request.resource}`
       : `Access denied for ${request.action} on ${request.resource}`;
 
-    return { granted, reason };
+    // Finding the message needs a full trace: skip it when no permission has one
+    const message =
+      granted || !this.hasMessages
+        ? undefined
+        : findDenialMessage(this.explainAt(subject, request, now));
+
+    return {
+      granted,
+      reason,
+      ...(expiresAt !== undefined && { expiresAt }),
+      ...(message !== undefined && { message }),
+    };
+  }
+
+  /**
+   * Evaluates access and records every step: resolved role chain,
+   * each candidate permission, condition outcomes and the deciding permission.
+   * Available regardless of the trace option.
+   *
+   * @param subject - Subject requesting access
+   * @param request - Access request
+   * @returns Access trace
+   * @throws {RbacError} If subject or request is invalid
+   */
+  explain(subject: Subject, request: AccessRequest): AccessTrace {
+    return this.explainAt(subject, request, this.now());
+  }
+
+  private explainAt(
+    subject: Subject,
+    request: AccessRequest,
+    now: number
+  ): AccessTrace {
+    this.validateInputs(subject, request);
+
+    const roles = resolveRoleChain(
+      getAssignedRoles(subject, request.scope, now),
+      this.policy
+    );
+    const candidates: PermissionTrace[] = [];
+
+    for (const resolved of roles) {
+      const role = this.roleIndex.get(resolved.name);
+      if (!role) {
+        continue;
+      }
+
+      for (const permission of role.permissions) {
+        if (!matchesRequest(permission, request)) {
+          candidates.push({ role: role.name, permission, matched: false });
+          continue;
+        }
+
+        const validity = hasValidity(permission)
+          ? getValidityStatus(permission, now)
+          : undefined;
+
+        if (validity !== undefined && validity !== 'active') {
+          candidates.push({
+            role: role.name,
+            permission,
+            matched: true,
+            validity,
+          });
+          continue;
+        }
+
+        const { outcome, error } = evaluateCondition(
+          permission,
+          subject,
+          request
+        );
+
+        candidates.push({
+          role: role.name,
+          permission,
+          matched: true,
+          ...(validity !== undefined && { validity }),
+          condition: outcome,
+          ...(outcome === 'threw' && { error }),
+        });
+      }
+    }
+
+    const applied = candidates
+      .filter(
+        (c) => c.matched && (c.condition === 'none' || c.condition === 'passed')
+      )
+      .sort((a, b) => comparePermissionSpecificity(a.permission, b.permission));
+
+    const { decidedBy } = resolvePrecedence(
+      applied.map((c) => c.permission),
+      this.options.precedence
+    );
+    const decidingTrace = applied.find((c) => c.permission === decidedBy);
+
+    return {
+      roles,
+      candidates,
+      applied,
+      ...(decidingTrace && { decidedBy: decidingTrace }),
+    };
   }
 
   /**
    * Gets all effective permissions for a subject after resolving inheritance.
    *
    * @param subject - Subject to get permissions for
-   * @returns Array of effective permissions
+   * @param scope - Active scope; scoped role assignments matching it are included
+   * @returns Array of effective permissions (currently within their validity window)
    */
-  getEffectivePermissions(subject: Subject): Permission[] {
-    const resolvedRoles = resolveRoles(subject.roles, this.policy);
-    return this.collectPermissions(resolvedRoles);
+  getEffectivePermissions(subject: Subject, scope?: string): Permission[] {
+    const now = this.now();
+    const roleNames = getAssignedRoles(subject, scope, now);
+    return this.getIndexedPermissions(
+      this.getRolesKey(roleNames),
+      roleNames
+    ).filter((permission) => isValidAt(permission, now));
   }
 
   /**
@@ -137,11 +563,132 @@ export class RbacEngine {
     validatePolicy(this.policy);
   }
 
+  /**
+   * Earliest upcoming bound of the assignments covering the request scope
+   * and of the permissions matching the request.
+   */
+  private getExpiresAt(
+    subject: Subject,
+    request: AccessRequest,
+    now: number
+  ): number | undefined {
+    const bounds: Array<number | undefined> = [];
+
+    for (const assignment of subject.scopedRoles ?? []) {
+      if (assignmentMatchesScope(assignment, request.scope)) {
+        bounds.push(getNextBound(assignment, now));
+      }
+    }
+
+    const roleNames = getAssignedRoles(subject, request.scope, now);
+    const permissions = this.getIndexedPermissions(
+      this.getRolesKey(roleNames),
+      roleNames
+    );
+    for (const permission of permissions) {
+      if (hasValidity(permission) && matchesRequest(permission, request)) {
+        bounds.push(getNextBound(permission, now));
+      }
+    }
+
+    const upcoming = bounds.filter((b): b is number => b !== undefined);
+    return upcoming.length > 0 ? Math.min(...upcoming) : undefined;
+  }
+
+  private buildRequest(
+    action: string,
+    resource: string,
+    options: IntrospectionOptions
+  ): AccessRequest {
+    return {
+      action,
+      resource,
+      ...(options.resourceData !== undefined && {
+        resourceData: options.resourceData,
+      }),
+      ...(options.environment !== undefined && {
+        environment: options.environment,
+      }),
+      ...(options.scope !== undefined && { scope: options.scope }),
+    };
+  }
+
+  private partition(
+    candidates: string[],
+    check: (candidate: string) => boolean
+  ): PermittedSet {
+    const result: PermittedSet = { granted: [], denied: [] };
+
+    for (const candidate of candidates) {
+      (check(candidate) ? result.granted : result.denied).push(candidate);
+    }
+
+    return result;
+  }
+
+  /**
+   * Roles assigned to the subject in a scope, with their inherited
+   * permissions.
+   */
+  private resolveSubjectRoles(
+    subject: Subject,
+    scope: string | undefined,
+    now: number
+  ): ResolvedRoles {
+    const roleNames = getAssignedRoles(subject, scope, now);
+    const rolesKey = this.getRolesKey(roleNames);
+    return {
+      rolesKey,
+      permissions: this.getIndexedPermissions(rolesKey, roleNames),
+    };
+  }
+
+  /**
+   * Role sets are order-insensitive: the resolved permissions are the same.
+   */
+  private getRolesKey(roleNames: string[]): string {
+    return JSON.stringify([...roleNames].sort());
+  }
+
+  private getIndexedPermissions(
+    rolesKey: string,
+    roleNames: string[]
+  ): Permission[] {
+    const indexed = this.permissionIndex.get(rolesKey);
+    if (indexed) {
+      return indexed;
+    }
+
+    const permissions = this.collectPermissions(
+      resolveRoles(roleNames, this.policy)
+    );
+    this.remember(this.permissionIndex, rolesKey, permissions);
+    return permissions;
+  }
+
+  /**
+   * Stores an entry, evicting the oldest one when the cache is full.
+   */
+  private remember<T>(cache: Map<string, T>, key: string, value: T): void {
+    if (this.cacheSize <= 0) {
+      return;
+    }
+
+    if (cache.size >= this.cacheSize) {
+      const oldest = cache.keys().next();
+      if (!oldest.done) {
+        cache.delete(oldest.value);
+      }
+    }
+
+    cache.set(key, value);
+  }
+
   private collectPermissions(roleNames: string[]): Permission[] {
     const permissions: Permission[] = [];
 
     for (const roleName of roleNames) {
-      const role = this.policy.roles.find((r) => r.name === roleName);
+      const role = this.roleIndex.get(roleName);
       if (role) {
         permissions.push(...role.permissions);
       }
@@ -163,6 +710,40 @@ export class RbacEngine {
       throw new RbacError('Subject.roles must be an array', 'INVALID_SUBJECT');
     }
 
+    if (
+      subject.scopedRoles !== undefined &&
+      (!Array.isArray(subject.scopedRoles) ||
+        !subject.scopedRoles.every(
+          (a) =>
+            a &&
+            (a.scope === undefined || typeof a.scope === 'string') &&
+            Array.isArray(a.roles)
+        ))
+    ) {
+      throw new RbacError(
+        'Subject.scopedRoles must be an array of { scope, roles }',
+        'INVALID_SUBJECT'
+      );
+    }
+
+    // An unparsable bound would otherwise leave the assignment active
+    subject.scopedRoles?.forEach((assignment, i) => {
+      const [issue] = collectValidityIssues(
+        { ...assignment },
+        `Subject.scopedRoles[${i}]`
+      );
+      if (issue) {
+        throw new RbacError(
+          `${issue.path} ${issue.message}`,
+          'INVALID_SUBJECT'
+        );
+      }
+    });
+
+    if (request.scope !== undefined && typeof request.scope !== 'string') {
+      throw new RbacError('Request.scope must be a string', 'INVALID_REQUEST');
+    }
+
     if (typeof request.action !== 'string') {
       throw new RbacError('Request.action must be a string', 'INVALID_REQUEST');
     }
@@ -176,14 +757,57 @@ export class RbacEngine {
   }
 }
 
+function describeDecision(
+  granted: boolean,
+  request: AccessRequest,
+  decidedBy: PermissionTrace | undefined
+): string {
+  const base = `${granted ? 'Access granted' : 'Access denied'} for ${
+    request.action
+  } on ${request.resource}`;
+
+  if (!decidedBy) {
+    return `${base}: no matching permission`;
+  }
+
+  const { permission, role } = decidedBy;
+  return `${base} by ${permission.effect ?? 'allow'} ${permission.action} on ${
+    permission.resource
+  } from role "${role}"`;
+}
+
+/**
+ * Denial message of a denied decision: the deciding deny's message, else the
+ * message of the first matched allow that did not apply (failed or threw
+ * its condition, or is outside its validity window).
+ */
+function findDenialMessage(trace: AccessTrace): string | undefined {
+  if (trace.decidedBy?.permission.effect === 'deny') {
+    return trace.decidedBy.permission.message;
+  }
+
+  return trace.candidates.find(
+    ({ permission, matched, condition }) =>
+      matched &&
+      permission.effect !== 'deny' &&
+      permission.message !== undefined &&
+      condition !== 'none' &&
+      condition !== 'passed'
+  )?.permission.message;
+}
+
 /**
  * Factory function to create an RBAC engine.
  *
  * @param policy - RBAC policy
+ * @param options - Engine options
  * @returns RBAC engine instance
  * @throws {CircularRoleError} If circular role inheritance detected
  * @throws {InvalidPermissionError} If permission is malformed
  */
-export function createRbacEngine(policy: RbacPolicy): RbacEngine {
-  return new RbacEngine(policy);
+export function createRbacEngine(
+  policy: RbacPolicy,
+  options?: RbacEngineOptions
+): RbacEngine {
+  return new RbacEngine(policy, options);
 }
@@ -0,0 +1,154 @@
+/**
+ * Role Graph
+ *
+ * Exports the role inheritance graph of a policy, with the effective
+ * permissions of every role, as data, JSON, Graphviz DOT or Mermaid.
+ */
+
+import { resolveRolePermissions } from './role-resolver';
+import { hasValidity } from './validity';
+import type { Permission, RbacPolicy, RoleGraph, RoleGraphNode } from './types';
+
+/**
+ * Builds the role inheritance graph of a policy.
+ *
+ * @param policy - Policy to export
+ * @returns Nodes with own and effective permissions, and inheritance edges
+ * @throws {CircularRoleError} If circular role inheritance is detected
+ */
+export function buildRoleGraph(policy: RbacPolicy): RoleGraph {
+  const defined = new Set(policy.roles.map((role) => role.name));
+  const nodes: RoleGraphNode[] = policy.roles.map((role) => ({
+    name: role.name,
+    permissions: role.permissions,
+    effectivePermissions: resolveRolePermissions(role.name, policy),
+  }));
+  const edges: RoleGraph['edges'] = [];
+
+  for (const role of policy.roles) {
+    for (const parent of role.inherits ?? []) {
+      edges.push({ from: role.name, to: parent });
+
+      if (!defined.has(parent)) {
+        defined.add(parent);
+        nodes.push({
+          name: parent,
+          permissions: [],
+          effectivePermissions: [],
+          missing: true,
+        });
+      }
+    }
+  }
+
+  return { nodes, edges };
+}
+
+/**
+ * Formats a permission as a one-line label
+ * (e.g. 'allow read booking', 'deny delete * (conditional)').
+ *
+ * @param permission - Permission to format
+ * @returns Effect, action and resource, with conditional / time-bounded markers
+ */
+export function formatPermission(permission: Permission): string {
+  const markers = [
+    ...(permission.condition !== undefined ? ['conditional'] : []),
+    ...(hasValidity(permission) ? ['time-bounded'] : []),
+  ];
+
+  return (
+    `${permission.effect ?? 'allow'} ${permission.action} ${
+      permission.resource
+    }` + (markers.length > 0 ? ` (${markers.join(', ')})` : '')
+  );
+}
+
+/**
+ * Serializes a role graph to JSON.
+ * Condition functions cannot be serialized and are written as "function";
+ * condition expressions are kept as is.
+ *
+ * @param graph - Graph to serialize
+ * @param space - Indentation, as in JSON.stringify
+ * @returns JSON text
+ */
+export function roleGraphToJson(graph: RoleGraph, space?: number): string {
+  return JSON.stringify(
+    graph,
+    (key, value: unknown) =>
+      key === 'condition' && typeof value === 'function' ? 'function' : value,
+    space
+  );
+}
+
+/**
+ * Serializes a role graph to Graphviz DOT.
+ * Arrows point from a role to the roles it inherits; each node lists the
+ * role's own permissions. Missing roles are dashed.
+ *
+ * @param graph - Graph to serialize
+ * @returns DOT source (render with `dot -Tsvg`)
+ */
+export function roleGraphToDot(graph: RoleGraph): string {
+  const lines = ['digraph roles {', '  rankdir=BT;', '  node [shape=box];'];
+
+  for (const node of graph.nodes) {
+    const label = [node.name, ...node.permissions.map(formatPermission)]
+      .map(escapeDot)
+      .join('\\n');
+    const style = node.missing ? ', style=dashed' : '';
+    lines.push(`  "${escapeDot(node.name)}" [label="${label}"${style}];`);
+  }
+
+  for (const edge of graph.edges) {
+    lines.push(`  "${escapeDot(edge.from)}" -> "${escapeDot(edge.to)}";`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Serializes a role graph to a Mermaid flowchart.
+ * Arrows point from a role to the roles it inherits; each node lists the
+ * role's own permissions. Missing roles are dashed.
+ *
+ * @param graph - Graph to serialize
+ * @returns Mermaid source
+ */
+export function roleGraphToMermaid(graph: RoleGraph): string {
+  const ids = new Map(
+    graph.nodes.map((node, index) => [node.name, `r${index}`])
+  );
+  const lines = ['flowchart BT'];
+
+  for (const node of graph.nodes) {
+    const label = [node.name, ...node.permissions.map(formatPermission)]
+      .map(escapeMermaid)
+      .join('<br/>');
+    lines.push(`  ${ids.get(node.name)}["${label}"]`);
+  }
+
+  for (const edge of graph.edges) {
+    lines.push(`  ${ids.get(edge.from)} --> ${ids.get(edge.to)}`);
+  }
+
+  const missing = graph.nodes.filter((node) => node.missing);
+  if (missing.length > 0) {
+    lines.push('  classDef missing stroke-dasharray: 5 5');
+    lines.push(
+      `  class ${missing.map((node) => ids.get(node.name)).join(',')} missing`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+function escapeDot(value: string): string {
+  return value.replace(/["\\]/g, '\\$&');
+}
+
+function escapeMermaid(value: string): string {
+  return value.replace(/"/g, '#quot;');
+}
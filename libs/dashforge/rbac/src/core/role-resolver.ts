@@ -5,7 +5,7 @@
  */
 
 import { CircularRoleError } from './errors';
-import type { RbacPolicy } from './types';
+import type { PermissionRef, RbacPolicy, ResolvedRole } from './types';
 
 /**
  * Resolves role names with inheritance, detecting circular dependencies.
@@ -19,7 +19,24 @@ export function resolveRoles(
   roleNames: string[],
   policy: RbacPolicy
 ): string[] {
-  const result: string[] = [];
+  return resolveRoleChain(roleNames, policy).map((role) => role.name);
+}
+
+/**
+ * Resolves role names with inheritance, keeping the chain each role was reached by.
+ * Order and deduplication match resolveRoles(): a role reached twice keeps
+ * the path of its first visit.
+ *
+ * @param roleNames - Initial role names to resolve
+ * @param policy - RBAC policy containing role definitions
+ * @returns Unique resolved roles with their inheritance path
+ * @throws {CircularRoleError} If circular inheritance is detected
+ */
+export function resolveRoleChain(
+  roleNames: string[],
+  policy: RbacPolicy
+): ResolvedRole[] {
+  const result: ResolvedRole[] = [];
   const visited = new Set<string>();
 
   function resolve(currentRoleName: string, stack: string[]): void {
@@ -36,11 +53,12 @@ export function resolveRoles(
       return;
     }
 
+    const newStack = [...stack, currentRoleName];
+
     visited.add(currentRoleName);
-    result.push(currentRoleName);
+    result.push({ name: currentRoleName, path: newStack });
 
     if (role.inherits) {
-      const newStack = [...stack, currentRoleName];
       for (const inheritedRoleName of role.inherits) {
         resolve(inheritedRoleName, newStack);
       }
@@ -53,3 +71,29 @@ export function resolveRoles(
 
   return result;
 }
+
+/**
+ * Collects the permissions of a role and every role it inherits,
+ * in resolution order, with the role that declares each one.
+ *
+ * @param roleName - Role to resolve
+ * @param policy - RBAC policy containing role definitions
+ * @returns Effective permissions (empty for an undefined role)
+ * @throws {CircularRoleError} If circular inheritance is detected
+ */
+export function resolveRolePermissions(
+  roleName: string,
+  policy: RbacPolicy
+): PermissionRef[] {
+  const refs: PermissionRef[] = [];
+
+  for (const { name } of resolveRoleChain([roleName], policy)) {
+    const role = policy.roles.find((r) => r.name === name);
+
+    role?.permissions.forEach((permission, index) => {
+      refs.push({ role: name, index, permission });
+    });
+  }
+
+  return refs;
+}
@@ -0,0 +1,80 @@
+/**
+ * Scope Resolver
+ *
+ * Resolves which role assignments of a subject apply to a request scope.
+ * Subject.roles always apply; a scoped assignment applies when its scope
+ * matches the request scope (glob patterns allowed, see pattern-matcher),
+ * or always when it has no scope, and only within its validity window.
+ */
+
+import { matchPattern } from './pattern-matcher';
+import { isValidAt } from './validity';
+import type { AccessRequest, ScopedRoleAssignment, Subject } from './types';
+
+/**
+ * Checks whether an assignment's scope covers a request scope.
+ * An assignment without scope covers every request; a scoped one never
+ * covers an unscoped request.
+ */
+export function assignmentMatchesScope(
+  assignment: ScopedRoleAssignment,
+  scope: string | undefined
+): boolean {
+  if (assignment.scope === undefined) {
+    return true;
+  }
+
+  return scope !== undefined && matchPattern(assignment.scope, scope);
+}
+
+/**
+ * Returns the roles assigned to a subject within a scope.
+ * Global roles come first, then scoped roles in assignment order, without duplicates.
+ *
+ * @param subject - Subject with global and scoped role assignments
+ * @param scope - Active scope (undefined: global roles and unscoped assignments)
+ * @param now - Evaluation time in epoch milliseconds (default: Date.now())
+ * @returns Assigned role names (before inheritance)
+ */
+export function getAssignedRoles(
+  subject: Subject,
+  scope: string | undefined,
+  now = Date.now()
+): string[] {
+  if (!subject.scopedRoles?.length) {
+    return subject.roles;
+  }
+
+  const roles = new Set(subject.roles);
+
+  for (const assignment of subject.scopedRoles) {
+    if (
+      assignmentMatchesScope(assignment, scope) &&
+      isValidAt(assignment, now)
+    ) {
+      for (const role of assignment.roles) {
+        roles.add(role);
+      }
+    }
+  }
+
+  return [...roles];
+}
+
+/**
+ * Applies a default scope to a request that does not name one.
+ *
+ * @param request - Access request
+ * @param scope - Default scope (e.g. RbacProvider's active scope)
+ * @returns The request, scoped when it had no scope of its own
+ */
+export function withScope(
+  request: AccessRequest,
+  scope: string | undefined
+): AccessRequest {
+  if (scope === undefined || request.scope !== undefined) {
+    return request;
+  }
+
+  return { ...request, scope };
+}
@@ -7,18 +7,55 @@
 
 /**
  * Subject represents the actor requesting access.
+ * roles apply everywhere; scopedRoles only apply to requests in a matching scope
+ * (or everywhere when the assignment has no scope) and within their validity window.
  */
 export interface Subject {
   id: string;
   roles: string[];
+  scopedRoles?: ScopedRoleAssignment[];
   attributes?: Record<string, unknown>;
 }
 
+/**
+ * Point in time: a Date, epoch milliseconds or an ISO 8601 string.
+ */
+export type Timestamp = Date | number | string;
+
+/**
+ * Validity window of a permission or role assignment.
+ * validFrom is inclusive, validUntil exclusive; either bound may be omitted.
+ */
+export interface Validity {
+  validFrom?: Timestamp;
+  validUntil?: Timestamp;
+}
+
+/**
+ * ScopedRoleAssignment grants roles within a scope (tenant, organization, project).
+ * scope is matched against AccessRequest.scope and may be a pattern
+ * (e.g. 'org:acme/**' covers every project of the organization).
+ * Without a scope the assignment applies everywhere, like Subject.roles,
+ * which is how temporary global grants are expressed.
+ */
+export interface ScopedRoleAssignment extends Validity {
+  scope?: string;
+  roles: string[];
+}
+
 /**
  * Permission effect determines whether a permission grants or denies access.
  */
 export type PermissionEffect = 'allow' | 'deny';
 
+/**
+ * How overlapping allow and deny permissions are decided.
+ * - 'deny-overrides': any applicable deny wins
+ * - 'most-specific': only the most specific applicable permissions
+ *   decide; among them, deny wins
+ */
+export type PrecedenceRule = 'deny-overrides' | 'most-specific';
+
 /**
  * Context passed to condition functions.
  */
@@ -35,14 +72,121 @@ export interface ConditionContext {
  */
 export type ConditionFunction = (context: ConditionContext) => boolean;
 
+/**
+ * Literal value usable in a condition expression.
+ */
+export type ConditionLiteral =
+  | string
+  | number
+  | boolean
+  | null
+  | Array<string | number | boolean | null>;
+
+/**
+ * Operand of a comparison.
+ * ref is a dotted path rooted at `subject`, `resourceData` or `environment`
+ * (e.g. 'subject.attributes.department', 'resourceData.ownerId').
+ */
+export type ConditionOperand = { ref: string } | { value: ConditionLiteral };
+
+/**
+ * Comparison operators for condition expressions.
+ */
+export type ComparisonOperator =
+  | 'eq'
+  | 'ne'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in';
+
+/**
+ * Compares two operands.
+ * 'in' checks that left is contained in right (right must be an array).
+ */
+export interface ComparisonExpression {
+  op: ComparisonOperator;
+  left: ConditionOperand;
+  right: ConditionOperand;
+}
+
+/**
+ * Combines expressions. 'and' of no conditions is true, 'or' of none is false.
+ */
+export interface LogicalExpression {
+  op: 'and' | 'or';
+  conditions: ConditionExpression[];
+}
+
+/**
+ * Negates an expression.
+ */
+export interface NotExpression {
+  op: 'not';
+  condition: ConditionExpression;
+}
+
+/**
+ * Holds when the subject owns the resource: subject.id matches
+ * resourceData at field, a dotted path (default 'ownerId').
+ */
+export interface OwnerExpression {
+  op: 'owner';
+  field?: string;
+}
+
+/**
+ * Holds when a subject attribute matches a resource field (same team,
+ * same tenant): subject.attributes at attribute matches resourceData at
+ * field. Both are dotted paths; field defaults to attribute.
+ */
+export interface SameAttributeExpression {
+  op: 'same';
+  attribute: string;
+  field?: string;
+}
+
+/**
+ * Relationship between the subject and the resource.
+ * Values match when equal, or when either is an array, when they share
+ * an element (a subject in several teams, a resource with several owners).
+ * A missing or null value on either side never matches.
+ */
+export type RelationExpression = OwnerExpression | SameAttributeExpression;
+
+/**
+ * JSON-serializable condition, interpreted by the condition evaluator.
+ * Unlike ConditionFunction it can be stored, shipped from a backend and diffed.
+ */
+export type ConditionExpression =
+  | ComparisonExpression
+  | LogicalExpression
+  | NotExpression
+  | RelationExpression;
+
+/**
+ * A problem found while validating a policy or one of its parts.
+ * path locates the offending node (e.g. 'roles[0].permissions[1].condition.op').
+ */
+export interface PolicyIssue {
+  path: string;
+  message: string;
+}
+
 /**
  * Permission defines a single access rule.
+ * Outside its validity window a permission is ignored, as if absent.
+ * message is a human-readable denial reason, reported when the permission
+ * denies access: a deny that decides, or an allow that matched but whose
+ * condition failed or whose validity window is not open.
  */
-export interface Permission {
+export interface Permission extends Validity {
   action: string;
   resource: string;
   effect?: PermissionEffect;
-  condition?: ConditionFunction;
+  condition?: ConditionFunction | ConditionExpression;
+  message?: string;
 }
 
 /**
@@ -69,13 +213,243 @@ export interface AccessRequest {
   resource: string;
   resourceData?: unknown;
   environment?: Record<string, unknown>;
+  /**
+   * Active scope (tenant, organization, project).
+   * Without a scope only Subject.roles apply.
+   */
+  scope?: string;
+}
+
+/**
+ * ResolvedRole is a role reached while resolving a subject's roles.
+ * path is the inheritance chain from the assigned role to this role
+ * (an assigned role has a path of one).
+ */
+export interface ResolvedRole {
+  name: string;
+  path: string[];
+}
+
+/**
+ * Outcome of a permission condition.
+ * 'none' means the permission has no condition.
+ */
+export type ConditionOutcome = 'none' | 'passed' | 'failed' | 'threw';
+
+/**
+ * Position of the evaluation time relative to a validity window.
+ */
+export type ValidityStatus = 'pending' | 'active' | 'expired';
+
+/**
+ * PermissionTrace records how one candidate permission was evaluated.
+ * condition is only present when the permission matched the request and
+ * is within its validity window; validity is only present when the
+ * permission has a window.
+ */
+export interface PermissionTrace {
+  role: string;
+  permission: Permission;
+  matched: boolean;
+  validity?: ValidityStatus;
+  condition?: ConditionOutcome;
+  error?: unknown;
+}
+
+/**
+ * AccessTrace explains an access decision.
+ * candidates lists every permission of the resolved roles, in role order.
+ * applied lists matched permissions whose condition passed, most specific first.
+ * decidedBy is the permission that won precedence (absent on default deny).
+ */
+export interface AccessTrace {
+  roles: ResolvedRole[];
+  candidates: PermissionTrace[];
+  applied: PermissionTrace[];
+  decidedBy?: PermissionTrace;
 }
 
 /**
  * AccessDecision contains the result of an access evaluation.
  * reason is for debugging and is not guaranteed to be present.
+ * trace is only present when the engine is created with tracing enabled.
+ * expiresAt (epoch milliseconds) is the next validity bound of a matching
+ * permission or role assignment: the decision may change at that time.
+ * It is absent when no time bound applies.
+ * message is the policy's human-readable denial reason (see
+ * Permission.message), only present on denied decisions.
  */
 export interface AccessDecision {
   granted: boolean;
   reason?: string;
+  trace?: AccessTrace;
+  expiresAt?: number;
+  message?: string;
+}
+
+/**
+ * Options for permission introspection (getPermittedActions / getPermittedResources).
+ * candidates overrides the values checked; by default every literal
+ * (wildcard-free) action or resource named in the policy is checked.
+ * resourceData, environment and scope are used as in AccessRequest.
+ */
+export interface IntrospectionOptions {
+  candidates?: string[];
+  resourceData?: unknown;
+  environment?: Record<string, unknown>;
+  scope?: string;
+}
+
+/**
+ * Result of permission introspection.
+ * granted and denied partition the checked candidates, in candidate order.
+ */
+export interface PermittedSet {
+  granted: string[];
+  denied: string[];
+}
+
+/**
+ * One audited access decision.
+ * permission is the permission that decided it, absent on default deny.
+ * timestamp is the engine clock at evaluation time (epoch milliseconds).
+ */
+export interface AuditEvent {
+  subjectId: string;
+  request: AccessRequest;
+  granted: boolean;
+  permission?: Permission;
+  timestamp: number;
+}
+
+/**
+ * Receives audited decisions. Called synchronously during can() /
+ * evaluate(), so it should only queue the event (see createAuditBatcher).
+ */
+export type AuditSink = (event: AuditEvent) => void;
+
+/**
+ * Audit configuration of an RbacEngine.
+ * resources restricts auditing to matching request resources (glob
+ * patterns, see pattern-matcher); filter runs next, then sampleRate keeps
+ * that fraction of the remaining events (0 to 1, default 1).
+ */
+export interface AuditOptions {
+  sink: AuditSink;
+  resources?: string[];
+  filter?: (event: AuditEvent) => boolean;
+  sampleRate?: number;
+}
+
+/**
+ * Kind of policy analysis finding.
+ * - 'shadowed': a broader unconditional permission with the same effect
+ *   always applies as well, so the permission never changes a decision
+ * - 'overridden': an allow always defeated by an unconditional deny of
+ *   the same role or an inherited one
+ * - 'unused-role': a role neither assigned nor inherited by an assigned role
+ */
+export type PolicyFindingKind = 'shadowed' | 'overridden' | 'unused-role';
+
+/**
+ * A permission located in a policy.
+ */
+export interface PermissionRef {
+  role: string;
+  index: number;
+  permission: Permission;
+}
+
+/**
+ * A problem found by static policy analysis.
+ * path locates the offending node ('roles[2].permissions[0]' or 'roles[3]').
+ * permission and cause are absent on 'unused-role' findings; cause is
+ * the permission that shadows or overrides.
+ */
+export interface PolicyFinding {
+  kind: PolicyFindingKind;
+  path: string;
+  role: string;
+  message: string;
+  permission?: Permission;
+  cause?: PermissionRef;
+}
+
+/**
+ * Options for analyzePolicy().
+ * assignedRoles lists the roles given to subjects (Subject.roles and
+ * scoped assignments). Unused roles are only reported when it is set.
+ */
+export interface PolicyAnalysisOptions {
+  assignedRoles?: string[];
+}
+
+/**
+ * Static access level of a role on an action and resource.
+ * 'conditional' means the outcome depends on conditions or validity windows.
+ */
+export type AccessLevel = 'granted' | 'conditional' | 'denied';
+
+/**
+ * Access of a role that differs between two policy versions.
+ * 'gained' when the level after is more permissive, 'lost' otherwise.
+ */
+export interface PolicyChange {
+  role: string;
+  action: string;
+  resource: string;
+  before: AccessLevel;
+  after: AccessLevel;
+  change: 'gained' | 'lost';
+}
+
+/**
+ * Differences between two policy versions.
+ * changes follows role order (roles of the earlier version first),
+ * then action and resource order.
+ */
+export interface PolicyDiff {
+  addedRoles: string[];
+  removedRoles: string[];
+  changes: PolicyChange[];
+}
+
+/**
+ * Options for diffPolicies().
+ * actions and resources override the values compared; by default every
+ * literal (wildcard-free) action and resource named in either policy is used.
+ */
+export interface PolicyDiffOptions {
+  actions?: string[];
+  resources?: string[];
+}
+
+/**
+ * A role in the inheritance graph.
+ * permissions are the role's own; effectivePermissions adds every inherited
+ * permission, in resolution order, with the role that declares it.
+ * missing marks a role named in `inherits` but not defined by the policy.
+ */
+export interface RoleGraphNode {
+  name: string;
+  permissions: Permission[];
+  effectivePermissions: PermissionRef[];
+  missing?: boolean;
+}
+
+/**
+ * Inheritance edge: from inherits to.
+ */
+export interface RoleGraphEdge {
+  from: string;
+  to: string;
+}
+
+/**
+ * Role inheritance graph of a policy.
+ * nodes follow policy order, followed by missing roles.
+ */
+export interface RoleGraph {
+  nodes: RoleGraphNode[];
+  edges: RoleGraphEdge[];
 }
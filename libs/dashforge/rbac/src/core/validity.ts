@@ -0,0 +1,86 @@
+/**
+ * Validity
+ *
+ * Time windows (validFrom / validUntil) of permissions and role assignments.
+ * Times are compared as epoch milliseconds supplied by the engine clock.
+ */
+
+import type { Timestamp, Validity, ValidityStatus } from './types';
+
+/**
+ * Converts a timestamp to epoch milliseconds.
+ *
+ * @param timestamp - Date, epoch milliseconds or ISO 8601 string
+ * @returns Epoch milliseconds (NaN when the timestamp is invalid)
+ */
+export function toEpochMs(timestamp: Timestamp): number {
+  if (timestamp instanceof Date) {
+    return timestamp.getTime();
+  }
+
+  return typeof timestamp === 'number' ? timestamp : Date.parse(timestamp);
+}
+
+/**
+ * Checks whether a permission or assignment declares a validity window.
+ */
+export function hasValidity(validity: Validity): boolean {
+  return validity.validFrom !== undefined || validity.validUntil !== undefined;
+}
+
+/**
+ * Locates a time within a validity window.
+ * validFrom is inclusive, validUntil exclusive.
+ *
+ * @param validity - Window to check
+ * @param now - Epoch milliseconds
+ * @returns 'pending' before the window, 'expired' after it, 'active' otherwise
+ */
+export function getValidityStatus(
+  validity: Validity,
+  now: number
+): ValidityStatus {
+  if (validity.validFrom !== undefined && now < toEpochMs(validity.validFrom)) {
+    return 'pending';
+  }
+
+  if (
+    validity.validUntil !== undefined &&
+    now >= toEpochMs(validity.validUntil)
+  ) {
+    return 'expired';
+  }
+
+  return 'active';
+}
+
+/**
+ * Checks whether a time is within a validity window.
+ */
+export function isValidAt(validity: Validity, now: number): boolean {
+  return getValidityStatus(validity, now) === 'active';
+}
+
+/**
+ * Returns the next bound of a window after a time: validFrom while pending,
+ * validUntil while active, nothing once expired or unbounded.
+ *
+ * @param validity - Window to check
+ * @param now - Epoch milliseconds
+ * @returns Epoch milliseconds of the next bound, if any
+ */
+export function getNextBound(
+  validity: Validity,
+  now: number
+): number | undefined {
+  for (const bound of [validity.validFrom, validity.validUntil]) {
+    if (bound !== undefined) {
+      const time = toEpochMs(bound);
+      if (time > now) {
+        return time;
+      }
+    }
+  }
+
+  return undefined;
+}
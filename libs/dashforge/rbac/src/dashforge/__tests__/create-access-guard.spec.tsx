@@ -7,7 +7,7 @@
  */
 
 import { describe, it, expect, vi } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { render, screen, waitFor } from '@testing-library/react';
 import React from 'react';
 import { createAccessGuard } from '../create-access-guard';
 import { RbacProvider } from '../../react/RbacProvider';
@@ -466,4 +466,75 @@ describe('createAccessGuard', () => {
       expect(screen.getByText('Nested Section')).toBeDefined();
     });
   });
+
+  describe('async loading', () => {
+    it('should render config loading until the policy is ready', async () => {
+      const Guard = createAccessGuard({
+        access: { action: 'read', resource: 'page' },
+        fallback: <div>Denied</div>,
+        loading: <div>Loading</div>,
+      });
+
+      render(
+        <RbacProvider
+          policy={Promise.resolve(createPolicy('read'))}
+          subject={createSubject('user')}
+        >
+          <Guard>
+            <div>Protected Content</div>
+          </Guard>
+        </RbacProvider>
+      );
+
+      expect(screen.getByText('Loading')).toBeDefined();
+      expect(screen.queryByText('Denied')).toBeNull();
+
+      await waitFor(() => {
+        expect(screen.getByText('Protected Content')).toBeDefined();
+      });
+    });
+
+    it('should prefer the loading prop over config loading', () => {
+      const Guard = createAccessGuard({
+        access: { action: 'read', resource: 'page' },
+        loading: <div>Config Loading</div>,
+      });
+
+      render(
+        <RbacProvider
+          policy={new Promise<RbacPolicy>(() => undefined)}
+          subject={createSubject('user')}
+        >
+          <Guard loading={<div>Prop Loading</div>}>
+            <div>Protected Content</div>
+          </Guard>
+        </RbacProvider>
+      );
+
+      expect(screen.getByText('Prop Loading')).toBeDefined();
+    });
+
+    it('should render fallback when loading fails', async () => {
+      const Guard = createAccessGuard({
+        access: { action: 'read', resource: 'page' },
+        fallback: <div>Denied</div>,
+        loading: <div>Loading</div>,
+      });
+
+      render(
+        <RbacProvider
+          policy={() => Promise.reject(new Error('network'))}
+          subject={createSubject('user')}
+        >
+          <Guard>
+            <div>Protected Content</div>
+          </Guard>
+        </RbacProvider>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByText('Denied')).toBeDefined();
+      });
+    });
+  });
 });
@@ -0,0 +1,195 @@
+/**
+ * Tests for createRouteElements() and useRouteTree()
+ *
+ * Guarded, router-agnostic route elements derived from a RouteNode tree.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { render, renderHook, screen } from '@testing-library/react';
+import React from 'react';
+import { createRouteElements } from '../create-route-elements';
+import { useRouteTree } from '../use-route-tree';
+import { RbacProvider } from '../../react/RbacProvider';
+import type { RouteElement, RouteNode } from '../types';
+import type { RbacPolicy, Subject } from '../../core/types';
+
+describe('createRouteElements', () => {
+  const policy: RbacPolicy = {
+    roles: [
+      {
+        name: 'user',
+        permissions: [
+          { action: 'read', resource: 'booking' },
+          { action: 'read', resource: 'user' },
+        ],
+      },
+    ],
+  };
+
+  const subject: Subject = { id: 'u1', roles: ['user'] };
+
+  const routes: RouteNode[] = [
+    {
+      id: 'bookings',
+      path: 'bookings',
+      label: 'Bookings',
+      access: { action: 'read', resource: 'booking' },
+      element: <div>Bookings page</div>,
+    },
+    {
+      id: 'admin',
+      path: 'admin',
+      label: 'Admin',
+      access: { action: 'manage', resource: 'settings' },
+      children: [
+        {
+          id: 'users',
+          path: 'users',
+          label: 'Users',
+          access: { action: 'read', resource: 'user' },
+          element: <div>Users page</div>,
+          fallback: <div>Ask an admin</div>,
+        },
+      ],
+    },
+  ];
+
+  function renderRoute(route: RouteElement | undefined) {
+    return render(
+      <RbacProvider policy={policy} subject={subject}>
+        {route?.element}
+      </RbacProvider>
+    );
+  }
+
+  it('should flatten routes with elements and absolute paths', () => {
+    const elements = createRouteElements(routes);
+
+    expect(elements.map(({ id, path }) => ({ id, path }))).toEqual([
+      { id: 'bookings', path: '/bookings' },
+      { id: 'users', path: '/admin/users' },
+    ]);
+  });
+
+  it('should collect ancestor access first', () => {
+    const [, users] = createRouteElements(routes);
+
+    expect(users?.access).toEqual([
+      { action: 'manage', resource: 'settings' },
+      { action: 'read', resource: 'user' },
+    ]);
+  });
+
+  it('should render the element when access is granted', () => {
+    renderRoute(createRouteElements(routes)[0]);
+
+    expect(screen.getByText('Bookings page')).toBeDefined();
+  });
+
+  it('should deny a route when an ancestor is denied', () => {
+    renderRoute(createRouteElements(routes)[1]);
+
+    expect(screen.queryByText('Users page')).toBeNull();
+    expect(screen.getByText('Ask an admin')).toBeDefined();
+  });
+
+  it('should use the config fallback by default', () => {
+    const denied: RouteNode[] = [
+      {
+        id: 'settings',
+        path: 'settings',
+        label: 'Settings',
+        access: { action: 'manage', resource: 'settings' },
+        element: <div>Settings page</div>,
+      },
+    ];
+
+    renderRoute(
+      createRouteElements(denied, { fallback: <div>Not allowed</div> })[0]
+    );
+
+    expect(screen.getByText('Not allowed')).toBeDefined();
+  });
+
+  it('should render loading while the provider is loading', () => {
+    const [bookings] = createRouteElements(routes, {
+      loading: <div>Loading...</div>,
+      fallback: <div>Not allowed</div>,
+    });
+
+    render(
+      <RbacProvider
+        policy={new Promise<RbacPolicy>(() => undefined)}
+        subject={subject}
+      >
+        {bookings?.element}
+      </RbacProvider>
+    );
+
+    expect(screen.getByText('Loading...')).toBeDefined();
+    expect(screen.queryByText('Not allowed')).toBeNull();
+  });
+});
+
+describe('useRouteTree', () => {
+  const policy: RbacPolicy = {
+    roles: [
+      {
+        name: 'user',
+        permissions: [{ action: 'read', resource: 'booking' }],
+      },
+    ],
+  };
+
+  const subject: Subject = { id: 'u1', roles: ['user'] };
+
+  const routes: RouteNode[] = [
+    {
+      id: 'bookings',
+      path: 'bookings',
+      label: 'Bookings',
+      access: { action: 'read', resource: 'booking' },
+      element: <div>Bookings page</div>,
+    },
+    {
+      id: 'settings',
+      path: 'settings',
+      label: 'Settings',
+      access: { action: 'manage', resource: 'settings' },
+      element: <div>Settings page</div>,
+    },
+  ];
+
+  function wrapper({ children }: { children: React.ReactNode }) {
+    return (
+      <RbacProvider policy={policy} subject={subject}>
+        {children}
+      </RbacProvider>
+    );
+  }
+
+  it('should derive elements, navigation and breadcrumbs', () => {
+    const { result } = renderHook(() => useRouteTree(routes), { wrapper });
+
+    expect(result.current.elements.map((e) => e.id)).toEqual([
+      'bookings',
+      'settings',
+    ]);
+    expect(result.current.navigation.map((i) => i.id)).toEqual(['bookings']);
+    expect(result.current.breadcrumbs).toEqual([
+      { id: 'bookings', label: 'Bookings', href: '/bookings' },
+    ]);
+  });
+
+  it('should keep results stable across renders', () => {
+    const { result, rerender } = renderHook(() => useRouteTree(routes), {
+      wrapper,
+    });
+    const first = result.current;
+
+    rerender();
+
+    expect(result.current.elements).toBe(first.elements);
+    expect(result.current.navigation).toBe(first.navigation);
+  });
+});
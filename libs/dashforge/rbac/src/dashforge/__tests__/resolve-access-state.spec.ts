@@ -186,6 +186,22 @@ describe('resolveAccessState', () => {
       expect(capturedRequest?.environment).toBe(environment);
     });
 
+    it('should pass scope to canCheck when provided', () => {
+      let capturedRequest: AccessRequest | undefined;
+
+      const canCheck = (request: AccessRequest): boolean => {
+        capturedRequest = request;
+        return true;
+      };
+
+      resolveAccessState(
+        { action: 'read', resource: 'document', scope: 'workspace:a' },
+        canCheck
+      );
+
+      expect(capturedRequest?.scope).toBe('workspace:a');
+    });
+
     it('should work with wildcard permissions', () => {
       const canCheck = (request: AccessRequest): boolean => {
         // Simulate wildcard matching
@@ -294,6 +310,51 @@ describe('resolveAccessState', () => {
     });
   });
 
+  describe('denial reasons', () => {
+    it('should use the requirement reason when denied', () => {
+      const result = resolveAccessState(
+        {
+          action: 'approve',
+          resource: 'booking',
+          onUnauthorized: 'disable',
+          reason: 'Only managers can approve bookings',
+        },
+        denyAccess
+      );
+
+      expect(result.reason).toBe('Only managers can approve bookings');
+    });
+
+    it('should prefer the message of the decision', () => {
+      const result = resolveAccessState(
+        {
+          action: 'approve',
+          resource: 'booking',
+          onUnauthorized: 'readonly',
+          reason: 'Only managers can approve bookings',
+        },
+        () => ({
+          granted: false,
+          reason: 'Denied by explicit deny permission',
+          message: 'Bookings over 1000 need a manager',
+        })
+      );
+
+      expect(result.readonly).toBe(true);
+      expect(result.reason).toBe('Bookings over 1000 need a manager');
+    });
+
+    it('should not set a reason when granted', () => {
+      const result = resolveAccessState(
+        { action: 'read', resource: 'booking', reason: 'Not allowed' },
+        () => ({ granted: true })
+      );
+
+      expect(result.granted).toBe(true);
+      expect(result).not.toHaveProperty('reason');
+    });
+  });
+
   describe('type safety', () => {
     it('should return AccessState with all required properties', () => {
       const requirement: AccessRequirement = {
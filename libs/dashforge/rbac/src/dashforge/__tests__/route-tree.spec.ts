@@ -0,0 +1,131 @@
+/**
+ * Tests for the route tree helpers
+ *
+ * Navigation items and breadcrumbs derived from one RouteNode tree.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  joinRoutePath,
+  toBreadcrumbTree,
+  toNavigationItems,
+} from '../route-tree';
+import type { RouteNode } from '../types';
+import type { AccessRequest } from '../../core/types';
+
+describe('joinRoutePath', () => {
+  it('should join relative paths to the parent path', () => {
+    expect(joinRoutePath('/', 'bookings')).toBe('/bookings');
+    expect(joinRoutePath('/admin', 'users')).toBe('/admin/users');
+    expect(joinRoutePath('/admin/', '/users/')).toBe('/users');
+  });
+
+  it('should resolve index routes to the parent path', () => {
+    expect(joinRoutePath('/admin', '')).toBe('/admin');
+    expect(joinRoutePath('/', '')).toBe('/');
+  });
+
+  it('should keep absolute paths', () => {
+    expect(joinRoutePath('/admin', '/home')).toBe('/home');
+  });
+});
+
+describe('route tree', () => {
+  const routes: RouteNode[] = [
+    { id: 'home', path: '', label: 'Home', icon: 'home' },
+    {
+      id: 'bookings',
+      path: 'bookings',
+      label: 'Bookings',
+      access: { action: 'read', resource: 'booking' },
+      children: [
+        {
+          id: 'booking-detail',
+          path: ':id',
+          label: 'Booking',
+          hideInNav: true,
+        },
+      ],
+    },
+    {
+      id: 'admin',
+      path: 'admin',
+      label: 'Admin',
+      access: { action: 'manage', resource: 'settings' },
+      metadata: { badge: 'new' },
+      children: [{ id: 'users', path: 'users', label: 'Users' }],
+    },
+  ];
+
+  // Grants everything except managing settings
+  const canCheck = (request: AccessRequest): boolean =>
+    request.resource !== 'settings';
+
+  describe('toNavigationItems', () => {
+    it('should derive navigation items with absolute paths', () => {
+      expect(toNavigationItems(routes, () => true)).toEqual([
+        { id: 'home', label: 'Home', path: '/', icon: 'home' },
+        {
+          id: 'bookings',
+          label: 'Bookings',
+          path: '/bookings',
+          access: { action: 'read', resource: 'booking' },
+          children: [],
+        },
+        {
+          id: 'admin',
+          label: 'Admin',
+          path: '/admin',
+          access: { action: 'manage', resource: 'settings' },
+          metadata: { badge: 'new' },
+          children: [{ id: 'users', label: 'Users', path: '/admin/users' }],
+        },
+      ]);
+    });
+
+    it('should remove denied routes with their subtree', () => {
+      expect(toNavigationItems(routes, canCheck).map((i) => i.id)).toEqual([
+        'home',
+        'bookings',
+      ]);
+    });
+
+    it('should keep routes denied with disable behavior', () => {
+      const disabled: RouteNode[] = [
+        {
+          id: 'admin',
+          path: 'admin',
+          label: 'Admin',
+          access: {
+            action: 'manage',
+            resource: 'settings',
+            onUnauthorized: 'disable',
+          },
+        },
+      ];
+
+      expect(toNavigationItems(disabled, canCheck)).toHaveLength(1);
+    });
+  });
+
+  describe('toBreadcrumbTree', () => {
+    it('should include routes hidden from navigation', () => {
+      expect(toBreadcrumbTree(routes, canCheck)).toEqual([
+        { id: 'home', label: 'Home', href: '/' },
+        {
+          id: 'bookings',
+          label: 'Bookings',
+          href: '/bookings',
+          children: [
+            { id: 'booking-detail', label: 'Booking', href: '/bookings/:id' },
+          ],
+        },
+      ]);
+    });
+
+    it('should remove denied routes with their subtree', () => {
+      const ids = toBreadcrumbTree(routes, () => false).map((n) => n.id);
+      expect(ids).toEqual(['home']);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for useAccessResolver()
+ *
+ * Access requirements resolved against the nearest RbacProvider.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import React from 'react';
+import { useAccessResolver } from '../use-access-resolver';
+import { RbacProvider } from '../../react/RbacProvider';
+import type { RbacPolicy, Subject } from '../../core/types';
+
+describe('useAccessResolver', () => {
+  const policy: RbacPolicy = {
+    roles: [
+      {
+        name: 'user',
+        permissions: [{ action: 'read', resource: 'booking' }],
+      },
+      {
+        name: 'manager',
+        permissions: [{ action: 'edit', resource: 'booking' }],
+      },
+    ],
+  };
+
+  const subject: Subject = {
+    id: 'u1',
+    roles: ['user'],
+    scopedRoles: [{ scope: 'tenant-a', roles: ['manager'] }],
+  };
+
+  function wrapper(scope?: string) {
+    return function Wrapper({ children }: { children: React.ReactNode }) {
+      return (
+        <RbacProvider
+          policy={policy}
+          subject={subject}
+          {...(scope !== undefined && { scope })}
+        >
+          {children}
+        </RbacProvider>
+      );
+    };
+  }
+
+  it('should resolve requirements for the current subject', () => {
+    const { result } = renderHook(() => useAccessResolver(), {
+      wrapper: wrapper(),
+    });
+
+    expect(result.current?.({ action: 'read', resource: 'booking' })).toEqual({
+      visible: true,
+      disabled: false,
+      readonly: false,
+      granted: true,
+    });
+    expect(
+      result.current?.({
+        action: 'edit',
+        resource: 'booking',
+        onUnauthorized: 'readonly',
+      })
+    ).toEqual({
+      visible: true,
+      disabled: false,
+      readonly: true,
+      granted: false,
+    });
+  });
+
+  it('should apply the active scope', () => {
+    const { result } = renderHook(() => useAccessResolver(), {
+      wrapper: wrapper('tenant-a'),
+    });
+
+    expect(
+      result.current?.({ action: 'edit', resource: 'booking' }).granted
+    ).toBe(true);
+  });
+
+  it('should return null without a provider', () => {
+    const { result } = renderHook(() => useAccessResolver());
+
+    expect(result.current).toBeNull();
+  });
+});
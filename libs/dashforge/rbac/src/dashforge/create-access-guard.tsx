@@ -5,6 +5,7 @@
  *
  * V1: ReactNode fallback only, no built-in redirect logic.
  * Redirect is the app/router's responsibility, not the library's.
+ * While the RbacProvider is loading, the loading node is rendered instead.
  */
 
 import React from 'react';
@@ -54,9 +55,16 @@ export function createAccessGuard(
     children,
     access,
     fallback,
+    loading,
   }: AccessGuardProps): React.ReactElement | null {
     // Get RBAC checker from context
-    const { can } = useRbac();
+    const { can, status } = useRbac();
+
+    // Policy or subject still loading - do not flash the denied state
+    if (status === 'loading') {
+      const loadingContent = loading ?? config.loading;
+      return loadingContent ? <>{loadingContent}</> : null;
+    }
 
     // Determine which requirement to use (props override config)
     const requirement = access ?? config.access;
@@ -0,0 +1,127 @@
+/**
+ * Route Elements
+ *
+ * Derives guarded, router-agnostic route elements from a RouteNode tree.
+ *
+ * V1: ReactNode fallback only, no built-in redirect logic (see createAccessGuard).
+ */
+
+import React from 'react';
+import { useRbac } from '../react/useRbac';
+import type {
+  AccessRequirement,
+  RouteElement,
+  RouteNode,
+  RouteTreeConfig,
+} from './types';
+import { resolveAccessState } from './resolve-access-state';
+import { joinRoutePath } from './route-tree';
+
+interface RouteGuardProps {
+  access: AccessRequirement[];
+  fallback: React.ReactNode;
+  loading: React.ReactNode;
+  children: React.ReactNode;
+}
+
+/**
+ * Renders children when every requirement is granted.
+ * Mirrors createAccessGuard for a chain of requirements.
+ */
+function RouteGuard({
+  access,
+  fallback,
+  loading,
+  children,
+}: RouteGuardProps): React.ReactElement | null {
+  const { can, status } = useRbac();
+
+  // Policy or subject still loading - do not flash the denied state
+  if (status === 'loading') {
+    return loading ? <>{loading}</> : null;
+  }
+
+  const granted = access.every(
+    (requirement) => resolveAccessState(requirement, can).granted
+  );
+
+  if (granted) {
+    return <>{children}</>;
+  }
+
+  return fallback ? <>{fallback}</> : null;
+}
+
+RouteGuard.displayName = 'RouteGuard';
+
+/**
+ * Flattens a route tree into guarded route elements.
+ *
+ * Each element enforces its route's access and every ancestor's access,
+ * so a nested route cannot be reached when its parent is denied.
+ * Routes without an element (pure navigation groups) produce no entry.
+ *
+ * Router-agnostic: Does NOT handle redirects internally.
+ * Pass a redirect element as fallback to redirect at router level.
+ *
+ * @param routes - The route tree
+ * @param config - Default fallback and loading content
+ * @returns Guarded route elements with absolute paths, parents first
+ *
+ * @example
+ * ```typescript
+ * const elements = createRouteElements(routes, {
+ *   fallback: <Navigate to="/unauthorized" replace />,
+ * });
+ *
+ * <Routes>
+ *   {elements.map((route) => (
+ *     <Route key={route.id} path={route.path} element={route.element} />
+ *   ))}
+ * </Routes>
+ * ```
+ */
+export function createRouteElements(
+  routes: RouteNode[],
+  config: RouteTreeConfig = {}
+): RouteElement[] {
+  const elements: RouteElement[] = [];
+
+  const visit = (
+    nodes: RouteNode[],
+    parentPath: string,
+    parentAccess: AccessRequirement[]
+  ) => {
+    for (const route of nodes) {
+      const path = joinRoutePath(parentPath, route.path);
+      const access = route.access
+        ? [...parentAccess, route.access]
+        : parentAccess;
+
+      if (route.element !== undefined) {
+        elements.push({
+          id: route.id,
+          path,
+          access,
+          element: (
+            <RouteGuard
+              access={access}
+              fallback={route.fallback ?? config.fallback}
+              loading={config.loading}
+            >
+              {route.element}
+            </RouteGuard>
+          ),
+        });
+      }
+
+      if (route.children) {
+        visit(route.children, path, access);
+      }
+    }
+  };
+
+  visit(routes, '/', []);
+
+  return elements;
+}
@@ -12,14 +12,28 @@ export type {
   UnauthorizedBehavior,
   AccessRequirement,
   AccessState,
+  AccessResolver,
   NavigationItem,
   ActionItem,
   AccessGuardConfig,
   AccessGuardProps,
+  RouteNode,
+  RouteTreeConfig,
+  RouteElement,
+  RouteBreadcrumb,
 } from './types';
+export type { UseRouteTreeResult } from './use-route-tree';
 
 // Utilities
 export { resolveAccessState } from './resolve-access-state';
 export { filterNavigationItems } from './filter-navigation-items';
 export { filterActions } from './filter-actions';
 export { createAccessGuard } from './create-access-guard';
+export {
+  joinRoutePath,
+  toNavigationItems,
+  toBreadcrumbTree,
+} from './route-tree';
+export { createRouteElements } from './create-route-elements';
+export { useRouteTree } from './use-route-tree';
+export { useAccessResolver } from './use-access-resolver';
@@ -8,7 +8,7 @@
  * No other code should duplicate this logic.
  */
 
-import type { AccessRequest } from '../core/types';
+import type { AccessDecision, AccessRequest } from '../core/types';
 import type { AccessRequirement, AccessState } from './types';
 
 /**
@@ -17,8 +17,12 @@ import type { AccessRequirement, AccessState } from './types';
  * This is the single source of truth for mapping RBAC decisions
  * to Dashforge UI states.
  *
+ * When canCheck returns a full AccessDecision (e.g. useRbac().evaluate),
+ * a denied state carries the policy's denial message as its reason;
+ * otherwise it falls back to requirement.reason.
+ *
  * @param requirement - The access requirement (what permission is needed)
- * @param canCheck - The RBAC permission checker function
+ * @param canCheck - The RBAC permission checker, or an evaluator returning decisions
  * @returns The resolved access state for the UI component
  *
  * @example
@@ -35,7 +39,7 @@ import type { AccessRequirement, AccessState } from './types';
  */
 export function resolveAccessState(
   requirement: AccessRequirement,
-  canCheck: (request: AccessRequest) => boolean
+  canCheck: (request: AccessRequest) => boolean | AccessDecision
 ): AccessState {
   // Step 1: Build access request (only include defined properties)
   const request: AccessRequest = {
@@ -51,8 +55,13 @@ export function resolveAccessState(
     request.environment = requirement.environment;
   }
 
+  if (requirement.scope !== undefined) {
+    request.scope = requirement.scope;
+  }
+
   // Step 2: Check RBAC permission
-  const granted = canCheck(request);
+  const decision = canCheck(request);
+  const granted = typeof decision === 'boolean' ? decision : decision.granted;
 
   // Step 3: If access is granted, return fully accessible state
   if (granted) {
@@ -64,8 +73,11 @@ export function resolveAccessState(
     };
   }
 
-  // Step 4: Access is denied - determine behavior
+  // Step 4: Access is denied - determine behavior and reason
   const behavior = requirement.onUnauthorized ?? 'hide';
+  const reason =
+    (typeof decision === 'boolean' ? undefined : decision.message) ??
+    requirement.reason;
 
   // Step 5: Resolve states based on behavior
   switch (behavior) {
@@ -75,6 +87,7 @@ export function resolveAccessState(
         disabled: false,
         readonly: false,
         granted: false,
+        ...(reason !== undefined && { reason }),
       };
 
     case 'disable':
@@ -83,6 +96,7 @@ export function resolveAccessState(
         disabled: true,
         readonly: false,
         granted: false,
+        ...(reason !== undefined && { reason }),
       };
 
     case 'readonly':
@@ -91,6 +105,7 @@ export function resolveAccessState(
         disabled: false,
         readonly: true,
         granted: false,
+        ...(reason !== undefined && { reason }),
       };
 
     default:
@@ -101,6 +116,7 @@ export function resolveAccessState(
         disabled: false,
         readonly: false,
         granted: false,
+        ...(reason !== undefined && { reason }),
       };
   }
 }
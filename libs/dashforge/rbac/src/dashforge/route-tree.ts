@@ -0,0 +1,138 @@
+/**
+ * Route Tree
+ *
+ * Derives navigation items and breadcrumbs from a single RouteNode tree,
+ * so route table, menu and breadcrumbs cannot drift apart.
+ *
+ * Same rule as filterNavigationItems(): if a route is hidden,
+ * its entire subtree is removed.
+ */
+
+import type { AccessRequest } from '../core/types';
+import type { NavigationItem, RouteBreadcrumb, RouteNode } from './types';
+import { filterNavigationItems } from './filter-navigation-items';
+import { resolveAccessState } from './resolve-access-state';
+
+/**
+ * Resolves a route path against its parent's absolute path.
+ *
+ * @param parentPath - Absolute path of the parent ('/' for top-level routes)
+ * @param path - Relative or absolute route path
+ * @returns Normalized absolute path (no duplicate or trailing slashes)
+ *
+ * @example
+ * ```typescript
+ * joinRoutePath('/admin', 'users'); // '/admin/users'
+ * joinRoutePath('/admin', '');      // '/admin'
+ * joinRoutePath('/admin', '/home'); // '/home'
+ * ```
+ */
+export function joinRoutePath(parentPath: string, path: string): string {
+  const joined = path.startsWith('/') ? path : `${parentPath}/${path}`;
+  const normalized = joined.replace(/\/{2,}/g, '/').replace(/\/$/, '');
+
+  return normalized.startsWith('/') ? normalized : `/${normalized}`;
+}
+
+/**
+ * Derives the navigation menu from a route tree.
+ *
+ * Routes marked hideInNav are left out with their subtree. Routes whose
+ * access is hidden are removed as in filterNavigationItems().
+ *
+ * @param routes - The route tree
+ * @param canCheck - The RBAC permission checker function
+ * @returns Visible navigation items with absolute paths
+ *
+ * @example
+ * ```typescript
+ * const { can } = useRbac();
+ * const visibleItems = toNavigationItems(routes, can);
+ * return <LeftNav items={visibleItems} />;
+ * ```
+ */
+export function toNavigationItems(
+  routes: RouteNode[],
+  canCheck: (request: AccessRequest) => boolean
+): NavigationItem[] {
+  return filterNavigationItems(buildNavigationItems(routes, '/'), canCheck);
+}
+
+/**
+ * Derives the breadcrumb tree from a route tree.
+ *
+ * Every route is included (hideInNav does not apply), except routes whose
+ * access is hidden, with their subtree.
+ *
+ * @param routes - The route tree
+ * @param canCheck - The RBAC permission checker function
+ * @returns Breadcrumb nodes for the Breadcrumbs `tree` prop
+ *
+ * @example
+ * ```typescript
+ * const { can } = useRbac();
+ * return <Breadcrumbs pathname={pathname} tree={toBreadcrumbTree(routes, can)} />;
+ * ```
+ */
+export function toBreadcrumbTree(
+  routes: RouteNode[],
+  canCheck: (request: AccessRequest) => boolean
+): RouteBreadcrumb[] {
+  return buildBreadcrumbs(routes, '/', canCheck);
+}
+
+function buildNavigationItems(
+  routes: RouteNode[],
+  parentPath: string
+): NavigationItem[] {
+  const items: NavigationItem[] = [];
+
+  for (const route of routes) {
+    if (route.hideInNav) {
+      continue;
+    }
+
+    const path = joinRoutePath(parentPath, route.path);
+
+    items.push({
+      id: route.id,
+      label: route.label,
+      path,
+      ...(route.icon !== undefined && { icon: route.icon }),
+      ...(route.access !== undefined && { access: route.access }),
+      ...(route.metadata !== undefined && { metadata: route.metadata }),
+      ...(route.children !== undefined && {
+        children: buildNavigationItems(route.children, path),
+      }),
+    });
+  }
+
+  return items;
+}
+
+function buildBreadcrumbs(
+  routes: RouteNode[],
+  parentPath: string,
+  canCheck: (request: AccessRequest) => boolean
+): RouteBreadcrumb[] {
+  const nodes: RouteBreadcrumb[] = [];
+
+  for (const route of routes) {
+    if (route.access && !resolveAccessState(route.access, canCheck).visible) {
+      continue;
+    }
+
+    const href = joinRoutePath(parentPath, route.path);
+
+    nodes.push({
+      id: route.id,
+      label: route.label,
+      href,
+      ...(route.children !== undefined && {
+        children: buildBreadcrumbs(route.children, href, canCheck),
+      }),
+    });
+  }
+
+  return nodes;
+}
@@ -38,6 +38,13 @@ export interface AccessRequirement extends AccessRequest {
    * Components consume this value; they do NOT override it.
    */
   onUnauthorized?: UnauthorizedBehavior;
+
+  /**
+   * Human-readable reason shown when access is denied
+   * (e.g. 'Only managers can approve bookings').
+   * The policy's message (Permission.message) takes precedence.
+   */
+  reason?: string;
 }
 
 /**
@@ -67,8 +74,21 @@ export interface AccessState {
    * True = access granted, False = access denied
    */
   granted: boolean;
+
+  /**
+   * Why access was denied, for tooltips and helper text.
+   * Only present when denied: the policy's message, else the
+   * requirement's reason.
+   */
+  reason?: string;
 }
 
+/**
+ * Resolves an access requirement against the current subject and scope
+ * (see useAccessResolver).
+ */
+export type AccessResolver = (requirement: AccessRequirement) => AccessState;
+
 /**
  * NavigationItem represents a Dashforge navigation menu item.
  *
@@ -173,8 +193,10 @@ export interface AccessGuardConfig {
   fallback?: React.ReactNode;
 
   /**
-   * Optional loading state while checking access
-   * (useful if RBAC data loads async, though V1 is sync-only)
+   * What to render while the RbacProvider's policy or subject is loading
+   *
+   * If undefined, renders null (never the fallback, to avoid
+   * flashing the denied state).
    */
   loading?: React.ReactNode;
 }
@@ -201,4 +223,126 @@ export interface AccessGuardProps {
    * Must be ReactNode (not string redirect)
    */
   fallback?: React.ReactNode;
+
+  /**
+   * Optional override for loading
+   */
+  loading?: React.ReactNode;
+}
+
+/**
+ * RouteNode declares a route once for guards, navigation and breadcrumbs.
+ *
+ * Router-agnostic: the library derives guarded elements, NavigationItems
+ * and breadcrumb nodes; mounting the elements is the app/router's job.
+ */
+export interface RouteNode {
+  /**
+   * Unique identifier (reused as navigation item and breadcrumb id)
+   */
+  id: string;
+
+  /**
+   * Route path. Relative paths are joined to the parent's path
+   * ('' is the parent's index route); paths starting with '/' are absolute.
+   */
+  path: string;
+
+  /**
+   * Display label for navigation and breadcrumbs
+   */
+  label: string;
+
+  /**
+   * Icon (if applicable)
+   */
+  icon?: string;
+
+  /**
+   * Access requirement for this route.
+   * Child routes also require every ancestor's access.
+   */
+  access?: AccessRequirement;
+
+  /**
+   * Page rendered by the route
+   */
+  element?: React.ReactNode;
+
+  /**
+   * What to render when access is denied (overrides RouteTreeConfig.fallback)
+   */
+  fallback?: React.ReactNode;
+
+  /**
+   * Keep the route out of navigation (e.g. detail pages).
+   * It still gets a guarded element and a breadcrumb.
+   */
+  hideInNav?: boolean;
+
+  /**
+   * Nested routes
+   */
+  children?: RouteNode[];
+
+  /**
+   * Additional metadata, copied to navigation items
+   */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * RouteTreeConfig defines defaults shared by every guarded route element.
+ */
+export interface RouteTreeConfig {
+  /**
+   * What to render when access is denied
+   * If undefined, renders null.
+   */
+  fallback?: React.ReactNode;
+
+  /**
+   * What to render while the RbacProvider's policy or subject is loading
+   * If undefined, renders null.
+   */
+  loading?: React.ReactNode;
+}
+
+/**
+ * RouteElement is a guarded route ready to be mounted by any router
+ * (e.g. `<Route path={route.path} element={route.element} />`).
+ */
+export interface RouteElement {
+  id: string;
+
+  /**
+   * Absolute path
+   */
+  path: string;
+
+  /**
+   * The route's element wrapped in its access guard
+   */
+  element: React.ReactNode;
+
+  /**
+   * Every requirement the route enforces, ancestors first
+   */
+  access: AccessRequirement[];
+}
+
+/**
+ * RouteBreadcrumb is a breadcrumb tree node derived from a RouteNode.
+ * Structurally compatible with the Breadcrumbs `tree` prop.
+ */
+export interface RouteBreadcrumb {
+  id: string;
+  label: string;
+
+  /**
+   * Absolute path
+   */
+  href: string;
+
+  children?: RouteBreadcrumb[];
 }
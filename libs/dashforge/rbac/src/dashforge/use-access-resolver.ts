@@ -0,0 +1,49 @@
+/**
+ * Access Resolver Hook
+ *
+ * Binds resolveAccessState to the nearest RbacProvider, for libraries
+ * that take access checks as a plain function (e.g. DashForm's
+ * `resolveAccess`) instead of depending on this package.
+ */
+
+import { useMemo } from 'react';
+import { useRbacOptional } from '../react/useRbacOptional';
+import { withScope } from '../core/scope-resolver';
+import { resolveAccessState } from './resolve-access-state';
+import type { AccessResolver } from './types';
+
+/**
+ * Returns a resolver for access requirements, bound to the subject and
+ * active scope of the nearest RbacProvider.
+ *
+ * The resolver is recreated when the engine, subject or scope change, so
+ * consumers memoizing on it re-resolve their states.
+ *
+ * @returns The resolver, or null when no RbacProvider is mounted
+ *
+ * @example
+ * ```tsx
+ * function EmployeeForm() {
+ *   const resolveAccess = useAccessResolver();
+ *   return (
+ *     <DashForm fieldAccess={FIELD_ACCESS} resolveAccess={resolveAccess}>
+ *       <TextField name="salary" label="Salary" />
+ *     </DashForm>
+ *   );
+ * }
+ * ```
+ */
+export function useAccessResolver(): AccessResolver | null {
+  const rbac = useRbacOptional();
+
+  return useMemo(
+    () =>
+      rbac
+        ? (requirement) =>
+            resolveAccessState(requirement, (request) =>
+              rbac.engine.can(rbac.subject, withScope(request, rbac.scope))
+            )
+        : null,
+    [rbac]
+  );
+}
@@ -0,0 +1,83 @@
+/**
+ * Route Tree Hook
+ *
+ * Binds a RouteNode tree to the current RBAC subject.
+ */
+
+import { useMemo } from 'react';
+import { useRbac } from '../react/useRbac';
+import type {
+  NavigationItem,
+  RouteBreadcrumb,
+  RouteElement,
+  RouteNode,
+  RouteTreeConfig,
+} from './types';
+import { toBreadcrumbTree, toNavigationItems } from './route-tree';
+import { createRouteElements } from './create-route-elements';
+
+export interface UseRouteTreeResult {
+  /**
+   * Guarded route elements to mount in the router
+   */
+  elements: RouteElement[];
+
+  /**
+   * Navigation items visible to the current subject
+   */
+  navigation: NavigationItem[];
+
+  /**
+   * Breadcrumb tree visible to the current subject
+   */
+  breadcrumbs: RouteBreadcrumb[];
+}
+
+/**
+ * Derives guarded route elements, navigation and breadcrumbs from one route tree.
+ *
+ * Results are memoized on the routes array identity: define the tree at
+ * module level or memoize it with useMemo.
+ *
+ * @param routes - The route tree
+ * @param config - Default fallback and loading content for route elements
+ * @returns Route elements, filtered navigation items and breadcrumb tree
+ * @throws Error if used outside RbacProvider
+ *
+ * @example
+ * ```tsx
+ * function Layout() {
+ *   const { elements, navigation, breadcrumbs } = useRouteTree(routes);
+ *   // elements → <Route>s, navigation → LeftNav, breadcrumbs → Breadcrumbs tree
+ * }
+ * ```
+ */
+export function useRouteTree(
+  routes: RouteNode[],
+  config?: RouteTreeConfig
+): UseRouteTreeResult {
+  const { can } = useRbac();
+  const fallback = config?.fallback;
+  const loading = config?.loading;
+
+  const elements = useMemo(
+    () =>
+      createRouteElements(routes, {
+        ...(fallback !== undefined && { fallback }),
+        ...(loading !== undefined && { loading }),
+      }),
+    [routes, fallback, loading]
+  );
+
+  const navigation = useMemo(
+    () => toNavigationItems(routes, can),
+    [routes, can]
+  );
+
+  const breadcrumbs = useMemo(
+    () => toBreadcrumbTree(routes, can),
+    [routes, can]
+  );
+
+  return { elements, navigation, breadcrumbs };
+}
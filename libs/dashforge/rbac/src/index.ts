@@ -8,47 +8,153 @@
 
 // Core exports
 export { RbacEngine, createRbacEngine } from './core/rbac-engine';
+export type { RbacEngineOptions } from './core/rbac-engine';
+
+export {
+  matchPattern,
+  validatePattern,
+  compareSpecificity,
+  patternCovers,
+} from './core/pattern-matcher';
+
+export { analyzePolicy, diffPolicies } from './core/policy-analysis';
+
+export {
+  buildRoleGraph,
+  formatPermission,
+  roleGraphToJson,
+  roleGraphToDot,
+  roleGraphToMermaid,
+} from './core/role-graph';
+
+export { getAssignedRoles, withScope } from './core/scope-resolver';
+
+export { createAuditBatcher } from './core/audit';
+export type { AuditBatcher, AuditBatcherOptions } from './core/audit';
+
+export {
+  evaluateExpression,
+  validateConditionExpression,
+} from './core/condition-expression';
 
 export {
   RbacError,
   CircularRoleError,
   InvalidPermissionError,
   ConditionEvaluationError,
+  PolicyDocumentError,
 } from './core/errors';
 
+export {
+  parsePolicy,
+  loadPolicy,
+  POLICY_DOCUMENT_VERSION,
+} from './core/policy-document';
+export type {
+  PolicyDocument,
+  PolicyParseResult,
+  LoadPolicyOptions,
+} from './core/policy-document';
+
 export type {
   Subject,
+  ScopedRoleAssignment,
+  Timestamp,
+  Validity,
+  ValidityStatus,
   Permission,
   PermissionEffect,
+  PrecedenceRule,
   Role,
   RbacPolicy,
   AccessRequest,
   AccessDecision,
   ConditionContext,
   ConditionFunction,
+  ConditionExpression,
+  ComparisonExpression,
+  ComparisonOperator,
+  LogicalExpression,
+  NotExpression,
+  OwnerExpression,
+  SameAttributeExpression,
+  RelationExpression,
+  ConditionOperand,
+  ConditionLiteral,
+  ConditionOutcome,
+  PolicyIssue,
+  ResolvedRole,
+  PermissionTrace,
+  AccessTrace,
+  IntrospectionOptions,
+  PermittedSet,
+  AuditEvent,
+  AuditSink,
+  AuditOptions,
+  PolicyFindingKind,
+  PermissionRef,
+  PolicyFinding,
+  PolicyAnalysisOptions,
+  AccessLevel,
+  PolicyChange,
+  PolicyDiff,
+  PolicyDiffOptions,
+  RoleGraph,
+  RoleGraphNode,
+  RoleGraphEdge,
 } from './core/types';
 
 // React layer exports (re-export from react/index)
 export { RbacProvider } from './react/RbacProvider';
 export { useRbac } from './react/useRbac';
 export { useRbacOptional } from './react/useRbacOptional';
-export { useCan } from './react/useCan';
+export { useCan, useCanStatus } from './react/useCan';
+export { useCanMany } from './react/useCanMany';
+export {
+  usePermittedActions,
+  usePermittedResources,
+} from './react/usePermitted';
 export { Can } from './react/Can';
+export { RbacDebugPanel } from './react/RbacDebugPanel';
+export { useAccessStateReport } from './react/useDecisionReport';
+export { RoleHierarchy } from './react/RoleHierarchy';
+export type { CanStatus } from './react/useCan';
+export type { RbacStatus } from './react/RbacContext';
+export type { RbacSource } from './react/RbacProvider';
+export type { RbacDebugPanelProps } from './react/RbacDebugPanel';
+export type { RoleHierarchyProps } from './react/RoleHierarchy';
+export type {
+  RbacImpersonation,
+  DebugDecision,
+  DecisionSource,
+} from './react/RbacDebugContext';
 
 // Dashforge integration layer exports (re-export from dashforge/index)
 export type {
   UnauthorizedBehavior,
   AccessRequirement,
   AccessState,
+  AccessResolver,
   NavigationItem,
   ActionItem,
   AccessGuardConfig,
   AccessGuardProps,
+  RouteNode,
+  RouteTreeConfig,
+  RouteElement,
+  RouteBreadcrumb,
 } from './dashforge/types';
+export type { UseRouteTreeResult } from './dashforge/use-route-tree';
 
 export {
   resolveAccessState,
   filterNavigationItems,
   filterActions,
   createAccessGuard,
+  joinRoutePath,
+  toNavigationItems,
+  toBreadcrumbTree,
+  createRouteElements,
+  useRouteTree,
+  useAccessResolver,
 } from './dashforge/index';
@@ -5,7 +5,7 @@
  */
 
 import React from 'react';
-import { useCan } from './useCan';
+import { useCanStatusFrom } from './useCan';
 
 export interface CanProps {
   action: string;
@@ -13,6 +13,11 @@ export interface CanProps {
   resourceData?: unknown;
   environment?: Record<string, unknown>;
   fallback?: React.ReactNode;
+  /**
+   * Rendered while the provider's policy or subject is loading.
+   * Default: null
+   */
+  loading?: React.ReactNode;
   children: React.ReactNode;
 }
 
@@ -21,7 +26,8 @@ export interface CanProps {
  *
  * The component constructs an AccessRequest from props during render and
  * evaluates the permission. If granted, children are rendered. If denied,
- * fallback (or null) is rendered.
+ * fallback (or null) is rendered. While the provider is loading, loading
+ * (or null) is rendered.
  *
  * Request construction happens on every render without internal memoization.
  * This is acceptable for V1 as permission checks are fast.
@@ -48,6 +54,7 @@ export function Can({
   resourceData,
   environment,
   fallback,
+  loading,
   children,
 }: CanProps): React.ReactElement | null {
   // Construct request from props during render (no memoization in V1)
@@ -58,9 +65,13 @@ export function Can({
     ...(environment !== undefined && { environment }),
   };
 
-  const granted = useCan(request);
+  const status = useCanStatusFrom('Can', request);
 
-  if (granted) {
+  if (status === 'loading') {
+    return <>{loading ?? null}</>;
+  }
+
+  if (status === 'granted') {
     return <>{children}</>;
   }
 
@@ -1,8 +1,8 @@
 /**
  * RBAC Context
  *
- * React context for RBAC engine and subject.
- * Context value contains only engine and subject (not policy).
+ * React context for RBAC engine, subject and loading status.
+ * Context value does not contain the policy.
  */
 
 import { createContext } from 'react';
@@ -10,12 +10,29 @@ import type { RbacEngine } from '../core/rbac-engine';
 import type { Subject } from '../core/types';
 
 /**
- * RbacContextValue stores the engine and current subject.
+ * Loading status of the provider's policy and subject.
+ * - 'loading': an async policy or subject is pending
+ * - 'ready': policy and subject are available
+ * - 'error': loading failed (see RbacContextValue.error)
+ */
+export type RbacStatus = 'loading' | 'ready' | 'error';
+
+/**
+ * RbacContextValue stores the engine, current subject and loading status.
  * Policy is NOT included - it's managed internally by the provider.
+ *
+ * While status is not 'ready', engine holds an empty policy (denies everything)
+ * and subject is the empty subject, so checks fail closed.
+ *
+ * scope is the active scope set on the provider. Consumers calling
+ * engine.can() directly should apply it with withScope().
  */
 export interface RbacContextValue {
   engine: RbacEngine;
   subject: Subject;
+  status: RbacStatus;
+  scope?: string;
+  error?: unknown;
 }
 
 /**
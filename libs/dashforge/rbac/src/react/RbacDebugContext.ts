@@ -0,0 +1,130 @@
+/**
+ * RBAC Debug Context
+ *
+ * Development-only state shared by RbacProvider and RbacDebugPanel:
+ * the active policy, the real subject, impersonation and a registry of
+ * live decisions reported by mounted Can / useCan / access-controlled elements.
+ *
+ * Decisions are only recorded outside production builds.
+ */
+
+import { createContext } from 'react';
+import type { AccessRequest, RbacPolicy, Subject } from '../core/types';
+import type { AccessState } from '../dashforge/types';
+
+/**
+ * Roles and/or attributes replacing the real subject's while impersonating.
+ * Impersonated roles also replace Subject.scopedRoles.
+ */
+export interface RbacImpersonation {
+  roles?: string[];
+  attributes?: Record<string, unknown>;
+}
+
+/**
+ * Where a reported decision comes from.
+ * 'access' is an element resolved through resolveAccessState (access prop).
+ */
+export type DecisionSource = 'useCan' | 'Can' | 'access';
+
+/**
+ * A live decision of a mounted component.
+ */
+export interface DebugDecision {
+  id: string;
+  source: DecisionSource;
+  request: AccessRequest;
+  granted: boolean;
+  state?: AccessState;
+}
+
+/**
+ * Registry of live decisions, keyed by component instance.
+ * Compatible with useSyncExternalStore.
+ */
+export interface DecisionRegistry {
+  report(decision: DebugDecision): void;
+  remove(id: string): void;
+  subscribe(listener: () => void): () => void;
+  getSnapshot(): DebugDecision[];
+}
+
+export interface RbacDebugContextValue {
+  /**
+   * Active policy (undefined while loading).
+   */
+  policy?: RbacPolicy;
+  /**
+   * Subject given to the provider, before impersonation.
+   */
+  subject: Subject;
+  impersonation: RbacImpersonation | null;
+  /**
+   * Starts impersonating, or stops with null. No-op in production builds.
+   */
+  impersonate: (impersonation: RbacImpersonation | null) => void;
+  registry: DecisionRegistry;
+}
+
+/**
+ * RbacDebugContext is provided by RbacProvider next to RbacContext.
+ * Value is null when outside provider.
+ */
+export const RbacDebugContext = createContext<RbacDebugContextValue | null>(
+  null
+);
+
+/**
+ * Creates an empty decision registry.
+ * Reporting an unchanged decision does not notify listeners.
+ */
+export function createDecisionRegistry(): DecisionRegistry {
+  const decisions = new Map<string, DebugDecision>();
+  const listeners = new Set<() => void>();
+  let snapshot: DebugDecision[] = [];
+
+  const notify = () => {
+    snapshot = [...decisions.values()];
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    report(decision) {
+      const previous = decisions.get(decision.id);
+      if (previous && isSameDecision(previous, decision)) {
+        return;
+      }
+      decisions.set(decision.id, decision);
+      notify();
+    },
+    remove(id) {
+      if (decisions.delete(id)) {
+        notify();
+      }
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getSnapshot() {
+      return snapshot;
+    },
+  };
+}
+
+function isSameDecision(a: DebugDecision, b: DebugDecision): boolean {
+  return (
+    a.source === b.source &&
+    a.granted === b.granted &&
+    a.request.action === b.request.action &&
+    a.request.resource === b.request.resource &&
+    a.request.scope === b.request.scope &&
+    a.request.resourceData === b.request.resourceData &&
+    a.request.environment === b.request.environment &&
+    a.state?.visible === b.state?.visible &&
+    a.state?.disabled === b.state?.disabled &&
+    a.state?.readonly === b.state?.readonly
+  );
+}
@@ -0,0 +1,319 @@
+/**
+ * RbacDebugPanel Component
+ *
+ * Development-only overlay to inspect and impersonate the RBAC subject.
+ */
+
+import React, { useContext, useState, useSyncExternalStore } from 'react';
+import { RbacDebugContext } from './RbacDebugContext';
+import type { DebugDecision, RbacDebugContextValue } from './RbacDebugContext';
+import { useRbac } from './useRbac';
+
+export interface RbacDebugPanelProps {
+  /**
+   * Whether the panel starts expanded.
+   * Default: false
+   */
+  defaultOpen?: boolean;
+  /**
+   * Corner of the viewport the overlay is pinned to.
+   * Default: 'bottom-right'
+   */
+  position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+}
+
+const PANEL_STYLE: React.CSSProperties = {
+  position: 'fixed',
+  zIndex: 2147483000,
+  maxWidth: 420,
+  maxHeight: '70vh',
+  overflow: 'auto',
+  padding: 12,
+  background: '#111827',
+  color: '#f9fafb',
+  font: '12px/1.4 ui-monospace, SFMono-Regular, Menlo, monospace',
+  borderRadius: 6,
+  boxShadow: '0 4px 16px rgba(0, 0, 0, 0.35)',
+};
+
+const SECTION_STYLE: React.CSSProperties = { marginTop: 10 };
+
+const BUTTON_STYLE: React.CSSProperties = {
+  marginRight: 6,
+  padding: '2px 8px',
+  font: 'inherit',
+  cursor: 'pointer',
+};
+
+const STATE_COLORS = {
+  granted: '#34d399',
+  denied: '#f87171',
+  hidden: '#f87171',
+  disabled: '#fbbf24',
+  readonly: '#60a5fa',
+} as const;
+
+function positionStyle(
+  position: NonNullable<RbacDebugPanelProps['position']>
+): React.CSSProperties {
+  const [vertical, horizontal] = position.split('-') as [
+    'top' | 'bottom',
+    'left' | 'right'
+  ];
+  return { [vertical]: 12, [horizontal]: 12 };
+}
+
+function describeRequest({ request }: DebugDecision): string {
+  return (
+    `${request.action} ${request.resource}` +
+    (request.scope !== undefined ? ` @${request.scope}` : '')
+  );
+}
+
+/**
+ * Label and color of a decision: the resolved access state for
+ * access-controlled elements, granted / denied otherwise.
+ */
+function describeOutcome(decision: DebugDecision): {
+  label: keyof typeof STATE_COLORS;
+  color: string;
+} {
+  const { state } = decision;
+  const label: keyof typeof STATE_COLORS = !state
+    ? decision.granted
+      ? 'granted'
+      : 'denied'
+    : !state.visible
+    ? 'hidden'
+    : state.disabled
+    ? 'disabled'
+    : state.readonly
+    ? 'readonly'
+    : 'granted';
+
+  return { label, color: STATE_COLORS[label] };
+}
+
+/**
+ * RbacDebugPanel renders a floating overlay listing the active policy's
+ * roles, the current subject and the live decisions of every mounted
+ * Can, useCan and access-controlled element (hidden, disabled and readonly
+ * elements are highlighted).
+ *
+ * Roles and attributes can be impersonated from the panel without reloading;
+ * impersonation applies to every check below the provider until reset.
+ *
+ * Renders nothing in production builds, so it can be left in the tree.
+ *
+ * @throws Error if used outside RbacProvider
+ *
+ * @example
+ * ```tsx
+ * <RbacProvider policy={policy} subject={user}>
+ *   <App />
+ *   <RbacDebugPanel />
+ * </RbacProvider>
+ * ```
+ */
+export function RbacDebugPanel(
+  props: RbacDebugPanelProps
+): React.ReactElement | null {
+  const debug = useContext(RbacDebugContext);
+
+  if (!debug) {
+    throw new Error(
+      'RbacDebugPanel must be used within RbacProvider. ' +
+        'Wrap your component tree with <RbacProvider>.'
+    );
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    return null;
+  }
+
+  return <DebugOverlay {...props} debug={debug} />;
+}
+
+interface DebugOverlayProps extends RbacDebugPanelProps {
+  debug: RbacDebugContextValue;
+}
+
+function DebugOverlay({
+  defaultOpen = false,
+  position = 'bottom-right',
+  debug,
+}: DebugOverlayProps): React.ReactElement {
+  const { subject: effectiveSubject, status } = useRbac();
+  const { policy, subject, impersonation, impersonate, registry } = debug;
+
+  const decisions = useSyncExternalStore(
+    registry.subscribe,
+    registry.getSnapshot,
+    registry.getSnapshot
+  );
+
+  const [open, setOpen] = useState(defaultOpen);
+  const [onlyDenied, setOnlyDenied] = useState(false);
+  const [attributesText, setAttributesText] = useState<string | null>(null);
+  const [attributesError, setAttributesError] = useState<string | null>(null);
+
+  const style = { ...PANEL_STYLE, ...positionStyle(position) };
+
+  if (!open) {
+    return (
+      <div style={style}>
+        <button
+          type="button"
+          style={BUTTON_STYLE}
+          onClick={() => setOpen(true)}
+        >
+          RBAC{impersonation ? ' (impersonating)' : ''}
+        </button>
+      </div>
+    );
+  }
+
+  const roleNames = policy?.roles.map((role) => role.name) ?? [];
+  const activeRoles = effectiveSubject.roles;
+
+  const toggleRole = (name: string) => {
+    const roles = activeRoles.includes(name)
+      ? activeRoles.filter((role) => role !== name)
+      : [...activeRoles, name];
+    impersonate({ ...impersonation, roles });
+  };
+
+  const applyAttributes = () => {
+    try {
+      const parsed: unknown = JSON.parse(
+        attributesText ?? JSON.stringify(effectiveSubject.attributes ?? {})
+      );
+      if (
+        typeof parsed !== 'object' ||
+        parsed === null ||
+        Array.isArray(parsed)
+      ) {
+        throw new Error('Attributes must be a JSON object');
+      }
+      impersonate({
+        ...impersonation,
+        attributes: parsed as Record<string, unknown>,
+      });
+      setAttributesError(null);
+    } catch (error) {
+      setAttributesError(
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  };
+
+  const reset = () => {
+    impersonate(null);
+    setAttributesText(null);
+    setAttributesError(null);
+  };
+
+  const visibleDecisions = onlyDenied
+    ? decisions.filter((decision) => !decision.granted)
+    : decisions;
+
+  return (
+    <div style={style} role="dialog" aria-label="RBAC debug panel">
+      <div>
+        <strong>RBAC</strong> <span>[{status}]</span>{' '}
+        <button
+          type="button"
+          style={BUTTON_STYLE}
+          onClick={() => setOpen(false)}
+        >
+          Close
+        </button>
+      </div>
+
+      <section style={SECTION_STYLE} aria-label="Subject">
+        <div>
+          Subject: {subject.id || '(anonymous)'}
+          {impersonation && (
+            <>
+              {' '}
+              <span style={{ color: STATE_COLORS.disabled }}>
+                impersonating
+              </span>{' '}
+              <button type="button" style={BUTTON_STYLE} onClick={reset}>
+                Reset
+              </button>
+            </>
+          )}
+        </div>
+        <div>Roles: {activeRoles.join(', ') || '(none)'}</div>
+      </section>
+
+      <section style={SECTION_STYLE} aria-label="Roles">
+        <div>Policy roles</div>
+        {roleNames.map((name) => (
+          <label key={name} style={{ display: 'block' }}>
+            <input
+              type="checkbox"
+              checked={activeRoles.includes(name)}
+              onChange={() => toggleRole(name)}
+            />{' '}
+            {name}
+          </label>
+        ))}
+      </section>
+
+      <section style={SECTION_STYLE} aria-label="Attributes">
+        <div>Attributes (JSON)</div>
+        <textarea
+          aria-label="Attributes"
+          rows={4}
+          style={{ width: '100%', font: 'inherit' }}
+          value={
+            attributesText ??
+            JSON.stringify(effectiveSubject.attributes ?? {}, null, 2)
+          }
+          onChange={(event) =>
+            // Compiled without the DOM lib: read the value structurally
+            setAttributesText(
+              (event.currentTarget as unknown as { value: string }).value
+            )
+          }
+        />
+        <button type="button" style={BUTTON_STYLE} onClick={applyAttributes}>
+          Apply
+        </button>
+        {attributesError && (
+          <div role="alert" style={{ color: STATE_COLORS.denied }}>
+            {attributesError}
+          </div>
+        )}
+      </section>
+
+      <section style={SECTION_STYLE} aria-label="Decisions">
+        <div>
+          Decisions ({decisions.length}){' '}
+          <label>
+            <input
+              type="checkbox"
+              checked={onlyDenied}
+              onChange={() => setOnlyDenied((value) => !value)}
+            />{' '}
+            only denied
+          </label>
+        </div>
+        <ul style={{ margin: 0, paddingLeft: 16 }}>
+          {visibleDecisions.map((decision) => {
+            const { label, color } = describeOutcome(decision);
+            return (
+              <li key={decision.id} data-outcome={label}>
+                <span style={{ color }}>{label}</span>{' '}
+                {describeRequest(decision)}{' '}
+                <span style={{ opacity: 0.6 }}>({decision.source})</span>
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+    </div>
+  );
+}
@@ -5,51 +5,275 @@
  * Creates and manages engine lifecycle.
  */
 
-import React, { useMemo } from 'react';
-import { createRbacEngine } from '../core/rbac-engine';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { createRbacEngine, validatePolicy } from '../core/rbac-engine';
 import { RbacContext } from './RbacContext';
-import type { RbacPolicy, Subject } from '../core/types';
+import type { RbacContextValue, RbacStatus } from './RbacContext';
+import { RbacDebugContext, createDecisionRegistry } from './RbacDebugContext';
+import type {
+  RbacDebugContextValue,
+  RbacImpersonation,
+} from './RbacDebugContext';
+import type { AuditOptions, RbacPolicy, Subject } from '../core/types';
+
+/**
+ * A value given directly, as a promise, or as a loader function.
+ * Loader functions should be stable (module-level or useCallback):
+ * a new function identity triggers a new load.
+ */
+export type RbacSource<T> = T | Promise<T> | (() => T | Promise<T>);
 
 export interface RbacProviderProps {
-  policy: RbacPolicy;
-  subject: Subject | null | undefined;
+  policy: RbacSource<RbacPolicy>;
+  subject: RbacSource<Subject | null | undefined>;
+  /**
+   * Attach an AccessTrace to evaluate() decisions (see RbacEngineOptions.trace).
+   * Intended for development builds.
+   */
+  trace?: boolean;
+  /**
+   * Active scope (tenant, organization, project) applied to every check
+   * that does not name its own scope. Changing it re-evaluates all checks.
+   */
+  scope?: string;
+  /**
+   * Clock for validFrom / validUntil bounds (see RbacEngineOptions.now).
+   * Should be stable: a new function recreates the engine.
+   */
+  now?: () => number;
+  /**
+   * Audit sink for every decision (see RbacEngineOptions.audit).
+   * Should be stable: a new object recreates the engine.
+   */
+  audit?: AuditOptions;
   children: React.ReactNode;
 }
 
+interface Resolved<T> {
+  status: RbacStatus;
+  value?: T;
+  error?: unknown;
+}
+
+interface LoadState<T> extends Resolved<T> {
+  source: unknown;
+}
+
+const EMPTY_POLICY: RbacPolicy = { roles: [] };
+
+/**
+ * Applies an impersonation to the subject. Impersonated roles replace both
+ * roles and scopedRoles; the subject id is kept.
+ */
+function impersonateSubject(
+  subject: Subject,
+  impersonation: RbacImpersonation | null
+): Subject {
+  if (!impersonation) {
+    return subject;
+  }
+
+  const { roles, attributes } = impersonation;
+  const base: Subject =
+    roles !== undefined ? { id: subject.id, roles } : { ...subject };
+  const nextAttributes = attributes ?? subject.attributes;
+
+  return {
+    ...base,
+    ...(nextAttributes !== undefined && { attributes: nextAttributes }),
+  };
+}
+
+function isThenable<T>(value: unknown): value is Promise<T> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { then?: unknown }).then === 'function'
+  );
+}
+
+/**
+ * Resolves a value, promise or loader function.
+ * Plain values resolve synchronously with no extra render.
+ * Results of a superseded source are ignored.
+ * An asynchronous value that fails `validate` settles as 'error' with the
+ * thrown error, instead of throwing later during render. `validate` should
+ * be stable, like loader functions.
+ */
+function useResolvedSource<T>(
+  source: RbacSource<T>,
+  validate?: (value: T) => void
+): Resolved<T> {
+  const isSync = typeof source !== 'function' && !isThenable(source);
+  const [state, setState] = useState<LoadState<T> | null>(null);
+
+  useEffect(() => {
+    if (isSync) {
+      return;
+    }
+
+    let cancelled = false;
+
+    const settle = (next: Resolved<T>) => {
+      if (!cancelled) {
+        setState({ source, ...next });
+      }
+    };
+
+    try {
+      const result =
+        typeof source === 'function'
+          ? (source as () => T | Promise<T>)()
+          : source;
+
+      Promise.resolve(result).then(
+        (value) => {
+          try {
+            validate?.(value);
+          } catch (error) {
+            settle({ status: 'error', error });
+            return;
+          }
+          settle({ status: 'ready', value });
+        },
+        (error: unknown) => settle({ status: 'error', error })
+      );
+    } catch (error) {
+      settle({ status: 'error', error });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source, isSync, validate]);
+
+  if (isSync) {
+    return { status: 'ready', value: source as T };
+  }
+
+  if (!state || state.source !== source) {
+    return { status: 'loading' };
+  }
+
+  return state;
+}
+
 /**
  * RbacProvider creates engine and provides context to children.
  *
- * Engine is created on mount and recreated only when policy changes.
+ * Engine is created on mount and recreated only when policy, trace, now or
+ * audit changes.
  * Subject can be null/undefined and will be normalized to empty subject.
+ *
+ * policy and subject may be given as promises or loader functions.
+ * Until both are resolved, status is 'loading' and every check is denied;
+ * Can, useCanStatus and access guards render their loading fallback instead.
+ * A loaded policy that fails validation sets status 'error' with the
+ * validation error (a policy given directly still throws).
+ *
+ * scope selects which of the subject's scoped role assignments apply
+ * (e.g. the current workspace).
+ *
+ * Outside production builds the provider also feeds RbacDebugPanel:
+ * impersonation set from the panel replaces the subject's roles and/or
+ * attributes for every check until reset.
  */
 export function RbacProvider({
   policy,
   subject,
+  trace = false,
+  scope,
+  now,
+  audit,
   children,
 }: RbacProviderProps): React.ReactElement {
-  // Create engine once, recreate only when policy changes
-  const engine = useMemo(() => createRbacEngine(policy), [policy]);
+  const resolvedPolicy = useResolvedSource(policy, validatePolicy);
+  const resolvedSubject = useResolvedSource(subject);
+
+  const status: RbacStatus =
+    resolvedPolicy.status === 'error' || resolvedSubject.status === 'error'
+      ? 'error'
+      : resolvedPolicy.status === 'loading' ||
+        resolvedSubject.status === 'loading'
+      ? 'loading'
+      : 'ready';
+
+  const error =
+    resolvedPolicy.status === 'error'
+      ? resolvedPolicy.error
+      : resolvedSubject.error;
+
+  const activePolicy = status === 'ready' ? resolvedPolicy.value : undefined;
+  const activeSubject = status === 'ready' ? resolvedSubject.value : undefined;
+
+  // Create engine once, recreate only when policy, trace, clock or audit changes.
+  // The deny-all placeholder used while loading (or after a failed load) is
+  // not audited: its decisions say nothing about the subject's access.
+  const engine = useMemo(
+    () =>
+      createRbacEngine(activePolicy ?? EMPTY_POLICY, {
+        trace,
+        ...(now !== undefined && { now }),
+        ...(activePolicy !== undefined && audit !== undefined && { audit }),
+      }),
+    [activePolicy, trace, now, audit]
+  );
 
   // Normalize null/undefined subject to empty subject with no roles
   const normalizedSubject: Subject = useMemo(
     () =>
-      subject ?? {
+      activeSubject ?? {
         id: '',
         roles: [],
       },
-    [subject]
+    [activeSubject]
+  );
+
+  // Development-only impersonation and decision registry (RbacDebugPanel)
+  const [impersonation, setImpersonation] = useState<RbacImpersonation | null>(
+    null
+  );
+  const [registry] = useState(createDecisionRegistry);
+
+  const impersonate = useCallback((next: RbacImpersonation | null) => {
+    if (process.env.NODE_ENV !== 'production') {
+      setImpersonation(next);
+    }
+  }, []);
+
+  const effectiveSubject = useMemo(
+    () => impersonateSubject(normalizedSubject, impersonation),
+    [normalizedSubject, impersonation]
   );
 
   // Memoize context value to avoid unnecessary re-renders
   const contextValue = useMemo(
-    () => ({
+    (): RbacContextValue => ({
       engine,
+      subject: effectiveSubject,
+      status,
+      ...(scope !== undefined && { scope }),
+      ...(status === 'error' && { error }),
+    }),
+    [engine, effectiveSubject, status, scope, error]
+  );
+
+  const debugValue = useMemo(
+    (): RbacDebugContextValue => ({
+      ...(activePolicy !== undefined && { policy: activePolicy }),
       subject: normalizedSubject,
+      impersonation,
+      impersonate,
+      registry,
     }),
-    [engine, normalizedSubject]
+    [activePolicy, normalizedSubject, impersonation, impersonate, registry]
   );
 
   return (
-    <RbacContext.Provider value={contextValue}>{children}</RbacContext.Provider>
+    <RbacContext.Provider value={contextValue}>
+      <RbacDebugContext.Provider value={debugValue}>
+        {children}
+      </RbacDebugContext.Provider>
+    </RbacContext.Provider>
   );
 }
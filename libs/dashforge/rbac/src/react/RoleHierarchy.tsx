@@ -0,0 +1,126 @@
+/**
+ * RoleHierarchy Component
+ *
+ * Renders the role inheritance tree of a policy.
+ */
+
+import React, { useMemo } from 'react';
+import { buildRoleGraph, formatPermission } from '../core/role-graph';
+import type { RbacPolicy, RoleGraph, RoleGraphNode } from '../core/types';
+
+export interface RoleHierarchyProps {
+  /**
+   * Policy whose roles are rendered
+   */
+  policy: RbacPolicy;
+  /**
+   * Whether each role lists its effective permissions.
+   * Default: true
+   */
+  showPermissions?: boolean;
+  className?: string;
+}
+
+/**
+ * RoleHierarchy renders the roles of a policy as nested lists: top-level
+ * roles (inherited by no other role) at the root, inherited roles below
+ * the roles that inherit them. A role inherited by several roles appears
+ * under each of them.
+ *
+ * Each role lists its effective permissions; inherited ones name the role
+ * they come from. Roles named in `inherits` but not defined are marked
+ * as missing.
+ *
+ * Unstyled apart from list nesting: style it through className and the
+ * data-role / data-missing attributes.
+ *
+ * @throws {CircularRoleError} If circular role inheritance is detected
+ *
+ * @example
+ * ```tsx
+ * <RoleHierarchy policy={policy} className="role-tree" />
+ * ```
+ */
+export function RoleHierarchy({
+  policy,
+  showPermissions = true,
+  className,
+}: RoleHierarchyProps): React.ReactElement {
+  const graph = useMemo(() => buildRoleGraph(policy), [policy]);
+
+  const roots = graph.nodes.filter(
+    (node) => !graph.edges.some((edge) => edge.to === node.name)
+  );
+
+  return (
+    <ul className={className} aria-label="Role hierarchy">
+      {roots.map((node) => (
+        <RoleItem
+          key={node.name}
+          node={node}
+          graph={graph}
+          showPermissions={showPermissions}
+        />
+      ))}
+    </ul>
+  );
+}
+
+interface RoleItemProps {
+  node: RoleGraphNode;
+  graph: RoleGraph;
+  showPermissions: boolean;
+}
+
+function RoleItem({
+  node,
+  graph,
+  showPermissions,
+}: RoleItemProps): React.ReactElement {
+  const parents = graph.edges
+    .filter((edge) => edge.from === node.name)
+    .map((edge) => graph.nodes.find((candidate) => candidate.name === edge.to))
+    .filter((parent): parent is RoleGraphNode => parent !== undefined);
+
+  return (
+    <li data-role={node.name} data-missing={node.missing || undefined}>
+      <strong>{node.name}</strong>
+      {node.missing ? (
+        ' (missing)'
+      ) : (
+        <span>
+          {' '}
+          ({node.effectivePermissions.length}{' '}
+          {node.effectivePermissions.length === 1
+            ? 'permission'
+            : 'permissions'}
+          )
+        </span>
+      )}
+
+      {showPermissions && node.effectivePermissions.length > 0 && (
+        <ul aria-label={`${node.name} permissions`}>
+          {node.effectivePermissions.map(({ role, index, permission }) => (
+            <li key={`${role}:${index}`}>
+              {formatPermission(permission)}
+              {role !== node.name && ` (from ${role})`}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {parents.length > 0 && (
+        <ul aria-label={`${node.name} inherits`}>
+          {parents.map((parent) => (
+            <RoleItem
+              key={parent.name}
+              node={parent}
+              graph={graph}
+              showPermissions={showPermissions}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
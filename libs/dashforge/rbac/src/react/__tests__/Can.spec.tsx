@@ -5,7 +5,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { render, screen, waitFor } from '@testing-library/react';
 import React from 'react';
 import { Can } from '../Can';
 import { RbacProvider } from '../RbacProvider';
@@ -380,4 +380,46 @@ describe('Can', () => {
       expect(screen.getByText('Admin Can Do Anything')).toBeDefined();
     });
   });
+
+  describe('async loading', () => {
+    it('should render loading instead of fallback while policy loads', async () => {
+      render(
+        <RbacProvider
+          policy={Promise.resolve(validPolicy)}
+          subject={userSubject}
+        >
+          <Can
+            action="read"
+            resource="booking"
+            fallback={<div>Denied</div>}
+            loading={<div>Loading</div>}
+          >
+            <div>Content</div>
+          </Can>
+        </RbacProvider>
+      );
+
+      expect(screen.getByText('Loading')).toBeDefined();
+      expect(screen.queryByText('Denied')).toBeNull();
+
+      await waitFor(() => {
+        expect(screen.getByText('Content')).toBeDefined();
+      });
+    });
+
+    it('should render nothing while loading when no loading prop given', () => {
+      const { container } = render(
+        <RbacProvider
+          policy={new Promise(() => undefined)}
+          subject={userSubject}
+        >
+          <Can action="read" resource="booking" fallback={<div>Denied</div>}>
+            <div>Content</div>
+          </Can>
+        </RbacProvider>
+      );
+
+      expect(container.textContent).toBe('');
+    });
+  });
 });
@@ -0,0 +1,308 @@
+/**
+ * RbacDebugPanel Tests
+ *
+ * Tests for the development overlay, impersonation and the decision registry.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import React from 'react';
+import { RbacDebugPanel } from '../RbacDebugPanel';
+import { RbacProvider } from '../RbacProvider';
+import { Can } from '../Can';
+import { useCan } from '../useCan';
+import { useAccessStateReport } from '../useDecisionReport';
+import { createDecisionRegistry } from '../RbacDebugContext';
+import { resolveAccessState } from '../../dashforge/resolve-access-state';
+import { useRbac } from '../useRbac';
+import type { AccessRequirement } from '../../dashforge/types';
+import type { RbacPolicy, Subject } from '../../core/types';
+
+describe('RbacDebugPanel', () => {
+  const policy: RbacPolicy = {
+    roles: [
+      {
+        name: 'viewer',
+        permissions: [{ action: 'read', resource: 'booking' }],
+      },
+      {
+        name: 'editor',
+        permissions: [
+          { action: 'read', resource: 'booking' },
+          { action: 'delete', resource: 'booking' },
+        ],
+      },
+      {
+        name: 'manager',
+        permissions: [
+          {
+            action: 'approve',
+            resource: 'booking',
+            condition: {
+              op: 'eq',
+              left: { ref: 'subject.attributes.department' },
+              right: { value: 'sales' },
+            },
+          },
+        ],
+      },
+    ],
+  };
+
+  const subject: Subject = { id: 'user-1', roles: ['viewer'] };
+
+  function DeleteProbe() {
+    const canDelete = useCan({ action: 'delete', resource: 'booking' });
+    return <span data-testid="delete">{canDelete ? 'yes' : 'no'}</span>;
+  }
+
+  function AccessProbe({ access }: { access: AccessRequirement }) {
+    const { can } = useRbac();
+    const state = resolveAccessState(access, can);
+    useAccessStateReport(access, state);
+    return null;
+  }
+
+  function renderPanel(children?: React.ReactNode) {
+    return render(
+      <RbacProvider policy={policy} subject={subject}>
+        {children}
+        <RbacDebugPanel defaultOpen />
+      </RbacProvider>
+    );
+  }
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should throw when used outside RbacProvider', () => {
+    const spy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(() => render(<RbacDebugPanel />)).toThrow(
+      'RbacDebugPanel must be used within RbacProvider'
+    );
+
+    spy.mockRestore();
+  });
+
+  it('should render nothing in production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+
+    const { container } = render(
+      <RbacProvider policy={policy} subject={subject}>
+        <RbacDebugPanel defaultOpen />
+      </RbacProvider>
+    );
+
+    expect(container.innerHTML).toBe('');
+  });
+
+  it('should start collapsed by default', () => {
+    render(
+      <RbacProvider policy={policy} subject={subject}>
+        <RbacDebugPanel />
+      </RbacProvider>
+    );
+
+    expect(screen.queryByRole('dialog')).toBeNull();
+    fireEvent.click(screen.getByRole('button', { name: 'RBAC' }));
+    expect(screen.getByRole('dialog')).toBeTruthy();
+  });
+
+  it('should list the policy roles with the subject roles checked', () => {
+    renderPanel();
+
+    const roles = within(screen.getByRole('region', { name: 'Roles' }));
+    expect((roles.getByLabelText('viewer') as HTMLInputElement).checked).toBe(
+      true
+    );
+    expect((roles.getByLabelText('editor') as HTMLInputElement).checked).toBe(
+      false
+    );
+    expect(roles.getByLabelText('manager')).toBeTruthy();
+  });
+
+  it('should impersonate a role set without remounting', () => {
+    renderPanel(<DeleteProbe />);
+
+    expect(screen.getByTestId('delete').textContent).toBe('no');
+
+    fireEvent.click(screen.getByLabelText('editor'));
+
+    expect(screen.getByTestId('delete').textContent).toBe('yes');
+    expect(screen.getByText('impersonating')).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Reset' }));
+
+    expect(screen.getByTestId('delete').textContent).toBe('no');
+    expect(screen.queryByText('impersonating')).toBeNull();
+  });
+
+  it('should impersonate attributes', () => {
+    renderPanel(
+      <Can action="approve" resource="booking" fallback="cannot approve">
+        can approve
+      </Can>
+    );
+
+    fireEvent.click(screen.getByLabelText('manager'));
+    expect(screen.getByText('cannot approve')).toBeTruthy();
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'Attributes' }), {
+      target: { value: '{ "department": "sales" }' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+
+    expect(screen.getByText('can approve')).toBeTruthy();
+  });
+
+  it('should report invalid attribute JSON', () => {
+    renderPanel();
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'Attributes' }), {
+      target: { value: '[1]' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Apply' }));
+
+    expect(screen.getByRole('alert').textContent).toBe(
+      'Attributes must be a JSON object'
+    );
+    expect(screen.queryByText('impersonating')).toBeNull();
+  });
+
+  it('should list live decisions of mounted Can and useCan', () => {
+    const { rerender } = renderPanel(
+      <>
+        <DeleteProbe />
+        <Can action="read" resource="booking">
+          read
+        </Can>
+      </>
+    );
+
+    const decisions = screen.getByRole('region', { name: 'Decisions' });
+    const items = within(decisions).getAllByRole('listitem');
+    expect(items.map((item) => item.textContent)).toEqual([
+      'denied delete booking (useCan)',
+      'granted read booking (Can)',
+    ]);
+
+    rerender(
+      <RbacProvider policy={policy} subject={subject}>
+        <RbacDebugPanel defaultOpen />
+      </RbacProvider>
+    );
+
+    expect(
+      within(screen.getByRole('region', { name: 'Decisions' })).queryAllByRole(
+        'listitem'
+      )
+    ).toHaveLength(0);
+  });
+
+  it('should update decisions while impersonating', () => {
+    renderPanel(<DeleteProbe />);
+
+    fireEvent.click(screen.getByLabelText('editor'));
+
+    const decisions = screen.getByRole('region', { name: 'Decisions' });
+    expect(within(decisions).getByRole('listitem').textContent).toBe(
+      'granted delete booking (useCan)'
+    );
+  });
+
+  it('should highlight hidden, disabled and readonly elements', () => {
+    renderPanel(
+      <>
+        <AccessProbe access={{ action: 'delete', resource: 'booking' }} />
+        <AccessProbe
+          access={{
+            action: 'update',
+            resource: 'booking',
+            onUnauthorized: 'disable',
+          }}
+        />
+        <AccessProbe
+          access={{
+            action: 'approve',
+            resource: 'booking',
+            onUnauthorized: 'readonly',
+          }}
+        />
+      </>
+    );
+
+    const decisions = screen.getByRole('region', { name: 'Decisions' });
+    const outcomes = within(decisions)
+      .getAllByRole('listitem')
+      .map((item) => item.getAttribute('data-outcome'));
+    expect(outcomes).toEqual(['hidden', 'disabled', 'readonly']);
+  });
+
+  it('should filter denied decisions', () => {
+    renderPanel(
+      <>
+        <DeleteProbe />
+        <Can action="read" resource="booking">
+          read
+        </Can>
+      </>
+    );
+
+    fireEvent.click(screen.getByLabelText('only denied'));
+
+    const decisions = screen.getByRole('region', { name: 'Decisions' });
+    expect(
+      within(decisions)
+        .getAllByRole('listitem')
+        .map((item) => item.textContent)
+    ).toEqual(['denied delete booking (useCan)']);
+  });
+});
+
+describe('createDecisionRegistry', () => {
+  const decision = {
+    id: 'a',
+    source: 'useCan' as const,
+    request: { action: 'read', resource: 'booking' },
+    granted: true,
+  };
+
+  it('should notify listeners when a decision is added or removed', () => {
+    const registry = createDecisionRegistry();
+    const listener = vi.fn();
+    registry.subscribe(listener);
+
+    registry.report(decision);
+    expect(registry.getSnapshot()).toEqual([decision]);
+
+    registry.remove('a');
+    expect(registry.getSnapshot()).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('should ignore unchanged reports and keep the snapshot', () => {
+    const registry = createDecisionRegistry();
+    const listener = vi.fn();
+    registry.report(decision);
+    const snapshot = registry.getSnapshot();
+    registry.subscribe(listener);
+
+    registry.report({ ...decision, request: { ...decision.request } });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(registry.getSnapshot()).toBe(snapshot);
+  });
+
+  it('should stop notifying after unsubscribe', () => {
+    const registry = createDecisionRegistry();
+    const listener = vi.fn();
+    const unsubscribe = registry.subscribe(listener);
+
+    unsubscribe();
+    registry.report(decision);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
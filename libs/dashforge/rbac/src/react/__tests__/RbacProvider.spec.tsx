@@ -4,12 +4,16 @@
  * Tests for the RBAC context provider component.
  */
 
-import { describe, it, expect } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
 import React from 'react';
 import { RbacProvider } from '../RbacProvider';
 import { RbacContext } from '../RbacContext';
-import type { RbacPolicy, Subject } from '../../core/types';
+import { useRbac } from '../useRbac';
+import { useCan } from '../useCan';
+import { CircularRoleError } from '../../core/errors';
+import type { RbacContextValue } from '../RbacContext';
+import type { AuditOptions, RbacPolicy, Subject } from '../../core/types';
 
 describe('RbacProvider', () => {
   const validPolicy: RbacPolicy = {
@@ -313,6 +317,361 @@ describe('RbacProvider', () => {
     });
   });
 
+  describe('trace', () => {
+    it('should attach traces to evaluate() decisions when trace is set', () => {
+      let contextValue: RbacContextValue | null = null;
+
+      function TestConsumer() {
+        contextValue = React.useContext(RbacContext);
+        return <div>Consumer</div>;
+      }
+
+      render(
+        <RbacProvider policy={validPolicy} subject={validSubject} trace>
+          <TestConsumer />
+        </RbacProvider>
+      );
+
+      const value = contextValue as RbacContextValue | null;
+      const decision = value?.engine.evaluate(validSubject, {
+        action: 'read',
+        resource: 'booking',
+      });
+
+      expect(decision?.trace?.decidedBy?.role).toBe('user');
+    });
+
+    it('should not attach traces by default', () => {
+      let contextValue: RbacContextValue | null = null;
+
+      function TestConsumer() {
+        contextValue = React.useContext(RbacContext);
+        return <div>Consumer</div>;
+      }
+
+      render(
+        <RbacProvider policy={validPolicy} subject={validSubject}>
+          <TestConsumer />
+        </RbacProvider>
+      );
+
+      const value = contextValue as RbacContextValue | null;
+      const decision = value?.engine.evaluate(validSubject, {
+        action: 'read',
+        resource: 'booking',
+      });
+
+      expect(decision?.trace).toBeUndefined();
+    });
+  });
+
+  describe('audit', () => {
+    it('should send decisions of the subject to the audit sink', () => {
+      const audit: AuditOptions = { sink: vi.fn() };
+
+      function TestConsumer() {
+        const { can } = useRbac();
+        return (
+          <div>
+            {can({ action: 'read', resource: 'booking' }) ? 'yes' : 'no'}
+          </div>
+        );
+      }
+
+      render(
+        <RbacProvider policy={validPolicy} subject={validSubject} audit={audit}>
+          <TestConsumer />
+        </RbacProvider>
+      );
+
+      expect(screen.getByText('yes')).toBeDefined();
+      expect(audit.sink).toHaveBeenCalledWith(
+        expect.objectContaining({
+          subjectId: 'user-1',
+          request: { action: 'read', resource: 'booking' },
+          granted: true,
+        })
+      );
+    });
+
+    it('should not audit checks made while loading', async () => {
+      const audit: AuditOptions = { sink: vi.fn() };
+      let resolvePolicy: (policy: RbacPolicy) => void = () => undefined;
+      const policy = new Promise<RbacPolicy>((resolve) => {
+        resolvePolicy = resolve;
+      });
+
+      function TestConsumer() {
+        const { can } = useRbac();
+        const canRead = useCan({ action: 'read', resource: 'booking' });
+        can({ action: 'delete', resource: 'booking' });
+        return <div>{canRead ? 'yes' : 'no'}</div>;
+      }
+
+      render(
+        <RbacProvider policy={policy} subject={validSubject} audit={audit}>
+          <TestConsumer />
+        </RbacProvider>
+      );
+
+      expect(screen.getByText('no')).toBeDefined();
+      expect(audit.sink).not.toHaveBeenCalled();
+
+      resolvePolicy(validPolicy);
+      await waitFor(() => {
+        expect(screen.getByText('yes')).toBeDefined();
+      });
+      expect(audit.sink).toHaveBeenCalled();
+    });
+  });
+
+  describe('scope', () => {
+    const scopedPolicy: RbacPolicy = {
+      roles: [
+        {
+          name: 'admin',
+          permissions: [{ action: 'delete', resource: 'project' }],
+        },
+      ],
+    };
+    const scopedSubject: Subject = {
+      id: 'user-1',
+      roles: [],
+      scopedRoles: [{ scope: 'workspace:a', roles: ['admin'] }],
+    };
+
+    function CanDelete() {
+      const { can } = useRbac();
+      return (
+        <div>
+          {can({ action: 'delete', resource: 'project' }) ? 'yes' : 'no'}
+        </div>
+      );
+    }
+
+    it('should apply the active scope and re-evaluate when it changes', () => {
+      const { rerender } = render(
+        <RbacProvider
+          policy={scopedPolicy}
+          subject={scopedSubject}
+          scope="workspace:a"
+        >
+          <CanDelete />
+        </RbacProvider>
+      );
+
+      expect(screen.getByText('yes')).toBeTruthy();
+
+      rerender(
+        <RbacProvider
+          policy={scopedPolicy}
+          subject={scopedSubject}
+          scope="workspace:b"
+        >
+          <CanDelete />
+        </RbacProvider>
+      );
+
+      expect(screen.getByText('no')).toBeTruthy();
+    });
+
+    it('should expose the scope in context', () => {
+      let contextValue: RbacContextValue | null = null;
+
+      function TestConsumer() {
+        contextValue = React.useContext(RbacContext);
+        return <div>Consumer</div>;
+      }
+
+      render(
+        <RbacProvider
+          policy={scopedPolicy}
+          subject={scopedSubject}
+          scope="workspace:a"
+        >
+          <TestConsumer />
+        </RbacProvider>
+      );
+
+      expect((contextValue as RbacContextValue | null)?.scope).toBe(
+        'workspace:a'
+      );
+    });
+
+    it('should keep the scope named by a request', () => {
+      function CanDeleteInA() {
+        const { can } = useRbac();
+        return (
+          <div>
+            {can({
+              action: 'delete',
+              resource: 'project',
+              scope: 'workspace:a',
+            })
+              ? 'yes'
+              : 'no'}
+          </div>
+        );
+      }
+
+      render(
+        <RbacProvider
+          policy={scopedPolicy}
+          subject={scopedSubject}
+          scope="workspace:b"
+        >
+          <CanDeleteInA />
+        </RbacProvider>
+      );
+
+      expect(screen.getByText('yes')).toBeTruthy();
+    });
+  });
+
+  describe('async loading', () => {
+    function StatusConsumer() {
+      const value = React.useContext(RbacContext);
+      const granted = value?.engine.can(value.subject, {
+        action: 'read',
+        resource: 'booking',
+      });
+      return (
+        <div>
+          {value?.status}:{String(granted)}
+        </div>
+      );
+    }
+
+    it('should report loading then ready for a policy promise', async () => {
+      render(
+        <RbacProvider
+          policy={Promise.resolve(validPolicy)}
+          subject={validSubject}
+        >
+          <StatusConsumer />
+        </RbacProvider>
+      );
+
+      expect(screen.getByText('loading:false')).toBeDefined();
+      await waitFor(() => {
+        expect(screen.getByText('ready:true')).toBeDefined();
+      });
+    });
+
+    it('should accept loader functions for policy and subject', async () => {
+      const loadPolicy = async () => validPolicy;
+      const loadSubject = async () => validSubject;
+
+      render(
+        <RbacProvider policy={loadPolicy} subject={loadSubject}>
+          <StatusConsumer />
+        </RbacProvider>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByText('ready:true')).toBeDefined();
+      });
+    });
+
+    it('should report error status and deny when loading fails', async () => {
+      const failure = new Error('network');
+      let contextValue: RbacContextValue | null = null;
+
+      function ErrorConsumer() {
+        contextValue = React.useContext(RbacContext);
+        return <StatusConsumer />;
+      }
+
+      render(
+        <RbacProvider
+          policy={() => Promise.reject(failure)}
+          subject={validSubject}
+        >
+          <ErrorConsumer />
+        </RbacProvider>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByText('error:false')).toBeDefined();
+      });
+      expect((contextValue as RbacContextValue | null)?.error).toBe(failure);
+    });
+
+    it('should report error status when a loader throws synchronously', async () => {
+      render(
+        <RbacProvider
+          policy={validPolicy}
+          subject={() => {
+            throw new Error('no session');
+          }}
+        >
+          <StatusConsumer />
+        </RbacProvider>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByText('error:false')).toBeDefined();
+      });
+    });
+
+    it('should report error status when a loaded policy is invalid', async () => {
+      let contextValue: RbacContextValue | null = null;
+      const circularPolicy: RbacPolicy = {
+        roles: [{ name: 'admin', permissions: [], inherits: ['admin'] }],
+      };
+
+      function ErrorConsumer() {
+        contextValue = React.useContext(RbacContext);
+        return <StatusConsumer />;
+      }
+
+      render(
+        <RbacProvider
+          policy={Promise.resolve(circularPolicy)}
+          subject={validSubject}
+        >
+          <ErrorConsumer />
+        </RbacProvider>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByText('error:false')).toBeDefined();
+      });
+      expect((contextValue as RbacContextValue | null)?.error).toBeInstanceOf(
+        CircularRoleError
+      );
+    });
+
+    it('should ignore results of a superseded source', async () => {
+      let resolveFirst: (policy: RbacPolicy) => void = () => undefined;
+      const first = new Promise<RbacPolicy>((resolve) => {
+        resolveFirst = resolve;
+      });
+      const denyAll: RbacPolicy = { roles: [] };
+
+      const { rerender } = render(
+        <RbacProvider policy={first} subject={validSubject}>
+          <StatusConsumer />
+        </RbacProvider>
+      );
+
+      rerender(
+        <RbacProvider policy={Promise.resolve(denyAll)} subject={validSubject}>
+          <StatusConsumer />
+        </RbacProvider>
+      );
+
+      await waitFor(() => {
+        expect(screen.getByText('ready:false')).toBeDefined();
+      });
+
+      resolveFirst(validPolicy);
+      await first;
+
+      expect(screen.getByText('ready:false')).toBeDefined();
+    });
+  });
+
   describe('error handling', () => {
     it('should throw when policy has circular roles', () => {
       const circularPolicy: RbacPolicy = {
@@ -0,0 +1,110 @@
+/**
+ * RoleHierarchy Tests
+ *
+ * Tests for the role inheritance tree component.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import React from 'react';
+import { RoleHierarchy } from '../RoleHierarchy';
+import type { RbacPolicy } from '../../core/types';
+
+describe('RoleHierarchy', () => {
+  const policy: RbacPolicy = {
+    roles: [
+      {
+        name: 'admin',
+        inherits: ['agent'],
+        permissions: [{ action: 'delete', resource: 'booking' }],
+      },
+      {
+        name: 'auditor',
+        inherits: ['viewer'],
+        permissions: [],
+      },
+      {
+        name: 'agent',
+        inherits: ['viewer'],
+        permissions: [{ action: 'update', resource: 'booking' }],
+      },
+      {
+        name: 'viewer',
+        permissions: [{ action: 'read', resource: 'booking' }],
+      },
+    ],
+  };
+
+  it('should render top-level roles at the root', () => {
+    render(<RoleHierarchy policy={policy} showPermissions={false} />);
+
+    const tree = screen.getByRole('list', { name: 'Role hierarchy' });
+    const roots = within(tree)
+      .getAllByRole('listitem')
+      .filter((item) => item.parentElement === tree)
+      .map((item) => item.getAttribute('data-role'));
+
+    expect(roots).toEqual(['admin', 'auditor']);
+  });
+
+  it('should nest inherited roles under every role inheriting them', () => {
+    const { container } = render(
+      <RoleHierarchy policy={policy} showPermissions={false} />
+    );
+
+    expect(
+      container.querySelectorAll(
+        '[data-role="admin"] [data-role="agent"] [data-role="viewer"]'
+      )
+    ).toHaveLength(1);
+    expect(
+      container.querySelectorAll('[data-role="auditor"] [data-role="viewer"]')
+    ).toHaveLength(1);
+  });
+
+  it('should list effective permissions with their source role', () => {
+    render(<RoleHierarchy policy={policy} />);
+
+    const permissions = screen.getByRole('list', {
+      name: 'admin permissions',
+    });
+
+    expect(
+      within(permissions)
+        .getAllByRole('listitem')
+        .map((item) => item.textContent)
+    ).toEqual([
+      'allow delete booking',
+      'allow update booking (from agent)',
+      'allow read booking (from viewer)',
+    ]);
+  });
+
+  it('should show the effective permission count', () => {
+    const { container } = render(
+      <RoleHierarchy policy={policy} showPermissions={false} />
+    );
+
+    expect(
+      container.querySelector('[data-role="admin"]')?.firstElementChild
+        ?.nextSibling?.textContent
+    ).toBe(' (3 permissions)');
+    expect(
+      screen.queryByRole('list', { name: 'admin permissions' })
+    ).toBeNull();
+  });
+
+  it('should mark missing roles', () => {
+    const { container } = render(
+      <RoleHierarchy
+        policy={{
+          roles: [{ name: 'admin', inherits: ['ghost'], permissions: [] }],
+        }}
+      />
+    );
+
+    const ghost = container.querySelector('[data-role="ghost"]');
+    expect(ghost?.getAttribute('data-missing')).toBe('true');
+    expect(ghost?.textContent).toBe('ghost (missing)');
+  });
+});
@@ -4,10 +4,10 @@
  * Tests for the useCan convenience hook.
  */
 
-import { describe, it, expect } from 'vitest';
-import { renderHook } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
 import React from 'react';
-import { useCan } from '../useCan';
+import { useCan, useCanStatus } from '../useCan';
 import { RbacProvider } from '../RbacProvider';
 import type { RbacPolicy, Subject } from '../../core/types';
 
@@ -160,11 +160,6 @@ describe('useCan', () => {
     });
 
     it('should work with inline request object construction', () => {
-      function TestComponent() {
-        const canDelete = useCan({ action: 'delete', resource: 'booking' });
-        return <div>{canDelete ? 'Can delete' : 'Cannot delete'}</div>;
-      }
-
       const { result } = renderHook(
         () => useCan({ action: 'read', resource: 'booking' }),
         { wrapper: createWrapper(userSubject) }
@@ -335,3 +330,147 @@ describe('useCan', () => {
     });
   });
 });
+
+describe('useCanStatus', () => {
+  const policy: RbacPolicy = {
+    roles: [
+      {
+        name: 'user',
+        permissions: [{ action: 'read', resource: 'booking' }],
+      },
+    ],
+  };
+  const subject: Subject = { id: 'user-1', roles: ['user'] };
+
+  it('should report granted and denied with a synchronous policy', () => {
+    function Wrapper({ children }: { children: React.ReactNode }) {
+      return (
+        <RbacProvider policy={policy} subject={subject}>
+          {children}
+        </RbacProvider>
+      );
+    }
+
+    const { result } = renderHook(
+      () => [
+        useCanStatus({ action: 'read', resource: 'booking' }),
+        useCanStatus({ action: 'delete', resource: 'booking' }),
+      ],
+      { wrapper: Wrapper }
+    );
+
+    expect(result.current).toEqual(['granted', 'denied']);
+  });
+
+  it('should report loading until an async policy resolves', async () => {
+    const pending = Promise.resolve(policy);
+
+    function Wrapper({ children }: { children: React.ReactNode }) {
+      return (
+        <RbacProvider policy={pending} subject={subject}>
+          {children}
+        </RbacProvider>
+      );
+    }
+
+    const { result } = renderHook(
+      () => useCanStatus({ action: 'read', resource: 'booking' }),
+      { wrapper: Wrapper }
+    );
+
+    expect(result.current).toBe('loading');
+    await waitFor(() => {
+      expect(result.current).toBe('granted');
+    });
+  });
+
+  it('should report denied when loading fails', async () => {
+    const failing = () => Promise.reject(new Error('network'));
+
+    function Wrapper({ children }: { children: React.ReactNode }) {
+      return (
+        <RbacProvider policy={failing} subject={subject}>
+          {children}
+        </RbacProvider>
+      );
+    }
+
+    const { result } = renderHook(
+      () => useCanStatus({ action: 'read', resource: 'booking' }),
+      { wrapper: Wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current).toBe('denied');
+    });
+  });
+});
+
+describe('time-bounded grants', () => {
+  const start = Date.UTC(2026, 0, 1);
+  const policy: RbacPolicy = {
+    roles: [
+      {
+        name: 'support',
+        permissions: [
+          {
+            action: 'impersonate',
+            resource: 'user',
+            validFrom: start + 1000,
+            validUntil: start + 2000,
+          },
+        ],
+      },
+    ],
+  };
+  const subject: Subject = { id: 'u1', roles: ['support'] };
+
+  function wrapper({ children }: { children: React.ReactNode }) {
+    return (
+      <RbacProvider policy={policy} subject={subject}>
+        {children}
+      </RbacProvider>
+    );
+  }
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should re-render when a grant starts and lapses', () => {
+    vi.useFakeTimers({ now: start });
+
+    const { result } = renderHook(
+      () => useCan({ action: 'impersonate', resource: 'user' }),
+      { wrapper }
+    );
+
+    expect(result.current).toBe(false);
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(result.current).toBe(true);
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(result.current).toBe(false);
+  });
+
+  it('should re-render useCanStatus when a grant lapses', () => {
+    vi.useFakeTimers({ now: start + 1500 });
+
+    const { result } = renderHook(
+      () => useCanStatus({ action: 'impersonate', resource: 'user' }),
+      { wrapper }
+    );
+
+    expect(result.current).toBe('granted');
+
+    act(() => {
+      vi.advanceTimersByTime(500);
+    });
+    expect(result.current).toBe('denied');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * useCanMany Hook Tests
+ *
+ * Tests for the batch permission hook.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import React from 'react';
+import { useCanMany } from '../useCanMany';
+import { RbacProvider } from '../RbacProvider';
+import type { AccessRequest, RbacPolicy, Subject } from '../../core/types';
+
+describe('useCanMany', () => {
+  const policy: RbacPolicy = {
+    roles: [
+      {
+        name: 'user',
+        permissions: [
+          { action: 'read', resource: 'booking' },
+          {
+            action: 'edit',
+            resource: 'booking',
+            condition: (ctx) =>
+              (ctx.resourceData as { ownerId: string }).ownerId ===
+              ctx.subject.id,
+          },
+        ],
+      },
+    ],
+  };
+
+  const subject: Subject = { id: 'user-1', roles: ['user'] };
+
+  function wrapper({ children }: { children: React.ReactNode }) {
+    return (
+      <RbacProvider policy={policy} subject={subject}>
+        {children}
+      </RbacProvider>
+    );
+  }
+
+  it('should return decisions in request order', () => {
+    const requests: AccessRequest[] = [
+      { action: 'read', resource: 'booking' },
+      { action: 'delete', resource: 'booking' },
+      {
+        action: 'edit',
+        resource: 'booking',
+        resourceData: { ownerId: 'user-1' },
+      },
+      {
+        action: 'edit',
+        resource: 'booking',
+        resourceData: { ownerId: 'user-2' },
+      },
+    ];
+
+    const { result } = renderHook(() => useCanMany(requests), { wrapper });
+
+    expect(result.current).toEqual([true, false, true, false]);
+  });
+
+  it('should return a stable result for the same requests array', () => {
+    const requests: AccessRequest[] = [{ action: 'read', resource: 'booking' }];
+
+    const { result, rerender } = renderHook(() => useCanMany(requests), {
+      wrapper,
+    });
+    const first = result.current;
+    rerender();
+
+    expect(result.current).toBe(first);
+  });
+
+  it('should throw when used outside RbacProvider', () => {
+    expect(() =>
+      renderHook(() => useCanMany([{ action: 'read', resource: 'booking' }]))
+    ).toThrow('useRbac must be used within RbacProvider');
+  });
+});
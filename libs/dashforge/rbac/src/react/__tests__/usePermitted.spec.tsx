@@ -0,0 +1,94 @@
+/**
+ * usePermittedActions / usePermittedResources Hook Tests
+ *
+ * Tests for the permission introspection hooks.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import React from 'react';
+import { usePermittedActions, usePermittedResources } from '../usePermitted';
+import { RbacProvider } from '../RbacProvider';
+import type { RbacPolicy, Subject } from '../../core/types';
+
+describe('usePermitted', () => {
+  const policy: RbacPolicy = {
+    roles: [
+      {
+        name: 'user',
+        permissions: [
+          { action: 'read', resource: 'invoice' },
+          { action: 'send', resource: 'invoice' },
+          { action: 'read', resource: 'report' },
+          { action: 'send', resource: 'report', effect: 'deny' },
+        ],
+      },
+    ],
+  };
+
+  const subject: Subject = { id: 'user-1', roles: ['user'] };
+
+  function wrapper({ children }: { children: React.ReactNode }) {
+    return (
+      <RbacProvider policy={policy} subject={subject}>
+        {children}
+      </RbacProvider>
+    );
+  }
+
+  describe('usePermittedActions', () => {
+    it('should list granted and denied actions for a resource', () => {
+      const { result } = renderHook(() => usePermittedActions('report'), {
+        wrapper,
+      });
+
+      expect(result.current).toEqual({ granted: ['read'], denied: ['send'] });
+    });
+
+    it('should check explicit candidates', () => {
+      const candidates = ['read', 'void'];
+      const { result } = renderHook(
+        () => usePermittedActions('invoice', { candidates }),
+        { wrapper }
+      );
+
+      expect(result.current).toEqual({ granted: ['read'], denied: ['void'] });
+    });
+
+    it('should return a stable result across re-renders', () => {
+      const { result, rerender } = renderHook(
+        () => usePermittedActions('invoice'),
+        { wrapper }
+      );
+      const first = result.current;
+      rerender();
+
+      expect(result.current).toBe(first);
+    });
+
+    it('should throw when used outside RbacProvider', () => {
+      expect(() => renderHook(() => usePermittedActions('invoice'))).toThrow(
+        'usePermittedActions must be used within RbacProvider'
+      );
+    });
+  });
+
+  describe('usePermittedResources', () => {
+    it('should list resources on which an action is granted', () => {
+      const { result } = renderHook(() => usePermittedResources('send'), {
+        wrapper,
+      });
+
+      expect(result.current).toEqual({
+        granted: ['invoice'],
+        denied: ['report'],
+      });
+    });
+
+    it('should throw when used outside RbacProvider', () => {
+      expect(() => renderHook(() => usePermittedResources('read'))).toThrow(
+        'usePermittedResources must be used within RbacProvider'
+      );
+    });
+  });
+});
@@ -74,11 +74,26 @@ describe('useRbac', () => {
       expect(result.current).not.toHaveProperty('engine');
     });
 
-    it('should only have can, evaluate, and subject properties', () => {
+    it('should only have can, canMany, evaluate, subject, scope, status and error properties', () => {
       const { result } = renderHook(() => useRbac(), { wrapper });
 
       const keys = Object.keys(result.current);
-      expect(keys).toEqual(['can', 'evaluate', 'subject']);
+      expect(keys).toEqual([
+        'can',
+        'canMany',
+        'evaluate',
+        'subject',
+        'scope',
+        'status',
+        'error',
+      ]);
+    });
+
+    it('should report ready status for synchronous policy and subject', () => {
+      const { result } = renderHook(() => useRbac(), { wrapper });
+
+      expect(result.current.status).toBe('ready');
+      expect(result.current.error).toBeUndefined();
     });
   });
 
@@ -116,6 +131,18 @@ describe('useRbac', () => {
       ).toBe(false);
     });
 
+    it('should canMany() return decisions in request order', () => {
+      const { result } = renderHook(() => useRbac(), { wrapper });
+
+      expect(
+        result.current.canMany([
+          { action: 'read', resource: 'booking' },
+          { action: 'delete', resource: 'booking' },
+          { action: 'create', resource: 'booking' },
+        ])
+      ).toEqual([true, false, true]);
+    });
+
     it('should evaluate() automatically pass subject', () => {
       const { result } = renderHook(() => useRbac(), { wrapper });
 
@@ -8,16 +8,34 @@
  */
 
 export { RbacProvider } from './RbacProvider';
-export type { RbacProviderProps } from './RbacProvider';
+export type { RbacProviderProps, RbacSource } from './RbacProvider';
 
 export { useRbac } from './useRbac';
 export type { UseRbacResult } from './useRbac';
 
 export { useRbacOptional } from './useRbacOptional';
 
-export { useCan } from './useCan';
+export { useCan, useCanStatus } from './useCan';
+export type { CanStatus } from './useCan';
+
+export { useCanMany } from './useCanMany';
+
+export { usePermittedActions, usePermittedResources } from './usePermitted';
 
 export { Can } from './Can';
 export type { CanProps } from './Can';
 
-export type { RbacContextValue } from './RbacContext';
+export { RbacDebugPanel } from './RbacDebugPanel';
+export type { RbacDebugPanelProps } from './RbacDebugPanel';
+
+export { useAccessStateReport } from './useDecisionReport';
+
+export { RoleHierarchy } from './RoleHierarchy';
+export type { RoleHierarchyProps } from './RoleHierarchy';
+
+export type { RbacContextValue, RbacStatus } from './RbacContext';
+export type {
+  RbacImpersonation,
+  DebugDecision,
+  DecisionSource,
+} from './RbacDebugContext';
@@ -6,8 +6,16 @@
  */
 
 import { useRbac } from './useRbac';
+import { useDecisionReport } from './useDecisionReport';
+import { useDecisionExpiry } from './useDecisionExpiry';
+import type { DecisionSource } from './RbacDebugContext';
 import type { AccessRequest } from '../core/types';
 
+/**
+ * Tri-state result of a permission check that accounts for async loading.
+ */
+export type CanStatus = 'loading' | 'granted' | 'denied';
+
 /**
  * useCan checks if the current subject can perform the requested action.
  *
@@ -15,6 +23,13 @@ import type { AccessRequest } from '../core/types';
  * inline and contains dynamic data, consider memoizing it with useMemo for
  * performance-critical cases.
  *
+ * Returns false, without evaluating, until the provider's policy and
+ * subject are ready.
+ * Use useCanStatus() to tell "loading" apart from "denied".
+ *
+ * When the decision depends on a validFrom / validUntil bound, the component
+ * re-renders once that bound is reached.
+ *
  * @param request - The access request to evaluate
  * @returns true if permission granted, false otherwise
  * @throws Error if used outside RbacProvider
@@ -28,6 +43,68 @@ import type { AccessRequest } from '../core/types';
  * ```
  */
 export function useCan(request: AccessRequest): boolean {
-  const { can } = useRbac();
-  return can(request);
+  const { evaluate, status } = useRbac();
+  const decision = status === 'ready' ? evaluate(request) : undefined;
+  const granted = decision?.granted ?? false;
+
+  useDecisionExpiry(decision?.expiresAt);
+  useDecisionReport(
+    'useCan',
+    status === 'ready' ? request : undefined,
+    granted
+  );
+
+  return granted;
+}
+
+/**
+ * useCanStatus checks a permission and reports 'loading' while the
+ * provider's policy or subject is still loading, so callers can render
+ * a loading state instead of flashing the denied state.
+ *
+ * A failed load reports 'denied' (fail closed); read useRbac().error for details.
+ *
+ * @param request - The access request to evaluate
+ * @returns 'loading', 'granted' or 'denied'
+ * @throws Error if used outside RbacProvider
+ *
+ * @example
+ * ```tsx
+ * function BookingActions() {
+ *   const status = useCanStatus({ action: 'delete', resource: 'booking' });
+ *   if (status === 'loading') return <Skeleton />;
+ *   return status === 'granted' ? <DeleteButton /> : null;
+ * }
+ * ```
+ */
+export function useCanStatus(request: AccessRequest): CanStatus {
+  return useCanStatusFrom('useCan', request);
+}
+
+/**
+ * useCanStatus reporting its decision under the given source.
+ *
+ * @internal
+ */
+export function useCanStatusFrom(
+  source: DecisionSource,
+  request: AccessRequest
+): CanStatus {
+  const { evaluate, status } = useRbac();
+  const decision = status === 'loading' ? undefined : evaluate(request);
+  const granted = decision?.granted ?? false;
+
+  useDecisionExpiry(decision?.expiresAt);
+
+  useDecisionReport(
+    source,
+    status === 'loading' ? undefined : request,
+    granted
+  );
+
+  if (status === 'loading') {
+    return 'loading';
+  }
+
+  return granted ? 'granted' : 'denied';
 }
@@ -0,0 +1,39 @@
+/**
+ * useCanMany Hook
+ *
+ * Batch variant of useCan for lists (e.g. DataGrid row actions).
+ */
+
+import { useMemo } from 'react';
+import { useRbac } from './useRbac';
+import type { AccessRequest } from '../core/types';
+
+/**
+ * useCanMany checks several requests for the current subject at once.
+ *
+ * Results are memoized on the requests array identity: memoize the array
+ * with useMemo when it is built during render.
+ *
+ * @param requests - The access requests to evaluate
+ * @returns Decisions in request order (all false while the provider is loading)
+ * @throws Error if used outside RbacProvider
+ *
+ * @example
+ * ```tsx
+ * function RowActions({ row }: { row: Booking }) {
+ *   const requests = useMemo(
+ *     () => [
+ *       { action: 'edit', resource: 'booking', resourceData: row },
+ *       { action: 'delete', resource: 'booking', resourceData: row },
+ *     ],
+ *     [row]
+ *   );
+ *   const [canEdit, canDelete] = useCanMany(requests);
+ *   // ...
+ * }
+ * ```
+ */
+export function useCanMany(requests: AccessRequest[]): boolean[] {
+  const { canMany } = useRbac();
+  return useMemo(() => canMany(requests), [canMany, requests]);
+}
@@ -0,0 +1,37 @@
+/**
+ * useDecisionExpiry Hook
+ *
+ * Re-renders the calling component when a time-bounded decision lapses.
+ */
+
+import { useContext, useEffect, useState } from 'react';
+import { RbacContext } from './RbacContext';
+
+/**
+ * Longest delay setTimeout supports (about 24.8 days).
+ * Later expiries re-arm the timer when it fires.
+ */
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+/**
+ * Schedules a re-render at AccessDecision.expiresAt.
+ * The delay is measured with the engine clock (RbacEngineOptions.now).
+ *
+ * @param expiresAt - Epoch milliseconds (undefined: nothing to schedule)
+ */
+export function useDecisionExpiry(expiresAt: number | undefined): void {
+  const contextValue = useContext(RbacContext);
+  const engine = contextValue?.engine;
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    if (expiresAt === undefined || !engine) {
+      return;
+    }
+
+    const delay = Math.min(Math.max(expiresAt - engine.now(), 0), MAX_TIMEOUT);
+    const timer = setTimeout(() => setTick((tick) => tick + 1), delay);
+
+    return () => clearTimeout(timer);
+  }, [expiresAt, engine]);
+}
@@ -0,0 +1,79 @@
+/**
+ * useDecisionReport Hook
+ *
+ * Reports a component's live decision to the RBAC debug panel.
+ * Does nothing in production builds or outside RbacProvider.
+ */
+
+import { useContext, useEffect, useId } from 'react';
+import { RbacDebugContext } from './RbacDebugContext';
+import type { DecisionSource } from './RbacDebugContext';
+import type { AccessRequest } from '../core/types';
+import type { AccessRequirement, AccessState } from '../dashforge/types';
+
+/**
+ * Reports a decision for the lifetime of the calling component.
+ *
+ * @param source - Kind of component reporting
+ * @param request - Evaluated request (undefined: nothing to report)
+ * @param granted - Decision
+ * @param state - Resolved access state, for access-controlled elements
+ */
+export function useDecisionReport(
+  source: DecisionSource,
+  request: AccessRequest | undefined,
+  granted: boolean,
+  state?: AccessState
+): void {
+  const debug = useContext(RbacDebugContext);
+  const id = useId();
+  const registry =
+    process.env.NODE_ENV !== 'production' ? debug?.registry : undefined;
+
+  useEffect(() => {
+    if (!registry || !request) {
+      return;
+    }
+
+    registry.report({
+      id,
+      source,
+      request,
+      granted,
+      ...(state !== undefined && { state }),
+    });
+  }, [registry, id, source, request, granted, state]);
+
+  useEffect(() => {
+    if (!registry) {
+      return;
+    }
+
+    return () => registry.remove(id);
+  }, [registry, id]);
+}
+
+/**
+ * Reports an element resolved through resolveAccessState (e.g. a component
+ * `access` prop) so RbacDebugPanel can list it as hidden, disabled or readonly.
+ * Intended for UI libraries wrapping resolveAccessState in their own hook.
+ * Does nothing in production builds or outside RbacProvider.
+ *
+ * @param access - Access requirement of the element (undefined: not reported)
+ * @param state - Resolved access state
+ *
+ * @example
+ * ```tsx
+ * function useAccessState(access?: AccessRequirement): AccessState {
+ *   const state = useMemo(() => resolve(access), [access]);
+ *   useAccessStateReport(access, state);
+ *   return state;
+ * }
+ * ```
+ */
+export function useAccessStateReport(
+  access: AccessRequirement | undefined,
+  state: AccessState
+): void {
+  useDecisionReport('access', access, state.granted, state);
+}
@@ -0,0 +1,119 @@
+/**
+ * usePermittedActions / usePermittedResources Hooks
+ *
+ * Introspection hooks for building action bars and resource lists.
+ */
+
+import { useMemo } from 'react';
+import { useRbacOptional } from './useRbacOptional';
+import type { IntrospectionOptions, PermittedSet } from '../core/types';
+
+const EMPTY_OPTIONS: IntrospectionOptions = {};
+
+/**
+ * usePermittedActions lists the actions the current subject may perform
+ * on a resource (see RbacEngine.getPermittedActions).
+ *
+ * The result is memoized on the resource and on the identity of
+ * options.candidates, options.resourceData and options.environment.
+ * options.scope defaults to the provider's active scope.
+ *
+ * @param resource - Resource to inspect
+ * @param options - Candidate actions, resourceData, environment and scope
+ * @returns Granted and denied actions
+ * @throws Error if used outside RbacProvider
+ *
+ * @example
+ * ```tsx
+ * const INVOICE_ACTIONS = ['read', 'edit', 'send', 'void'];
+ *
+ * function InvoiceActionBar() {
+ *   const { granted } = usePermittedActions('invoice', {
+ *     candidates: INVOICE_ACTIONS,
+ *   });
+ *   return <ActionBar actions={granted} />;
+ * }
+ * ```
+ */
+export function usePermittedActions(
+  resource: string,
+  options: IntrospectionOptions = EMPTY_OPTIONS
+): PermittedSet {
+  const contextValue = useRbacOptional();
+
+  if (!contextValue) {
+    throw new Error(
+      'usePermittedActions must be used within RbacProvider. ' +
+        'Wrap your component tree with <RbacProvider>.'
+    );
+  }
+
+  const { engine, subject, scope: activeScope } = contextValue;
+  const { candidates, resourceData, environment } = options;
+  const scope = options.scope ?? activeScope;
+
+  return useMemo(
+    () =>
+      engine.getPermittedActions(
+        subject,
+        resource,
+        buildOptions(candidates, resourceData, environment, scope)
+      ),
+    [engine, subject, resource, candidates, resourceData, environment, scope]
+  );
+}
+
+/**
+ * usePermittedResources lists the resources on which the current subject
+ * may perform an action (see RbacEngine.getPermittedResources).
+ *
+ * The result is memoized on the action and on the identity of
+ * options.candidates, options.resourceData and options.environment.
+ * options.scope defaults to the provider's active scope.
+ *
+ * @param action - Action to inspect
+ * @param options - Candidate resources, resourceData, environment and scope
+ * @returns Granted and denied resources
+ * @throws Error if used outside RbacProvider
+ */
+export function usePermittedResources(
+  action: string,
+  options: IntrospectionOptions = EMPTY_OPTIONS
+): PermittedSet {
+  const contextValue = useRbacOptional();
+
+  if (!contextValue) {
+    throw new Error(
+      'usePermittedResources must be used within RbacProvider. ' +
+        'Wrap your component tree with <RbacProvider>.'
+    );
+  }
+
+  const { engine, subject, scope: activeScope } = contextValue;
+  const { candidates, resourceData, environment } = options;
+  const scope = options.scope ?? activeScope;
+
+  return useMemo(
+    () =>
+      engine.getPermittedResources(
+        subject,
+        action,
+        buildOptions(candidates, resourceData, environment, scope)
+      ),
+    [engine, subject, action, candidates, resourceData, environment, scope]
+  );
+}
+
+function buildOptions(
+  candidates: string[] | undefined,
+  resourceData: unknown,
+  environment: Record<string, unknown> | undefined,
+  scope: string | undefined
+): IntrospectionOptions {
+  return {
+    ...(candidates !== undefined && { candidates }),
+    ...(resourceData !== undefined && { resourceData }),
+    ...(environment !== undefined && { environment }),
+    ...(scope !== undefined && { scope }),
+  };
+}
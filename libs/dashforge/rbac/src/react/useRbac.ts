@@ -7,22 +7,39 @@
 
 import { useContext, useMemo, useCallback } from 'react';
 import { RbacContext } from './RbacContext';
+import type { RbacStatus } from './RbacContext';
+import { withScope } from '../core/scope-resolver';
 import type { AccessRequest, AccessDecision, Subject } from '../core/types';
 
 export interface UseRbacResult {
   can: (request: AccessRequest) => boolean;
+  canMany: (requests: AccessRequest[]) => boolean[];
   evaluate: (request: AccessRequest) => AccessDecision;
   subject: Subject;
+  /**
+   * Active scope of the provider, applied to requests without a scope.
+   */
+  scope: string | undefined;
+  /**
+   * Loading status of the provider's policy and subject.
+   * can() denies everything until status is 'ready'.
+   */
+  status: RbacStatus;
+  /**
+   * Loading error when status is 'error', undefined otherwise.
+   */
+  error: unknown;
 }
 
 /**
  * useRbac returns bound permission helpers and current subject.
  *
- * The can() and evaluate() functions automatically bind the current subject,
- * so callers don't need to pass it on every call.
+ * The can(), canMany() and evaluate() functions automatically bind the current subject,
+ * so callers don't need to pass it on every call. Requests without a scope
+ * get the provider's active scope.
  *
  * @throws Error if used outside RbacProvider
- * @returns Object with can, evaluate, and subject
+ * @returns Object with can, canMany, evaluate, subject, scope, status and error
  */
 export function useRbac(): UseRbacResult {
   const contextValue = useContext(RbacContext);
@@ -34,31 +51,46 @@ export function useRbac(): UseRbacResult {
     );
   }
 
-  const { engine, subject } = contextValue;
+  const { engine, subject, scope, status, error } = contextValue;
 
   // Bind can() with current subject using useCallback for stability
   const can = useCallback(
     (request: AccessRequest): boolean => {
-      return engine.can(subject, request);
+      return engine.can(subject, withScope(request, scope));
     },
-    [engine, subject]
+    [engine, subject, scope]
+  );
+
+  // Bind canMany() with current subject using useCallback for stability
+  const canMany = useCallback(
+    (requests: AccessRequest[]): boolean[] => {
+      return engine.canMany(
+        subject,
+        requests.map((request) => withScope(request, scope))
+      );
+    },
+    [engine, subject, scope]
   );
 
   // Bind evaluate() with current subject using useCallback for stability
   const evaluate = useCallback(
     (request: AccessRequest): AccessDecision => {
-      return engine.evaluate(subject, request);
+      return engine.evaluate(subject, withScope(request, scope));
     },
-    [engine, subject]
+    [engine, subject, scope]
   );
 
   // Memoize result object to avoid unnecessary re-renders
   return useMemo(
     () => ({
       can,
+      canMany,
       evaluate,
       subject,
+      scope,
+      status,
+      error,
     }),
-    [can, evaluate, subject]
+    [can, canMany, evaluate, subject, scope, status, error]
   );
 }
@@ -207,7 +207,7 @@ export function Autocomplete<TOption = AutocompleteOption>(
   const bridge = useContext(DashFormContext) as DashFormBridge | null;
   const isVisible = useEngineVisibility(bridge?.engine, visibleWhen);
   useDashFieldMeta(name);
-  const accessState = useAccessState(access);
+  const accessState = useAccessState(access, name);
 
   const baseId = useId();
   const labelId = `${baseId}-label`;
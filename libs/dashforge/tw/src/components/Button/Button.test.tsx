@@ -1,5 +1,5 @@
 // @vitest-environment jsdom
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeAll } from 'vitest';
 import { render, fireEvent } from '@testing-library/react';
 import { RbacProvider } from '@dashforge/rbac';
 import type { RbacPolicy, Subject } from '@dashforge/rbac';
@@ -157,6 +157,112 @@ describe('Button — RBAC', () => {
   });
 });
 
+describe('Button — access reason (showAccessReason)', () => {
+  const MESSAGE_POLICY: RbacPolicy = {
+    roles: [
+      {
+        name: 'viewer',
+        permissions: [
+          {
+            resource: 'doc',
+            action: 'delete',
+            effect: 'deny',
+            message: 'Archived documents cannot be deleted',
+          },
+        ],
+      },
+    ],
+  };
+
+  // jsdom doesn't implement ResizeObserver — the open Radix tooltip needs it.
+  beforeAll(() => {
+    if (typeof globalThis.ResizeObserver === 'undefined') {
+      (globalThis as unknown as { ResizeObserver: unknown }).ResizeObserver = class {
+        observe() {}
+        unobserve() {}
+        disconnect() {}
+      };
+    }
+  });
+
+  function renderDelete(policy: RbacPolicy, button: React.ReactElement) {
+    return render(
+      <RbacProvider policy={policy} subject={viewer}>
+        {button}
+      </RbacProvider>
+    );
+  }
+
+  it('shows the requirement reason in a tooltip on focus', () => {
+    const { container, getAllByText } = renderDelete(
+      READ_ONLY_POLICY,
+      <Button
+        showAccessReason
+        access={{
+          resource: 'doc',
+          action: 'delete',
+          onUnauthorized: 'disable',
+          reason: 'Only owners can delete',
+        }}
+      >
+        Delete
+      </Button>
+    );
+    const wrapper = container.querySelector('[data-access-reason]') as HTMLElement;
+    expect(wrapper.getAttribute('tabindex')).toBe('0');
+    fireEvent.focus(wrapper);
+    expect(getAllByText('Only owners can delete').length).toBeGreaterThan(0);
+  });
+
+  it("prefers the policy's message over the requirement reason", () => {
+    const { container, getAllByText, queryByText } = renderDelete(
+      MESSAGE_POLICY,
+      <Button
+        showAccessReason
+        access={{
+          resource: 'doc',
+          action: 'delete',
+          onUnauthorized: 'disable',
+          reason: 'Only owners can delete',
+        }}
+      >
+        Delete
+      </Button>
+    );
+    fireEvent.focus(container.querySelector('[data-access-reason]') as HTMLElement);
+    expect(getAllByText('Archived documents cannot be deleted').length).toBeGreaterThan(0);
+    expect(queryByText('Only owners can delete')).toBeNull();
+  });
+
+  it('does not wrap the button unless opted in', () => {
+    const { container } = renderDelete(
+      MESSAGE_POLICY,
+      <Button access={{ resource: 'doc', action: 'delete', onUnauthorized: 'disable' }}>
+        Delete
+      </Button>
+    );
+    expect(container.querySelector('[data-access-reason]')).toBeNull();
+  });
+
+  it('does not wrap the button when access is granted or there is no reason', () => {
+    const { container } = renderDelete(
+      READ_ONLY_POLICY,
+      <>
+        <Button
+          showAccessReason
+          access={{ resource: 'doc', action: 'read', onUnauthorized: 'disable', reason: 'x' }}
+        >
+          Read
+        </Button>
+        <Button showAccessReason access={{ resource: 'doc', action: 'delete', onUnauthorized: 'disable' }}>
+          Delete
+        </Button>
+      </>
+    );
+    expect(container.querySelector('[data-access-reason]')).toBeNull();
+  });
+});
+
 describe('Button — asChild polymorphism', () => {
   it('renders the child element with the Button class merged in', () => {
     const { getByText } = render(
@@ -5,6 +5,7 @@ import { useComponentDefaults } from '@dashforge/tw-theme';
 import { cn } from '../../utils/cn.js';
 import { useAccessState } from '../../hooks/useAccessState.js';
 import { Spinner } from '../Spinner/Spinner.js';
+import { AccessReasonTooltip, useShowAccessReason } from '../_shared/access/index.js';
 import type { SpinnerSize } from '../Spinner/spinner.types.js';
 import { buttonVariants } from './button.variants.js';
 import type { ButtonProps } from './button.types.js';
@@ -59,6 +60,18 @@ function buttonSizeToSpinnerSize(size: 'sm' | 'md' | 'lg'): SpinnerSize {
  * >
  *   Publish
  * </Button>
+ *
+ * <Button
+ *   showAccessReason
+ *   access={{
+ *     resource: 'booking',
+ *     action: 'approve',
+ *     onUnauthorized: 'disable',
+ *     reason: 'Only managers can approve bookings',
+ *   }}
+ * >
+ *   Approve
+ * </Button>
  * ```
  */
 export const Button = forwardRef<HTMLButtonElement, ButtonProps>(function Button(
@@ -85,6 +98,7 @@ export const Button = forwardRef<HTMLButtonElement, ButtonProps>(function Button
     fullWidth,
     loading,
     asChild,
+    showAccessReason,
     sx,
     children,
     ...rest
@@ -98,6 +112,7 @@ export const Button = forwardRef<HTMLButtonElement, ButtonProps>(function Button
   const bridge = useContext(DashFormContext);
   const isVisible = useEngineVisibility(bridge?.engine, visibleWhen);
   const accessState = useAccessState(access);
+  const showReason = useShowAccessReason(showAccessReason);
 
   // Early return for hidden state — either RBAC denies visibility or
   // the engine-reactive predicate returned false.
@@ -127,36 +142,40 @@ export const Button = forwardRef<HTMLButtonElement, ButtonProps>(function Button
   // gets the resolved className, no extra Button DOM is emitted.
   if (asChild) {
     return (
-      <Slot
-        ref={ref}
-        className={classes}
-        data-disabled={effectiveDisabled || undefined}
-        aria-disabled={effectiveDisabled || undefined}
-        aria-busy={ariaBusy}
-      >
-        {children}
-      </Slot>
+      <AccessReasonTooltip state={accessState} enabled={showReason}>
+        <Slot
+          ref={ref}
+          className={classes}
+          data-disabled={effectiveDisabled || undefined}
+          aria-disabled={effectiveDisabled || undefined}
+          aria-busy={ariaBusy}
+        >
+          {children}
+        </Slot>
+      </AccessReasonTooltip>
     );
   }
 
   return (
-    <button
-      ref={ref}
-      type={rest.type ?? 'button'}
-      disabled={effectiveDisabled}
-      aria-busy={ariaBusy}
-      className={classes}
-      {...rest}
-    >
-      {loading && (
-        <Spinner
-          size={buttonSizeToSpinnerSize(size ?? 'md')}
-          thickness="thick"
-          withTrack
-          label=""
-        />
-      )}
-      {children}
-    </button>
+    <AccessReasonTooltip state={accessState} enabled={showReason}>
+      <button
+        ref={ref}
+        type={rest.type ?? 'button'}
+        disabled={effectiveDisabled}
+        aria-busy={ariaBusy}
+        className={classes}
+        {...rest}
+      >
+        {loading && (
+          <Spinner
+            size={buttonSizeToSpinnerSize(size ?? 'md')}
+            thickness="thick"
+            withTrack
+            label=""
+          />
+        )}
+        {children}
+      </button>
+    </AccessReasonTooltip>
   );
 });
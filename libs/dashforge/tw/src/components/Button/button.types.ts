@@ -108,6 +108,17 @@ export interface ButtonProps
    */
   access?: AccessRequirement;
 
+  /**
+   * When `access` disables the button, show why in a `<Tooltip>`
+   * (`AccessState.reason`: the policy's message, else
+   * `access.reason`). No tooltip when there is no reason.
+   *
+   * Defaults to `true` inside `<DataGrid showAccessReason>` row
+   * actions, `false` elsewhere.
+   * @default false
+   */
+  showAccessReason?: boolean;
+
   /**
    * Reactive visibility predicate. Re-evaluated on every engine state
    * change when the button is mounted inside a `<DashForm>`; outside
@@ -123,7 +123,7 @@ export function Checkbox(props: CheckboxProps) {
   // (reactive snapshot) rather than `bridge.getValue(name)` (eager
   // read with no subscription).
   const fieldMeta = useDashFieldMeta(name);
-  const accessState = useAccessState(access);
+  const accessState = useAccessState(access, name);
 
   const controlId = useId();
 
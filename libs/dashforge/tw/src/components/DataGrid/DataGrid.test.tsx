@@ -2,7 +2,10 @@
 import * as React from 'react';
 import { describe, it, expect, afterEach, beforeAll, vi } from 'vitest';
 import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import { RbacProvider } from '@dashforge/rbac';
+import type { RbacPolicy } from '@dashforge/rbac';
 import { DataGrid } from './DataGrid.js';
+import { Button } from '../Button/Button.js';
 import type { TableColumn } from '../Table/table.types.js';
 
 void React;
@@ -1151,3 +1154,46 @@ describe('DataGrid — Sprint 6 P2 refinements', () => {
     ]);
   });
 });
+
+describe('DataGrid — row actions access reason', () => {
+  const policy: RbacPolicy = {
+    roles: [{ name: 'viewer', permissions: [{ action: 'read', resource: 'user' }] }],
+  };
+
+  function renderGrid(showAccessReason: boolean | undefined) {
+    return render(
+      <RbacProvider policy={policy} subject={{ id: 'v', roles: ['viewer'] }}>
+        <DataGrid
+          rows={generateUsers(2)}
+          cols={baseCols}
+          getRowId={getRowId}
+          rowHeight={48}
+          {...(showAccessReason !== undefined && { showAccessReason })}
+          rowActions={() => (
+            <Button
+              access={{
+                action: 'delete',
+                resource: 'user',
+                onUnauthorized: 'disable',
+                reason: 'Only admins can delete users',
+              }}
+            >
+              Delete
+            </Button>
+          )}
+        />
+      </RbacProvider>
+    );
+  }
+
+  it('wraps access-disabled row actions in a reason tooltip trigger', () => {
+    const { container } = renderGrid(true);
+    expect(container.querySelectorAll('[data-access-reason]')).toHaveLength(2);
+    expect(screen.getAllByRole('button', { name: 'Delete' })[0]).toHaveProperty('disabled', true);
+  });
+
+  it('leaves row actions untouched by default', () => {
+    const { container } = renderGrid(undefined);
+    expect(container.querySelector('[data-access-reason]')).toBeNull();
+  });
+});
@@ -9,6 +9,7 @@ import {
 import { useComponentDefaults } from '@dashforge/tw-theme';
 import { cn } from '../../utils/cn.js';
 import { useAccessState } from '../../hooks/useAccessState.js';
+import { AccessReasonContext } from '../_shared/access/index.js';
 import { Skeleton } from '../Skeleton/Skeleton.js';
 import { Pagination } from '../Pagination/Pagination.js';
 import { dataGridVariants } from './dataGrid.variants.js';
@@ -153,6 +154,7 @@ export function DataGrid<T extends object>(_props: DataGridProps<T>) {
     serverSidePagination = false,
 
     rowActions,
+    showAccessReason = false,
 
     loading = false,
     loadingRowCount = 8,
@@ -609,6 +611,7 @@ export function DataGrid<T extends object>(_props: DataGridProps<T>) {
                     showSelectionColumn,
                     showRowActionsColumn,
                     rowActions,
+                    showAccessReason,
                     getRowId,
                     isInteractive,
                     labels,
@@ -1002,6 +1005,7 @@ function renderVirtualizedBody<T extends object>(args: {
   showSelectionColumn: boolean;
   showRowActionsColumn: boolean;
   rowActions: ((row: T) => ReactNode) | undefined;
+  showAccessReason: boolean;
   getRowId: (row: T, index: number) => string;
   isInteractive: boolean;
   labels: Required<TableLabels>;
@@ -1026,6 +1030,7 @@ function renderVirtualizedBody<T extends object>(args: {
     showSelectionColumn,
     showRowActionsColumn,
     rowActions,
+    showAccessReason,
     getRowId,
     isInteractive,
     labels,
@@ -1079,7 +1084,11 @@ function renderVirtualizedBody<T extends object>(args: {
               />
             ))}
             {showRowActionsColumn && rowActions && (
-              <td className={classes.rowActionsCell}>{rowActions(row)}</td>
+              <td className={classes.rowActionsCell}>
+                <AccessReasonContext.Provider value={showAccessReason}>
+                  {rowActions(row)}
+                </AccessReasonContext.Provider>
+              </td>
             )}
           </tr>
         );
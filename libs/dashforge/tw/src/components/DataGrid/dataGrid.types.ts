@@ -333,6 +333,14 @@ export interface DataGridProps<T extends object>
   /** Per-row action slot — receives the row, returns JSX rendered on hover. */
   rowActions?: (row: T) => ReactNode;
 
+  /**
+   * Show the RBAC denial reason of access-disabled `<Button>`,
+   * `<IconButton>` and `<MenuItem>` in `rowActions` in a `<Tooltip>`
+   * (their own `showAccessReason` prop still wins).
+   * @default false
+   */
+  showAccessReason?: boolean;
+
   // ───── States ─────
   /**
    * Render skeleton rows in place of the data while `true`.
@@ -140,7 +140,7 @@ export function DateTimePicker(_props: DateTimePickerProps) {
   const bridge = useContext(DashFormContext) as DashFormBridge | null;
   const isVisible = useEngineVisibility(bridge?.engine, visibleWhen);
   const fieldMeta = useDashFieldMeta(name);
-  const accessState = useAccessState(access);
+  const accessState = useAccessState(access, name);
 
   const fieldId = useId();
   const helperId = `${fieldId}-help`;
@@ -4,6 +4,7 @@ import { DashFormContext, useEngineVisibility } from '@dashforge/ui-core';
 import { useComponentDefaults } from '@dashforge/tw-theme';
 import { cn } from '../../utils/cn.js';
 import { useAccessState } from '../../hooks/useAccessState.js';
+import { AccessReasonTooltip, useShowAccessReason } from '../_shared/access/index.js';
 import { buttonVariants } from '../Button/button.variants.js';
 import { Spinner } from '../Spinner/Spinner.js';
 import type { SpinnerSize } from '../Spinner/spinner.types.js';
@@ -90,6 +91,7 @@ export const IconButton = forwardRef<HTMLButtonElement, IconButtonProps>(
       size = 'md',
       loading,
       asChild,
+      showAccessReason,
       sx,
       className,
       children,
@@ -100,6 +102,7 @@ export const IconButton = forwardRef<HTMLButtonElement, IconButtonProps>(
     const bridge = useContext(DashFormContext);
     const isVisible = useEngineVisibility(bridge?.engine, visibleWhen);
     const accessState = useAccessState(access);
+    const showReason = useShowAccessReason(showAccessReason);
     if (!isVisible || !accessState.visible) return null;
 
     // Effective disabled = explicit OR RBAC.disabled OR RBAC.readonly OR loading.
@@ -125,38 +128,42 @@ export const IconButton = forwardRef<HTMLButtonElement, IconButtonProps>(
 
     if (asChild) {
       return (
-        <Slot
-          ref={ref}
-          className={classes}
-          data-disabled={effectiveDisabled || undefined}
-          aria-disabled={effectiveDisabled || undefined}
-          aria-busy={ariaBusy}
-        >
-          {children}
-        </Slot>
+        <AccessReasonTooltip state={accessState} enabled={showReason}>
+          <Slot
+            ref={ref}
+            className={classes}
+            data-disabled={effectiveDisabled || undefined}
+            aria-disabled={effectiveDisabled || undefined}
+            aria-busy={ariaBusy}
+          >
+            {children}
+          </Slot>
+        </AccessReasonTooltip>
       );
     }
 
     return (
-      <button
-        ref={ref}
-        type={rest.type ?? 'button'}
-        disabled={effectiveDisabled}
-        aria-busy={ariaBusy}
-        className={classes}
-        {...rest}
-      >
-        {loading ? (
-          <Spinner
-            size={iconButtonSizeToSpinnerSize(size)}
-            thickness="thick"
-            withTrack
-            label=""
-          />
-        ) : (
-          children
-        )}
-      </button>
+      <AccessReasonTooltip state={accessState} enabled={showReason}>
+        <button
+          ref={ref}
+          type={rest.type ?? 'button'}
+          disabled={effectiveDisabled}
+          aria-busy={ariaBusy}
+          className={classes}
+          {...rest}
+        >
+          {loading ? (
+            <Spinner
+              size={iconButtonSizeToSpinnerSize(size)}
+              thickness="thick"
+              withTrack
+              label=""
+            />
+          ) : (
+            children
+          )}
+        </button>
+      </AccessReasonTooltip>
     );
   }
 );
@@ -133,6 +133,13 @@ export interface IconButtonProps
    */
   access?: AccessRequirement;
 
+  /**
+   * When `access` disables the button, show why in a `<Tooltip>`.
+   * Same contract as `<Button showAccessReason>`.
+   * @default false
+   */
+  showAccessReason?: boolean;
+
   /**
    * Reactive visibility predicate — same contract as `<Button>` and
    * `<Chip>`. When the predicate returns `false`, the component
@@ -0,0 +1,87 @@
+// @vitest-environment jsdom
+import { beforeAll, describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import type { JsonSchema, JsonSchemaWidgetProps } from '@dashforge/forms';
+import { JsonSchemaForm } from './JsonSchemaForm.js';
+
+const schema: JsonSchema = {
+  type: 'object',
+  required: ['email'],
+  properties: {
+    email: { type: 'string', format: 'email', title: 'Email' },
+    age: { type: 'integer', minimum: 18 },
+    newsletter: { type: 'boolean' },
+    contacts: {
+      type: 'array',
+      maxItems: 2,
+      items: {
+        type: 'object',
+        properties: { phone: { type: 'string' } },
+      },
+    },
+  },
+};
+
+describe('<JsonSchemaForm>', () => {
+  // jsdom doesn't implement ResizeObserver — the Checkbox / Select Radix parts need it.
+  beforeAll(() => {
+    if (typeof globalThis.ResizeObserver === 'undefined') {
+      (globalThis as unknown as { ResizeObserver: unknown }).ResizeObserver = class {
+        observe() {}
+        unobserve() {}
+        disconnect() {}
+      };
+    }
+  });
+
+  it('renders the TW field components for the inferred widgets', () => {
+    const { container } = render(<JsonSchemaForm schema={schema} />);
+
+    const email = container.querySelector('input[name="email"]');
+    expect(email?.getAttribute('type')).toBe('email');
+    expect(email?.hasAttribute('required')).toBe(true);
+    expect(screen.getByText('Age')).toBeTruthy();
+    expect(container.querySelector('input[type="checkbox"]')).toBeTruthy();
+  });
+
+  it('adds and removes array items up to maxItems', () => {
+    const { container } = render(<JsonSchemaForm schema={schema} />);
+    const add = screen.getByRole('button', { name: 'Add' }) as HTMLButtonElement;
+
+    fireEvent.click(add);
+    fireEvent.click(add);
+    expect(container.querySelector('input[name="contacts.1.phone"]')).toBeTruthy();
+    expect(add.disabled).toBe(true);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove Contacts 2' }));
+    expect(container.querySelector('input[name="contacts.1.phone"]')).toBeNull();
+    expect(add.disabled).toBe(false);
+  });
+
+  it('shows schema validation errors and blocks submit', async () => {
+    const onSubmit = vi.fn();
+    const { container } = render(<JsonSchemaForm schema={schema} onSubmit={onSubmit} />);
+
+    // Submit the form directly: the native `required` attribute would
+    // stop jsdom's click-to-submit before the schema rules run.
+    fireEvent.submit(container.querySelector('form')!);
+
+    expect(await screen.findByText('Email is required')).toBeTruthy();
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it('merges custom widgets over the defaults', () => {
+    const Stars = ({ name }: JsonSchemaWidgetProps) => <output>stars:{name}</output>;
+
+    render(
+      <JsonSchemaForm
+        schema={{ type: 'object', properties: { rating: { type: 'number' }, note: { type: 'string' } } }}
+        uiSchema={{ fields: { rating: { widget: 'stars' } } }}
+        components={{ widgets: { stars: Stars } }}
+      />,
+    );
+
+    expect(screen.getByText('stars:rating')).toBeTruthy();
+    expect(screen.getByText('Note')).toBeTruthy();
+  });
+});
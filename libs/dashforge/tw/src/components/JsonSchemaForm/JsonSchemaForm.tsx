@@ -0,0 +1,225 @@
+import { Children, useMemo } from 'react';
+import { JsonSchemaForm as BaseJsonSchemaForm } from '@dashforge/forms';
+import type {
+  JsonSchemaArrayTemplateProps,
+  JsonSchemaComponents,
+  JsonSchemaObjectTemplateProps,
+  JsonSchemaWidgetProps,
+} from '@dashforge/forms';
+import { TextField } from '../TextField/TextField.js';
+import { Textarea } from '../Textarea/Textarea.js';
+import { NumberField } from '../NumberField/NumberField.js';
+import { Select } from '../Select/Select.js';
+import { RadioGroup } from '../RadioGroup/RadioGroup.js';
+import { Checkbox } from '../Checkbox/Checkbox.js';
+import { Switch } from '../Switch/Switch.js';
+import { DatePicker } from '../DatePicker/DatePicker.js';
+import { DateTimePicker } from '../DateTimePicker/DateTimePicker.js';
+import { TimePicker } from '../TimePicker/TimePicker.js';
+import { Grid } from '../Grid/Grid.js';
+import { Button } from '../Button/Button.js';
+import type { JsonSchemaFormProps } from './jsonSchemaForm.types.js';
+
+/**
+ * Props shared by every field component: all of them register through
+ * the bridge with `name` + `rules`.
+ */
+function fieldProps({ name, field }: JsonSchemaWidgetProps) {
+  return {
+    name,
+    label: field.label,
+    rules: field.rules,
+    helperText: field.helperText,
+  };
+}
+
+const widgets: JsonSchemaComponents['widgets'] = {
+  text: (props) => (
+    <TextField
+      {...fieldProps(props)}
+      required={props.field.required}
+      type={props.field.inputType}
+      placeholder={props.field.placeholder}
+    />
+  ),
+  textarea: (props) => (
+    <Textarea
+      {...fieldProps(props)}
+      required={props.field.required}
+      placeholder={props.field.placeholder}
+    />
+  ),
+  number: (props) => (
+    <NumberField
+      {...fieldProps(props)}
+      required={props.field.required}
+      placeholder={props.field.placeholder}
+      min={props.field.min}
+      max={props.field.max}
+      step={props.field.step}
+    />
+  ),
+  select: (props) => (
+    <Select<string | number>
+      {...fieldProps(props)}
+      required={props.field.required}
+      placeholder={props.field.placeholder}
+      options={props.field.options ?? []}
+    />
+  ),
+  // RadioGroup values are strings: numeric enums are stored as strings
+  radio: (props) => (
+    <RadioGroup
+      {...fieldProps(props)}
+      required={props.field.required}
+      options={(props.field.options ?? []).map((option) => ({
+        value: String(option.value),
+        label: option.label,
+      }))}
+    />
+  ),
+  checkbox: (props) => <Checkbox {...fieldProps(props)} />,
+  switch: (props) => <Switch {...fieldProps(props)} />,
+  date: (props) => (
+    <DatePicker
+      {...fieldProps(props)}
+      required={props.field.required}
+      placeholder={props.field.placeholder}
+    />
+  ),
+  datetime: (props) => (
+    <DateTimePicker
+      {...fieldProps(props)}
+      required={props.field.required}
+      placeholder={props.field.placeholder}
+    />
+  ),
+  time: (props) => (
+    <TimePicker
+      {...fieldProps(props)}
+      required={props.field.required}
+      placeholder={props.field.placeholder}
+    />
+  ),
+};
+
+/**
+ * Fields fill one grid cell; nested objects and arrays span the row.
+ * The root object renders without a `<fieldset>`.
+ */
+function ObjectTemplate({ name, field, children }: JsonSchemaObjectTemplateProps) {
+  const grid = (
+    <Grid container cols={field.columns} spacing={4}>
+      {Children.toArray(children).map((child, index) =>
+        field.children[index]?.kind === 'field' ? (
+          child
+        ) : (
+          <Grid key={field.children[index]?.key ?? index} xs="full">
+            {child}
+          </Grid>
+        )
+      )}
+    </Grid>
+  );
+
+  if (!name) {
+    return grid;
+  }
+
+  return (
+    <fieldset className="flex flex-col gap-2">
+      {field.label && (
+        <legend className="text-sm font-medium text-neutral-900 mb-1">
+          {field.label}
+        </legend>
+      )}
+      {field.helperText && (
+        <p className="text-sm text-neutral-600">{field.helperText}</p>
+      )}
+      {grid}
+    </fieldset>
+  );
+}
+
+function ArrayTemplate({
+  field,
+  items,
+  add,
+  canAdd,
+  canRemove,
+}: JsonSchemaArrayTemplateProps) {
+  return (
+    <div className="flex flex-col gap-3">
+      <span className="text-sm font-medium text-neutral-900">{field.label}</span>
+      {field.helperText && (
+        <p className="text-sm text-neutral-600">{field.helperText}</p>
+      )}
+      {items.map((item) => (
+        <div key={item.key} className="flex items-start gap-2">
+          <div className="flex-1">{item.content}</div>
+          <Button
+            type="button"
+            variant="ghost"
+            color="danger"
+            size="sm"
+            disabled={!canRemove}
+            onClick={item.remove}
+            aria-label={`Remove ${field.label} ${item.index + 1}`}
+          >
+            Remove
+          </Button>
+        </div>
+      ))}
+      <div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={!canAdd}
+          onClick={add}
+        >
+          {field.addLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Dashforge TW JsonSchemaForm.
+ *
+ * Renders a `<DashForm>` from a JSON Schema with the TW field
+ * components: strings → `<TextField>` (`email` / `uri` formats set the
+ * input type), numbers → `<NumberField>`, enums → `<Select>`,
+ * booleans → `<Checkbox>`, `date` / `date-time` / `time` formats → the
+ * pickers. `uiSchema.widget` switches to `textarea`, `radio` or
+ * `switch`. Objects lay out in a `<Grid>` of `uiSchema.columns`;
+ * arrays of objects get add / remove buttons bounded by
+ * `minItems` / `maxItems`.
+ *
+ * See `JsonSchemaForm` in `@dashforge/forms` for the supported schema
+ * subset and the `uiSchema` hints.
+ *
+ * @example
+ * ```tsx
+ * <JsonSchemaForm
+ *   schema={userSchema}
+ *   uiSchema={{ columns: 2, fields: { bio: { widget: 'textarea' } } }}
+ *   onSubmit={saveUser}
+ * >
+ *   <Button type="submit">Save</Button>
+ * </JsonSchemaForm>
+ * ```
+ */
+export function JsonSchemaForm({ components, ...props }: JsonSchemaFormProps) {
+  const merged = useMemo<JsonSchemaComponents>(
+    () => ({
+      ObjectTemplate: components?.ObjectTemplate ?? ObjectTemplate,
+      ArrayTemplate: components?.ArrayTemplate ?? ArrayTemplate,
+      widgets: { ...widgets, ...components?.widgets },
+    }),
+    [components]
+  );
+
+  return <BaseJsonSchemaForm {...props} components={merged} />;
+}
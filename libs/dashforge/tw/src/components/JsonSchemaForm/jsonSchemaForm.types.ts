@@ -0,0 +1,21 @@
+import type {
+  JsonSchemaComponents,
+  JsonSchemaFormProps as BaseJsonSchemaFormProps,
+} from '@dashforge/forms';
+
+/**
+ * Props for the Dashforge TW `<JsonSchemaForm>`.
+ *
+ * Same as the `@dashforge/forms` `JsonSchemaForm`, with `components`
+ * made optional: the TW widgets and templates are the defaults, and
+ * entries passed here replace them (`widgets` is merged by name, so a
+ * custom widget can be added without re-declaring the built-in ones).
+ *
+ * Values are untyped (`FieldValues`): their shape comes from the schema
+ * at runtime.
+ */
+export interface JsonSchemaFormProps
+  extends Omit<BaseJsonSchemaFormProps, 'components'> {
+  /** Widget / template overrides, merged over the TW defaults. */
+  components?: Partial<JsonSchemaComponents>;
+}
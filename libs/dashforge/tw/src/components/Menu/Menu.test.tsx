@@ -1,7 +1,7 @@
 // @vitest-environment jsdom
 import * as React from 'react';
-import { describe, it, expect, vi, afterEach } from 'vitest';
-import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import { describe, it, expect, afterEach } from 'vitest';
+import { render, screen, cleanup } from '@testing-library/react';
 import { RbacProvider } from '@dashforge/rbac';
 import type { RbacPolicy, Subject } from '@dashforge/rbac';
 import {
@@ -279,6 +279,63 @@ describe('<Menu>', () => {
     });
   });
 
+  describe('MenuItem access reason', () => {
+    it('wraps a disabled item in a reason tooltip trigger when opted in', () => {
+      render(
+        <RbacProvider policy={NO_ACCESS_POLICY} subject={guestSubject}>
+          <Menu defaultOpen>
+            <MenuTrigger>
+              <button>Open</button>
+            </MenuTrigger>
+            <MenuContent>
+              <MenuItem
+                showAccessReason
+                access={{
+                  resource: 'admin',
+                  action: 'manage',
+                  onUnauthorized: 'disable',
+                  reason: 'Admins only',
+                }}
+              >
+                Admin-only
+              </MenuItem>
+            </MenuContent>
+          </Menu>
+        </RbacProvider>
+      );
+      const item = screen.getByText('Admin-only').closest('[role="menuitem"]');
+      expect(item?.getAttribute('data-disabled')).not.toBeNull();
+      const wrapper = item?.parentElement;
+      expect(wrapper?.hasAttribute('data-access-reason')).toBe(true);
+      expect(wrapper?.className).toBe('block');
+    });
+
+    it('renders the bare item without showAccessReason', () => {
+      render(
+        <RbacProvider policy={NO_ACCESS_POLICY} subject={guestSubject}>
+          <Menu defaultOpen>
+            <MenuTrigger>
+              <button>Open</button>
+            </MenuTrigger>
+            <MenuContent>
+              <MenuItem
+                access={{
+                  resource: 'admin',
+                  action: 'manage',
+                  onUnauthorized: 'disable',
+                  reason: 'Admins only',
+                }}
+              >
+                Admin-only
+              </MenuItem>
+            </MenuContent>
+          </Menu>
+        </RbacProvider>
+      );
+      expect(document.querySelector('[data-access-reason]')).toBeNull();
+    });
+  });
+
   describe('MenuItem visibleWhen', () => {
     it('renders when predicate returns true', () => {
       render(
@@ -10,6 +10,7 @@ import { DashFormContext, useEngineVisibility } from '@dashforge/ui-core';
 import { useComponentDefaults } from '@dashforge/tw-theme';
 import { cn } from '../../utils/cn.js';
 import { useAccessState } from '../../hooks/useAccessState.js';
+import { AccessReasonTooltip, useShowAccessReason } from '../_shared/access/index.js';
 import { menuVariants, placementToRadix } from './menu.variants.js';
 import type {
   MenuContentProps,
@@ -174,6 +175,7 @@ MenuContent.displayName = 'MenuContent';
  *
  * Bridge integration:
  *   - `access` — hides / disables the item per RBAC
+ *     (`showAccessReason` explains a disabled item in a tooltip)
  *   - `visibleWhen` — engine-reactive predicate
  *
  * Both gates fold into the visible/disabled state; when the
@@ -191,6 +193,7 @@ function MenuItemImpl(props: MenuItemProps) {
     selected,
     color = 'default',
     access,
+    showAccessReason,
     visibleWhen,
     className,
     sx,
@@ -202,6 +205,7 @@ function MenuItemImpl(props: MenuItemProps) {
   const bridge = useContext(DashFormContext);
   const isBridgeVisible = useEngineVisibility(bridge?.engine, visibleWhen);
   const accessState = useAccessState(access);
+  const showReason = useShowAccessReason(showAccessReason);
 
   if (!isBridgeVisible || !accessState.visible) return null;
 
@@ -211,25 +215,27 @@ function MenuItemImpl(props: MenuItemProps) {
   const v = menuVariants({ color, selected });
 
   return (
-    <RadixMenu.Item
-      disabled={isDisabled}
-      onSelect={(e) => {
-        if (isDisabled) return;
-        // Suppress default close behaviour when the parent <Menu>
-        // explicitly opted out (filter / multi-select pattern).
-        if (!closeOnItemClick) e.preventDefault();
-        onClick?.();
-      }}
-      className={cn(v.item(), sx, className)}
-    >
-      {icon != null && (
-        <span className={v.itemIcon()}>{icon}</span>
-      )}
-      <span className={v.itemLabel()}>{children}</span>
-      {endIcon != null && (
-        <span className={v.itemEnd()}>{endIcon}</span>
-      )}
-    </RadixMenu.Item>
+    <AccessReasonTooltip state={accessState} enabled={showReason} block>
+      <RadixMenu.Item
+        disabled={isDisabled}
+        onSelect={(e) => {
+          if (isDisabled) return;
+          // Suppress default close behaviour when the parent <Menu>
+          // explicitly opted out (filter / multi-select pattern).
+          if (!closeOnItemClick) e.preventDefault();
+          onClick?.();
+        }}
+        className={cn(v.item(), sx, className)}
+      >
+        {icon != null && (
+          <span className={v.itemIcon()}>{icon}</span>
+        )}
+        <span className={v.itemLabel()}>{children}</span>
+        {endIcon != null && (
+          <span className={v.itemEnd()}>{endIcon}</span>
+        )}
+      </RadixMenu.Item>
+    </AccessReasonTooltip>
   );
 }
 
@@ -182,6 +182,17 @@ export interface MenuItemProps {
    */
   access?: AccessRequirement;
 
+  /**
+   * When `access` disables the item, show why in a `<Tooltip>`
+   * (`AccessState.reason`: the policy's message, else
+   * `access.reason`). No tooltip when there is no reason.
+   *
+   * Defaults to `true` inside `<DataGrid showAccessReason>` row
+   * actions, `false` elsewhere.
+   * @default false
+   */
+  showAccessReason?: boolean;
+
   /**
    * Reactive visibility predicate. When `false`, the item renders
    * `null`. Use for state-driven menu items (e.g., "Restore" only
@@ -100,7 +100,7 @@ export function NumberField(props: NumberFieldProps) {
   // `bridge.getValue(name)` (mirrors MUI side — avoids first-render
   // undefined window from `useDashFieldMeta.value`).
   useDashFieldMeta(name);
-  const accessState = useAccessState(access);
+  const accessState = useAccessState(access, name);
 
   const inputId = useId();
 
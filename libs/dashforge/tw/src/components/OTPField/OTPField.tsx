@@ -74,7 +74,7 @@ export function OTPField(props: OTPFieldProps) {
   const bridge = useContext(DashFormContext) as DashFormBridge | null;
   const isVisible = useEngineVisibility(bridge?.engine, visibleWhen);
   useDashFieldMeta(name);
-  const accessState = useAccessState(access);
+  const accessState = useAccessState(access, name);
 
   const inputId = useId();
   const helperId = `${inputId}-help`;
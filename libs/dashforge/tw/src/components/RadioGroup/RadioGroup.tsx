@@ -76,7 +76,7 @@ export function RadioGroup(props: RadioGroupProps) {
   // first render before the subscription has primed — use
   // `bridge.getValue(name)` for the actual value (mirrors MUI side).
   useDashFieldMeta(name);
-  const groupAccessState = useAccessState(access);
+  const groupAccessState = useAccessState(access, name);
 
   // Per-option RBAC. Hooks-in-loop is safe as long as `options.length` is
   // stable across renders — documented as the contract for this component.
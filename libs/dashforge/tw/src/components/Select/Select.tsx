@@ -168,7 +168,7 @@ function SelectInner<V extends SelectValue = string>(
   const bridge = useContext(DashFormContext) as DashFormBridge | null;
   const isVisible = useEngineVisibility(bridge?.engine, visibleWhen);
   const fieldMeta = useDashFieldMeta(name);
-  const accessState = useAccessState(access);
+  const accessState = useAccessState(access, name);
 
   const controlId = useId();
   const listboxId = `${controlId}-listbox`;
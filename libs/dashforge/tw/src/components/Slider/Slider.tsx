@@ -156,7 +156,7 @@ export const Slider = forwardRef<HTMLSpanElement, SliderProps>(function Slider(
   const bridge = useContext(DashFormContext) as DashFormBridge | null;
   const isVisible = useEngineVisibility(bridge?.engine, visibleWhen);
   const fieldMeta = useDashFieldMeta(name);
-  const accessState = useAccessState(access);
+  const accessState = useAccessState(access, name);
 
   const controlId = useId();
   const helperId = `${controlId}-help`;
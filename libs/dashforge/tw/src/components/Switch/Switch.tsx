@@ -48,7 +48,7 @@ export function Switch(props: SwitchProps) {
   const isVisible = useEngineVisibility(bridge?.engine, visibleWhen);
   // Reactive snapshot — see Checkbox.tsx for the same rationale.
   const fieldMeta = useDashFieldMeta(name);
-  const accessState = useAccessState(access);
+  const accessState = useAccessState(access, name);
 
   const controlId = useId();
 
@@ -68,7 +68,7 @@ export function TextField(props: TextFieldProps) {
   // read with no subscription) so React re-renders this field on its
   // own state mutations — the canonical pattern, mirrors the MUI side.
   const fieldMeta = useDashFieldMeta(name);
-  const accessState = useAccessState(access);
+  const accessState = useAccessState(access, name);
 
   const inputId = useId();
   const helperId = `${inputId}-help`;
@@ -56,7 +56,7 @@ export function Textarea(props: TextareaProps) {
   const bridge = useContext(DashFormContext) as DashFormBridge | null;
   const isVisible = useEngineVisibility(bridge?.engine, visibleWhen);
   const fieldMeta = useDashFieldMeta(name);
-  const accessState = useAccessState(access);
+  const accessState = useAccessState(access, name);
 
   const inputId = useId();
   const helperId = `${inputId}-help`;
@@ -72,7 +72,7 @@ export function TimePicker(_props: TimePickerProps) {
   const bridge = useContext(DashFormContext) as DashFormBridge | null;
   const isVisible = useEngineVisibility(bridge?.engine, visibleWhen);
   const fieldMeta = useDashFieldMeta(name);
-  const accessState = useAccessState(access);
+  const accessState = useAccessState(access, name);
 
   const fieldId = useId();
   const helperId = `${fieldId}-help`;
@@ -0,0 +1,79 @@
+import { createContext, useContext } from 'react';
+import type { ReactElement } from 'react';
+import type { AccessState } from '@dashforge/rbac';
+import { Tooltip } from '../../Tooltip/Tooltip.js';
+
+/**
+ * Default for `showAccessReason` of the access-aware components below
+ * a provider. `<DataGrid showAccessReason>` provides `true` around its
+ * row actions so every Button / IconButton / MenuItem in them opts in
+ * without repeating the prop.
+ *
+ * @internal
+ */
+export const AccessReasonContext = createContext(false);
+
+/**
+ * Resolves `showAccessReason`: the instance prop wins, otherwise the
+ * nearest `AccessReasonContext` value.
+ *
+ * @internal
+ */
+export function useShowAccessReason(prop: boolean | undefined): boolean {
+  const inherited = useContext(AccessReasonContext);
+  return prop ?? inherited;
+}
+
+export interface AccessReasonTooltipProps {
+  /** Resolved access state of the wrapped element. */
+  state: AccessState;
+  /** Whether the reason should be shown at all (`showAccessReason`). */
+  enabled: boolean;
+  /**
+   * Render the trigger wrapper as a block (menu rows) instead of
+   * `inline-flex` (buttons).
+   * @default false
+   */
+  block?: boolean;
+  /** The access-controlled element. */
+  children: ReactElement;
+}
+
+/**
+ * Wraps an RBAC-disabled element in a `<Tooltip>` showing why access
+ * was denied (`AccessState.reason`).
+ *
+ * Disabled buttons and menu items have `pointer-events: none` and no
+ * focus, so they cannot be tooltip triggers themselves: the tooltip
+ * hangs on a focusable wrapper `<span>` instead. Renders `children`
+ * untouched when not enabled, granted, hidden or without a reason.
+ *
+ * @internal
+ */
+export function AccessReasonTooltip({
+  state,
+  enabled,
+  block = false,
+  children,
+}: AccessReasonTooltipProps) {
+  if (
+    !enabled ||
+    state.granted ||
+    state.reason === undefined ||
+    !(state.disabled || state.readonly)
+  ) {
+    return children;
+  }
+
+  return (
+    <Tooltip content={state.reason}>
+      <span
+        tabIndex={0}
+        data-access-reason=""
+        className={block ? 'block' : 'inline-flex'}
+      >
+        {children}
+      </span>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,14 @@
+/**
+ * `_shared/access/` — shows RBAC denial reasons on access-controlled
+ * components (Button, IconButton, MenuItem, DataGrid row actions).
+ *
+ * Consumers import from this barrel — never reach into the individual
+ * files.
+ */
+
+export {
+  AccessReasonContext,
+  AccessReasonTooltip,
+  useShowAccessReason,
+} from './AccessReasonTooltip.js';
+export type { AccessReasonTooltipProps } from './AccessReasonTooltip.js';
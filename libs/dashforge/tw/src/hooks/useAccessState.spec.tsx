@@ -147,6 +147,51 @@ describe('useAccessState (tw)', () => {
     });
   });
 
+  describe('evaluation', () => {
+    it('evaluates a denial once', () => {
+      const access: AccessRequirement = {
+        resource: 'document',
+        action: 'update',
+        onUnauthorized: 'disable',
+      };
+      const audit = { sink: vi.fn() };
+      function Wrapper({ children }: { children: React.ReactNode }) {
+        return (
+          <RbacProvider
+            policy={READ_ONLY_POLICY}
+            subject={viewerSubject}
+            audit={audit}
+          >
+            {children}
+          </RbacProvider>
+        );
+      }
+      const { result } = renderHook(() => useAccessState(access), {
+        wrapper: Wrapper,
+      });
+      expect(result.current.granted).toBe(false);
+      expect(audit.sink).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('scope', () => {
+    it('applies the provider scope to access checks', () => {
+      const subject: Subject = {
+        id: 'scoped-user',
+        roles: [],
+        scopedRoles: [{ scope: 'workspace:a', roles: ['viewer'] }],
+      };
+      const access: AccessRequirement = { resource: 'document', action: 'read' };
+      const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <RbacProvider policy={READ_ONLY_POLICY} subject={subject} scope="workspace:a">
+          {children}
+        </RbacProvider>
+      );
+      const { result } = renderHook(() => useAccessState(access), { wrapper });
+      expect(result.current.granted).toBe(true);
+    });
+  });
+
   describe('memoization', () => {
     it('returns identical reference when access reference stays the same', () => {
       const access: AccessRequirement = { resource: 'doc', action: 'read' };
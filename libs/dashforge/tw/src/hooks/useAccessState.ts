@@ -1,5 +1,11 @@
-import { useMemo } from 'react';
-import { useRbacOptional, resolveAccessState } from '@dashforge/rbac';
+import { useContext, useMemo } from 'react';
+import { DashFormContext } from '@dashforge/ui-core';
+import {
+  useRbacOptional,
+  resolveAccessState,
+  withScope,
+  useAccessStateReport,
+} from '@dashforge/rbac';
 import type { AccessRequirement, AccessState } from '@dashforge/rbac';
 
 /**
@@ -26,6 +32,8 @@ const DEFAULT_ACCESS_STATE: AccessState = {
  *
  * The behaviour is byte-equivalent to the MUI side:
  *
+ *  - If `access` is undefined and `name` is covered by the form's
+ *    `fieldAccess` rules → returns the state resolved by the form.
  *  - If `access` is undefined → returns `DEFAULT_ACCESS_STATE`.
  *  - If `access` is supplied but no `RbacProvider` is mounted → returns
  *    `DEFAULT_ACCESS_STATE` and emits a dev-only `console.warn` so the
@@ -33,9 +41,11 @@ const DEFAULT_ACCESS_STATE: AccessState = {
  *    safer default (RBAC silently denying everything would be a hidden
  *    regression in development).
  *  - Otherwise → evaluates the requirement against the active
- *    `rbac.engine` + `rbac.subject` via `resolveAccessState`.
+ *    `rbac.engine` + `rbac.subject` via `resolveAccessState`. A denied
+ *    state carries `reason` (the policy's message, else
+ *    `access.reason`) for components showing why they are disabled.
  *
- * The memo dependency list is `[access, rbac]` — a stable RBAC
+ * The memo dependency list is `[access, rbac, fieldAccess]` — a stable RBAC
  * context + identical access requirement re-uses the same result
  * object so downstream `useMemo` / `React.memo` comparisons stay
  * cheap.
@@ -50,16 +60,25 @@ const DEFAULT_ACCESS_STATE: AccessState = {
  * ```
  */
 export function useAccessState(
-  access: AccessRequirement | undefined
+  access: AccessRequirement | undefined,
+  name?: string
 ): AccessState {
   // Hooks are called unconditionally to comply with the rules of hooks.
   // `useRbacOptional` returns `null` when no provider is mounted
   // (it does NOT throw — that's intentional, see its doc).
   const rbac = useRbacOptional();
+  const bridge = useContext(DashFormContext);
 
-  return useMemo(() => {
+  // Form-level `fieldAccess` rule covering this field (resolved by the
+  // provider). An explicit `access` prop always takes precedence.
+  const fieldAccess =
+    !access && name !== undefined
+      ? bridge?.getFieldAccess?.(name) ?? null
+      : null;
+
+  const state = useMemo(() => {
     if (!access) {
-      return DEFAULT_ACCESS_STATE;
+      return fieldAccess ?? DEFAULT_ACCESS_STATE;
     }
 
     if (!rbac) {
@@ -74,8 +93,15 @@ export function useAccessState(
       return DEFAULT_ACCESS_STATE;
     }
 
+    // One evaluate() gives both the decision and, on denial, the policy's
+    // reason
     return resolveAccessState(access, (request) =>
-      rbac.engine.can(rbac.subject, request)
+      rbac.engine.evaluate(rbac.subject, withScope(request, rbac.scope))
     );
-  }, [access, rbac]);
+  }, [access, rbac, fieldAccess]);
+
+  // Lists the element in RbacDebugPanel (no-op in production)
+  useAccessStateReport(rbac ? access : undefined, state);
+
+  return state;
 }
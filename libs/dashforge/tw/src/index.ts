@@ -703,6 +703,12 @@ export type {
 } from './components/DataGrid/dataGrid.types.js';
 export { dataGridVariants } from './components/DataGrid/dataGrid.variants.js';
 
+// JsonSchemaForm — the `@dashforge/forms` schema renderer wired to the
+// field components above (widgets) plus Grid / Button templates.
+
+export { JsonSchemaForm } from './components/JsonSchemaForm/JsonSchemaForm.js';
+export type { JsonSchemaFormProps } from './components/JsonSchemaForm/jsonSchemaForm.types.js';
+
 // ───── Hooks ─────
 export { useAccessState } from './hooks/useAccessState.js';
 
@@ -61,6 +61,20 @@ export interface BridgeFieldError {
   message?: string;
 }
 
+/**
+ * Resolved access state of a form field (BOUNDARY CONTRACT).
+ *
+ * Same shape as `AccessState` in @dashforge/rbac, duplicated for the same
+ * reason as FieldRuntimeState: ui-core does not depend on rbac.
+ * Both definitions MUST stay aligned.
+ */
+export interface BridgeFieldAccess {
+  visible: boolean;
+  disabled: boolean;
+  readonly: boolean;
+  granted: boolean;
+}
+
 /**
  * Minimal bridge interface for form integration.
  * This allows ui components to detect and integrate with DashForm
@@ -77,7 +91,8 @@ export interface BridgeFieldError {
  * `isTouched`, `isDirty`, `submitCount`, `subscribeField`.
  *
  * **Optional (feature-gated; presence depends on the bridge implementation):**
- * `getFieldRuntime`, `setFieldRuntime`, `subscribeFieldRuntime`, `debug`.
+ * `getFieldRuntime`, `setFieldRuntime`, `subscribeFieldRuntime`, `debug`,
+ * `trigger`, `getFieldAccess`.
  *
  * **Standalone (no-provider) mode is preserved:** consumers that read the
  * bridge via `useContext(DashFormContext)` still get `null` when no
@@ -257,6 +272,29 @@ export interface DashFormBridge {
    * @param name - Field name or array of field names. Omit for the whole form.
    */
   trigger?: (name?: string | string[]) => Promise<boolean>;
+
+  /**
+   * Resolved access state of a field from the form's field-level access rules
+   * (`fieldAccess` on DashForm / DashFormProvider).
+   * Returns null when no rule covers the field.
+   *
+   * Optional / feature-gated: UI components fall back to this state when
+   * they have no explicit `access` prop of their own.
+   *
+   * @param name - Field name (supports dot paths)
+   */
+  getFieldAccess?: (name: string) => BridgeFieldAccess | null;
+
+  /**
+   * Whether an async validator check is scheduled or in flight for a field
+   * (`asyncValidate` rule). Changes are notified through `subscribeField`.
+   *
+   * Optional / feature-gated: a missing implementation means no async
+   * validation.
+   *
+   * @param name - Field name (supports dot paths)
+   */
+  isValidating?: (name: string) => boolean;
 }
 
 /**
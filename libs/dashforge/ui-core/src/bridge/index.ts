@@ -3,4 +3,9 @@
  * Defines the boundary contract between form providers and consumers
  */
 export { DashFormContext } from './DashFormBridge';
-export type { DashFormBridge, FieldRegistration, BridgeFieldError } from './DashFormBridge';
+export type {
+  DashFormBridge,
+  FieldRegistration,
+  BridgeFieldError,
+  BridgeFieldAccess,
+} from './DashFormBridge';
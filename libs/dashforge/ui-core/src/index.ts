@@ -267,7 +267,12 @@ export type {
 // ============================================================================
 
 export { DashFormContext } from './bridge';
-export type { DashFormBridge, FieldRegistration, BridgeFieldError } from './bridge';
+export type {
+  DashFormBridge,
+  FieldRegistration,
+  BridgeFieldError,
+  BridgeFieldAccess,
+} from './bridge';
 
 // ============================================================================
 // VERSION & METADATA
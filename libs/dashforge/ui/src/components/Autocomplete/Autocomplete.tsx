@@ -252,7 +252,7 @@ export function Autocomplete<
   const isVisible = useEngineVisibility(engine, visibleWhen);
 
   // RBAC access state (hook always called unconditionally)
-  const accessState = useAccessState(access);
+  const accessState = useAccessState(access, name);
 
   // Granular per-field subscription (replaces legacy global void-version trick).
   useDashFieldMeta(name);
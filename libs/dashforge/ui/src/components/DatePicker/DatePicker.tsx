@@ -108,7 +108,7 @@ export function DatePicker(props: DatePickerProps) {
   const dashTheme = useDashTheme();
   useDashFieldMeta(name);
   const isVisible = useEngineVisibility(engine, visibleWhen);
-  const accessState = useAccessState(access);
+  const accessState = useAccessState(access, name);
 
   const [internalValue, setInternalValue] = useState<ISODate | null>(
     defaultValue ?? null,
@@ -408,7 +408,7 @@ export function DateRangePicker(props: DateRangePickerProps) {
   const dashTheme = useDashTheme();
   useDashFieldMeta(name);
   const isVisible = useEngineVisibility(engine, visibleWhen);
-  const accessState = useAccessState(access);
+  const accessState = useAccessState(access, name);
 
   const [internalValue, setInternalValue] = useState<DateRange>(
     defaultValue ?? EMPTY_RANGE,
@@ -146,7 +146,7 @@ export function DateTimePicker(props: DateTimePickerProps) {
   const dashTheme = useDashTheme();
   useDashFieldMeta(name);
   const isVisible = useEngineVisibility(engine, visibleWhen);
-  const accessState = useAccessState(access);
+  const accessState = useAccessState(access, name);
 
   const [internalValue, setInternalValue] = useState<string | null>(
     defaultValue ?? null,
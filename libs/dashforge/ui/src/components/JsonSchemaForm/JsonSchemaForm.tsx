@@ -0,0 +1,239 @@
+import Box from '@mui/material/Box';
+import FormHelperText from '@mui/material/FormHelperText';
+import { Children, useMemo } from 'react';
+import { JsonSchemaForm as BaseJsonSchemaForm } from '@dashforge/forms';
+import type {
+  JsonSchemaArrayTemplateProps,
+  JsonSchemaComponents,
+  JsonSchemaObjectTemplateProps,
+  JsonSchemaWidgetProps,
+} from '@dashforge/forms';
+import { TextField } from '../TextField/TextField';
+import { Textarea } from '../Textarea/Textarea';
+import { NumberField } from '../NumberField/NumberField';
+import { Select } from '../Select/Select';
+import { RadioGroup } from '../RadioGroup/RadioGroup';
+import { Checkbox } from '../Checkbox/Checkbox';
+import { Switch } from '../Switch/Switch';
+import { DatePicker } from '../DatePicker/DatePicker';
+import { DateTimePicker } from '../DateTimePicker/DateTimePicker';
+import { TimePicker } from '../TimePicker/TimePicker';
+import { Button } from '../Button/Button';
+import type { JsonSchemaFormProps } from './jsonSchemaForm.types';
+
+/**
+ * Props shared by every field: all of them register through the bridge
+ * with `name` + `rules`.
+ */
+function fieldProps({ name, field }: JsonSchemaWidgetProps) {
+  return {
+    name,
+    label: field.label,
+    rules: field.rules,
+    helperText: field.helperText,
+  };
+}
+
+const widgets: JsonSchemaComponents['widgets'] = {
+  text: (props) => (
+    <TextField
+      {...fieldProps(props)}
+      required={props.field.required}
+      type={props.field.inputType}
+      placeholder={props.field.placeholder}
+      fullWidth
+    />
+  ),
+  textarea: (props) => (
+    <Textarea
+      {...fieldProps(props)}
+      required={props.field.required}
+      placeholder={props.field.placeholder}
+      fullWidth
+    />
+  ),
+  number: (props) => (
+    <NumberField
+      {...fieldProps(props)}
+      required={props.field.required}
+      placeholder={props.field.placeholder}
+      slotProps={{
+        htmlInput: {
+          min: props.field.min,
+          max: props.field.max,
+          step: props.field.step,
+        },
+      }}
+      fullWidth
+    />
+  ),
+  select: (props) => (
+    <Select
+      {...fieldProps(props)}
+      required={props.field.required}
+      options={props.field.options ?? []}
+      fullWidth
+    />
+  ),
+  // RadioGroup values are strings: numeric enums are stored as strings
+  radio: (props) => (
+    <RadioGroup
+      {...fieldProps(props)}
+      options={(props.field.options ?? []).map((option) => ({
+        value: String(option.value),
+        label: option.label,
+      }))}
+    />
+  ),
+  checkbox: (props) => <Checkbox {...fieldProps(props)} />,
+  switch: (props) => <Switch {...fieldProps(props)} />,
+  date: (props) => (
+    <DatePicker
+      {...fieldProps(props)}
+      required={props.field.required}
+      placeholder={props.field.placeholder}
+    />
+  ),
+  datetime: (props) => (
+    <DateTimePicker
+      {...fieldProps(props)}
+      required={props.field.required}
+      placeholder={props.field.placeholder}
+    />
+  ),
+  time: (props) => (
+    <TimePicker
+      {...fieldProps(props)}
+      required={props.field.required}
+      placeholder={props.field.placeholder}
+    />
+  ),
+};
+
+/**
+ * CSS grid of `columns`: fields fill one cell, nested objects and arrays
+ * span the row. The root object renders without a `<fieldset>`.
+ */
+function ObjectTemplate({ name, field, children }: JsonSchemaObjectTemplateProps) {
+  const grid = (
+    <Box
+      sx={{
+        display: 'grid',
+        gridTemplateColumns: `repeat(${field.columns}, minmax(0, 1fr))`,
+        gap: 2,
+      }}
+    >
+      {Children.toArray(children).map((child, index) =>
+        field.children[index]?.kind === 'field' ? (
+          child
+        ) : (
+          <Box
+            key={field.children[index]?.key ?? index}
+            sx={{ gridColumn: '1 / -1' }}
+          >
+            {child}
+          </Box>
+        )
+      )}
+    </Box>
+  );
+
+  if (!name) {
+    return grid;
+  }
+
+  return (
+    <Box component="fieldset" sx={{ border: 0, m: 0, p: 0, minWidth: 0 }}>
+      {field.label && (
+        <Box component="legend" sx={{ typography: 'subtitle2', mb: 1 }}>
+          {field.label}
+        </Box>
+      )}
+      {field.helperText && (
+        <FormHelperText sx={{ mt: 0, mb: 1 }}>{field.helperText}</FormHelperText>
+      )}
+      {grid}
+    </Box>
+  );
+}
+
+function ArrayTemplate({
+  field,
+  items,
+  add,
+  canAdd,
+  canRemove,
+}: JsonSchemaArrayTemplateProps) {
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Box sx={{ typography: 'subtitle2' }}>{field.label}</Box>
+      {field.helperText && (
+        <FormHelperText sx={{ mt: 0 }}>{field.helperText}</FormHelperText>
+      )}
+      {items.map((item) => (
+        <Box
+          key={item.key}
+          sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}
+        >
+          <Box sx={{ flex: 1 }}>{item.content}</Box>
+          <Button
+            color="error"
+            size="small"
+            disabled={!canRemove}
+            onClick={item.remove}
+            aria-label={`Remove ${field.label} ${item.index + 1}`}
+          >
+            Remove
+          </Button>
+        </Box>
+      ))}
+      <Box>
+        <Button
+          variant="outlined"
+          size="small"
+          disabled={!canAdd}
+          onClick={add}
+        >
+          {field.addLabel}
+        </Button>
+      </Box>
+    </Box>
+  );
+}
+
+/**
+ * JSON Schema driven form built with the Dashforge UI (MUI) fields.
+ *
+ * Strings render as `TextField` (`email` / `uri` formats set the input
+ * type), numbers as `NumberField`, enums as `Select`, booleans as
+ * `Checkbox`, `date` / `date-time` / `time` formats as the pickers;
+ * `uiSchema.widget` switches to `textarea`, `radio` or `switch`.
+ * Objects lay out on a grid of `uiSchema.columns`; arrays of objects get
+ * add / remove buttons bounded by `minItems` / `maxItems`.
+ *
+ * See `JsonSchemaForm` in `@dashforge/forms` for the supported schema
+ * subset and the `uiSchema` hints.
+ *
+ * @example
+ * ```tsx
+ * <JsonSchemaForm
+ *   schema={userSchema}
+ *   uiSchema={{ columns: 2, fields: { bio: { widget: 'textarea' } } }}
+ *   onSubmit={saveUser}
+ * >
+ *   <Button type="submit">Save</Button>
+ * </JsonSchemaForm>
+ * ```
+ */
+export function JsonSchemaForm({ components, ...props }: JsonSchemaFormProps) {
+  const merged = useMemo<JsonSchemaComponents>(
+    () => ({
+      ObjectTemplate: components?.ObjectTemplate ?? ObjectTemplate,
+      ArrayTemplate: components?.ArrayTemplate ?? ArrayTemplate,
+      widgets: { ...widgets, ...components?.widgets },
+    }),
+    [components]
+  );
+
+  return <BaseJsonSchemaForm {...props} components={merged} />;
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import type { JsonSchema, JsonSchemaWidgetProps } from '@dashforge/forms';
+import { JsonSchemaForm } from './JsonSchemaForm';
+
+const schema: JsonSchema = {
+  type: 'object',
+  required: ['email'],
+  properties: {
+    email: { type: 'string', format: 'email', title: 'Email' },
+    plan: { enum: ['free', 'pro'] },
+    contacts: {
+      type: 'array',
+      maxItems: 1,
+      items: {
+        type: 'object',
+        properties: { phone: { type: 'string' } },
+      },
+    },
+  },
+};
+
+/**
+ * Unit tests for the MUI JsonSchemaForm: default widgets, array template
+ * and widget overrides. Schema compilation is covered in @dashforge/forms.
+ */
+describe('JsonSchemaForm', () => {
+  it('renders Dashforge UI fields for the inferred widgets', () => {
+    render(<JsonSchemaForm schema={schema} />);
+
+    expect(screen.getByLabelText(/Email/)).toHaveAttribute('type', 'email');
+    expect(screen.getByRole('combobox')).toBeInTheDocument();
+  });
+
+  it('adds and removes array items up to maxItems', () => {
+    render(<JsonSchemaForm schema={schema} />);
+    const add = screen.getByRole('button', { name: 'Add' });
+
+    fireEvent.click(add);
+    expect(screen.getByLabelText('Phone')).toBeInTheDocument();
+    expect(add).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove Contacts 1' }));
+    expect(screen.queryByLabelText('Phone')).not.toBeInTheDocument();
+  });
+
+  it('shows schema validation errors and blocks submit', async () => {
+    const onSubmit = vi.fn();
+    const { container } = render(
+      <JsonSchemaForm schema={schema} onSubmit={onSubmit} />
+    );
+
+    fireEvent.submit(container.querySelector('form') as HTMLFormElement);
+
+    expect(await screen.findByText('Email is required')).toBeInTheDocument();
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it('merges custom widgets over the defaults', () => {
+    const Stars = ({ name }: JsonSchemaWidgetProps) => (
+      <output>stars:{name}</output>
+    );
+
+    render(
+      <JsonSchemaForm
+        schema={{
+          type: 'object',
+          properties: { rating: { type: 'number' }, note: { type: 'string' } },
+        }}
+        uiSchema={{ fields: { rating: { widget: 'stars' } } }}
+        components={{ widgets: { stars: Stars } }}
+      />
+    );
+
+    expect(screen.getByText('stars:rating')).toBeInTheDocument();
+    expect(screen.getByLabelText('Note')).toBeInTheDocument();
+  });
+});
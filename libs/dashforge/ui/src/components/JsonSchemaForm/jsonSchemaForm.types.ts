@@ -0,0 +1,17 @@
+import type {
+  JsonSchemaComponents,
+  JsonSchemaFormProps as BaseJsonSchemaFormProps,
+} from '@dashforge/forms';
+
+/**
+ * Props for the MUI {@link JsonSchemaForm}.
+ *
+ * Same as the `@dashforge/forms` `JsonSchemaForm`, with `components`
+ * optional: the Dashforge UI fields and MUI templates are the defaults,
+ * and `widgets` passed here are merged over them by name.
+ */
+export interface JsonSchemaFormProps
+  extends Omit<BaseJsonSchemaFormProps, 'components'> {
+  /** Widget / template overrides, merged over the defaults. */
+  components?: Partial<JsonSchemaComponents>;
+}
@@ -113,7 +113,7 @@ export function NumberField(
   const isVisible = useEngineVisibility(engine, visibleWhen);
 
   // RBAC access state (hook always called unconditionally)
-  const accessState = useAccessState(access);
+  const accessState = useAccessState(access, name);
 
   // Release engine/RHF state on REAL unmount when registered through the
   // bridge. See TextField.tsx for the rationale (bridge identity changes
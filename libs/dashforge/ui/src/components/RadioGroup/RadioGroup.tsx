@@ -114,7 +114,7 @@ export function RadioGroup(props: RadioGroupProps): React.ReactElement | null {
   useDashFieldMeta(name);
 
   // RBAC access state for group (hook always called unconditionally)
-  const groupAccessState = useAccessState(access);
+  const groupAccessState = useAccessState(access, name);
 
   // Release engine/RHF state on REAL unmount when registered through the
   // bridge. See TextField.tsx for the rationale (bridge identity changes
@@ -78,7 +78,7 @@ export function Switch(props: SwitchProps) {
   const isVisible = useEngineVisibility(engine, visibleWhen);
 
   // RBAC access state (always called unconditionally)
-  const accessState = useAccessState(access);
+  const accessState = useAccessState(access, name);
 
   // Release engine/RHF state on REAL unmount when registered through the
   // bridge. See TextField.tsx for the rationale (bridge identity changes
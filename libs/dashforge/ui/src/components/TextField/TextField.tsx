@@ -78,7 +78,7 @@ export function TextField(props: TextFieldProps) {
   const isVisible = useEngineVisibility(engine, visibleWhen);
 
   // RBAC access state (hook always called unconditionally)
-  const accessState = useAccessState(access);
+  const accessState = useAccessState(access, name);
 
   // Release engine/RHF state on REAL unmount when registered through the
   // bridge. Important details:
@@ -90,7 +90,7 @@ export function TimePicker(props: TimePickerProps) {
   const dashTheme = useDashTheme();
   useDashFieldMeta(name);
   const isVisible = useEngineVisibility(engine, visibleWhen);
-  const accessState = useAccessState(access);
+  const accessState = useAccessState(access, name);
 
   const [internalValue, setInternalValue] = useState<string | null>(
     defaultValue ?? null,
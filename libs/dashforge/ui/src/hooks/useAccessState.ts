@@ -1,5 +1,11 @@
-import { useMemo } from 'react';
-import { useRbacOptional, resolveAccessState } from '@dashforge/rbac';
+import { useContext, useMemo } from 'react';
+import { DashFormContext } from '@dashforge/ui-core';
+import {
+  useRbacOptional,
+  resolveAccessState,
+  withScope,
+  useAccessStateReport,
+} from '@dashforge/rbac';
 import type { AccessRequirement, AccessState } from '@dashforge/rbac';
 
 // Default full access state (used when no access requirement or no RbacProvider)
@@ -16,6 +22,10 @@ const DEFAULT_ACCESS_STATE: AccessState = {
  * This hook evaluates the provided AccessRequirement against the current
  * RBAC context and returns the resolved access state (visible/disabled/readonly).
  *
+ * **Form-level rules**:
+ * - If `access` is undefined and `name` is covered by the enclosing form's
+ *   `fieldAccess` rules, returns the state resolved by the form
+ *
  * **Safe Fallback Behavior**:
  * - If `access` is undefined: Returns default full access state
  * - If `access` is defined but no RbacProvider exists: Returns default full access state
@@ -26,7 +36,9 @@ const DEFAULT_ACCESS_STATE: AccessState = {
  * - Prevents unnecessary re-renders in consuming components
  *
  * @param access - Optional access requirement specification
- * @returns AccessState with visible, disabled, readonly, and granted flags
+ * @param name - Form field name, used to look up form-level `fieldAccess` rules
+ * @returns AccessState with visible, disabled, readonly, and granted flags,
+ *   plus the denial reason (policy message, else `access.reason`) when denied
  *
  * @example
  * ```tsx
@@ -45,15 +57,24 @@ const DEFAULT_ACCESS_STATE: AccessState = {
  * ```
  */
 export function useAccessState(
-  access: AccessRequirement | undefined
+  access: AccessRequirement | undefined,
+  name?: string
 ): AccessState {
   // Hooks are called unconditionally to comply with the rules of hooks.
   // useRbacOptional() returns null when no RbacProvider is mounted (no throw).
   const rbac = useRbacOptional();
+  const bridge = useContext(DashFormContext);
+
+  // Form-level `fieldAccess` rule covering this field (resolved by the
+  // provider). An explicit `access` prop always takes precedence.
+  const fieldAccess =
+    !access && name !== undefined
+      ? bridge?.getFieldAccess?.(name) ?? null
+      : null;
 
-  return useMemo(() => {
+  const state = useMemo(() => {
     if (!access) {
-      return DEFAULT_ACCESS_STATE;
+      return fieldAccess ?? DEFAULT_ACCESS_STATE;
     }
 
     if (!rbac) {
@@ -67,8 +88,15 @@ export function useAccessState(
       return DEFAULT_ACCESS_STATE;
     }
 
+    // One evaluate() gives both the decision and, on denial, the policy's
+    // reason
     return resolveAccessState(access, (request) =>
-      rbac.engine.can(rbac.subject, request)
+      rbac.engine.evaluate(rbac.subject, withScope(request, rbac.scope))
     );
-  }, [access, rbac]);
+  }, [access, rbac, fieldAccess]);
+
+  // Lists the element in RbacDebugPanel (no-op in production)
+  useAccessStateReport(rbac ? access : undefined, state);
+
+  return state;
 }
@@ -175,6 +175,30 @@ describe('useAccessState', () => {
       });
     });
 
+    it('evaluates a denial once', () => {
+      const access: AccessRequirement = {
+        resource: 'document',
+        action: 'update',
+        onUnauthorized: 'disable',
+      };
+      const audit = { sink: vi.fn() };
+
+      const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <RbacProvider
+          policy={READ_ONLY_POLICY}
+          subject={viewerSubject}
+          audit={audit}
+        >
+          {children}
+        </RbacProvider>
+      );
+
+      const { result } = renderHook(() => useAccessState(access), { wrapper });
+
+      expect(result.current.granted).toBe(false);
+      expect(audit.sink).toHaveBeenCalledTimes(1);
+    });
+
     it('passes resourceData to access check', () => {
       const access: AccessRequirement = {
         resource: 'document',
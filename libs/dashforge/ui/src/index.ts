@@ -97,3 +97,6 @@ export type { DateRangePickerProps } from './components/DateRangePicker/dateRang
 
 export { Tabs } from './components/Tabs/Tabs';
 export type { TabsProps, TabItem } from './components/Tabs/tabs.types';
+
+export { JsonSchemaForm } from './components/JsonSchemaForm/JsonSchemaForm';
+export type { JsonSchemaFormProps } from './components/JsonSchemaForm/jsonSchemaForm.types';